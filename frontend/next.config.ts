@@ -36,6 +36,11 @@ const nextConfig: NextConfig = {
         source: '/api/books/:path*',
         destination: 'http://localhost:8080/api/books/:path*',
       },
+      // Stored files such as book covers and chapter illustrations
+      {
+        source: '/objects/:path*',
+        destination: 'http://localhost:8080/objects/:path*',
+      },
     ];
   },
 };
@@ -0,0 +1,884 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+
+// A word as stored in the chapter's elevenLabsTimingData, times in seconds
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  startTime: number;
+  endTime: number;
+  charStart: number;
+  charEnd: number;
+  isPause?: boolean;
+  isEstimated?: boolean;
+  speaker?: string;
+}
+
+interface TimingVersion {
+  id: number;
+  version: number;
+  source: 'generated' | 'editor' | 'restore';
+  note: string | null;
+  createdAt: string;
+  createdBy: string | null;
+  wordCount: number;
+  matchesAudio: boolean;
+}
+
+type TimingIssueType = 'zero_length' | 'overlap' | 'non_monotonic' | 'long_gap' | 'past_duration' | 'estimated';
+
+// The server's last quality check of the saved timings
+interface TimingQuality {
+  score: number;
+  accuracy: 'perfect' | 'good' | 'fallback';
+  wordCount: number;
+  problemWords: number;
+  counts: Record<TimingIssueType, number>;
+  issues: { type: TimingIssueType; wordIndex: number; text: string; start: number; end: number }[];
+  checkedAt: string;
+}
+
+interface ChapterTimings {
+  chapter: { id: string; bookId: string; title: string; indexInBook: number; audioUrl: string | null };
+  timingData: { words: TimedWord[]; totalDuration: number } | null;
+  baseline: string | null;
+  quality: TimingQuality | null;
+  versions: TimingVersion[];
+}
+
+interface Selection {
+  from: number;
+  to: number;
+}
+
+// The boundary being dragged; linked when it touches the neighbouring word, which then moves with it
+interface BoundaryDrag {
+  index: number;
+  edge: 'start' | 'end';
+  originX: number;
+  originTime: number;
+  linked: boolean;
+}
+
+const MIN_WORD_SECONDS = 0.02;
+const PEAKS_PER_SECOND = 100;
+const WAVEFORM_SAMPLE_RATE = 8000; // Decoding at a low rate keeps a long chapter's samples small
+const WAVEFORM_HEIGHT = 140;
+const ZOOM_LEVELS = [50, 100, 200, 400]; // Pixels per second
+
+const ISSUE_LABELS: Record<TimingIssueType, string> = {
+  zero_length: 'Zero length',
+  overlap: 'Overlaps the word before',
+  non_monotonic: 'Out of order',
+  long_gap: 'Long gap before',
+  past_duration: 'Past the end of the audio',
+  estimated: 'Estimated',
+};
+
+const SOURCE_LABELS: Record<TimingVersion['source'], string> = {
+  generated: 'Generated',
+  editor: 'Edited',
+  restore: 'Restored',
+};
+
+function audioSrc(audioUrl: string): string {
+  return /^(https?:|\/objects\/)/.test(audioUrl) ? audioUrl : `/audio/${audioUrl.replace(/^\/?(audio\/)?/, '')}`;
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+}
+
+// Times set by hand are no longer estimates
+function withTimes(word: TimedWord, start: number, end: number): TimedWord {
+  const timed: TimedWord = { ...word, start, end, startTime: start, endTime: end };
+  delete timed.isEstimated;
+  return timed;
+}
+
+/**
+ * Move one edge of a word, keeping it clear of its neighbours
+ * A linked edge drags the touching edge of the neighbour along
+ */
+function moveBoundary(words: TimedWord[], drag: BoundaryDrag, time: number, duration: number): TimedWord[] {
+  const next = [...words];
+  const word = words[drag.index];
+
+  if (drag.edge === 'start') {
+    const previous = words[drag.index - 1];
+    const min = previous ? (drag.linked ? previous.start + MIN_WORD_SECONDS : previous.end) : 0;
+    const start = Math.min(Math.max(time, min), Math.max(word.end - MIN_WORD_SECONDS, min));
+    next[drag.index] = withTimes(word, start, word.end);
+    if (previous && drag.linked) next[drag.index - 1] = withTimes(previous, previous.start, start);
+  } else {
+    const following = words[drag.index + 1];
+    const max = following ? (drag.linked ? following.end - MIN_WORD_SECONDS : following.start) : duration;
+    const end = Math.max(Math.min(time, max), Math.min(word.start + MIN_WORD_SECONDS, max));
+    next[drag.index] = withTimes(word, word.start, end);
+    if (following && drag.linked) next[drag.index + 1] = withTimes(following, end, following.end);
+  }
+
+  return next;
+}
+
+/**
+ * Shift a run of words by an offset, trimming the neighbours they run into
+ * The offset is limited so a neighbour keeps at least a sliver of its own time
+ */
+function shiftRange(words: TimedWord[], selection: Selection, offset: number, duration: number): TimedWord[] {
+  const first = words[selection.from];
+  const last = words[selection.to];
+  const previous = words[selection.from - 1];
+  const following = words[selection.to + 1];
+
+  const minOffset = (previous ? previous.start + MIN_WORD_SECONDS : 0) - first.start;
+  const maxOffset = (following ? following.end - MIN_WORD_SECONDS : duration) - last.end;
+  const shift = Math.min(Math.max(offset, minOffset), maxOffset);
+  if (shift === 0) return words;
+
+  const next = words.map((word, index) =>
+    index >= selection.from && index <= selection.to ? withTimes(word, word.start + shift, word.end + shift) : word
+  );
+  if (previous && previous.end > first.start + shift) {
+    next[selection.from - 1] = withTimes(previous, previous.start, first.start + shift);
+  }
+  if (following && following.start < last.end + shift) {
+    next[selection.to + 1] = withTimes(following, last.end + shift, following.end);
+  }
+  return next;
+}
+
+/**
+ * Loudest sample of each hundredth of a second, for drawing the waveform
+ */
+async function decodePeaks(src: string): Promise<{ peaks: Float32Array; duration: number }> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Audio request failed: ${response.status}`);
+  }
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(await response.arrayBuffer());
+  const samples = audio.getChannelData(0);
+  const bucket = audio.sampleRate / PEAKS_PER_SECOND;
+  const peaks = new Float32Array(Math.ceil(samples.length / bucket));
+
+  for (let index = 0; index < peaks.length; index++) {
+    let peak = 0;
+    const end = Math.min(Math.floor((index + 1) * bucket), samples.length);
+    for (let sample = Math.floor(index * bucket); sample < end; sample++) {
+      const value = Math.abs(samples[sample]);
+      if (value > peak) peak = value;
+    }
+    peaks[index] = peak;
+  }
+
+  return { peaks, duration: audio.duration };
+}
+
+export default function ChapterTimingEditorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const bookId = params.bookId as string;
+  const chapterId = params.chapterId as string;
+  const linkedWord = searchParams.get('word'); // Set by links to a word from the timing quality report
+
+  const [timings, setTimings] = useState<ChapterTimings | null>(null);
+  const [words, setWords] = useState<TimedWord[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [realigning, setRealigning] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [audioDuration, setAudioDuration] = useState(0);
+  const [waveformError, setWaveformError] = useState('');
+
+  const [viewStart, setViewStart] = useState(0);
+  const [pxPerSecond, setPxPerSecond] = useState(ZOOM_LEVELS[1]);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [nudgeMs, setNudgeMs] = useState(100);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const dragRef = useRef<BoundaryDrag | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const linkedWordShownRef = useRef(false);
+
+  const audioUrl = timings?.chapter.audioUrl ?? null;
+  const duration = audioDuration || timings?.timingData?.totalDuration || (words.length > 0 ? words[words.length - 1].end : 0);
+  const viewSeconds = viewWidth > 0 ? viewWidth / pxPerSecond : 0;
+
+  const loadTimings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/chapters/${chapterId}/timings`);
+      if (response.status === 401) {
+        router.push('/admin/login');
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load word timings');
+      }
+      setTimings(data);
+      setWords(data.timingData?.words ?? []);
+      setDirty(false);
+    } catch (err) {
+      console.error('Failed to load word timings:', err);
+      setMessage(`❌ ${err instanceof Error ? err.message : 'Failed to load word timings'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [chapterId, router]);
+
+  useEffect(() => {
+    loadTimings();
+  }, [loadTimings]);
+
+  // Decode the narration once per audio file for the waveform
+  useEffect(() => {
+    if (!audioUrl) return;
+    let cancelled = false;
+    setPeaks(null);
+    setWaveformError('');
+    decodePeaks(audioSrc(audioUrl))
+      .then((decoded) => {
+        if (cancelled) return;
+        setPeaks(decoded.peaks);
+        setAudioDuration(decoded.duration);
+      })
+      .catch((err) => {
+        console.error('Failed to decode narration for the waveform:', err);
+        if (!cancelled) setWaveformError('The waveform could not be drawn; timings can still be edited and played.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const element = timelineRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewWidth(element.clientWidth));
+    observer.observe(element);
+    setViewWidth(element.clientWidth);
+    return () => observer.disconnect();
+  }, [loading]);
+
+  // Leaving with unsaved edits asks first
+  useEffect(() => {
+    if (!dirty) return;
+    const warn = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirty]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewWidth * ratio;
+    canvas.height = WAVEFORM_HEIGHT * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, viewWidth, WAVEFORM_HEIGHT);
+    if (!peaks) return;
+
+    const middle = WAVEFORM_HEIGHT / 2;
+    context.fillStyle = '#94a3b8';
+    for (let x = 0; x < viewWidth; x++) {
+      const from = Math.floor((viewStart + x / pxPerSecond) * PEAKS_PER_SECOND);
+      const to = Math.max(Math.floor((viewStart + (x + 1) / pxPerSecond) * PEAKS_PER_SECOND), from + 1);
+      let peak = 0;
+      for (let index = from; index < to && index < peaks.length; index++) {
+        if (peaks[index] > peak) peak = peaks[index];
+      }
+      const height = Math.max(peak * middle, 0.5);
+      context.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [peaks, viewStart, pxPerSecond, viewWidth]);
+
+  // Follow playback, stopping at the end of a played selection
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+        audio.pause();
+        stopAtRef.current = null;
+      }
+      setCurrentTime(audio.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  const scrollTo = useCallback((time: number) => {
+    setViewStart(Math.max(0, Math.min(time, duration - viewSeconds)));
+  }, [duration, viewSeconds]);
+
+  useEffect(() => {
+    if (playing && viewSeconds > 0 && (currentTime < viewStart || currentTime > viewStart + viewSeconds)) {
+      scrollTo(currentTime - viewSeconds * 0.1);
+    }
+  }, [playing, currentTime, viewStart, viewSeconds, scrollTo]);
+
+  const updateWords = (next: TimedWord[]) => {
+    setWords(next);
+    setDirty(true);
+  };
+
+  const revealInText = (index: number) => {
+    textRef.current?.querySelector(`[data-word-index="${index}"]`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const selectWord = (index: number, extend: boolean, reveal: boolean) => {
+    if (extend && anchor !== null) {
+      setSelection({ from: Math.min(anchor, index), to: Math.max(anchor, index) });
+    } else {
+      setSelection({ from: index, to: index });
+      setAnchor(index);
+    }
+    if (reveal) {
+      const word = words[index];
+      if (word.start < viewStart || word.end > viewStart + viewSeconds) {
+        scrollTo(word.start - viewSeconds / 3);
+      }
+    }
+  };
+
+  // Open on the word a quality report linked to, once the timeline can show it
+  useEffect(() => {
+    if (linkedWordShownRef.current || linkedWord === null || words.length === 0 || viewSeconds === 0) return;
+    const index = Number(linkedWord);
+    if (!Number.isInteger(index) || index < 0 || index >= words.length) return;
+    linkedWordShownRef.current = true;
+    setSelection({ from: index, to: index });
+    setAnchor(index);
+    scrollTo(words[index].start - viewSeconds / 3);
+    textRef.current?.querySelector(`[data-word-index="${index}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [linkedWord, words, viewSeconds, scrollTo]);
+
+  const play = (from: number, to: number | null) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = from;
+    stopAtRef.current = to;
+    audio.play().catch((err) => console.error('Playback failed:', err));
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      stopAtRef.current = null;
+      audio.play().catch((err) => console.error('Playback failed:', err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleBoundaryPointerDown = (event: React.PointerEvent<HTMLDivElement>, index: number, edge: 'start' | 'end') => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const word = words[index];
+    const neighbour = edge === 'start' ? words[index - 1] : words[index + 1];
+    dragRef.current = {
+      index,
+      edge,
+      originX: event.clientX,
+      originTime: edge === 'start' ? word.start : word.end,
+      linked: neighbour !== undefined && Math.abs((edge === 'start' ? neighbour.end : neighbour.start) - (edge === 'start' ? word.start : word.end)) < 0.001,
+    };
+  };
+
+  const handleBoundaryPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = drag.originTime + (event.clientX - drag.originX) / pxPerSecond;
+    updateWords(moveBoundary(words, drag, time, duration));
+  };
+
+  const handleBoundaryPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleTimelineClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const time = viewStart + (event.clientX - bounds.left) / pxPerSecond;
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const handleNudge = (direction: 1 | -1) => {
+    if (!selection) return;
+    updateWords(shiftRange(words, selection, (direction * nudgeMs) / 1000, duration));
+  };
+
+  const handleRealign = async () => {
+    if (!selection) return;
+    setRealigning(true);
+    try {
+      // The neighbours' times as edited here bound the stretch of audio, not the saved ones
+      const response = await fetch(`/api/admin/chapters/${chapterId}/timings/realign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromWord: selection.from,
+          toWord: selection.to,
+          start: selection.from > 0 ? words[selection.from - 1].end : 0,
+          end: selection.to < words.length - 1 ? words[selection.to + 1].start : duration,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Alignment failed');
+      }
+
+      const next = [...words];
+      next.splice(data.fromWord, data.words.length, ...data.words);
+      updateWords(next);
+      setMessage(`✅ Aligned ${data.matchedWords} of ${data.words.length} words again; save to keep the new timings`);
+    } catch (err) {
+      console.error('Failed to align the selection:', err);
+      setMessage(`❌ ${err instanceof Error ? err.message : 'Alignment failed'}`);
+    } finally {
+      setRealigning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!timings?.baseline) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/chapters/${chapterId}/timings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          words: words.map((word) => ({ start: word.start, end: word.end })),
+          baseline: timings.baseline,
+          note,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save word timings');
+      }
+
+      setNote('');
+      await loadTimings();
+      setMessage(`✅ ${data.message}`);
+    } catch (err) {
+      console.error('Failed to save word timings:', err);
+      setMessage(`❌ ${err instanceof Error ? err.message : 'Failed to save word timings'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: TimingVersion) => {
+    if (!timings?.baseline) return;
+    const question = dirty
+      ? `Restore version ${version.version}? Your unsaved edits will be lost.`
+      : `Restore version ${version.version}?`;
+    if (!confirm(question)) return;
+
+    setRestoringId(version.id);
+    try {
+      const response = await fetch(`/api/admin/chapters/${chapterId}/timings/versions/${version.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ baseline: timings.baseline }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to restore word timings');
+      }
+
+      await loadTimings();
+      setMessage(`✅ ${data.message}`);
+    } catch (err) {
+      console.error('Failed to restore word timings:', err);
+      setMessage(`❌ ${err instanceof Error ? err.message : 'Failed to restore word timings'}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!confirm('Discard your unsaved edits?')) return;
+    setWords(timings?.timingData?.words ?? []);
+    setDirty(false);
+  };
+
+  const visibleWords = useMemo(() => {
+    const viewEnd = viewStart + viewSeconds;
+    return words
+      .map((word, index) => ({ word, index }))
+      .filter(({ word }) => word.end >= viewStart && word.start <= viewEnd);
+  }, [words, viewStart, viewSeconds]);
+
+  const isSelected = (index: number) => selection !== null && index >= selection.from && index <= selection.to;
+
+  if (loading && !timings) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading word timings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <button
+              onClick={() => {
+                if (!dirty || confirm('Leave without saving your edits?')) router.push(`/admin/books/${bookId}/chapters`);
+              }}
+              className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              ← Back to Chapters
+            </button>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Word Timings{timings ? ` · Chapter ${timings.chapter.indexInBook}: ${timings.chapter.title}` : ''}
+            </h1>
+            <div className="flex items-center space-x-3">
+              {dirty && (
+                <button
+                  onClick={handleDiscard}
+                  className="px-4 py-2 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+                >
+                  Discard
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={!dirty || saving}
+                className="bg-green-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Saving...' : '💾 Save Version'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {message && (
+          <div className="bg-white border border-gray-200 rounded-lg px-4 py-3 text-sm text-gray-700 flex justify-between">
+            <span>{message}</span>
+            <button onClick={() => setMessage('')} className="text-gray-400 hover:text-gray-600">✕</button>
+          </div>
+        )}
+
+        {!audioUrl || words.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">
+            {!audioUrl
+              ? 'This chapter has no narration yet. Generate or upload audio first.'
+              : 'This chapter has no word timings yet. Align its narration from the chapters page first.'}
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <button
+                  onClick={togglePlayback}
+                  className="px-3 py-1 font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100"
+                >
+                  {playing ? '⏸ Pause' : '▶ Play'}
+                </button>
+                <span className="font-mono text-gray-600">{formatTime(currentTime)} / {formatTime(duration)}</span>
+                <label className="flex items-center gap-2 text-gray-600">
+                  Zoom
+                  <select
+                    value={pxPerSecond}
+                    onChange={(e) => setPxPerSecond(Number(e.target.value))}
+                    className="border border-gray-300 rounded px-2 py-1"
+                  >
+                    {ZOOM_LEVELS.map((level) => (
+                      <option key={level} value={level}>{level} px/s</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-gray-500">
+                  Click a word to select it, shift-click to select a run; drag a word&apos;s edges to move its boundaries.
+                </span>
+              </div>
+
+              {waveformError && <p className="text-sm text-amber-700">{waveformError}</p>}
+
+              <div
+                ref={timelineRef}
+                className="relative w-full bg-slate-50 border border-gray-200 rounded overflow-hidden select-none cursor-text"
+                style={{ height: WAVEFORM_HEIGHT }}
+                onClick={handleTimelineClick}
+              >
+                <canvas ref={canvasRef} className="absolute inset-0" style={{ width: viewWidth, height: WAVEFORM_HEIGHT }} />
+                {!peaks && !waveformError && (
+                  <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">Drawing waveform...</div>
+                )}
+                {visibleWords.map(({ word, index }) => (
+                  <div
+                    key={index}
+                    className={`absolute top-0 bottom-0 border-x ${
+                      isSelected(index)
+                        ? 'bg-blue-400/30 border-blue-600'
+                        : word.isPause
+                          ? 'bg-gray-300/30 border-gray-400'
+                          : word.isEstimated
+                            ? 'bg-amber-300/30 border-amber-500'
+                            : 'bg-indigo-300/20 border-indigo-400'
+                    }`}
+                    style={{ left: (word.start - viewStart) * pxPerSecond, width: Math.max((word.end - word.start) * pxPerSecond, 1) }}
+                    title={`${word.text} · ${formatTime(word.start)}–${formatTime(word.end)}${word.isEstimated ? ' · estimated' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      selectWord(index, e.shiftKey, false);
+                      if (audioRef.current) audioRef.current.currentTime = word.start;
+                      setCurrentTime(word.start);
+                    }}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      play(word.start, word.end);
+                    }}
+                  >
+                    <span className="absolute top-1 left-1 right-1 text-xs text-gray-800 truncate pointer-events-none">{word.text}</span>
+                    <div
+                      className="absolute top-0 bottom-0 -left-1 w-2 cursor-ew-resize hover:bg-blue-600/40"
+                      onPointerDown={(e) => handleBoundaryPointerDown(e, index, 'start')}
+                      onPointerMove={handleBoundaryPointerMove}
+                      onPointerUp={handleBoundaryPointerUp}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                    <div
+                      className="absolute top-0 bottom-0 -right-1 w-2 cursor-ew-resize hover:bg-blue-600/40"
+                      onPointerDown={(e) => handleBoundaryPointerDown(e, index, 'end')}
+                      onPointerMove={handleBoundaryPointerMove}
+                      onPointerUp={handleBoundaryPointerUp}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  </div>
+                ))}
+                {currentTime >= viewStart && currentTime <= viewStart + viewSeconds && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                    style={{ left: (currentTime - viewStart) * pxPerSecond }}
+                  />
+                )}
+              </div>
+
+              <input
+                type="range"
+                min={0}
+                max={Math.max(duration - viewSeconds, 0)}
+                step={0.01}
+                value={viewStart}
+                onChange={(e) => setViewStart(Number(e.target.value))}
+                className="w-full"
+                aria-label="Scroll the timeline"
+              />
+
+              <div className="flex flex-wrap items-center gap-3 text-sm border-t pt-3">
+                {selection ? (
+                  <>
+                    <span className="text-gray-700">
+                      {selection.to - selection.from + 1} word{selection.to > selection.from ? 's' : ''} selected ·{' '}
+                      {formatTime(words[selection.from].start)}–{formatTime(words[selection.to].end)}
+                    </span>
+                    <button
+                      onClick={() => play(words[selection.from].start, words[selection.to].end)}
+                      className="px-3 py-1 font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100"
+                    >
+                      ▶ Play Selection
+                    </button>
+                    <span className="flex items-center gap-1">
+                      <button
+                        onClick={() => handleNudge(-1)}
+                        className="px-2 py-1 font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                      >
+                        ◀
+                      </button>
+                      <input
+                        type="number"
+                        min={1}
+                        step={10}
+                        value={nudgeMs}
+                        onChange={(e) => setNudgeMs(Math.max(1, Number(e.target.value) || 1))}
+                        className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                        aria-label="Nudge offset in milliseconds"
+                      />
+                      <span className="text-gray-500">ms</span>
+                      <button
+                        onClick={() => handleNudge(1)}
+                        className="px-2 py-1 font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                      >
+                        ▶
+                      </button>
+                    </span>
+                    <button
+                      onClick={handleRealign}
+                      disabled={realigning}
+                      className="px-3 py-1 font-medium text-teal-600 bg-teal-50 rounded-md hover:bg-teal-100 disabled:opacity-50"
+                    >
+                      {realigning ? 'Aligning...' : 'Re-align Selection'}
+                    </button>
+                    <button onClick={() => setSelection(null)} className="text-gray-500 hover:text-gray-700">
+                      Clear
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-gray-500">Select words to play, nudge or re-align them.</span>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Text</h3>
+                <p ref={textRef} className="text-sm leading-7 text-gray-800 max-h-96 overflow-y-auto">
+                  {words.map((word, index) => (word.isPause ? null : (
+                    <span key={index}>
+                      <span
+                        data-word-index={index}
+                        onClick={(e) => selectWord(index, e.shiftKey, true)}
+                        className={`cursor-pointer rounded px-0.5 ${
+                          isSelected(index)
+                            ? 'bg-blue-200'
+                            : currentTime >= word.start && currentTime < word.end
+                              ? 'bg-yellow-200'
+                              : word.isEstimated
+                                ? 'underline decoration-amber-500 decoration-dotted'
+                                : 'hover:bg-gray-100'
+                        }`}
+                      >
+                        {word.text}
+                      </span>{' '}
+                    </span>
+                  )))}
+                </p>
+                <p className="mt-2 text-xs text-gray-500">
+                  Words with a dotted underline have estimated times: the aligner didn&apos;t hear them.
+                </p>
+              </div>
+
+              <div className="space-y-6">
+              {timings?.quality && (
+                <div className="bg-white rounded-lg shadow-md p-4 space-y-2">
+                  <h3 className="text-sm font-semibold text-gray-900">
+                    Timing Check · {timings.quality.accuracy} ({timings.quality.score})
+                  </h3>
+                  <p className="text-xs text-gray-500">
+                    {timings.quality.problemWords} of {timings.quality.wordCount} words have problems, as of the last saved version.
+                  </p>
+                  {timings.quality.issues.length > 0 && (
+                    <ul className="text-sm max-h-60 overflow-y-auto divide-y divide-gray-100">
+                      {timings.quality.issues.map((issue) => (
+                        <li key={`${issue.type}-${issue.wordIndex}`}>
+                          <button
+                            onClick={() => {
+                              if (issue.wordIndex >= words.length) return;
+                              selectWord(issue.wordIndex, false, true);
+                              revealInText(issue.wordIndex);
+                            }}
+                            className="w-full py-1 flex justify-between text-left hover:bg-gray-50"
+                          >
+                            <span className="text-gray-800">“{issue.text}”</span>
+                            <span className={issue.type === 'estimated' ? 'text-amber-700' : 'text-red-700'}>{ISSUE_LABELS[issue.type]}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <div className="bg-white rounded-lg shadow-md p-4 space-y-3">
+                <h3 className="text-sm font-semibold text-gray-900">Versions</h3>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  maxLength={500}
+                  placeholder="Note for the next saved version"
+                  className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                />
+                {timings && timings.versions.length > 0 ? (
+                  <ul className="divide-y divide-gray-100 text-sm max-h-80 overflow-y-auto">
+                    {timings.versions.map((version, position) => (
+                      <li key={version.id} className="py-2 flex items-start justify-between gap-2">
+                        <div>
+                          <div className="font-medium text-gray-900">
+                            v{version.version} · {SOURCE_LABELS[version.source]}
+                            {position === 0 && <span className="ml-1 text-xs text-green-700">(latest)</span>}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(version.createdAt).toLocaleString()}
+                            {version.createdBy && ` · ${version.createdBy}`}
+                          </div>
+                          {version.note && <div className="text-xs text-gray-700">{version.note}</div>}
+                          {!version.matchesAudio && <div className="text-xs text-amber-700">For earlier narration</div>}
+                        </div>
+                        {version.matchesAudio && (
+                          <button
+                            onClick={() => handleRestore(version)}
+                            disabled={restoringId !== null}
+                            className="px-2 py-1 text-xs font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+                          >
+                            {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No saved versions yet. The current timings are kept as version 1 when you first save.</p>
+                )}
+              </div>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioSrc(audioUrl)}
+          preload="metadata"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onLoadedMetadata={(e) => {
+            if (!audioDuration) setAudioDuration(e.currentTarget.duration);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { api } from '@/lib/api';
+import VoiceSettingsPanel from '@/components/VoiceSettingsPanel';
 
 interface Book {
   id: string;
@@ -19,9 +20,59 @@ interface Chapter {
   audioUrl?: string;
   jsonUrl?: string;
   duration?: number;
+  audioTtsConfig?: { configId: number | null; scope: 'chapter' | 'book' | 'default' | 'request'; voiceProvider: string; voiceId: string } | null;
+  audioStatus?: 'none' | 'queued' | 'generating' | 'ready' | 'failed';
+  audioError?: string | null;
+  // Word timings; alignment is set when they were aligned with a recorded narration
+  elevenLabsTimingData?: { words?: unknown[]; alignment?: { matchedWords: number; totalWords: number; alignedAt: string } } | null;
   createdAt: string;
 }
 
+// Latest background narration job of a chapter
+interface AudioJob {
+  jobId: number;
+  chapterId: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string | null;
+  message: string | null;
+  errorMessage: string | null;
+}
+
+// Job state streamed from /api/admin/books/[bookId]/job-events
+interface JobEvent {
+  jobId: number;
+  jobType: 'parsing' | 'tts_generation' | 'chapter_creation' | 'alignment';
+  chapterId: string | null;
+  status: AudioJob['status'];
+  progress: number;
+  message: string | null;
+  errorMessage: string | null;
+  attempts: number;
+  maxAttempts: number;
+  at: string;
+}
+
+const MAX_AUDIO_LOG_ENTRIES = 200;
+
+// Put the editor's [Name] speaker tags back into chapter text so saving keeps them
+function withSpeakerTags(text: string, segments: { speaker: string; text: string; source: string }[] | undefined): string {
+  if (!Array.isArray(segments)) return text;
+
+  let tagged = '';
+  let cursor = 0;
+  for (const segment of segments) {
+    if (segment.source !== 'manual') continue;
+    const index = text.indexOf(segment.text, cursor);
+    if (index === -1) continue;
+    tagged += `${text.slice(cursor, index)}[${segment.speaker === 'narrator' ? 'Narrador' : segment.speaker}] `;
+    cursor = index;
+  }
+  return tagged + text.slice(cursor);
+}
+
 // Shared helper to safely decode chapter JSON with UTF-8 support
 async function getChapterJson(jsonUrl: string): Promise<any> {
   if (!jsonUrl.startsWith('data:application/json') || !jsonUrl.includes(';base64,')) {
@@ -439,7 +490,7 @@ function DetailedChapterPreview({ chapter }: { chapter: Chapter }) {
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="text-center text-gray-500">
           <p>No processed content available for this chapter</p>
-          <p className="text-sm mt-2">Upload a Word document to generate interactive content</p>
+          <p className="text-sm mt-2">Upload a manuscript (Word, EPUB or Markdown) to generate interactive content</p>
         </div>
       </div>
     );
@@ -511,7 +562,7 @@ function DetailedChapterPreview({ chapter }: { chapter: Chapter }) {
             {/* Hidden audio element */}
             <audio
               ref={audioRef}
-              src={chapter.audioUrl ? (chapter.audioUrl.startsWith('http') ? chapter.audioUrl : `/audio/${chapter.audioUrl.replace(/^\/?(audio\/)?/, '')}`) : ''}
+              src={chapter.audioUrl ? (/^(https?:|\/objects\/)/.test(chapter.audioUrl) ? chapter.audioUrl : `/audio/${chapter.audioUrl.replace(/^\/?(audio\/)?/, '')}`) : ''}
               preload="metadata"
               onPlay={() => setIsPlaying(true)}
               onPause={() => setIsPlaying(false)}
@@ -653,6 +704,121 @@ function DetailedChapterPreview({ chapter }: { chapter: Chapter }) {
   );
 }
 
+// Progress of a chapter's background narration, or why it failed
+function ChapterAudioStatus({ chapter, job, onRetry, onCancel }: {
+  chapter: Chapter;
+  job?: AudioJob;
+  onRetry: (jobId: number) => void;
+  onCancel: (jobId: number) => void;
+}) {
+  if (chapter.audioStatus === 'queued' || chapter.audioStatus === 'generating') {
+    const progress = job && (job.status === 'pending' || job.status === 'running') ? job.progress : 0;
+    return (
+      <div className="mt-2 max-w-md">
+        <div className="flex justify-between text-xs text-indigo-700 mb-1">
+          <span>
+            {chapter.audioStatus === 'queued' ? '⏳ Audio queued' : '🎙️ Generating audio'}
+            {job?.message && ` · ${job.message}`}
+          </span>
+          <span>
+            {progress}%
+            {job && (job.status === 'pending' || job.status === 'running') && (
+              <button
+                onClick={() => onCancel(job.jobId)}
+                className="ml-2 font-medium text-gray-500 underline hover:text-gray-700"
+              >
+                Cancel
+              </button>
+            )}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div className="bg-indigo-600 h-1.5 rounded-full transition-all" style={{ width: `${progress}%` }} />
+        </div>
+        {chapter.audioError && (
+          <div className="text-xs text-amber-700 mt-1">{chapter.audioError}</div>
+        )}
+      </div>
+    );
+  }
+
+  if (chapter.audioStatus === 'failed') {
+    return (
+      <div className="mt-2 bg-red-50 border border-red-200 text-red-700 text-xs px-3 py-2 rounded flex items-start justify-between">
+        <span>⚠️ Audio generation failed: {chapter.audioError || 'Unknown error'}</span>
+        {job?.status === 'failed' && (
+          <button
+            onClick={() => onRetry(job.jobId)}
+            className="ml-3 font-medium text-red-700 underline hover:text-red-800"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // Narration that was read with a different voice than configured
+  if (chapter.audioStatus === 'ready' && chapter.audioError) {
+    return (
+      <div className="mt-2 bg-amber-50 border border-amber-200 text-amber-800 text-xs px-3 py-2 rounded">
+        ⚠️ {chapter.audioError}
+      </div>
+    );
+  }
+
+  return null;
+}
+
+// Word timing alignment of a chapter's recorded narration: progress, failure or how well it matched
+function ChapterAlignmentStatus({ chapter, job, onAlign }: {
+  chapter: Chapter;
+  job?: JobEvent;
+  onAlign: (chapterId: string) => void;
+}) {
+  if (job && (job.status === 'pending' || job.status === 'running')) {
+    return (
+      <div className="mt-2 max-w-md">
+        <div className="flex justify-between text-xs text-teal-700 mb-1">
+          <span>
+            🎯 Aligning word timings
+            {job.message && ` · ${job.message}`}
+          </span>
+          <span>{job.progress}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div className="bg-teal-600 h-1.5 rounded-full transition-all" style={{ width: `${job.progress}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  if (job?.status === 'failed') {
+    return (
+      <div className="mt-2 bg-red-50 border border-red-200 text-red-700 text-xs px-3 py-2 rounded flex items-start justify-between">
+        <span>⚠️ Timing alignment failed: {job.errorMessage || 'Unknown error'}</span>
+        <button
+          onClick={() => onAlign(chapter.id)}
+          className="ml-3 font-medium text-red-700 underline hover:text-red-800"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const alignment = chapter.elevenLabsTimingData?.alignment;
+  if (alignment) {
+    return (
+      <div className="mt-2 text-xs text-teal-700">
+        🎯 Word timings aligned with the recording ({alignment.matchedWords} of {alignment.totalWords} words heard)
+      </div>
+    );
+  }
+
+  return null;
+}
+
 export default function ChapterManagementPage() {
   const [book, setBook] = useState<Book | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
@@ -667,6 +833,14 @@ export default function ChapterManagementPage() {
   const [deleteChapterId, setDeleteChapterId] = useState<string | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [previewingChapter, setPreviewingChapter] = useState<Chapter | null>(null);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [audioJobs, setAudioJobs] = useState<Record<string, AudioJob>>({});
+  const [audioJobsVersion, setAudioJobsVersion] = useState(0);
+  const [chaptersVersion, setChaptersVersion] = useState(0);
+  const [audioLog, setAudioLog] = useState<JobEvent[]>([]);
+  const [regeneratingAll, setRegeneratingAll] = useState(false);
+  const [alignmentJobs, setAlignmentJobs] = useState<Record<string, JobEvent>>({});
+  const [uploadingNarration, setUploadingNarration] = useState<string | null>(null);
   
   const [chapterForm, setChapterForm] = useState({
     title: '',
@@ -684,7 +858,7 @@ export default function ChapterManagementPage() {
     if (bookId) {
       loadBookAndChapters();
     }
-  }, [bookId]);
+  }, [bookId, chaptersVersion]);
 
   const loadBookAndChapters = async () => {
     try {
@@ -728,6 +902,218 @@ export default function ChapterManagementPage() {
     }
   };
 
+  useEffect(() => {
+    if (!bookId) return;
+
+    const loadAudioJobs = async () => {
+      try {
+        const response = await fetch(`/api/admin/books/${bookId}/audio-jobs`, {
+          credentials: 'include',
+        });
+        if (!response.ok) return;
+
+        const data = await response.json();
+        const jobs: Record<string, AudioJob> = {};
+        for (const job of data.jobs as AudioJob[]) {
+          jobs[job.chapterId] = job;
+        }
+        setAudioJobs(jobs);
+      } catch (err) {
+        console.error('Failed to load audio jobs:', err);
+      }
+    };
+
+    loadAudioJobs();
+  }, [bookId, audioJobsVersion]);
+
+  // Follow narration jobs live as the worker reports progress
+  useEffect(() => {
+    if (!bookId) return;
+
+    const source = new EventSource(`/api/admin/books/${bookId}/job-events`);
+
+    source.addEventListener('progress', (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as JobEvent;
+      const chapterId = event.chapterId;
+      if (event.jobType === 'alignment' && chapterId) {
+        setAlignmentJobs(prev => ({ ...prev, [chapterId]: event }));
+        return;
+      }
+      if (event.jobType !== 'tts_generation' || !chapterId) return;
+
+      setAudioJobs(prev => ({
+        ...prev,
+        [chapterId]: {
+          runAfter: null,
+          ...(prev[chapterId]?.jobId === event.jobId ? prev[chapterId] : {}),
+          jobId: event.jobId,
+          chapterId,
+          status: event.status,
+          progress: event.progress,
+          attempts: event.attempts,
+          maxAttempts: event.maxAttempts,
+          message: event.message,
+          errorMessage: event.errorMessage,
+        },
+      }));
+      if (event.status === 'running') {
+        setChapters(prev => prev.map(chapter =>
+          chapter.id === chapterId && chapter.audioStatus === 'queued' ? { ...chapter, audioStatus: 'generating' } : chapter
+        ));
+      }
+      if (event.message) {
+        setAudioLog(prev => {
+          const last = prev[prev.length - 1];
+          if (last && last.jobId === event.jobId && last.message === event.message) return prev;
+          return [...prev, event].slice(-MAX_AUDIO_LOG_ENTRIES);
+        });
+      }
+    });
+
+    // Chapters get their new audio (or error) when a job finishes, so reload them then
+    source.addEventListener('done', (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as JobEvent;
+      if (event.jobType === 'alignment' && event.chapterId) {
+        const chapterId = event.chapterId;
+        setAlignmentJobs(prev => ({ ...prev, [chapterId]: event }));
+      }
+      if (event.jobType === 'tts_generation' || event.jobType === 'alignment') {
+        setChaptersVersion(version => version + 1);
+      }
+    });
+
+    return () => source.close();
+  }, [bookId]);
+
+  // Reload chapters and jobs after queueing narration
+  const refreshAudio = () => {
+    setChaptersVersion(version => version + 1);
+    setAudioJobsVersion(version => version + 1);
+  };
+
+  const handleRegenerateAllAudio = async () => {
+    if (!confirm('Regenerate the TTS audio of every chapter in this book? Chapters with uploaded recorded narration are skipped. Existing audio stays until each chapter is done.')) {
+      return;
+    }
+
+    setRegeneratingAll(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/books/${bookId}/audio/regenerate`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to queue audio generation');
+      }
+      setSuccess(data.message);
+      refreshAudio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue audio generation');
+    } finally {
+      setRegeneratingAll(false);
+    }
+  };
+
+  const handleRegenerateChapterAudio = async (chapterId: string) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/chapters/${chapterId}/audio/regenerate`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to queue audio generation');
+      }
+      refreshAudio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue audio generation');
+    }
+  };
+
+  // Replace a chapter's audio with a recorded narration; its word timings are aligned in the background
+  const handleUploadNarration = async (chapter: Chapter, file: File) => {
+    if (chapter.audioUrl && !confirm(`Replace the audio of "${chapter.title}" with ${file.name}?`)) {
+      return;
+    }
+
+    setUploadingNarration(chapter.id);
+    setError('');
+    try {
+      const formData = new FormData();
+      formData.append('audio', file);
+      const response = await fetch(`/api/admin/chapters/${chapter.id}/narration`, {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to upload narration');
+      }
+      setSuccess(data.message);
+      refreshAudio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload narration');
+    } finally {
+      setUploadingNarration(null);
+    }
+  };
+
+  const handleAlignChapter = async (chapterId: string) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/chapters/${chapterId}/align`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to queue alignment');
+      }
+      setSuccess(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue alignment');
+    }
+  };
+
+  const handleRetryAudioJob = async (jobId: number) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/audio-jobs/${jobId}/retry`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to retry audio job');
+      }
+      refreshAudio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to retry audio job');
+    }
+  };
+
+  const handleCancelAudioJob = async (jobId: number) => {
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/audio-jobs/${jobId}/cancel`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to cancel audio job');
+      }
+      setSuccess(data.message);
+      refreshAudio();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel audio job');
+    }
+  };
+
   const handleGenerateAudio = async () => {
     // Extract text content for TTS generation
     let textContent = '';
@@ -988,6 +1374,19 @@ export default function ChapterManagementPage() {
               )}
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={handleRegenerateAllAudio}
+                disabled={regeneratingAll || chapters.length === 0}
+                className="inline-flex items-center px-4 py-2 bg-white text-indigo-600 border border-indigo-600 rounded-md hover:bg-indigo-50 font-medium disabled:opacity-50"
+              >
+                {regeneratingAll ? 'Queueing...' : '🔁 Regenerate All Audio'}
+              </button>
+              <button
+                onClick={() => setShowVoiceSettings(!showVoiceSettings)}
+                className="inline-flex items-center px-4 py-2 bg-white text-indigo-600 border border-indigo-600 rounded-md hover:bg-indigo-50 font-medium"
+              >
+                🎙️ Voice Settings
+              </button>
               <Link
                 href={`/admin/books/${bookId}/access-codes`}
                 className="inline-flex items-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 font-medium"
@@ -1019,6 +1418,38 @@ export default function ChapterManagementPage() {
           </div>
         )}
 
+        {audioLog.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-medium text-gray-900">🎙️ Audio generation log</h3>
+              <button
+                onClick={() => setAudioLog([])}
+                className="text-xs text-gray-500 underline hover:text-gray-700"
+              >
+                Clear
+              </button>
+            </div>
+            <div className="max-h-48 overflow-y-auto rounded-md bg-gray-50 border border-gray-200 p-3 font-mono text-xs text-gray-700 space-y-1">
+              {audioLog.map((entry, index) => (
+                <div key={`${entry.jobId}-${index}`} className="flex gap-3">
+                  <span className="text-gray-400">{new Date(entry.at).toLocaleTimeString()}</span>
+                  <span className="w-10 text-right text-gray-500">{entry.progress}%</span>
+                  <span className="truncate">
+                    {chapters.find(chapter => chapter.id === entry.chapterId)?.title ?? `Job ${entry.jobId}`}: {entry.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {showVoiceSettings && (
+          <VoiceSettingsPanel
+            bookId={bookId}
+            chapters={chapters}
+            onClose={() => setShowVoiceSettings(false)}
+          />
+        )}
 
         {/* Chapters List */}  
         {loading ? (
@@ -1054,6 +1485,7 @@ export default function ChapterManagementPage() {
                         {chapter.audioUrl && (
                           <span className="flex items-center">
                             🎵 Audio available
+                            {chapter.audioTtsConfig && ` · ${chapter.audioTtsConfig.voiceId} (${chapter.audioTtsConfig.scope} voice)`}
                           </span>
                         )}
                         {chapter.duration && (
@@ -1061,6 +1493,17 @@ export default function ChapterManagementPage() {
                         )}
                         <span>Created {new Date(chapter.createdAt).toISOString().slice(0, 10)}</span>
                       </div>
+                      <ChapterAudioStatus
+                        chapter={chapter}
+                        job={audioJobs[chapter.id]}
+                        onRetry={handleRetryAudioJob}
+                        onCancel={handleCancelAudioJob}
+                      />
+                      <ChapterAlignmentStatus
+                        chapter={chapter}
+                        job={alignmentJobs[chapter.id]}
+                        onAlign={handleAlignChapter}
+                      />
                     </div>
                     <div className="flex space-x-2 ml-4">
                       <Link
@@ -1069,6 +1512,48 @@ export default function ChapterManagementPage() {
                       >
                         Activities
                       </Link>
+                      <button
+                        onClick={() => handleRegenerateChapterAudio(chapter.id)}
+                        disabled={chapter.audioStatus === 'queued' || chapter.audioStatus === 'generating'}
+                        className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+                      >
+                        Regenerate Audio
+                      </button>
+                      <label
+                        className={`px-3 py-1 text-sm font-medium text-teal-600 bg-teal-50 rounded-md hover:bg-teal-100 ${
+                          uploadingNarration === chapter.id ? 'opacity-50 cursor-wait' : 'cursor-pointer'
+                        }`}
+                      >
+                        {uploadingNarration === chapter.id ? 'Uploading...' : 'Upload Narration'}
+                        <input
+                          type="file"
+                          accept=".mp3,.m4a,.wav,audio/mpeg,audio/mp4,audio/wav"
+                          className="hidden"
+                          disabled={uploadingNarration !== null}
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) handleUploadNarration(chapter, file);
+                          }}
+                        />
+                      </label>
+                      {chapter.audioUrl && (
+                        <button
+                          onClick={() => handleAlignChapter(chapter.id)}
+                          disabled={alignmentJobs[chapter.id]?.status === 'pending' || alignmentJobs[chapter.id]?.status === 'running'}
+                          className="px-3 py-1 text-sm font-medium text-teal-600 bg-teal-50 rounded-md hover:bg-teal-100 disabled:opacity-50"
+                        >
+                          Align Timings
+                        </button>
+                      )}
+                      {chapter.audioUrl && (chapter.elevenLabsTimingData?.words?.length ?? 0) > 0 && (
+                        <Link
+                          href={`/admin/books/${book?.id}/chapters/${chapter.id}/timings`}
+                          className="px-3 py-1 text-sm font-medium text-teal-600 bg-teal-50 rounded-md hover:bg-teal-100"
+                        >
+                          Edit Timings
+                        </Link>
+                      )}
                       <button
                         onClick={() => setPreviewingChapter(chapter)}
                         className="px-3 py-1 text-sm font-medium text-green-600 bg-green-50 rounded-md hover:bg-green-100"
@@ -1087,9 +1572,12 @@ export default function ChapterManagementPage() {
                               
                               // Try to extract from paragraphs first (preserves formatting)
                               if (parsedData.content?.paragraphs) {
-                                spanishContent = parsedData.content.paragraphs
-                                  .map((paragraph: any) => paragraph.text)
-                                  .join('\n\n');
+                                spanishContent = withSpeakerTags(
+                                  parsedData.content.paragraphs
+                                    .map((paragraph: any) => paragraph.text)
+                                    .join('\n\n'),
+                                  parsedData.content.segments
+                                );
                               } else if (parsedData.content?.sentences) {
                                 spanishContent = parsedData.content.sentences
                                   .map((sentence: any) => sentence.text)
@@ -1216,6 +1704,10 @@ export default function ChapterManagementPage() {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                   placeholder="Enter the chapter content in Spanish..."
                 />
+                <p className="mt-1 text-xs text-gray-500">
+                  Dialogue after dashes or in quotes is read with the speaker&apos;s cast voice. To set the speaker yourself,
+                  put a tag before the line, e.g. <code>[María] ¿Vienes al mercado?</code> (<code>[Narrador]</code> switches back).
+                </p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
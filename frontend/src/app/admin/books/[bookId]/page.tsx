@@ -5,6 +5,8 @@ import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { api } from '@/lib/api';
 import { LocalImageUploader } from '@/components/LocalImageUploader';
+import ParsingProfilePicker, { ParsingProfile, ChapterDetection, DETECTION_RULE_LABELS } from '@/components/ParsingProfilePicker';
+import ManuscriptReimportReview from '@/components/ManuscriptReimportReview';
 
 interface Book {
   id: string;
@@ -25,13 +27,30 @@ interface BookSource {
   originalFileName: string;
   fileSize: number;
   status: 'uploaded' | 'processing' | 'processed' | 'failed';
+  parsingProfile: ParsingProfile | null; // null = standard rules
   createdAt: string;
   uploadedByAdmin: string;
 }
 
+// Chapters /api/admin/parsing/preview finds with an upload's parsing profile
+interface SourcePreview {
+  bookSourceId: number;
+  loading: boolean;
+  error?: string;
+  chapters: Array<{
+    id: string;
+    title: string;
+    indexInBook: number;
+    wordCount: number;
+    contentPreview: string;
+    detectedBy: ChapterDetection | null;
+  }>;
+  errors: string[];
+}
+
 interface ProcessingJob {
   id: number;
-  jobType: 'parsing' | 'tts_generation' | 'chapter_creation';
+  jobType: 'parsing' | 'tts_generation' | 'chapter_creation' | 'alignment';
   status: 'pending' | 'running' | 'completed' | 'failed';
   progress: number;
   message?: string;
@@ -41,6 +60,37 @@ interface ProcessingJob {
   result?: any;
 }
 
+// Job state streamed from /api/admin/books/[bookId]/job-events
+interface JobEvent {
+  jobId: number;
+  jobType: ProcessingJob['jobType'];
+  status: ProcessingJob['status'];
+  progress: number;
+  message: string | null;
+  errorMessage: string | null;
+  at: string;
+  result?: ProcessingJob['result']; // Only on `done` events
+}
+
+interface JobLogEntry {
+  jobId: number;
+  at: string;
+  progress: number;
+  message: string;
+}
+
+const MANUSCRIPT_EXTENSIONS = ['.docx', '.epub', '.md', '.markdown', '.txt'];
+
+const jobFromEvent = (event: JobEvent): ProcessingJob => ({
+  id: event.jobId,
+  jobType: event.jobType,
+  status: event.status,
+  progress: event.progress,
+  message: event.message ?? undefined,
+  errorMessage: event.errorMessage ?? undefined,
+  result: event.result,
+});
+
 interface DetectedChapter {
   id: string;
   title: string;
@@ -48,6 +98,7 @@ interface DetectedChapter {
   wordCount: number;
   preview: string;
   jsonContent: any;
+  detectedBy?: ChapterDetection;
 }
 
 interface UploadResult<TMeta extends Record<string, unknown>, TFile extends Record<string, unknown>> {
@@ -74,6 +125,10 @@ export default function EditBookPage() {
   const [bookSources, setBookSources] = useState<BookSource[]>([]);
   const [activeJob, setActiveJob] = useState<ProcessingJob | null>(null);
   const [detectedChapters, setDetectedChapters] = useState<DetectedChapter[]>([]);
+  const [jobLog, setJobLog] = useState<JobLogEntry[]>([]);
+  const [parsingProfile, setParsingProfile] = useState<ParsingProfile | null>(null);
+  const [sourcePreview, setSourcePreview] = useState<SourcePreview | null>(null);
+  const [reimportJobId, setReimportJobId] = useState<number | null>(null);
   
   // UI states
   const [loading, setLoading] = useState(true);
@@ -86,17 +141,17 @@ export default function EditBookPage() {
   const params = useParams();
   const bookId = params.bookId as string;
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const jobPollingRef = useRef<number>();
+  const jobEventsRef = useRef<EventSource | null>(null);
 
   useEffect(() => {
     if (bookId) {
       loadBook();
       loadBookSources();
+      watchParsingJobs();
     }
     return () => {
-      if (jobPollingRef.current) {
-        clearInterval(jobPollingRef.current);
-      }
+      jobEventsRef.current?.close();
+      jobEventsRef.current = null;
     };
   }, [bookId]);
 
@@ -147,68 +202,64 @@ export default function EditBookPage() {
       if (response.ok) {
         const data = await response.json();
         setBookSources(data.sources || []);
-        
-        // Check for active processing jobs
-        const processingSource = data.sources?.find((source: BookSource) => 
-          source.status === 'processing'
-        );
-        if (processingSource) {
-          startJobPolling(processingSource.id);
-        }
       }
     } catch (err) {
       console.error('Failed to load book sources:', err);
     }
   };
 
-  const startJobPolling = (bookSourceId: number) => {
-    if (jobPollingRef.current) {
-      clearInterval(jobPollingRef.current);
-    }
-    
-    jobPollingRef.current = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/admin/parsing/jobs/${bookSourceId}`, {
-          credentials: 'include',
-        });
-        
-        if (response.ok) {
-          const jobs = await response.json();
-          const currentJob = jobs.find((job: ProcessingJob) => 
-            job.status === 'running' || job.status === 'pending'
-          );
-          
-          if (currentJob) {
-            setActiveJob(currentJob);
-          } else {
-            // Check for completed job
-            const completedJob = jobs.find((job: ProcessingJob) => 
-              job.status === 'completed'
-            );
-            if (completedJob && completedJob.result) {
-              setDetectedChapters(completedJob.result.chapters || []);
-              setActiveJob(completedJob);
-            }
-            
-            // Check for failed job
-            const failedJob = jobs.find((job: ProcessingJob) => 
-              job.status === 'failed'
-            );
-            if (failedJob) {
-              setActiveJob(failedJob);
-              setError(failedJob.errorMessage || 'Processing job failed. Please try uploading again.');
-            }
-            
-            // Stop polling if no active jobs
-            if (jobPollingRef.current) {
-              clearInterval(jobPollingRef.current);
-            }
-          }
-        }
-      } catch (err) {
-        console.error('Error polling job status:', err);
+  const appendJobLog = (event: JobEvent) => {
+    if (!event.message) return;
+    setJobLog(prev => {
+      const last = prev[prev.length - 1];
+      if (last && last.jobId === event.jobId && last.message === event.message) {
+        return prev;
+      }
+      return [...prev, { jobId: event.jobId, at: event.at, progress: event.progress, message: event.message! }];
+    });
+  };
+
+  // Follow parsing jobs of this book live instead of polling for their status
+  const watchParsingJobs = () => {
+    jobEventsRef.current?.close();
+    const source = new EventSource(`/api/admin/books/${bookId}/job-events`);
+    jobEventsRef.current = source;
+
+    source.addEventListener('snapshot', (e: MessageEvent) => {
+      const jobs = (JSON.parse(e.data) as JobEvent[]).filter(job => job.jobType === 'parsing');
+      const currentJob = jobs.find(job => job.status === 'running' || job.status === 'pending');
+      if (currentJob) {
+        setActiveJob(jobFromEvent(currentJob));
+        appendJobLog(currentJob);
+      }
+    });
+
+    source.addEventListener('progress', (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as JobEvent;
+      if (event.jobType !== 'parsing') return;
+      setActiveJob(prev => ({ ...jobFromEvent(event), result: prev?.id === event.jobId ? prev.result : undefined }));
+      appendJobLog(event);
+    });
+
+    source.addEventListener('done', (e: MessageEvent) => {
+      const event = JSON.parse(e.data) as JobEvent;
+      if (event.jobType !== 'parsing') return;
+      setActiveJob(jobFromEvent(event));
+      if (event.status === 'completed' && event.result?.reimport) {
+        // The book already had chapters: the upload is reviewed as a revision instead
+        setDetectedChapters([]);
+        setReimportJobId(event.jobId);
+        loadBook();
+      } else if (event.status === 'completed' && event.result) {
+        setDetectedChapters(event.result.chapters || []);
+        // Markdown front matter may have updated the book details
+        loadBook();
       }
-    }, 2000); // Poll every 2 seconds
+      if (event.status === 'failed') {
+        setError(event.errorMessage || 'Processing job failed. Please try uploading again.');
+      }
+      loadBookSources();
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -273,15 +324,16 @@ export default function EditBookPage() {
     setIsDragOver(false);
     
     const files = Array.from(e.dataTransfer.files);
-    const docxFile = files.find(file => 
+    const manuscriptFile = files.find(file => 
       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-      file.name.toLowerCase().endsWith('.docx')
+      file.type === 'application/epub+zip' ||
+      MANUSCRIPT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))
     );
     
-    if (docxFile) {
-      handleFileUpload(docxFile);
+    if (manuscriptFile) {
+      handleFileUpload(manuscriptFile);
     } else {
-      setError('Please upload a .docx file');
+      setError('Please upload a .docx, .epub, .md or .txt file');
     }
   };
 
@@ -299,6 +351,9 @@ export default function EditBookPage() {
 
     try {
       const formData = new FormData();
+      if (parsingProfile) {
+        formData.append('parsingProfile', JSON.stringify(parsingProfile));
+      }
       formData.append('document', file);
 
       const response = await fetch(`/api/admin/books/${bookId}/upload`, {
@@ -352,9 +407,9 @@ export default function EditBookPage() {
         throw new Error(errorData.message || 'Failed to start parsing');
       }
 
-      const job = await response.json();
-      setActiveJob(job);
-      startJobPolling(bookSourceId);
+      const data = await response.json();
+      setActiveJob({ id: data.jobId, jobType: 'parsing', status: 'pending', progress: 0 });
+      setJobLog([]);
       
       // Switch to chapters tab to show progress
       setActiveTab('chapters');
@@ -364,6 +419,53 @@ export default function EditBookPage() {
     }
   };
 
+  // Parse an upload without creating chapters, to check which rule finds each chapter
+  const previewSource = async (bookSourceId: number) => {
+    setSourcePreview({ bookSourceId, loading: true, chapters: [], errors: [] });
+    try {
+      const response = await fetch(`/api/admin/parsing/preview/${bookSourceId}`, {
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.message || 'Failed to preview chapters');
+      }
+      setSourcePreview({
+        bookSourceId,
+        loading: false,
+        chapters: data.preview.chapters,
+        errors: data.preview.validation.errors,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to preview chapters';
+      setSourcePreview({ bookSourceId, loading: false, error: message, chapters: [], errors: [] });
+    }
+  };
+
+  // Store the rules chosen in the upload form on an earlier upload, then preview with them
+  const applyProfileToSource = async (bookSourceId: number) => {
+    if (!parsingProfile) return;
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/parsing/profile/${bookSourceId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(parsingProfile),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to update chapter detection rules');
+      }
+      await loadBookSources();
+      await previewSource(bookSourceId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update chapter detection rules');
+    }
+  };
+
   const approveChapters = async () => {
     if (!activeJob?.result) return;
     
@@ -787,10 +889,16 @@ export default function EditBookPage() {
             <div className="bg-white rounded-lg shadow-md p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Upload Manuscript</h3>
               <p className="text-gray-600 mb-6">
-                Upload a Word document (.docx) containing your Spanish storybook manuscript. 
+                Upload a Word document (.docx), an EPUB (.epub) or a Markdown / text file (.md, .txt) containing your Spanish storybook manuscript. 
                 Our AI will automatically detect chapters and prepare the content for publication.
+                EPUB chapters follow the book&apos;s table of contents; in Markdown, each <code># Heading</code> starts a chapter,
+                front matter can set the title, author, level and language, and an <code>## Activities</code> section holds the chapter&apos;s activities.
               </p>
 
+              <div className="mb-6">
+                <ParsingProfilePicker value={parsingProfile} onChange={setParsingProfile} />
+              </div>
+
               {/* Drag & Drop Area */}
               <div
                 onDragOver={handleDragOver}
@@ -814,7 +922,7 @@ export default function EditBookPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
                     <p className="text-lg font-medium text-gray-900 mb-2">
-                      Drop your .docx file here, or{' '}
+                      Drop your manuscript file here, or{' '}
                       <button
                         type="button"
                         onClick={() => fileInputRef.current?.click()}
@@ -824,7 +932,7 @@ export default function EditBookPage() {
                       </button>
                     </p>
                     <p className="text-gray-500">
-                      Maximum file size: 50MB | Supported: Word documents (.docx)
+                      Maximum file size: 50MB | Supported: Word documents (.docx), EPUB books (.epub), Markdown and text (.md, .txt)
                     </p>
                   </div>
                 )}
@@ -833,7 +941,7 @@ export default function EditBookPage() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".docx"
+                accept={MANUSCRIPT_EXTENSIONS.join(',')}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -857,7 +965,8 @@ export default function EditBookPage() {
                             <p className="font-medium text-gray-900">{source.originalFileName}</p>
                             <p className="text-sm text-gray-500">
                               {(source.fileSize / 1024 / 1024).toFixed(2)} MB • 
-                              Uploaded {new Date(source.createdAt).toLocaleDateString()} by {source.uploadedByAdmin}
+                              Uploaded {new Date(source.createdAt).toLocaleDateString()} by {source.uploadedByAdmin} • 
+                              Chapter rules: {source.parsingProfile?.presetId ?? 'standard'}
                             </p>
                           </div>
                         </div>
@@ -869,6 +978,20 @@ export default function EditBookPage() {
                           }`}>
                             {source.status}
                           </span>
+                          <button
+                            onClick={() => previewSource(source.id)}
+                            className="px-3 py-1 border border-gray-300 text-gray-700 text-sm rounded hover:bg-gray-50"
+                          >
+                            Preview Chapters
+                          </button>
+                          {parsingProfile && (
+                            <button
+                              onClick={() => applyProfileToSource(source.id)}
+                              className="px-3 py-1 border border-indigo-300 text-indigo-700 text-sm rounded hover:bg-indigo-50"
+                            >
+                              Use Selected Rules
+                            </button>
+                          )}
                           {source.status === 'uploaded' && (
                             <button
                               onClick={() => startParsing(source.id)}
@@ -879,6 +1002,44 @@ export default function EditBookPage() {
                           )}
                         </div>
                       </div>
+
+                      {sourcePreview?.bookSourceId === source.id && (
+                        <div className="mt-4 border-t border-gray-100 pt-4">
+                          {sourcePreview.loading ? (
+                            <p className="text-sm text-gray-500">Parsing manuscript...</p>
+                          ) : sourcePreview.error ? (
+                            <p className="text-sm text-red-600">{sourcePreview.error}</p>
+                          ) : (
+                            <div className="space-y-2">
+                              <p className="text-sm text-gray-700">
+                                {sourcePreview.chapters.length} chapter{sourcePreview.chapters.length === 1 ? '' : 's'} found
+                              </p>
+                              {sourcePreview.errors.map((message) => (
+                                <p key={message} className="text-sm text-amber-700">{message}</p>
+                              ))}
+                              {sourcePreview.chapters.map((chapter) => (
+                                <div key={chapter.id} className="flex items-start justify-between gap-4 text-sm">
+                                  <div>
+                                    <span className="font-medium text-gray-900">{chapter.indexInBook}. {chapter.title}</span>
+                                    <span className="text-gray-500"> • {chapter.wordCount} words</span>
+                                    {chapter.contentPreview && (
+                                      <p className="text-gray-500 italic truncate max-w-xl">{chapter.contentPreview}</p>
+                                    )}
+                                  </div>
+                                  {chapter.detectedBy && (
+                                    <span
+                                      title={chapter.detectedBy.detail}
+                                      className="shrink-0 px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-full"
+                                    >
+                                      {DETECTION_RULE_LABELS[chapter.detectedBy.rule] ?? chapter.detectedBy.rule}: {chapter.detectedBy.detail}
+                                    </span>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -922,10 +1083,33 @@ export default function EditBookPage() {
                   {activeJob.errorMessage && (
                     <p className="text-sm text-red-600">{activeJob.errorMessage}</p>
                   )}
+
+                  {jobLog.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto rounded-md bg-gray-50 border border-gray-200 p-3 font-mono text-xs text-gray-700 space-y-1">
+                      {jobLog.map((entry, index) => (
+                        <div key={`${entry.jobId}-${index}`} className="flex gap-3">
+                          <span className="text-gray-400">{new Date(entry.at).toLocaleTimeString()}</span>
+                          <span className="w-10 text-right text-gray-500">{entry.progress}%</span>
+                          <span>{entry.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
+            {/* Revised manuscript for a book that already has chapters */}
+            <ManuscriptReimportReview
+              bookId={bookId}
+              refreshKey={reimportJobId}
+              onApplied={(message) => {
+                setSuccess(message);
+                setActiveJob(null);
+                setReimportJobId(null);
+              }}
+            />
+
             {/* Detected Chapters */}
             {detectedChapters.length > 0 && (
               <div className="bg-white rounded-lg shadow-md p-6">
@@ -957,8 +1141,11 @@ export default function EditBookPage() {
                             {chapter.wordCount} words
                           </p>
                         </div>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
-                          Detected
+                        <span
+                          title={chapter.detectedBy?.detail}
+                          className="px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full"
+                        >
+                          {chapter.detectedBy ? `Detected: ${DETECTION_RULE_LABELS[chapter.detectedBy.rule] ?? chapter.detectedBy.rule}` : 'Detected'}
                         </span>
                       </div>
                       
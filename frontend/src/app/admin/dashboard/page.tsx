@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { api } from '@/lib/api';
@@ -21,6 +21,164 @@ interface AnalyticsData {
   }>;
 }
 
+type TimingIssueType = 'zero_length' | 'overlap' | 'non_monotonic' | 'long_gap' | 'past_duration' | 'estimated';
+
+interface TimingProblemChapter {
+  chapterId: string;
+  bookId: string;
+  bookTitle: string;
+  indexInBook: number;
+  title: string;
+  quality: {
+    score: number;
+    accuracy: 'perfect' | 'good' | 'fallback';
+    wordCount: number;
+    problemWords: number;
+    counts: Record<TimingIssueType, number>;
+    issues: Array<{ type: TimingIssueType; wordIndex: number; text: string; start: number; end: number }>;
+    checkedAt: string;
+  };
+}
+
+interface TimingQualityData {
+  summary: { perfect: number; good: number; fallback: number; unchecked: number };
+  problems: TimingProblemChapter[];
+}
+
+const ISSUE_LABELS: Record<TimingIssueType, string> = {
+  zero_length: 'zero-length',
+  overlap: 'overlapping',
+  non_monotonic: 'out of order',
+  long_gap: 'long gap before',
+  past_duration: 'past the audio end',
+  estimated: 'estimated',
+};
+
+const ACCURACY_STYLES: Record<TimingProblemChapter['quality']['accuracy'], string> = {
+  perfect: 'bg-green-100 text-green-800',
+  good: 'bg-yellow-100 text-yellow-800',
+  fallback: 'bg-red-100 text-red-800',
+};
+
+// Chapters whose word timings the quality check flagged, worst first, linking to the words in the timing editor
+function TimingQualityPanel() {
+  const [data, setData] = useState<TimingQualityData | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadTimingQuality = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/analytics/timing-quality', { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Failed to load timing quality');
+      }
+      setData(await response.json());
+    } catch (err) {
+      console.error('Timing quality error:', err);
+      setMessage('Failed to load timing quality');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTimingQuality();
+  }, [loadTimingQuality]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/admin/analytics/timing-quality/check', { method: 'POST', credentials: 'include' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to check timings');
+      }
+      setMessage(result.message);
+      await loadTimingQuality();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to check timings');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">Word Timing Quality</h3>
+        {data && data.summary.unchecked > 0 && (
+          <button
+            onClick={handleCheck}
+            disabled={checking}
+            className="px-3 py-1 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+          >
+            {checking ? 'Checking...' : `Check ${data.summary.unchecked} unchecked chapter${data.summary.unchecked === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+      <div className="px-6 py-4 space-y-4">
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+        {data && (
+          <>
+            <div className="flex flex-wrap gap-6 text-sm">
+              <span className="text-gray-600">Perfect <span className="font-semibold text-green-600">{data.summary.perfect}</span></span>
+              <span className="text-gray-600">Good <span className="font-semibold text-yellow-600">{data.summary.good}</span></span>
+              <span className="text-gray-600">Fallback <span className="font-semibold text-red-600">{data.summary.fallback}</span></span>
+              <span className="text-gray-600">Unchecked <span className="font-semibold">{data.summary.unchecked}</span></span>
+            </div>
+            {data.problems.length > 0 ? (
+              <div className="divide-y divide-gray-100">
+                {data.problems.map((problem) => {
+                  const editorUrl = `/admin/books/${problem.bookId}/chapters/${problem.chapterId}/timings`;
+                  const counts = (Object.keys(ISSUE_LABELS) as TimingIssueType[]).filter((type) => problem.quality.counts[type] > 0);
+                  // Estimated words are only listed when nothing worse was found
+                  const problemIssues = problem.quality.issues.filter((issue) => issue.type !== 'estimated');
+                  const shownIssues = (problemIssues.length > 0 ? problemIssues : problem.quality.issues).slice(0, 8);
+                  return (
+                    <div key={problem.chapterId} className="py-3">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <span className="font-medium text-gray-900">{problem.bookTitle}</span>
+                          <span className="text-gray-500"> · Chapter {problem.indexInBook}: {problem.title}</span>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className={`text-xs px-2 py-1 rounded-full font-medium ${ACCURACY_STYLES[problem.quality.accuracy]}`}>
+                            {problem.quality.accuracy} · {problem.quality.score}
+                          </span>
+                          <Link href={editorUrl} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                            Edit timings
+                          </Link>
+                        </div>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {counts.map((type) => `${problem.quality.counts[type]} ${ISSUE_LABELS[type]}`).join(' · ')}
+                        {' '}of {problem.quality.wordCount} words
+                      </p>
+                      <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                        {shownIssues.map((issue) => (
+                          <Link
+                            key={`${issue.type}-${issue.wordIndex}`}
+                            href={`${editorUrl}?word=${issue.wordIndex}`}
+                            className="px-2 py-0.5 bg-red-50 text-red-700 rounded hover:bg-red-100"
+                            title={`${ISSUE_LABELS[issue.type]} at ${issue.start.toFixed(2)}s`}
+                          >
+                            “{issue.text}” {ISSUE_LABELS[issue.type]}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-gray-500">No chapters with timing problems</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export default function AdminDashboard() {
   const router = useRouter();
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
@@ -252,6 +410,8 @@ export default function AdminDashboard() {
           </div>
         </div>
 
+        <TimingQualityPanel />
+
         {/* Quick Actions */}
         <div className="mt-8 bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
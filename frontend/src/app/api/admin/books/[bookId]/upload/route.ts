@@ -14,6 +14,20 @@ export async function POST(
     }
 
     const { bookId } = await params;
+
+    // Manuscripts arrive as a multipart form (the file and its parsing profile)
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const response = await fetch(`${BACKEND_URL}/api/admin/books/${bookId}/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${authToken}`,
+        },
+        body: await request.formData(),
+      });
+
+      const data = await response.json();
+      return NextResponse.json(data, { status: response.status });
+    }
     
     // Forward the request to the backend object storage endpoint
     const response = await fetch(`${BACKEND_URL}/api/admin/objects/upload`, {
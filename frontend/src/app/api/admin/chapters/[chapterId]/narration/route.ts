@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:8080';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ chapterId: string }> }
+) {
+  try {
+    const authToken = request.cookies.get('auth-token')?.value;
+    
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { chapterId } = await params;
+
+    // Recordings can be hundreds of megabytes, so the multipart body is streamed through rather than buffered
+    const response = await fetch(`${BACKEND_URL}/api/admin/chapters/${chapterId}/narration`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': request.headers.get('content-type') ?? 'multipart/form-data',
+      },
+      body: request.body,
+      duplex: 'half',
+    } as RequestInit);
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error('Admin upload narration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:8080';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const authToken = request.cookies.get('auth-token')?.value;
+    
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const response = await fetch(`${BACKEND_URL}/api/jobs/${jobId}/events`, {
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Accept': 'text/event-stream',
+      },
+      signal: request.signal, // Close the backend stream when the browser disconnects
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json();
+      return NextResponse.json(data, { status: response.status });
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Admin job events error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { cookies } from 'next/headers';
 
 const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:8080';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const cookieStore = await cookies();
     const token = cookieStore.get('auth-token')?.value;
@@ -15,7 +15,7 @@ export async function GET() {
       );
     }
 
-    const response = await fetch(`${BACKEND_URL}/api/words/review`, {
+    const response = await fetch(`${BACKEND_URL}/api/words/review${request.nextUrl.search}`, {
       headers: {
         'Authorization': `Bearer ${token}`,
       },
@@ -30,7 +30,8 @@ export async function GET(
     // Decode URL-encoded word (handles special characters like ñ, á, etc.)
     const decodedWord = decodeURIComponent(word);
 
-    const response = await fetch(`${BACKEND_URL}/api/words/translate/${encodeURIComponent(decodedWord)}`, {
+    // Forward query params (bookId etc.) so the backend can resolve the word's lemma entry
+    const response = await fetch(`${BACKEND_URL}/api/words/translate/${encodeURIComponent(decodedWord)}${request.nextUrl.search}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${token}`,
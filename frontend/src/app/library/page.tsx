@@ -14,6 +14,14 @@ interface Book {
   coverImageUrl?: string;
 }
 
+interface DeckCounts {
+  bookId: string;
+  due: number;
+  new: number;
+  learning: number;
+  total: number;
+}
+
 export default function LibraryPage() {
   const [books, setBooks] = useState<Book[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -23,6 +31,7 @@ export default function LibraryPage() {
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
   const [showRedeemForm, setShowRedeemForm] = useState(false);
+  const [decks, setDecks] = useState<Record<string, DeckCounts>>({});
   const router = useRouter();
 
   const loadBooks = async () => {
@@ -48,6 +57,16 @@ export default function LibraryPage() {
     }
   };
 
+  // Review counts are a nice-to-have; the library still works without them
+  const loadDecks = async () => {
+    try {
+      const result = await api.getDecks();
+      setDecks(Object.fromEntries((result.decks || []).map((deck: DeckCounts) => [deck.bookId, deck])));
+    } catch (error) {
+      console.error('Error loading review decks:', error);
+    }
+  };
+
   const handleRedeem = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsRedeeming(true);
@@ -88,6 +107,7 @@ export default function LibraryPage() {
 
   useEffect(() => {
     loadBooks();
+    loadDecks();
   }, []);
 
   return (
@@ -278,6 +298,19 @@ export default function LibraryPage() {
                   >
                     Read
                   </Link>
+                  {decks[book.id]?.total > 0 && (
+                    <Link
+                      href={`/word-bank?deck=${book.id}`}
+                      className="block text-center text-xs mt-2 hover:underline"
+                      style={{ color: '#64748b' }}
+                    >
+                      <span style={{ color: '#22c55e' }}>{decks[book.id].due} due</span>
+                      {' · '}
+                      <span style={{ color: '#3b82f6' }}>{decks[book.id].new} new</span>
+                      {' · '}
+                      <span style={{ color: '#ef4444' }}>{decks[book.id].learning} learning</span>
+                    </Link>
+                  )}
                 </div>
               </div>
             ))}
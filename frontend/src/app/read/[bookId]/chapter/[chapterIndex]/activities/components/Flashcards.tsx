@@ -105,6 +105,10 @@ export function Flashcards({
     setKnownCards(newKnownCards);
   };
 
+  const playAudio = (audioUrl: string) => {
+    new Audio(audioUrl).play().catch((error) => console.error('Error playing card audio:', error));
+  };
+
   const nextCard = () => {
     if (currentCardIndex < activity.cards.length - 1) {
       setCurrentCardIndex(currentCardIndex + 1);
@@ -171,6 +175,18 @@ export function Flashcards({
                 <div className="text-5xl font-bold mb-4" style={{ color: '#1e293b', fontFamily: 'Inter, sans-serif' }}>
                   {currentCard?.spanish}
                 </div>
+                {currentCard?.audioUrl && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation(); // Don't flip the card
+                      playAudio(currentCard.audioUrl!);
+                    }}
+                    className="mb-4 px-4 py-2 rounded-2xl font-semibold transition-all duration-300 transform hover:scale-105"
+                    style={{ backgroundColor: '#fff1e6', color: '#ff6b35' }}
+                  >
+                    🔊 Listen
+                  </button>
+                )}
                 <div className="text-lg font-medium" style={{ color: '#64748b' }}>
                   Click to reveal translation
                 </div>
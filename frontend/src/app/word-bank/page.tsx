@@ -1,7 +1,18 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
+import { formatInterval } from '@/lib/dateUtils';
+import VocabularyImport from '@/components/VocabularyImport';
+import ClozeReview from '@/components/ClozeReview';
+import DailyReview from '@/components/DailyReview';
+
+type ReviewGradeName = 'again' | 'hard' | 'good' | 'easy';
+
+interface ProjectedInterval {
+  intervalDays: number;
+  dueAt: string;
+}
 
 interface SavedWord {
   id: number;
@@ -10,8 +21,28 @@ interface SavedWord {
   bookId: string;
   createdAt: string;
   ease: number;
+  lemma: string | null;
+  surfaceForms: { form: string; sentence?: string; chapterId?: string; savedAt: string }[];
+  repetitions: number;
+  lapses: number;
+  nextReviewAt: string;
+  nextIntervals?: Record<ReviewGradeName, ProjectedInterval>;
+}
+
+interface WordStats {
+  periodDays: number;
+  cards: { total: number; new: number; learning: number; young: number; mature: number };
+  reviews: { total: number; reviewsPerDay: number };
+  retention: { trueRetention: number | null; matureRetention: number | null };
 }
 
+const REVIEW_BUTTONS: { grade: 1 | 2 | 3 | 4; name: ReviewGradeName; label: string; color: string }[] = [
+  { grade: 1, name: 'again', label: 'Again', color: '#ef4444' },
+  { grade: 2, name: 'hard', label: 'Hard', color: '#f59e0b' },
+  { grade: 3, name: 'good', label: 'Good', color: '#22c55e' },
+  { grade: 4, name: 'easy', label: 'Easy', color: '#3b82f6' },
+];
+
 export default function WordBankPage() {
   const [savedWords, setSavedWords] = useState<SavedWord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -19,11 +50,47 @@ export default function WordBankPage() {
   const [currentCard, setCurrentCard] = useState(0);
   const [showTranslation, setShowTranslation] = useState(false);
   const [flashcardMode, setFlashcardMode] = useState(false);
+  const [submittingReview, setSubmittingReview] = useState(false);
+  const [stats, setStats] = useState<WordStats | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [clozeMode, setClozeMode] = useState(false);
+  const [dailyReview, setDailyReview] = useState(false);
+  const [deckBookId, setDeckBookId] = useState<string | null>(null);
+  const [silentWords, setSilentWords] = useState<Set<number>>(new Set());
+  const cardShownAt = useRef(Date.now());
+
+  // Library deck links open straight into that book's daily review
+  useEffect(() => {
+    const deck = new URLSearchParams(window.location.search).get('deck');
+    if (deck) {
+      setDeckBookId(deck);
+      setDailyReview(true);
+    }
+  }, []);
 
   useEffect(() => {
     fetchSavedWords();
+    fetchStats();
   }, []);
 
+  useEffect(() => {
+    cardShownAt.current = Date.now();
+  }, [currentCard, flashcardMode]);
+
+  const fetchStats = async () => {
+    try {
+      const response = await fetch('/api/words/stats', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setStats(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching word stats:', error);
+    }
+  };
+
   const fetchSavedWords = async () => {
     try {
       const response = await fetch('/api/words/saved', {
@@ -58,6 +125,38 @@ export default function WordBankPage() {
     setShowTranslation(!showTranslation);
   };
 
+  // Play the word as narrated in its chapter; words without narration lose the button
+  const playWordAudio = (wordId: number) => {
+    const audio = new Audio(`/api/words/${wordId}/audio`);
+    audio.onerror = () => setSilentWords((prev) => new Set(prev).add(wordId));
+    audio.play().catch((error) => console.error('Error playing word audio:', error));
+  };
+
+  const submitReview = async (wordId: number, grade: 1 | 2 | 3 | 4) => {
+    setSubmittingReview(true);
+    try {
+      const response = await fetch(`/api/words/review/${wordId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ grade, responseTimeMs: Date.now() - cardShownAt.current }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSavedWords((prev) => prev.map((word) => (word.id === wordId ? data.word : word)));
+        nextCard();
+        fetchStats();
+      } else {
+        console.error('Failed to save review:', response.status);
+      }
+    } catch (error) {
+      console.error('Error saving review:', error);
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
@@ -104,28 +203,118 @@ export default function WordBankPage() {
               </Link>
               <h1 className="text-3xl font-bold" style={{ color: '#374151', fontFamily: 'Inter, sans-serif' }}>📚 Your Word Bank</h1>
             </div>
-            {savedWords.length > 0 && (
-              <div className="flex items-center space-x-4">
-                <span className="text-base font-semibold" style={{ color: '#1e293b' }}>{savedWords.length} words saved</span>
-                <button
-                  onClick={() => setFlashcardMode(!flashcardMode)}
-                  className="px-8 py-4 rounded-2xl font-bold transition-all duration-300 transform hover:scale-105 shadow-lg"
-                  style={{
-                    backgroundColor: flashcardMode ? '#22c55e' : '#3b82f6',
-                    color: 'white',
-                    boxShadow: flashcardMode ? '0 6px 20px rgba(34, 197, 94, 0.3)' : '0 6px 20px rgba(59, 130, 246, 0.3)'
-                  }}
-                >
-                  {flashcardMode ? '📋 List View' : '🎯 Flashcard Mode'}
-                </button>
-              </div>
-            )}
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => setShowImport(!showImport)}
+                className="px-3 py-2 rounded-2xl border text-sm font-semibold text-orange-600 hover:bg-orange-50"
+                style={{ borderColor: '#e2e8f0' }}
+              >
+                ⬆️ Import
+              </button>
+              <button
+                onClick={() => {
+                  setDailyReview(!dailyReview);
+                  setClozeMode(false);
+                }}
+                className="px-3 py-2 rounded-2xl border text-sm font-semibold text-orange-600 hover:bg-orange-50"
+                style={{ borderColor: '#e2e8f0', backgroundColor: dailyReview ? '#fff1e6' : undefined }}
+              >
+                {dailyReview ? '📚 Words' : '📅 Daily Review'}
+              </button>
+              <button
+                onClick={() => {
+                  setClozeMode(!clozeMode);
+                  setDailyReview(false);
+                }}
+                className="px-3 py-2 rounded-2xl border text-sm font-semibold text-orange-600 hover:bg-orange-50"
+                style={{ borderColor: '#e2e8f0', backgroundColor: clozeMode ? '#fff1e6' : undefined }}
+              >
+                {clozeMode ? '📚 Words' : '💬 Sentences'}
+              </button>
+              {savedWords.length > 0 && (
+                <>
+                  <span className="text-base font-semibold" style={{ color: '#1e293b' }}>{savedWords.length} words saved</span>
+                  <div className="flex items-center rounded-2xl overflow-hidden border" style={{ borderColor: '#e2e8f0' }}>
+                    <span className="px-3 py-2 text-sm font-medium text-gray-500">⬇️ Export</span>
+                    <a href="/api/words/export?format=apkg" className="px-3 py-2 text-sm font-semibold text-orange-600 hover:bg-orange-50">
+                      Anki
+                    </a>
+                    <a href="/api/words/export?format=csv" className="px-3 py-2 text-sm font-semibold text-orange-600 hover:bg-orange-50">
+                      CSV
+                    </a>
+                    <a href="/api/words/export?format=tsv" className="px-3 py-2 text-sm font-semibold text-orange-600 hover:bg-orange-50">
+                      TSV
+                    </a>
+                  </div>
+                  <button
+                    onClick={() => setFlashcardMode(!flashcardMode)}
+                    className="px-8 py-4 rounded-2xl font-bold transition-all duration-300 transform hover:scale-105 shadow-lg"
+                    style={{
+                      backgroundColor: flashcardMode ? '#22c55e' : '#3b82f6',
+                      color: 'white',
+                      boxShadow: flashcardMode ? '0 6px 20px rgba(34, 197, 94, 0.3)' : '0 6px 20px rgba(59, 130, 246, 0.3)'
+                    }}
+                  >
+                    {flashcardMode ? '📋 List View' : '🎯 Flashcard Mode'}
+                  </button>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </div>
 
       <div className="max-w-4xl mx-auto px-4 py-8">
-        {savedWords.length === 0 ? (
+        {showImport && (
+          <VocabularyImport
+            onImported={() => {
+              fetchSavedWords();
+              fetchStats();
+            }}
+            onClose={() => setShowImport(false)}
+          />
+        )}
+
+        {stats && stats.cards.total > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            <div className="bg-white rounded-lg shadow-sm border p-4 text-center">
+              <div className="text-2xl font-bold" style={{ color: '#374151' }}>
+                {stats.retention.trueRetention === null ? '–' : `${Math.round(stats.retention.trueRetention * 100)}%`}
+              </div>
+              <div className="text-sm text-gray-500">True retention</div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4 text-center">
+              <div className="text-2xl font-bold" style={{ color: '#374151' }}>
+                {stats.reviews.reviewsPerDay.toFixed(1)}
+              </div>
+              <div className="text-sm text-gray-500">Reviews / day ({stats.periodDays}d)</div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4 text-center">
+              <div className="text-2xl font-bold" style={{ color: '#22c55e' }}>{stats.cards.mature}</div>
+              <div className="text-sm text-gray-500">Mature cards</div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4 text-center">
+              <div className="text-2xl font-bold" style={{ color: '#f59e0b' }}>
+                {stats.cards.young + stats.cards.learning}
+              </div>
+              <div className="text-sm text-gray-500">Young / learning · {stats.cards.new} new</div>
+            </div>
+          </div>
+        )}
+
+        {dailyReview ? (
+          /* Today's queue within the daily limits */
+          <DailyReview
+            deckBookId={deckBookId}
+            onReviewed={() => {
+              fetchSavedWords();
+              fetchStats();
+            }}
+          />
+        ) : clozeMode ? (
+          /* Sentence cloze review */
+          <ClozeReview />
+        ) : savedWords.length === 0 ? (
           /* Empty State */
           <div className="text-center py-16">
             <div className="text-6xl mb-6">📚</div>
@@ -152,15 +341,48 @@ export default function WordBankPage() {
                 <div className="text-sm text-gray-500 mb-2">
                   Card {currentCard + 1} of {savedWords.length}
                 </div>
-                <div className="text-4xl font-bold mb-4" style={{ color: '#374151' }}>
+                <div className="text-4xl font-bold mb-4 flex items-center justify-center" style={{ color: '#374151' }}>
                   {savedWords[currentCard]?.spanishWord}
+                  {savedWords[currentCard] && !silentWords.has(savedWords[currentCard].id) && (
+                    <button
+                      onClick={() => playWordAudio(savedWords[currentCard].id)}
+                      className="ml-3 text-2xl hover:scale-110 transition-transform"
+                      title="Play pronunciation"
+                    >
+                      🔊
+                    </button>
+                  )}
                 </div>
                 {showTranslation && (
                   <div className="text-2xl text-blue-600 font-medium">
                     {savedWords[currentCard]?.englishTranslation}
                   </div>
                 )}
+                {showTranslation && savedWords[currentCard]?.surfaceForms?.find((f) => f.sentence) && (
+                  <div className="mt-4 text-sm italic text-gray-600">
+                    {savedWords[currentCard].surfaceForms.find((f) => f.sentence)!.sentence}
+                  </div>
+                )}
               </div>
+
+              {showTranslation && savedWords[currentCard]?.nextIntervals && (
+                <div className="grid grid-cols-4 gap-2 mb-6">
+                  {REVIEW_BUTTONS.map(({ grade, name, label, color }) => (
+                    <button
+                      key={name}
+                      onClick={() => submitReview(savedWords[currentCard].id, grade)}
+                      disabled={submittingReview}
+                      className="py-2 rounded-lg text-white font-medium disabled:opacity-50"
+                      style={{ backgroundColor: color }}
+                    >
+                      <div>{label}</div>
+                      <div className="text-xs opacity-90">
+                        {formatInterval(savedWords[currentCard].nextIntervals![name].intervalDays)}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
               
               <div className="flex justify-center space-x-4 mb-6">
                 <button
@@ -224,6 +446,11 @@ export default function WordBankPage() {
                           {word.englishTranslation}
                         </div>
                       </div>
+                      {word.surfaceForms?.length > 0 && (
+                        <div className="mt-1 text-sm text-gray-600">
+                          Seen as: {Array.from(new Set(word.surfaceForms.map((f) => f.form))).join(', ')}
+                        </div>
+                      )}
                       <div className="mt-1 flex items-center space-x-4 text-sm text-gray-500">
                         <span>From: {word.bookId}</span>
                         <span>Added: {new Date(word.createdAt).toLocaleDateString()}</span>
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { formatInterval } from '@/lib/dateUtils';
+
+type ReviewGradeName = 'again' | 'hard' | 'good' | 'easy';
+
+interface SentenceCard {
+  id: number;
+  bookId: string;
+  chapterId: string | null;
+  sentence: string;
+  translation: string | null;
+  targetWord: string;
+  targetStart: number;
+  targetEnd: number;
+  audioStartTime: number | null;
+  audioEndTime: number | null;
+  nextIntervals?: Record<ReviewGradeName, { intervalDays: number; dueAt: string }>;
+}
+
+const REVIEW_BUTTONS: { grade: 1 | 2 | 3 | 4; name: ReviewGradeName; label: string; color: string }[] = [
+  { grade: 1, name: 'again', label: 'Again', color: '#ef4444' },
+  { grade: 2, name: 'hard', label: 'Hard', color: '#f59e0b' },
+  { grade: 3, name: 'good', label: 'Good', color: '#22c55e' },
+  { grade: 4, name: 'easy', label: 'Easy', color: '#3b82f6' },
+];
+
+// Cloze review of saved sentences: hear the sentence, recall the blanked word
+export default function ClozeReview() {
+  const [cards, setCards] = useState<SentenceCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [current, setCurrent] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const fetchDueSentences = async () => {
+      try {
+        const response = await fetch('/api/sentences/review', {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setCards(data.sentences || []);
+        }
+      } catch (error) {
+        console.error('Error fetching sentences:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDueSentences();
+  }, []);
+
+  const card = cards[current];
+
+  const playSentence = useCallback(() => {
+    if (!card || card.audioStartTime === null) return;
+
+    audioRef.current?.pause();
+    audioRef.current = new Audio(`/api/sentences/${card.id}/audio`);
+    audioRef.current.play().catch((error) => console.error('Error playing sentence audio:', error));
+  }, [card]);
+
+  // Play the sentence as soon as a card is shown
+  useEffect(() => {
+    playSentence();
+    return () => audioRef.current?.pause();
+  }, [playSentence]);
+
+  const submitReview = async (grade: 1 | 2 | 3 | 4) => {
+    if (!card) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/sentences/${card.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ grade }),
+      });
+
+      if (response.ok) {
+        setRevealed(false);
+        setCurrent((prev) => prev + 1);
+      } else {
+        console.error('Failed to save sentence review:', response.status);
+      }
+    } catch (error) {
+      console.error('Error saving sentence review:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-3 text-gray-600">Loading sentences...</span>
+      </div>
+    );
+  }
+
+  if (!card) {
+    return (
+      <div className="text-center py-16">
+        <div className="text-6xl mb-6">💬</div>
+        <h2 className="text-2xl font-bold mb-4" style={{ color: '#374151' }}>
+          {cards.length > 0 ? 'All sentences reviewed!' : 'No sentences due'}
+        </h2>
+        <p className="text-lg" style={{ color: '#718096' }}>
+          Save sentences while reading: tap a word, then &quot;Save sentence&quot;.
+        </p>
+      </div>
+    );
+  }
+
+  const before = card.sentence.slice(0, card.targetStart);
+  const after = card.sentence.slice(card.targetEnd);
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-xl shadow-lg p-8 text-center min-h-[300px] flex flex-col justify-center">
+        <div className="text-sm text-gray-500 mb-4">
+          Sentence {current + 1} of {cards.length}
+        </div>
+
+        <div className="text-2xl leading-relaxed mb-6" style={{ color: '#374151' }}>
+          {before}
+          {revealed ? (
+            <span className="font-bold text-blue-600 underline">{card.targetWord}</span>
+          ) : (
+            <span className="inline-block border-b-2 border-gray-400 align-bottom" style={{ width: `${Math.max(3, card.targetWord.length)}ch` }}>
+              &nbsp;
+            </span>
+          )}
+          {after}
+        </div>
+
+        {revealed && card.translation && (
+          <div className="text-lg italic text-gray-600 mb-6">{card.translation}</div>
+        )}
+
+        <div className="flex justify-center space-x-4 mb-6">
+          {card.audioStartTime !== null && (
+            <button
+              onClick={playSentence}
+              className="px-6 py-3 bg-gray-200 hover:bg-gray-300 rounded-lg font-medium"
+            >
+              🔊 Replay
+            </button>
+          )}
+          {!revealed && (
+            <button
+              onClick={() => setRevealed(true)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              Show Answer
+            </button>
+          )}
+        </div>
+
+        {revealed && card.nextIntervals && (
+          <div className="grid grid-cols-4 gap-2">
+            {REVIEW_BUTTONS.map(({ grade, name, label, color }) => (
+              <button
+                key={name}
+                onClick={() => submitReview(grade)}
+                disabled={submitting}
+                className="py-2 rounded-lg text-white font-medium disabled:opacity-50"
+                style={{ backgroundColor: color }}
+              >
+                <div>{label}</div>
+                <div className="text-xs opacity-90">{formatInterval(card.nextIntervals![name].intervalDays)}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { api } from '@/lib/api';
+import { formatInterval, formatDateTime } from '@/lib/dateUtils';
+
+type ReviewGradeName = 'again' | 'hard' | 'good' | 'easy';
+type QueueType = 'learning' | 'review' | 'new';
+type DeckMode = 'interleave' | 'book';
+
+interface QueuedWord {
+  id: number;
+  spanishWord: string;
+  englishTranslation: string;
+  bookId: string;
+  queueType: QueueType;
+  nextIntervals?: Record<ReviewGradeName, { intervalDays: number; dueAt: string }>;
+}
+
+interface ReviewSettings {
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  deckMode: DeckMode;
+  activeBookId: string | null;
+}
+
+interface QueueSummary {
+  counts: Record<QueueType, number>;
+  today: { newStudied: number; reviewsDone: number; newRemaining: number; reviewsRemaining: number };
+  nextDueAt: string | null;
+}
+
+interface DailyReviewProps {
+  deckBookId?: string | null; // Study a single book regardless of the saved deck mode
+  onReviewed?: () => void;
+}
+
+const REVIEW_BUTTONS: { grade: 1 | 2 | 3 | 4; name: ReviewGradeName; label: string; color: string }[] = [
+  { grade: 1, name: 'again', label: 'Again', color: '#ef4444' },
+  { grade: 2, name: 'hard', label: 'Hard', color: '#f59e0b' },
+  { grade: 3, name: 'good', label: 'Good', color: '#22c55e' },
+  { grade: 4, name: 'easy', label: 'Easy', color: '#3b82f6' },
+];
+
+const QUEUE_COLORS: Record<QueueType, string> = {
+  learning: '#ef4444',
+  review: '#22c55e',
+  new: '#3b82f6',
+};
+
+// Today's review session: learning, due and new cards within the daily limits
+export default function DailyReview({ deckBookId, onReviewed }: DailyReviewProps) {
+  const [queue, setQueue] = useState<QueuedWord[]>([]);
+  const [summary, setSummary] = useState<QueueSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [revealed, setRevealed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<ReviewSettings | null>(null);
+  const [books, setBooks] = useState<{ id: string; title: string }[]>([]);
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null);
+  const cardShownAt = useRef(Date.now());
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const data = await api.getReviewWords(deckBookId || undefined);
+      setQueue(data.words || []);
+      setSummary({ counts: data.counts, today: data.today, nextDueAt: data.nextDueAt });
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [deckBookId]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    api.getReviewSettings()
+      .then((data) => setSettings(data.settings))
+      .catch((error) => console.error('Error loading review settings:', error));
+    api.getBooks()
+      .then((result) => setBooks(result.books || []))
+      .catch((error) => console.error('Error loading books:', error));
+  }, []);
+
+  const card = queue[0];
+
+  useEffect(() => {
+    cardShownAt.current = Date.now();
+  }, [card]);
+
+  const submitReview = async (grade: 1 | 2 | 3 | 4) => {
+    if (!card) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/words/review/${card.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ grade, responseTimeMs: Date.now() - cardShownAt.current }),
+      });
+
+      if (response.ok) {
+        setRevealed(false);
+        setQueue((prev) => prev.slice(1));
+        onReviewed?.();
+
+        // Cards failed or still in learning come back today, so refill once the queue drains
+        if (queue.length === 1) {
+          await fetchQueue();
+        }
+      } else {
+        console.error('Failed to save review:', response.status);
+      }
+    } catch (error) {
+      console.error('Error saving review:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    if (!settings) return;
+
+    try {
+      const data = await api.updateReviewSettings(settings);
+      setSettings(data.settings);
+      setSettingsMessage(data.warning || 'Settings saved');
+      setLoading(true);
+      await fetchQueue();
+    } catch (error) {
+      console.error('Error saving review settings:', error);
+      setSettingsMessage(error instanceof Error ? error.message : 'Failed to save settings');
+    }
+  };
+
+  const remaining = queue.reduce(
+    (counts, word) => ({ ...counts, [word.queueType]: counts[word.queueType] + 1 }),
+    { learning: 0, review: 0, new: 0 } as Record<QueueType, number>
+  );
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex space-x-4 text-sm font-semibold">
+          {(['learning', 'review', 'new'] as QueueType[]).map((type) => (
+            <span key={type} style={{ color: QUEUE_COLORS[type] }}>
+              {remaining[type]} {type}
+            </span>
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            setShowSettings(!showSettings);
+            setSettingsMessage(null);
+          }}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          ⚙️ Daily limits
+        </button>
+      </div>
+
+      {showSettings && settings && (
+        <div className="bg-white rounded-xl shadow-sm border p-6 mb-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm text-gray-700">
+              New cards / day
+              <input
+                type="number"
+                min={0}
+                max={9999}
+                value={settings.newCardsPerDay}
+                onChange={(e) => setSettings({ ...settings, newCardsPerDay: Number(e.target.value) })}
+                className="mt-1 w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              Maximum reviews / day
+              <input
+                type="number"
+                min={0}
+                max={9999}
+                value={settings.maxReviewsPerDay}
+                onChange={(e) => setSettings({ ...settings, maxReviewsPerDay: Number(e.target.value) })}
+                className="mt-1 w-full border rounded-lg px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={settings.deckMode === 'interleave'}
+                onChange={() => setSettings({ ...settings, deckMode: 'interleave' })}
+              />
+              <span>Mix words from all my books</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={settings.deckMode === 'book'}
+                onChange={() => setSettings({ ...settings, deckMode: 'book', activeBookId: settings.activeBookId ?? books[0]?.id ?? null })}
+              />
+              <span>Study one book at a time</span>
+            </label>
+            {settings.deckMode === 'book' && (
+              <select
+                value={settings.activeBookId ?? ''}
+                onChange={(e) => setSettings({ ...settings, activeBookId: e.target.value || null })}
+                className="w-full border rounded-lg px-3 py-2"
+              >
+                {books.length === 0 && <option value="">No books available</option>}
+                {books.map((book) => (
+                  <option key={book.id} value={book.id}>{book.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">{settingsMessage}</span>
+            <button
+              onClick={saveSettings}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Loading today&apos;s reviews...</span>
+        </div>
+      ) : !card ? (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-6">🎉</div>
+          <h2 className="text-2xl font-bold mb-4" style={{ color: '#374151' }}>
+            You&apos;re done for today!
+          </h2>
+          {summary && (
+            <p className="text-lg" style={{ color: '#718096' }}>
+              {summary.today.reviewsDone} reviews and {summary.today.newStudied} new words studied today.
+              {summary.nextDueAt && <> Come back {formatDateTime(summary.nextDueAt)}.</>}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center min-h-[300px] flex flex-col justify-center">
+          <div className="text-xs uppercase tracking-wide font-semibold mb-4" style={{ color: QUEUE_COLORS[card.queueType] }}>
+            {card.queueType}
+          </div>
+
+          <div className="text-4xl font-bold mb-6" style={{ color: '#374151' }}>
+            {card.spanishWord}
+          </div>
+
+          {revealed ? (
+            <div className="text-2xl text-gray-600 mb-6">{card.englishTranslation}</div>
+          ) : (
+            <div className="mb-6">
+              <button
+                onClick={() => setRevealed(true)}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+              >
+                Show Answer
+              </button>
+            </div>
+          )}
+
+          {revealed && card.nextIntervals && (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_BUTTONS.map(({ grade, name, label, color }) => (
+                <button
+                  key={name}
+                  onClick={() => submitReview(grade)}
+                  disabled={submitting}
+                  className="py-2 rounded-lg text-white font-medium disabled:opacity-50"
+                  style={{ backgroundColor: color }}
+                >
+                  <div>{label}</div>
+                  <div className="text-xs opacity-90">{formatInterval(card.nextIntervals![name].intervalDays)}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
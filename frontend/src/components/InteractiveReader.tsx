@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, Fragment } from 'react';
+import Image from 'next/image';
 
 interface Word {
   text: string;
@@ -9,11 +10,74 @@ interface Word {
   end?: number;
 }
 
+// An illustration from the manuscript, shown before the paragraph at paragraphIndex (after the text when past the end)
+interface ChapterImage {
+  id: string;
+  src?: string;
+  alt: string;
+  paragraphIndex: number;
+}
+
+// A word timing stored with the chapter narration: seconds, and character offsets into the narrated text
+interface TimedWord {
+  text: string;
+  start?: number;
+  end?: number;
+  startTime?: number;
+  endTime?: number;
+  charStart?: number;
+  isPause?: boolean;
+}
+
 interface Chapter {
   id: string;
   title: string;
   audioUrl: string;
   jsonUrl: string;
+  elevenLabsTimingData?: { words?: TimedWord[] } | null;
+}
+
+// Share of timed words that must sit at their offsets in the text before the timings are used
+const MIN_TIMING_AGREEMENT = 0.8;
+
+/**
+ * Give the reader's words the times measured for the chapter narration (TTS or aligned recordings)
+ * The narrated text is the chapter's paragraphs joined by blank lines; each reader word takes
+ * the times of the timed words inside it, and line breaks and punctuation get no time of their own.
+ * Returns false, leaving the estimates, when the timings don't belong to this text
+ */
+function applyNarrationTimings(words: Word[], paragraphs: { text: string }[], timedWords: TimedWord[]): boolean {
+  const text = paragraphs.map(paragraph => paragraph.text.trim()).join('\n\n');
+  const timed = timedWords
+    .filter(word => !word.isPause && typeof word.charStart === 'number' && typeof (word.startTime ?? word.start) === 'number')
+    .sort((a, b) => a.charStart! - b.charStart!);
+  const agreeing = timed.filter(word => text.startsWith(word.text, word.charStart)).length;
+  if (timed.length === 0 || agreeing / timed.length < MIN_TIMING_AGREEMENT) {
+    return false;
+  }
+
+  let cursor = 0;
+  let next = 0;
+  let lastEnd = 0;
+  words.forEach(word => {
+    const offset = word.text.trim() ? text.indexOf(word.text, cursor) : -1;
+    const inside: TimedWord[] = [];
+    if (offset >= 0) {
+      cursor = offset + word.text.length;
+      while (next < timed.length && timed[next].charStart! < offset) next++;
+      while (next < timed.length && timed[next].charStart! < cursor) inside.push(timed[next++]);
+    }
+
+    if (inside.length > 0) {
+      word.start = inside[0].startTime ?? inside[0].start;
+      word.end = inside[inside.length - 1].endTime ?? inside[inside.length - 1].end;
+      lastEnd = word.end ?? lastEnd;
+    } else {
+      word.start = lastEnd;
+      word.end = lastEnd;
+    }
+  });
+  return true;
 }
 
 interface InteractiveReaderProps {
@@ -29,8 +93,9 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
   const [duration, setDuration] = useState(0);
   const [currentWordIndex, setCurrentWordIndex] = useState(-1);
   const [selectedWord, setSelectedWord] = useState<any>(null);
-  const [hoveredWord, setHoveredWord] = useState<{ word: Word; translation?: string; loading?: boolean } | null>(null);
-  const [translationCache, setTranslationCache] = useState<Map<string, string>>(new Map());
+  const [hoveredWord, setHoveredWord] = useState<{ word: Word; translation?: string; partOfSpeech?: string; loading?: boolean } | null>(null);
+  const [translationCache, setTranslationCache] = useState<Map<string, { translation: string; partOfSpeech?: string; sense?: string }>>(new Map());
+  const [savingSentence, setSavingSentence] = useState(false);
   
   const audioRef = useRef<HTMLAudioElement>(null);
 
@@ -66,8 +131,16 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
             // Extract words from all paragraphs while preserving all line breaks
             const words: Word[] = [];
             let wordIndex = 0;
+            // Illustrations by the index of the word they come before, kept out of the word list so timings still line up
+            const images: ChapterImage[] = (parsedData.content.images ?? []).filter((image: ChapterImage) => image.src);
+            const imagesBefore: Record<number, ChapterImage[]> = {};
             
             parsedData.content.paragraphs.forEach((paragraph: any, pIndex: number) => {
+              const paragraphImages = images.filter(image => image.paragraphIndex === pIndex);
+              if (paragraphImages.length > 0) {
+                imagesBefore[words.length] = paragraphImages;
+              }
+
               // Split paragraph text by single line breaks to preserve them
               const lines = paragraph.text.split(/\r?\n/);
               
@@ -120,7 +193,13 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
               });
             }
             
-            setContent({ ...parsedData, content: words });
+            // Times measured for the narration replace the estimates
+            if (Array.isArray(chapter.elevenLabsTimingData?.words)) {
+              applyNarrationTimings(words, parsedData.content.paragraphs, chapter.elevenLabsTimingData.words);
+            }
+            
+            const imagesAfter = images.filter(image => image.paragraphIndex >= parsedData.content.paragraphs.length);
+            setContent({ ...parsedData, content: words, imagesBefore, imagesAfter });
           } else if (parsedData.content && Array.isArray(parsedData.content)) {
             // Fallback for simple word array format
             setContent(parsedData);
@@ -193,6 +272,70 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     }
   };
 
+  const renderWord = (word: Word, index: number) => {
+    // Handle line break tokens specially
+    if (word.text === '\n') {
+      return <br key={index} />;
+    } else if (word.text === '\n\n') {
+      return <div key={index} className="my-4"></div>; // Paragraph break with spacing
+    } else {
+      return (
+        <span
+          key={index}
+          onClick={() => handleWordClick(word, index)}
+          onMouseEnter={() => handleWordHover(word, index)}
+          onMouseLeave={handleWordLeave}
+          className={`
+            relative inline-block mx-0.5 px-2 py-1 rounded-lg cursor-pointer transition-all duration-300 font-medium
+            hover:bg-orange-50 hover:text-orange-600 hover:shadow-md hover:scale-105
+            active:scale-95
+            ${index === currentWordIndex ? 'bg-orange-100 text-orange-700 shadow-lg scale-105 font-semibold' : ''}
+            ${selectedWord?.index === index ? 'bg-blue-100 text-blue-700 shadow-lg' : ''}
+          `}
+          title={`Click to save word • Hover for translation`}
+        >
+          {word.text}
+          {/* Translation tooltip on hover */}
+          {hoveredWord?.word === word && (
+            <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-3 px-4 py-3 bg-gray-900 text-white text-sm rounded-xl shadow-xl z-20 whitespace-nowrap pointer-events-none border border-gray-700">
+              <div className="font-semibold text-orange-200 mb-1">{word.text}</div>
+              <div className="text-blue-200 font-medium">
+                {hoveredWord.loading ? (
+                  <span className="flex items-center space-x-2">
+                    <div className="w-3 h-3 border-2 border-orange-300 border-t-transparent rounded-full animate-spin"></div>
+                    <span>Translating...</span>
+                  </span>
+                ) : (
+                  hoveredWord.translation
+                )}
+              </div>
+              {!hoveredWord.loading && hoveredWord.partOfSpeech && (
+                <div className="text-xs text-gray-400 italic mt-1">{hoveredWord.partOfSpeech}</div>
+              )}
+              {/* Tooltip arrow */}
+              <div className="absolute top-full left-1/2 transform -translate-x-1/2">
+                <div className="w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
+              </div>
+            </div>
+          )}
+        </span>
+      );
+    }
+  };
+
+  const renderImage = (image: ChapterImage) => (
+    <figure key={image.id} className="my-6">
+      <Image
+        src={image.src!}
+        alt={image.alt}
+        width={800}
+        height={600}
+        unoptimized
+        className="mx-auto h-auto w-auto max-h-96 rounded-xl"
+      />
+    </figure>
+  );
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -208,19 +351,51 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     setCurrentTime(seekTime);
   };
 
-  const fetchTranslation = async (word: string): Promise<{ translation: string; wasInstant: boolean }> => {
+  // Find the token range of the sentence a word sits in
+  const getSentenceRange = (words: Word[], index: number): { start: number; end: number } => {
+    const isBreak = (w: Word) => w.text === '\n\n';
+    const endsSentence = (w: Word) => /[.!?…]["»”]?$/.test(w.text);
+
+    let start = index;
+    while (start > 0 && !isBreak(words[start - 1]) && !endsSentence(words[start - 1])) {
+      start--;
+    }
+
+    let end = index;
+    while (end < words.length - 1 && !isBreak(words[end + 1]) && !endsSentence(words[end])) {
+      end++;
+    }
+
+    return { start, end };
+  };
+
+  // Rebuild the sentence a word sits in from the surrounding tokens
+  const getSentenceAround = (words: Word[], index: number): string => {
+    const { start, end } = getSentenceRange(words, index);
+
+    return words
+      .slice(start, end + 1)
+      .filter((w) => w.text !== '\n')
+      .map((w) => w.text)
+      .join(' ');
+  };
+
+  // Translations depend on the sentence, so the local cache is keyed by word + sentence
+  const fetchTranslation = async (word: string, sentence: string): Promise<{ translation: string; partOfSpeech?: string; sense?: string; wasInstant: boolean }> => {
     const cleanWord = word.toLowerCase().trim().replace(/[^a-záéíóúñü]/g, '');
+    const cacheKey = `${cleanWord}|${sentence}`;
     
     // Check local cache first
-    if (translationCache.has(cleanWord)) {
-      return { 
-        translation: translationCache.get(cleanWord)!, 
-        wasInstant: true 
-      };
+    const cachedEntry = translationCache.get(cacheKey);
+    if (cachedEntry) {
+      return { ...cachedEntry, wasInstant: true };
     }
 
     try {
-      const response = await fetch(`/api/words/translate/${encodeURIComponent(cleanWord)}`, {
+      const params = new URLSearchParams({ sentence, chapterId: chapter.id });
+      if (bookId) params.set('bookId', bookId);
+
+      const response = await fetch(`/api/words/translate/${encodeURIComponent(cleanWord)}?${params.toString()}`, {
         credentials: 'include',
         headers: {
           'Content-Type': 'application/json',
@@ -229,13 +404,13 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
 
       if (response.ok) {
         const data = await response.json();
-        const translation = data.english;
+        const entry = { translation: data.english, partOfSpeech: data.partOfSpeech || undefined, sense: data.sense || undefined };
         const wasInstant = data.cached || false; // Backend indicates if it was cached
         
         // Cache the translation locally for faster subsequent access
-        setTranslationCache(prev => new Map(prev.set(cleanWord, translation)));
+        setTranslationCache(prev => new Map(prev.set(cacheKey, entry)));
         
-        return { translation, wasInstant };
+        return { ...entry, wasInstant };
       } else {
         return { translation: 'Translation unavailable', wasInstant: false };
       }
@@ -245,16 +420,18 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     }
   };
 
-  const handleWordHover = async (word: Word) => {
+  const handleWordHover = async (word: Word, index: number) => {
     if (word.text === '\n' || word.text === '\n\n' || !word.text.trim()) return;
     
     const cleanWord = word.text.toLowerCase().trim().replace(/[^a-záéíóúñü]/g, '');
+    const sentence = getSentenceAround(content.content, index);
     
     // For cached translations, show immediately without loading state
-    if (translationCache.has(cleanWord)) {
+    const cachedEntry = translationCache.get(`${cleanWord}|${sentence}`);
+    if (cachedEntry) {
       setHoveredWord({ 
         word, 
-        translation: translationCache.get(cleanWord)!, 
+        ...cachedEntry, 
         loading: false 
       });
       return;
@@ -262,10 +439,11 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     
     // Only show loading for non-cached words
     setHoveredWord({ word, loading: true });
-    const result = await fetchTranslation(word.text);
+    const result = await fetchTranslation(word.text, sentence);
     setHoveredWord({ 
       word, 
       translation: result.translation, 
+      partOfSpeech: result.partOfSpeech,
       loading: false 
     });
   };
@@ -281,12 +459,9 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     const cleanWord = word.text.toLowerCase().trim().replace(/[^a-záéíóúñü]/g, '');
     if (!cleanWord) return;
     
-    // Get translation (from cache or fetch)
-    let translation = translationCache.get(cleanWord);
-    if (!translation) {
-      const result = await fetchTranslation(word.text);
-      translation = result.translation;
-    }
+    // Get the sense-specific translation (from cache or fetch)
+    const sentence = getSentenceAround(content.content, index);
+    const { translation, sense } = await fetchTranslation(word.text, sentence);
     
     if (!translation || translation === 'Translation unavailable') {
       console.warn('Cannot save word without valid translation:', cleanWord);
@@ -304,7 +479,10 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
         body: JSON.stringify({
           spanishWord: cleanWord,
           englishTranslation: translation,
+          sense, // Forms of one word only share a card when they mean the same thing
           bookId: bookId || 'EspanolBook1', // Use current book ID
+          sentence,
+          chapterId: chapter.id,
         }),
       });
       
@@ -320,10 +498,10 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
           translation 
         });
         
-        // Auto-hide success message after 2 seconds
+        // Auto-hide success message after 4 seconds, leaving time to save the sentence too
         setTimeout(() => {
-          setSelectedWord(null);
-        }, 2000);
+          setSelectedWord((prev: typeof selectedWord) => (prev?.index === index ? null : prev));
+        }, 4000);
       } else {
         const error = await response.json();
         console.error('Failed to save word:', error);
@@ -333,6 +511,56 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
     }
   };
 
+  // Save the sentence around a word as a cloze card with the word as its target
+  const handleSaveSentence = async (index: number) => {
+    const words: Word[] = content.content;
+    const { start, end } = getSentenceRange(words, index);
+
+    // Rebuild the sentence text, noting where the target word lands in it
+    let sentence = '';
+    let targetStart = 0;
+    let targetEnd = 0;
+    for (let i = start; i <= end; i++) {
+      if (words[i].text === '\n') continue;
+      if (sentence) sentence += ' ';
+      if (i === index) targetStart = sentence.length;
+      sentence += words[i].text;
+      if (i === index) targetEnd = sentence.length;
+    }
+
+    setSavingSentence(true);
+    try {
+      const response = await fetch('/api/sentences/save', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          bookId: bookId || 'EspanolBook1', // Use current book ID
+          chapterId: chapter.id,
+          sentence,
+          targetWord: words[index].text,
+          targetStart,
+          targetEnd,
+          // Reader timings are only real when the chapter JSON carried timing data
+          ...(content.timingData ? { audioStartTime: words[start].start, audioEndTime: words[end].end } : {}),
+        }),
+      });
+
+      if (response.ok) {
+        setSelectedWord((prev: typeof selectedWord) => (prev?.index === index ? { ...prev, sentenceSaved: true } : prev));
+      } else {
+        const error = await response.json();
+        console.error('Failed to save sentence:', error);
+      }
+    } catch (error) {
+      console.error('Error saving sentence:', error);
+    } finally {
+      setSavingSentence(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="bee-card max-w-4xl mx-auto">
@@ -406,7 +634,7 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
         {/* Audio Element */}
         <audio
           ref={audioRef}
-          src={chapter.audioUrl ? (chapter.audioUrl.startsWith('http') ? chapter.audioUrl : `/audio/${chapter.audioUrl.replace(/^\/?(audio\/)?/, '')}`) : ''}
+          src={chapter.audioUrl ? (/^(https?:|\/objects\/)/.test(chapter.audioUrl) ? chapter.audioUrl : `/audio/${chapter.audioUrl.replace(/^\/?(audio\/)?/, '')}`) : ''}
           preload="metadata"
           onPlay={() => setIsPlaying(true)}
           onPause={() => setIsPlaying(false)}
@@ -420,59 +648,19 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
       {/* Interactive Text Content */}
       <div className="bee-card">
         <div className="text-xl leading-relaxed bee-text-dark font-medium" style={{lineHeight: '1.8'}}>
-          {content.content.map((word: Word, index: number) => {
-            // Handle line break tokens specially
-            if (word.text === '\n') {
-              return <br key={index} />;
-            } else if (word.text === '\n\n') {
-              return <div key={index} className="my-4"></div>; // Paragraph break with spacing
-            } else {
-              return (
-                <span
-                  key={index}
-                  onClick={() => handleWordClick(word, index)}
-                  onMouseEnter={() => handleWordHover(word)}
-                  onMouseLeave={handleWordLeave}
-                  className={`
-                    relative inline-block mx-0.5 px-2 py-1 rounded-lg cursor-pointer transition-all duration-300 font-medium
-                    hover:bg-orange-50 hover:text-orange-600 hover:shadow-md hover:scale-105
-                    active:scale-95
-                    ${index === currentWordIndex ? 'bg-orange-100 text-orange-700 shadow-lg scale-105 font-semibold' : ''}
-                    ${selectedWord?.index === index ? 'bg-blue-100 text-blue-700 shadow-lg' : ''}
-                  `}
-                  title={`Click to save word • Hover for translation`}
-                >
-                  {word.text}
-                  {/* Translation tooltip on hover */}
-                  {hoveredWord?.word === word && (
-                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-3 px-4 py-3 bg-gray-900 text-white text-sm rounded-xl shadow-xl z-20 whitespace-nowrap pointer-events-none border border-gray-700">
-                      <div className="font-semibold text-orange-200 mb-1">{word.text}</div>
-                      <div className="text-blue-200 font-medium">
-                        {hoveredWord.loading ? (
-                          <span className="flex items-center space-x-2">
-                            <div className="w-3 h-3 border-2 border-orange-300 border-t-transparent rounded-full animate-spin"></div>
-                            <span>Translating...</span>
-                          </span>
-                        ) : (
-                          hoveredWord.translation
-                        )}
-                      </div>
-                      {/* Tooltip arrow */}
-                      <div className="absolute top-full left-1/2 transform -translate-x-1/2">
-                        <div className="w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900"></div>
-                      </div>
-                    </div>
-                  )}
-                </span>
-              );
-            }
-          })}
+          {content.content.map((word: Word, index: number) => (
+            <Fragment key={index}>
+              {content.imagesBefore?.[index]?.map(renderImage)}
+              {renderWord(word, index)}
+            </Fragment>
+          ))}
+          {content.imagesAfter?.map(renderImage)}
         </div>
       </div>
 
       {/* Word Saved Success Notification */}
       {selectedWord && selectedWord.saved && (
-        <div className="fixed top-6 right-6 bee-bg-accent text-white px-6 py-4 rounded-xl bee-shadow-lg flex items-center space-x-3 z-50 animate-bounce border border-green-400">
+        <div className="fixed top-6 right-6 bee-bg-accent text-white px-6 py-4 rounded-xl bee-shadow-lg flex items-center space-x-3 z-50 border border-green-400">
           <div className="flex-shrink-0">
             <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
@@ -483,6 +671,17 @@ export default function InteractiveReader({ chapter, bookId }: InteractiveReader
             <div className="text-sm text-green-100 mt-1">
               <span className="font-medium">"{selectedWord.text}"</span> → <span className="font-medium">"{selectedWord.translation}"</span>
             </div>
+            {selectedWord.sentenceSaved ? (
+              <div className="text-sm text-green-100 mt-2 font-medium">Sentence saved for cloze review</div>
+            ) : (
+              <button
+                onClick={() => handleSaveSentence(selectedWord.index)}
+                disabled={savingSentence}
+                className="mt-2 text-sm font-semibold bg-white text-green-700 px-3 py-1 rounded-lg hover:bg-green-50 disabled:opacity-50"
+              >
+                {savingSentence ? 'Saving...' : '💬 Save sentence'}
+              </button>
+            )}
           </div>
         </div>
       )}
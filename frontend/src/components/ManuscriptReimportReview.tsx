@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// One chapter of a re-import (see ReimportChange in server/src/services/manuscriptReimport.ts)
+interface ReimportChange {
+  key: string;
+  kind: 'changed' | 'unchanged' | 'added' | 'removed';
+  chapterId: string | null;
+  title: string;
+  previousTitle: string | null;
+  indexInBook: number | null;
+  previousIndexInBook: number | null;
+  textChanged: boolean;
+  titleChanged: boolean;
+  moved: boolean;
+  activitiesChanged: boolean;
+  imagesChanged: boolean;
+  hasAudio: boolean;
+  wordCount: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  diff: DiffPart[] | null;
+  preview: string | null;
+}
+
+interface PendingReimport {
+  jobId: number;
+  plan: { comparedAt: string; changes: ReimportChange[] };
+}
+
+interface ManuscriptReimportReviewProps {
+  bookId: string;
+  refreshKey?: number | null; // Reloads the re-import when it changes, e.g. to the id of a finished parsing job
+  onApplied: (message: string) => void;
+}
+
+const KIND_STYLES: Record<ReimportChange['kind'], string> = {
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+};
+
+// Unchanged text longer than this is shortened to its start and end around a change
+const EQUAL_CONTEXT = 160;
+
+function DiffView({ parts }: { parts: DiffPart[] }) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700 whitespace-pre-wrap max-h-96 overflow-y-auto">
+      {parts.map((part, index) => {
+        if (part.type === 'insert') {
+          return <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>;
+        }
+        if (part.type === 'delete') {
+          return <del key={index} className="bg-red-100 text-red-900">{part.text}</del>;
+        }
+        if (part.text.length <= EQUAL_CONTEXT * 2) {
+          return <span key={index}>{part.text}</span>;
+        }
+        const head = index > 0 ? part.text.slice(0, EQUAL_CONTEXT) : '';
+        const tail = index < parts.length - 1 ? part.text.slice(-EQUAL_CONTEXT) : '';
+        return (
+          <span key={index}>
+            {head}
+            <span className="text-gray-400">{head ? ' … ' : '… '}</span>
+            {tail}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ManuscriptReimportReview({ bookId, refreshKey, onApplied }: ManuscriptReimportReviewProps) {
+  const [pending, setPending] = useState<PendingReimport | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [replaceActivities, setReplaceActivities] = useState<Record<string, boolean>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/admin/books/${bookId}/reimport`, { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load the re-import');
+        const data = await response.json();
+        const reimport: PendingReimport | null = data.reimport;
+        setPending(reimport);
+        // Text and structure changes are proposed; removing a chapter has to be chosen
+        setSelected(Object.fromEntries(
+          (reimport?.plan.changes ?? []).map((change) => [change.key, change.kind === 'changed' || change.kind === 'added'])
+        ));
+        setReplaceActivities({});
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Error loading re-import:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the re-import');
+      });
+  }, [bookId, refreshKey]);
+
+  if (error && !pending) {
+    return <div className="bg-red-50 text-red-700 rounded-lg p-4 text-sm">{error}</div>;
+  }
+  if (!pending) {
+    return null;
+  }
+
+  const changes = pending.plan.changes.filter((change) => change.kind !== 'unchanged');
+  const unchanged = pending.plan.changes.filter((change) => change.kind === 'unchanged');
+  const chosen = changes.filter((change) => selected[change.key]);
+  const audioToRegenerate = chosen.filter((change) => change.textChanged).length;
+
+  const apply = async (keys: string[]) => {
+    setApplying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/books/${bookId}/reimport/${pending.jobId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          changes: keys.map((key) => ({ key, replaceActivities: replaceActivities[key] === true })),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to apply the re-import');
+      }
+      setPending(null);
+      onApplied(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the re-import');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const discard = () => {
+    if (confirm('Keep every chapter as it is and dismiss this revised manuscript?')) {
+      apply([]);
+    }
+  };
+
+  const renderChange = (change: ReimportChange) => (
+    <div key={change.key} className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        {change.kind !== 'unchanged' && (
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={selected[change.key] === true}
+            onChange={(e) => setSelected({ ...selected, [change.key]: e.target.checked })}
+          />
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${KIND_STYLES[change.kind]}`}>
+              {change.kind}
+            </span>
+            <h4 className="font-medium text-gray-900">
+              {change.titleChanged ? (
+                <>
+                  <del className="text-gray-500">{change.previousTitle}</del> → {change.title}
+                </>
+              ) : change.title}
+            </h4>
+          </div>
+          <div className="mt-1 text-sm text-gray-500 flex flex-wrap gap-x-4 gap-y-1">
+            {change.kind === 'changed' && change.textChanged && (
+              <span>
+                <span className="text-green-700">+{change.wordsAdded}</span> / <span className="text-red-700">−{change.wordsRemoved}</span> words
+              </span>
+            )}
+            {change.kind === 'added' && <span>{change.wordCount} words, new at position {change.indexInBook}</span>}
+            {change.kind === 'removed' && <span>{change.wordCount} words, not in the revised manuscript</span>}
+            {change.moved && <span>Moves from position {change.previousIndexInBook} to {change.indexInBook}</span>}
+            {change.kind === 'changed' && change.imagesChanged && <span>Illustrations changed</span>}
+            {change.kind !== 'added' && change.hasAudio && change.textChanged && (
+              <span className="text-amber-700">Audio and word timings will be regenerated</span>
+            )}
+            {change.kind === 'changed' && change.hasAudio && !change.textChanged && (
+              <span>Audio is kept</span>
+            )}
+            {change.kind === 'removed' && change.hasAudio && (
+              <span className="text-red-700">Its audio and activities go with it</span>
+            )}
+          </div>
+          {change.kind === 'changed' && change.activitiesChanged && (
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={replaceActivities[change.key] === true}
+                onChange={(e) => setReplaceActivities({ ...replaceActivities, [change.key]: e.target.checked })}
+              />
+              Replace its activities with the manuscript&apos;s (edits made in the admin are lost)
+            </label>
+          )}
+        </div>
+        {(change.diff || change.preview) && (
+          <button
+            type="button"
+            onClick={() => setExpanded({ ...expanded, [change.key]: !expanded[change.key] })}
+            className="text-sm text-indigo-600 hover:text-indigo-700 underline whitespace-nowrap"
+          >
+            {expanded[change.key] ? 'Hide text' : change.diff ? 'Show changes' : 'Show text'}
+          </button>
+        )}
+      </div>
+
+      {expanded[change.key] && change.diff && <DiffView parts={change.diff} />}
+      {expanded[change.key] && !change.diff && change.preview && (
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-sm text-gray-700 italic">&quot;{change.preview}…&quot;</p>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Revised Manuscript</h3>
+          <p className="text-gray-600">
+            This book already has chapters, so the upload was compared with them instead of replacing them.
+            {changes.length === 0
+              ? ' No chapter differs from the current ones.'
+              : ` ${changes.length} of ${pending.plan.changes.length} chapters differ. Choose the changes to apply.`}
+          </p>
+          {audioToRegenerate > 0 && (
+            <p className="text-sm text-amber-700 mt-1">
+              {audioToRegenerate} {audioToRegenerate === 1 ? 'chapter' : 'chapters'} will be narrated again.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            type="button"
+            onClick={discard}
+            disabled={applying}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 disabled:opacity-50"
+          >
+            Keep Current Chapters
+          </button>
+          <button
+            type="button"
+            onClick={() => apply(chosen.map((change) => change.key))}
+            disabled={applying || chosen.length === 0}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+          >
+            {applying ? 'Applying...' : `Apply ${chosen.length} ${chosen.length === 1 ? 'Change' : 'Changes'}`}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 text-red-700 rounded-lg p-3 text-sm mb-4">{error}</div>}
+
+      <div className="space-y-4">
+        {changes.map(renderChange)}
+        {unchanged.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setShowUnchanged(!showUnchanged)}
+            className="text-sm text-gray-500 hover:text-gray-700 underline"
+          >
+            {showUnchanged ? 'Hide' : 'Show'} {unchanged.length} unchanged {unchanged.length === 1 ? 'chapter' : 'chapters'}
+          </button>
+        )}
+        {showUnchanged && unchanged.map(renderChange)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type ActivityType = 'vocabulary_support' | 'comprehension_questions' | 'true_false' | 'matching' | 'writing_prompts';
+
+// Chapter detection rules stored with an upload (see ParsingProfile in server/src/db/schema.ts)
+export interface ParsingProfile {
+  presetId: string;
+  headingStyles: string[];
+  chapterFontSize: number | null;
+  bodyFontSize: number;
+  fontSizeTolerance: number;
+  boldHeadingFontSize: number | null;
+  maxHeadingLength: number;
+  chapterPatterns: string[];
+  splitOnPageBreaks: boolean;
+  activityMarkers: Record<ActivityType, string>;
+}
+
+export interface ParsingProfilePreset {
+  id: string;
+  name: string;
+  description: string;
+  profile: ParsingProfile;
+}
+
+// The rule that started a detected chapter
+export interface ChapterDetection {
+  rule: string;
+  detail: string;
+}
+
+export const DETECTION_RULE_LABELS: Record<string, string> = {
+  heading_style: 'Heading style',
+  chapter_pattern: 'Pattern',
+  font_size: 'Font size',
+  bold_heading: 'Bold heading',
+  page_break: 'Page break',
+  leading_content: 'Before first heading',
+  epub_toc: 'Table of contents',
+  epub_spine: 'EPUB file',
+  markdown_heading: 'Markdown heading',
+  text_chapter_line: 'Chapter line',
+};
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  vocabulary_support: 'Part 1 – Vocabulary support',
+  comprehension_questions: 'Part 2 – Comprehension questions',
+  true_false: 'Part 3 – True or false',
+  matching: 'Part 4 – Matching',
+  writing_prompts: 'Part 5 – Writing prompts',
+};
+
+interface ParsingProfilePickerProps {
+  value: ParsingProfile | null; // null = the server's default preset
+  onChange: (profile: ParsingProfile) => void;
+}
+
+const parseFontSize = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+export default function ParsingProfilePicker({ value, onChange }: ParsingProfilePickerProps) {
+  const [presets, setPresets] = useState<ParsingProfilePreset[]>([]);
+  const [defaultPresetId, setDefaultPresetId] = useState('');
+  const [customizing, setCustomizing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/admin/parsing/profiles', { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load parsing profiles');
+        const data = await response.json();
+        setPresets(data.presets || []);
+        setDefaultPresetId(data.defaultPresetId);
+      })
+      .catch((error) => {
+        console.error('Error loading parsing profiles:', error);
+        setLoadError('Chapter detection presets could not be loaded; the standard rules will be used.');
+      });
+  }, []);
+
+  if (loadError) {
+    return <p className="text-sm text-amber-700">{loadError}</p>;
+  }
+
+  const profile = value ?? presets.find((preset) => preset.id === defaultPresetId)?.profile;
+  if (!profile) {
+    return null;
+  }
+
+  const selectedPreset = presets.find((preset) => preset.id === profile.presetId);
+  const update = (changes: Partial<ParsingProfile>) => onChange({ ...profile, ...changes });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Chapter detection
+          <select
+            value={profile.presetId}
+            onChange={(e) => {
+              const preset = presets.find((candidate) => candidate.id === e.target.value);
+              if (preset) onChange(preset.profile);
+            }}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => setCustomizing(!customizing)}
+          className="text-sm text-indigo-600 hover:text-indigo-700 underline whitespace-nowrap"
+        >
+          {customizing ? 'Hide rules' : 'Customize rules'}
+        </button>
+      </div>
+
+      {selectedPreset && <p className="text-sm text-gray-500">{selectedPreset.description}</p>}
+
+      {customizing && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+          <label className="block text-sm text-gray-700">
+            Heading styles (comma separated)
+            <input
+              type="text"
+              value={profile.headingStyles.join(', ')}
+              onChange={(e) => update({ headingStyles: e.target.value.split(/, ?/) })}
+              onBlur={() => update({ headingStyles: profile.headingStyles.map((style) => style.trim()).filter(Boolean) })}
+              placeholder="Heading 1, Title"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+            <input
+              type="checkbox"
+              checked={profile.splitOnPageBreaks}
+              onChange={(e) => update({ splitOnPageBreaks: e.target.checked })}
+            />
+            Start a chapter at every page break
+          </label>
+          <label className="block text-sm text-gray-700">
+            Chapter title size (pt, empty = off)
+            <input
+              type="number"
+              min={1}
+              value={profile.chapterFontSize ?? ''}
+              onChange={(e) => update({ chapterFontSize: parseFontSize(e.target.value) })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Bold title size (pt, empty = off)
+            <input
+              type="number"
+              min={1}
+              value={profile.boldHeadingFontSize ?? ''}
+              onChange={(e) => update({ boldHeadingFontSize: parseFontSize(e.target.value) })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Body text size (pt)
+            <input
+              type="number"
+              min={1}
+              value={profile.bodyFontSize}
+              onChange={(e) => update({ bodyFontSize: Number(e.target.value) || profile.bodyFontSize })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Size tolerance (pt)
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={profile.fontSizeTolerance}
+              onChange={(e) => update({ fontSizeTolerance: Number(e.target.value) })}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="block text-sm text-gray-700 md:col-span-2">
+            Chapter patterns (regular expressions matched at the start of a line, one per line)
+            <textarea
+              rows={3}
+              value={profile.chapterPatterns.join('\n')}
+              onChange={(e) => update({ chapterPatterns: e.target.value.split('\n') })}
+              onBlur={() => update({ chapterPatterns: profile.chapterPatterns.map((pattern) => pattern.trim()).filter(Boolean) })}
+              placeholder={'Capítulo \\d+'}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+          </label>
+          <div className="md:col-span-2 space-y-2">
+            <p className="text-sm font-medium text-gray-700">Activity section markers</p>
+            {(Object.keys(ACTIVITY_LABELS) as ActivityType[]).map((activityType) => (
+              <label key={activityType} className="flex items-center gap-3 text-sm text-gray-700">
+                <span className="w-56 shrink-0">{ACTIVITY_LABELS[activityType]}</span>
+                <input
+                  type="text"
+                  value={profile.activityMarkers[activityType]}
+                  onChange={(e) => update({ activityMarkers: { ...profile.activityMarkers, [activityType]: e.target.value } })}
+                  className="block w-full px-3 py-1 border border-gray-300 rounded-md font-mono text-xs"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
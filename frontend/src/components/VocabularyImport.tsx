@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { api } from '@/lib/api';
+
+interface ImportRow {
+  line: number;
+  spanishWord: string;
+  englishTranslation: string;
+  sentence: string | null;
+  status: 'new' | 'duplicate' | 'invalid';
+  reason?: string;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  format: 'csv' | 'tsv' | 'anki';
+  summary: { total: number; new: number; duplicate: number; invalid: number };
+  imported: number;
+  rows: ImportRow[];
+}
+
+interface VocabularyImportProps {
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportRow['status'], { label: string; color: string }> = {
+  new: { label: 'New', color: '#22c55e' },
+  duplicate: { label: 'Duplicate', color: '#f59e0b' },
+  invalid: { label: 'Invalid', color: '#ef4444' },
+};
+
+export default function VocabularyImport({ onImported, onClose }: VocabularyImportProps) {
+  const [books, setBooks] = useState<{ id: string; title: string }[]>([]);
+  const [bookId, setBookId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.getBooks()
+      .then((result) => {
+        setBooks(result.books || []);
+        if (result.books?.length) {
+          setBookId(result.books[0].id);
+        }
+      })
+      .catch((error) => console.error('Error loading books:', error));
+  }, []);
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/words/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ content, bookId, dryRun }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || data.message || 'Import failed');
+        return;
+      }
+
+      if (dryRun) {
+        setPreview(data);
+      } else {
+        setMessage(`Imported ${data.imported} word${data.imported === 1 ? '' : 's'}`);
+        setPreview(null);
+        setContent('');
+        setFileName('');
+        onImported();
+      }
+    } catch (error) {
+      console.error('Error importing words:', error);
+      setMessage('Error importing words');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold" style={{ color: '#374151' }}>Import vocabulary</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">✕</button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a CSV or TSV file (spanish, english, optional sentence) or an Anki &quot;Notes in Plain Text&quot; export.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="text-sm"
+        />
+        <select
+          value={bookId}
+          onChange={(e) => {
+            setBookId(e.target.value);
+            setPreview(null);
+          }}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          {books.length === 0 && <option value="">No books available</option>}
+          {books.map((book) => (
+            <option key={book.id} value={book.id}>{book.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => runImport(true)}
+          disabled={!content || !bookId || busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+        >
+          Preview
+        </button>
+      </div>
+
+      {message && <div className="text-sm mb-4" style={{ color: '#374151' }}>{message}</div>}
+
+      {preview && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-sm text-gray-600">
+              {fileName} ({preview.format.toUpperCase()}): {preview.summary.new} new, {preview.summary.duplicate} duplicate, {preview.summary.invalid} invalid
+            </div>
+            <button
+              onClick={() => runImport(false)}
+              disabled={preview.summary.new === 0 || busy}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+            >
+              Import {preview.summary.new} word{preview.summary.new === 1 ? '' : 's'}
+            </button>
+          </div>
+          <div className="max-h-80 overflow-y-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-500">
+                <tr>
+                  <th className="px-3 py-2">Line</th>
+                  <th className="px-3 py-2">Spanish</th>
+                  <th className="px-3 py-2">English</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.line} className="border-t">
+                    <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                    <td className="px-3 py-2">{row.spanishWord}</td>
+                    <td className="px-3 py-2">{row.englishTranslation}</td>
+                    <td className="px-3 py-2">
+                      <span className="font-medium" style={{ color: STATUS_STYLES[row.status].color }}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                      {row.reason && <span className="ml-2 text-gray-500">{row.reason}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+type VoiceProvider = 'elevenlabs' | 'google' | 'local';
+type VoiceSettings = Record<string, number | boolean>;
+
+interface TtsConfig {
+  id: number;
+  bookId: string;
+  chapterId: string | null;
+  scope: 'book' | 'chapter';
+  voiceProvider: VoiceProvider;
+  voiceId: string;
+  voiceSettings: VoiceSettings | null;
+}
+
+interface CastMember {
+  id: number;
+  speaker: string;
+  displayName: string;
+  voiceProvider: VoiceProvider;
+  voiceId: string;
+  voiceSettings: VoiceSettings | null;
+}
+
+interface DetectedSpeaker {
+  speaker: string;
+  segments: number;
+  chapterIds: string[];
+}
+
+interface TtsConfigSnapshot {
+  configId: number | null;
+  scope: 'chapter' | 'book' | 'default' | 'request' | 'cast';
+  voiceProvider: string;
+  voiceId: string;
+  cast?: { speaker: string; voiceProvider: string; voiceId: string }[];
+}
+
+interface VoiceSettingsPanelProps {
+  bookId: string;
+  chapters: { id: string; title: string; indexInBook: number; audioTtsConfig?: TtsConfigSnapshot | null }[];
+  onClose: () => void;
+}
+
+interface EditState {
+  chapterId: string | null;
+  speaker: string | null; // Set when editing a cast member's voice
+  voiceProvider: VoiceProvider;
+  voiceId: string;
+  voiceSettings: VoiceSettings;
+}
+
+// Tunable settings per provider; blank fields fall back to the generator's defaults
+const PROVIDER_SETTINGS: Record<VoiceProvider, { key: string; label: string; type: 'number' | 'boolean'; min?: number; max?: number; step?: number }[]> = {
+  elevenlabs: [
+    { key: 'stability', label: 'Stability', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'similarity_boost', label: 'Similarity boost', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'style', label: 'Style', type: 'number', min: 0, max: 1, step: 0.05 },
+    { key: 'use_speaker_boost', label: 'Speaker boost', type: 'boolean' },
+  ],
+  google: [
+    { key: 'speakingRate', label: 'Speaking rate', type: 'number', min: 0.25, max: 4, step: 0.05 },
+    { key: 'pitch', label: 'Pitch', type: 'number', min: -20, max: 20, step: 0.5 },
+    { key: 'volumeGainDb', label: 'Volume gain (dB)', type: 'number', min: -96, max: 16, step: 1 },
+  ],
+  local: [
+    { key: 'speed', label: 'Speed (espeak-ng, words/min)', type: 'number', min: 80, max: 450, step: 5 },
+    { key: 'pitch', label: 'Pitch (espeak-ng)', type: 'number', min: 0, max: 99, step: 1 },
+    { key: 'lengthScale', label: 'Length scale (piper)', type: 'number', min: 0.5, max: 2, step: 0.05 },
+  ],
+};
+
+// Dialogue the parser couldn't attribute to a named character
+const UNATTRIBUTED_SPEAKER = 'dialogue';
+
+const PROVIDER_LABELS: Record<VoiceProvider, string> = {
+  elevenlabs: 'Eleven Labs',
+  google: 'Google Cloud',
+  local: 'Local (offline)',
+};
+
+export default function VoiceSettingsPanel({ bookId, chapters, onClose }: VoiceSettingsPanelProps) {
+  const [configs, setConfigs] = useState<TtsConfig[]>([]);
+  const [cast, setCast] = useState<CastMember[]>([]);
+  const [speakers, setSpeakers] = useState<DetectedSpeaker[]>([]);
+  const [defaultVoices, setDefaultVoices] = useState<Record<VoiceProvider, string>>({ elevenlabs: '', google: '', local: '' });
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadConfigs = useCallback(async () => {
+    try {
+      const [response, castResponse] = await Promise.all([
+        fetch(`/api/admin/books/${bookId}/tts-configs`, { credentials: 'include' }),
+        fetch(`/api/admin/books/${bookId}/cast`, { credentials: 'include' }),
+      ]);
+      const data = await response.json();
+      const castData = await castResponse.json();
+
+      if (response.ok && castResponse.ok) {
+        setConfigs(data.configs || []);
+        setDefaultVoices(data.defaultVoices);
+        setCast(castData.cast || []);
+        setSpeakers(castData.speakers || []);
+      } else {
+        setMessage(data.message || castData.message || 'Failed to load voice settings');
+      }
+    } catch (error) {
+      console.error('Error loading voice settings:', error);
+      setMessage('Failed to load voice settings');
+    }
+  }, [bookId]);
+
+  useEffect(() => {
+    loadConfigs();
+  }, [loadConfigs]);
+
+  const bookConfig = configs.find((config) => config.scope === 'book');
+  const chapterConfig = (chapterId: string) => configs.find((config) => config.scope === 'chapter' && config.chapterId === chapterId);
+
+  const startEditing = (chapterId: string | null) => {
+    // Start from the level this one would otherwise inherit
+    const current = (chapterId && chapterConfig(chapterId)) || bookConfig;
+    setEditing({
+      chapterId,
+      speaker: null,
+      voiceProvider: current?.voiceProvider ?? 'elevenlabs',
+      voiceId: current?.voiceId ?? '',
+      voiceSettings: current?.voiceSettings ?? {},
+    });
+    setMessage(null);
+  };
+
+  const castMember = (speaker: string) => cast.find((member) => member.speaker === speaker.toLowerCase());
+
+  const startCastEditing = (speaker: string) => {
+    const current = castMember(speaker);
+    setEditing({
+      chapterId: null,
+      speaker: current?.displayName ?? speaker,
+      voiceProvider: current?.voiceProvider ?? bookConfig?.voiceProvider ?? 'elevenlabs',
+      voiceId: current?.voiceId ?? '',
+      voiceSettings: current?.voiceSettings ?? {},
+    });
+    setMessage(null);
+  };
+
+  const updateSetting = (key: string, value: number | boolean | null) => {
+    if (!editing) return;
+    const voiceSettings = { ...editing.voiceSettings };
+    if (value === null) {
+      delete voiceSettings[key];
+    } else {
+      voiceSettings[key] = value;
+    }
+    setEditing({ ...editing, voiceSettings });
+  };
+
+  const saveConfig = async () => {
+    if (!editing) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/admin/books/${bookId}/${editing.speaker ? 'cast' : 'tts-configs'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...editing,
+          voiceSettings: Object.keys(editing.voiceSettings).length > 0 ? editing.voiceSettings : null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setEditing(null);
+        setMessage('✅ Voice settings saved. Regenerate audio to apply them.');
+        await loadConfigs();
+      } else {
+        setMessage(`❌ ${data.message || 'Failed to save voice settings'}`);
+      }
+    } catch (error) {
+      console.error('Error saving voice settings:', error);
+      setMessage('❌ Failed to save voice settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeConfig = async (config: TtsConfig) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/admin/tts-configs/${config.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(config.scope === 'book' ? 'Book voice removed - using the default voice' : 'Chapter override removed - using the book voice');
+        await loadConfigs();
+      } else {
+        setMessage(`❌ ${data.message || 'Failed to remove voice settings'}`);
+      }
+    } catch (error) {
+      console.error('Error removing voice settings:', error);
+      setMessage('❌ Failed to remove voice settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeCastMember = async (member: CastMember) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/admin/cast/${member.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(`${member.displayName} will be read with the narrator's voice`);
+        await loadConfigs();
+      } else {
+        setMessage(`❌ ${data.message || 'Failed to remove cast voice'}`);
+      }
+    } catch (error) {
+      console.error('Error removing cast voice:', error);
+      setMessage('❌ Failed to remove cast voice');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Everyone with a voice or a line, so new characters show up as soon as a chapter mentions them
+  const castRows = [
+    ...cast.map((member) => ({ speaker: member.displayName, member, lines: speakers.find((entry) => entry.speaker.toLowerCase() === member.speaker)?.segments ?? 0 })),
+    ...speakers
+      .filter((entry) => !castMember(entry.speaker))
+      .map((entry) => ({ speaker: entry.speaker, member: undefined, lines: entry.segments })),
+  ];
+
+  const describe = (config: TtsConfig | undefined, fallback: string) =>
+    config ? `${PROVIDER_LABELS[config.voiceProvider] ?? config.voiceProvider} · ${config.voiceId}` : fallback;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mb-8">
+      <div className="px-6 py-4 border-b flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-900">🎙️ Voice Settings</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-sm font-medium">
+          Close
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          Chapter voices override the book voice, which overrides the default voice.
+        </p>
+
+        {message && <div className="text-sm text-gray-700">{message}</div>}
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2">Scope</th>
+              <th className="py-2">Voice</th>
+              <th className="py-2">Current audio narrated with</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <tr>
+              <td className="py-2 font-medium text-gray-900">Book</td>
+              <td className="py-2 text-gray-700">{describe(bookConfig, `Default voice (${defaultVoices.elevenlabs || 'Eleven Labs'})`)}</td>
+              <td className="py-2"></td>
+              <td className="py-2 text-right space-x-2">
+                <button onClick={() => startEditing(null)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                  Edit
+                </button>
+                {bookConfig && (
+                  <button onClick={() => removeConfig(bookConfig)} disabled={busy} className="text-red-600 hover:text-red-800 font-medium">
+                    Remove
+                  </button>
+                )}
+              </td>
+            </tr>
+            {chapters.map((chapter) => {
+              const override = chapterConfig(chapter.id);
+              return (
+                <tr key={chapter.id}>
+                  <td className="py-2 text-gray-900">Chapter {chapter.indexInBook}: {chapter.title}</td>
+                  <td className="py-2 text-gray-700">{describe(override, 'Inherits book voice')}</td>
+                  <td className="py-2 text-gray-500">
+                    {chapter.audioTtsConfig
+                      ? `${chapter.audioTtsConfig.voiceId} (${chapter.audioTtsConfig.scope})${chapter.audioTtsConfig.cast?.length ? ` + ${chapter.audioTtsConfig.cast.length} cast` : ''}`
+                      : '—'}
+                  </td>
+                  <td className="py-2 text-right space-x-2">
+                    <button onClick={() => startEditing(chapter.id)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                      {override ? 'Edit' : 'Override'}
+                    </button>
+                    {override && (
+                      <button onClick={() => removeConfig(override)} disabled={busy} className="text-red-600 hover:text-red-800 font-medium">
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div>
+          <h4 className="font-medium text-gray-900">🎭 Cast</h4>
+          <p className="text-sm text-gray-600 mt-1">
+            Dialogue is read with the speaking character&apos;s voice; characters without one use the narrator&apos;s.
+            Speakers are detected from dialogue dashes and quotes, or set with [Name] tags in the chapter editor.
+          </p>
+        </div>
+
+        {castRows.length === 0 ? (
+          <div className="text-sm text-gray-500">No dialogue found in this book&apos;s chapters yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2">Character</th>
+                <th className="py-2">Voice</th>
+                <th className="py-2">Lines</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {castRows.map(({ speaker, member, lines }) => (
+                <tr key={speaker}>
+                  <td className="py-2 text-gray-900">
+                    {speaker.toLowerCase() === UNATTRIBUTED_SPEAKER ? 'Unattributed dialogue' : speaker}
+                  </td>
+                  <td className="py-2 text-gray-700">
+                    {member ? `${PROVIDER_LABELS[member.voiceProvider] ?? member.voiceProvider} · ${member.voiceId}` : 'Narrator voice'}
+                  </td>
+                  <td className="py-2 text-gray-500">{lines}</td>
+                  <td className="py-2 text-right space-x-2">
+                    <button onClick={() => startCastEditing(speaker)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                      {member ? 'Edit' : 'Assign voice'}
+                    </button>
+                    {member && (
+                      <button onClick={() => removeCastMember(member)} disabled={busy} className="text-red-600 hover:text-red-800 font-medium">
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {editing && (
+          <div className="border rounded-lg p-4 bg-gray-50 space-y-4">
+            <h4 className="font-medium text-gray-900">
+              {editing.speaker
+                ? `Voice for ${editing.speaker}`
+                : editing.chapterId
+                  ? `Voice for ${chapters.find((chapter) => chapter.id === editing.chapterId)?.title ?? 'chapter'}`
+                  : 'Book voice'}
+            </h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block text-sm text-gray-700">
+                Provider
+                <select
+                  value={editing.voiceProvider}
+                  onChange={(e) => setEditing({ ...editing, voiceProvider: e.target.value as VoiceProvider, voiceId: '', voiceSettings: {} })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {(Object.keys(PROVIDER_LABELS) as VoiceProvider[]).map((provider) => (
+                    <option key={provider} value={provider}>{PROVIDER_LABELS[provider]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-700">
+                Voice ID
+                <input
+                  type="text"
+                  value={editing.voiceId}
+                  placeholder={defaultVoices[editing.voiceProvider]}
+                  onChange={(e) => setEditing({ ...editing, voiceId: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {PROVIDER_SETTINGS[editing.voiceProvider].map((setting) => (
+                <label key={setting.key} className="block text-sm text-gray-700">
+                  {setting.label}
+                  {setting.type === 'boolean' ? (
+                    <select
+                      value={editing.voiceSettings[setting.key] === undefined ? '' : String(editing.voiceSettings[setting.key])}
+                      onChange={(e) => updateSetting(setting.key, e.target.value === '' ? null : e.target.value === 'true')}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                    >
+                      <option value="">Default</option>
+                      <option value="true">On</option>
+                      <option value="false">Off</option>
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      min={setting.min}
+                      max={setting.max}
+                      step={setting.step}
+                      value={editing.voiceSettings[setting.key] === undefined ? '' : String(editing.voiceSettings[setting.key])}
+                      placeholder="Default"
+                      onChange={(e) => updateSetting(setting.key, e.target.value === '' ? null : Number(e.target.value))}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button onClick={() => setEditing(null)} className="px-4 py-2 text-gray-700 bg-white border rounded-md hover:bg-gray-100">
+                Cancel
+              </button>
+              <button
+                onClick={saveConfig}
+                disabled={busy}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 font-medium disabled:opacity-50"
+              >
+                Save Voice
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
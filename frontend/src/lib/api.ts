@@ -16,7 +16,14 @@ interface SaveWordRequest {
 }
 
 interface ReviewWordRequest {
-  ease: number;
+  grade: 1 | 2 | 3 | 4; // again / hard / good / easy
+}
+
+interface ReviewSettingsRequest {
+  newCardsPerDay?: number;
+  maxReviewsPerDay?: number;
+  deckMode?: 'interleave' | 'book';
+  activeBookId?: string | null;
 }
 
 class ApiError extends Error {
@@ -117,8 +124,30 @@ export const api = {
     return handleResponse(response);
   },
 
-  async getReviewWords() {
-    const response = await fetch('/api/words/review');
+  async getReviewWords(bookId?: string) {
+    // The server uses the browser's timezone to decide when the daily limits reset
+    const params = new URLSearchParams({ tzOffset: String(new Date().getTimezoneOffset()) });
+    if (bookId) params.set('bookId', bookId);
+    const response = await fetch(`/api/words/review?${params.toString()}`);
+    return handleResponse(response);
+  },
+
+  async getReviewSettings() {
+    const response = await fetch('/api/words/settings');
+    return handleResponse(response);
+  },
+
+  async updateReviewSettings(data: ReviewSettingsRequest) {
+    const response = await fetch('/api/words/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+
+  async getDecks() {
+    const response = await fetch(`/api/words/decks?tzOffset=${new Date().getTimezoneOffset()}`);
     return handleResponse(response);
   },
 
@@ -130,6 +159,16 @@ export const api = {
     });
     return handleResponse(response);
   },
+
+  async getWordHistory(wordId: number) {
+    const response = await fetch(`/api/words/${wordId}/history`);
+    return handleResponse(response);
+  },
+
+  async getWordStats() {
+    const response = await fetch('/api/words/stats');
+    return handleResponse(response);
+  },
 };
 
 // Export the ApiError class so components can check for it
@@ -43,4 +43,19 @@ export function formatDateRelative(date: string | Date): string {
   } else {
     return formatDate(d);
   }
-}
\ No newline at end of file
+}
+export function formatInterval(intervalDays: number): string {
+  const minutes = Math.round(intervalDays * 24 * 60);
+
+  if (minutes < 60) {
+    return `${Math.max(1, minutes)}m`;
+  } else if (intervalDays < 1) {
+    return `${Math.round(minutes / 60)}h`;
+  } else if (intervalDays < 30) {
+    return `${Math.round(intervalDays)}d`;
+  } else if (intervalDays < 365) {
+    return `${Math.round(intervalDays / 30)}mo`;
+  } else {
+    return `${(intervalDays / 365).toFixed(1)}y`;
+  }
+}
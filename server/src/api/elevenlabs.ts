@@ -3,6 +3,11 @@ import fs from 'fs';
 import path from 'path';
 import { requireAdmin } from '../middleware/admin';
 import { ElevenLabsService } from '../services/elevenLabsService';
+import { ttsConfigService, EffectiveTtsConfig } from '../services/ttsConfigService';
+import { ttsService } from '../services/ttsProvider';
+import { chapterNarrationService } from '../services/chapterNarration';
+import { speakerSegmentService } from '../services/speakerSegments';
+import { timingQualityService } from '../services/timingQuality';
 import { db } from '../db/index';
 import { chapters } from '../db/schema';
 import { eq } from 'drizzle-orm';
@@ -78,7 +83,7 @@ function chunkText(text: string, maxChars: number = 4500): string[] {
 // Generate Spanish audio with perfect timing using WebSocket TTS (no special permissions needed)
 router.post('/generate-spanish-audio', requireAdmin, async (req, res) => {
   try {
-    const { text, bookId, chapterId, voice = 'Isabel' } = req.body;
+    const { text, bookId, chapterId, voice } = req.body;
 
     if (!text || !bookId || !chapterId) {
       return res.status(400).json({
@@ -86,43 +91,72 @@ router.post('/generate-spanish-audio', requireAdmin, async (req, res) => {
       });
     }
 
-    if (!ELEVENLABS_API_KEY) {
-      return res.status(500).json({
-        error: 'Eleven Labs API key not configured. Please add ELEVENLABS_API_KEY to environment variables.'
-      });
+    // A voice picked in the request wins; otherwise use the chapter/book voice config
+    let config: EffectiveTtsConfig;
+    if (voice) {
+      config = {
+        configId: null,
+        scope: 'request',
+        voiceProvider: 'elevenlabs',
+        voiceId: SPANISH_VOICES[voice as keyof typeof SPANISH_VOICES] || SPANISH_VOICES.Isabel,
+        voiceSettings: null,
+      };
+    } else {
+      config = await ttsConfigService.resolveEffectiveConfig(bookId, chapterId);
     }
-
-    const voiceId = SPANISH_VOICES[voice as keyof typeof SPANISH_VOICES] || SPANISH_VOICES.Isabel;
     
     console.log('Generating Spanish TTS with WebSocket timing for chapter:', chapterId);
     console.log('Text length:', text.length, 'characters');
-    console.log('Using Spanish voice:', voice, 'ID:', voiceId);
+    console.log(`Using ${config.scope} voice:`, voice || config.voiceId, 'ID:', config.voiceId);
     
     // Use exact text for perfect alignment (no normalization to avoid timing mismatches)
     const exactText = text;
     
-    // Use the working ElevenLabs WebSocket service with specified voice
-    const elevenLabsService = new ElevenLabsService();
-    elevenLabsService.setVoiceId(voiceId);
-    
+    // Chapters with character dialogue are read with the book's cast unless a voice was picked
+    const chapter = voice
+      ? []
+      : await db.select({ jsonUrl: chapters.jsonUrl }).from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+    const segments = chapterNarrationService.segmentsFromJsonUrl(chapter[0]?.jsonUrl);
+
     let result;
-    try {
-      // Primary: WebSocket TTS with timing data
-      result = await elevenLabsService.generateAudioWithTiming(exactText, chapterId);
-      console.log('WebSocket TTS successful with timing data');
-    } catch (wsError) {
-      console.log('WebSocket TTS failed, falling back to simple TTS:', wsError);
-      
-      // Fallback: Simple TTS with heuristic timing
-      result = await elevenLabsService.generateAudioSimple(exactText, chapterId);
-      console.log('Fallback TTS successful');
+    let fallbackWarning: string | undefined;
+    if (speakerSegmentService.isMultiVoice(segments)) {
+      const narrated = await chapterNarrationService.narrate(bookId, chapterId, exactText, segments);
+      config = narrated.ttsConfig;
+      fallbackWarning = narrated.fallbackWarning;
+      result = narrated;
+    } else if (config.voiceProvider !== 'elevenlabs' || !ELEVENLABS_API_KEY) {
+      // Other providers (and the offline fallback when Eleven Labs isn't configured) share one pipeline
+      const synthesized = await ttsService.synthesize(exactText, chapterId, config);
+      config = synthesized.ttsConfig;
+      fallbackWarning = synthesized.fallbackWarning;
+      result = synthesized;
+    } else {
+      // Use the working ElevenLabs WebSocket service with specified voice
+      const elevenLabsService = new ElevenLabsService();
+      elevenLabsService.setVoiceId(config.voiceId);
+      elevenLabsService.setVoiceSettings(config.voiceSettings);
+
+      try {
+        // Primary: WebSocket TTS with timing data
+        result = await elevenLabsService.generateAudioWithTiming(exactText, chapterId);
+        console.log('WebSocket TTS successful with timing data');
+      } catch (wsError) {
+        console.log('WebSocket TTS failed, falling back to simple TTS:', wsError);
+
+        // Fallback: Simple TTS with heuristic timing
+        result = await elevenLabsService.generateAudioSimple(exactText, chapterId);
+        console.log('Fallback TTS successful');
+      }
     }
+    const voiceId = config.voiceId;
     
     // Process timing data for consistent frontend consumption
     const words = result.timingData?.words?.map((word: any) => ({
       text: word.text,
       start: word.startTime || word.start, // Handle both formats
-      end: word.endTime || word.end
+      end: word.endTime || word.end,
+      ...(word.speaker && { speaker: word.speaker })
     })) || [];
     
     // Add timestamp for cache busting
@@ -142,9 +176,13 @@ router.post('/generate-spanish-audio', requireAdmin, async (req, res) => {
     await db.update(chapters)
       .set({
         audioUrl: audioUrl,
-        elevenLabsTimingData: timingData
+        elevenLabsTimingData: timingData,
+        audioTtsConfig: ttsConfigService.snapshot(config),
+        audioStatus: 'ready',
+        audioError: fallbackWarning ?? null
       })
       .where(eq(chapters.id, chapterId));
+    await timingQualityService.checkChapter(chapterId);
     
     console.log('Audio saved with timing data');
     console.log('Public URL:', audioUrl);
@@ -162,12 +200,14 @@ router.post('/generate-spanish-audio', requireAdmin, async (req, res) => {
       success: true,
       audioUrl: audioUrl,
       duration: result.timingData?.totalDuration || 0,
-      message: `Spanish audio generated successfully using Eleven Labs (${voice} voice)${hasProjectId ? ' with perfect timing' : ' with enhanced speech'}`,
-      voice: voice,
+      message: `Spanish audio generated successfully using ${config.voiceProvider === 'elevenlabs' ? 'Eleven Labs' : config.voiceProvider} (${voice || `${config.scope} config`} voice)${hasProjectId ? ' with perfect timing' : ' with enhanced speech'}`,
+      voice: voice || voiceId,
+      ttsConfig: config,
       words: words.length,
       method: hasProjectId ? 'Projects API with perfect timing' : (result.timingData?.words ? 'WebSocket with timing' : 'Simple TTS with fallback'),
       projectId: (result as any).projectId,
-      nativePlayerEnabled: hasProjectId
+      nativePlayerEnabled: hasProjectId,
+      warning: fallbackWarning
     });
 
   } catch (error: any) {
@@ -1,4 +1,4 @@
-import { pgTable, serial, text, timestamp, integer, uniqueIndex, index, jsonb, check } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, integer, real, unique, uniqueIndex, index, jsonb, check } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 import { relations } from 'drizzle-orm';
 
@@ -31,6 +31,43 @@ export const books = pgTable('books', {
   };
 });
 
+// The voice configuration that narrated a chapter, copied so later config edits don't rewrite history
+export interface TtsConfigSnapshot {
+  configId: number | null; // null when the default voice was used
+  scope: 'chapter' | 'book' | 'default' | 'request' | 'cast'; // 'request' = voice picked explicitly for one generation, 'cast' = a character's voice
+  voiceProvider: string;
+  voiceId: string;
+  voiceSettings: Record<string, unknown> | null;
+  cast?: { speaker: string; voiceProvider: string; voiceId: string }[]; // Character voices used in multi-voice narration
+  generatedAt: string;
+}
+
+export type TimingAccuracy = 'perfect' | 'good' | 'fallback';
+
+export type TimingIssueType = 'zero_length' | 'overlap' | 'non_monotonic' | 'long_gap' | 'past_duration' | 'estimated';
+
+// A word whose timing looks wrong, by its index in elevenLabsTimingData.words
+export interface TimingIssue {
+  type: TimingIssueType;
+  wordIndex: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Last check of a chapter's word timings
+export interface TimingQualityReport {
+  score: number; // 0-100: share of words without issues, estimated words counting half
+  accuracy: TimingAccuracy;
+  wordCount: number; // Spoken words checked; pauses are left out
+  problemWords: number; // Words with an issue other than an estimated time
+  counts: Record<TimingIssueType, number>;
+  issues: TimingIssue[]; // The first issues in reading order, so the report stays small
+  audioUrl: string | null; // Narration the timings were checked against
+  audioDuration: number | null; // Measured length of that narration, when it could be read
+  checkedAt: string;
+}
+
 // Chapters table - keeping existing text ID structure
 export const chapters = pgTable('chapters', {
   id: text('id').primaryKey(),
@@ -40,11 +77,17 @@ export const chapters = pgTable('chapters', {
   audioUrl: text('audio_url'), // Made optional - audio generation can fail
   jsonUrl: text('json_url').notNull(),
   elevenLabsTimingData: jsonb('elevenlabs_timing_data'), // Word-level timing data from ElevenLabs API
+  audioTtsConfig: jsonb('audio_tts_config').$type<TtsConfigSnapshot>(), // Snapshot of the tts_configs entry (or default voice) that produced audioUrl
+  audioStatus: text('audio_status', { enum: ['none', 'queued', 'generating', 'ready', 'failed'] }).default('none').notNull(), // State of the chapter's tts_generation job
+  audioError: text('audio_error'), // Why the last narration attempt failed, shown in the admin
+  timingQuality: jsonb('timing_quality').$type<TimingQualityReport>(), // Check of elevenLabsTimingData, null while there are no timings
+  timingQualityScore: real('timing_quality_score'), // timingQuality.score, kept in a column to list the worst chapters
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => {
   return {
     bookIdIdx: index('chapters_book_id_idx').on(table.bookId),
     bookIdIndexIdx: uniqueIndex('chapters_book_id_index_idx').on(table.bookId, table.indexInBook),
+    timingQualityScoreIdx: index('chapters_timing_quality_score_idx').on(table.timingQualityScore),
   };
 });
 
@@ -61,31 +104,115 @@ export const entitlements = pgTable('entitlements', {
   };
 });
 
+// A form of a saved word as the learner met it in a book
+export interface SurfaceForm {
+  form: string;
+  sentence?: string;
+  chapterId?: string;
+  savedAt: string;
+}
+
 // Saved words table - keeping existing serial ID structure
 export const savedWords = pgTable('saved_words', {
   id: serial('id').primaryKey(),
   userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   dictId: text('dict_id').notNull(), // Legacy field, kept for backwards compatibility
-  spanishWord: text('spanish_word').notNull(), // The actual Spanish word
+  spanishWord: text('spanish_word').notNull(), // The actual Spanish word (first form saved)
+  lemma: text('lemma'), // Lemma shared by all conjugations (see services/spanishLemma.ts), null for legacy rows
+  sense: text('sense'), // Normalized sense label (or translation); cards of one lemma with different senses stay apart
+  surfaceForms: jsonb('surface_forms').$type<SurfaceForm[]>().default([]).notNull(), // Encountered forms with source sentences
   englishTranslation: text('english_translation').notNull(), // The English translation
   bookId: text('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
-  ease: integer('ease').default(2).notNull(),
-  nextReviewAt: timestamp('next_review_at', { withTimezone: true }).defaultNow().notNull(),
+  ease: integer('ease').default(2).notNull(), // Last review grade (1 = again ... 4 = easy)
+  // SM-2 scheduling state - see services/spacedRepetition.ts
+  easeFactor: real('ease_factor').default(2.5).notNull(),
+  intervalDays: real('interval_days').default(0).notNull(),
+  repetitions: integer('repetitions').default(0).notNull(),
+  lapses: integer('lapses').default(0).notNull(),
+  lastReviewedAt: timestamp('last_reviewed_at', { withTimezone: true }),
+  nextReviewAt: timestamp('next_review_at', { withTimezone: true }).defaultNow().notNull(), // Due date
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => {
   return {
     userIdDictIdBookIdIdx: uniqueIndex('saved_words_user_id_dict_id_book_id_idx').on(table.userId, table.dictId, table.bookId),
-    userIdSpanishWordBookIdIdx: uniqueIndex('saved_words_user_id_spanish_word_book_id_idx').on(table.userId, table.spanishWord, table.bookId),
+    userIdLemmaSenseBookIdIdx: uniqueIndex('saved_words_user_id_lemma_sense_book_id_idx').on(table.userId, table.lemma, table.sense, table.bookId),
     userIdIdx: index('saved_words_user_id_idx').on(table.userId),
     nextReviewAtIdx: index('saved_words_next_review_at_idx').on(table.nextReviewAt),
     spanishWordIdx: index('saved_words_spanish_word_idx').on(table.spanishWord),
+    lemmaIdx: index('saved_words_lemma_idx').on(table.lemma),
+  };
+});
+
+// Word reviews table - one row per review so learning curves and retention can be measured
+export const wordReviews = pgTable('word_reviews', {
+  id: serial('id').primaryKey(),
+  savedWordId: integer('saved_word_id').notNull().references(() => savedWords.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  grade: integer('grade').notNull(), // 1 = again, 2 = hard, 3 = good, 4 = easy
+  elapsedDays: real('elapsed_days'), // Days since the previous review, null for the first review
+  responseTimeMs: integer('response_time_ms'), // How long the learner took to answer
+  previousIntervalDays: real('previous_interval_days').notNull(),
+  intervalDays: real('interval_days').notNull(), // Interval the scheduler chose after this review
+  easeFactor: real('ease_factor').notNull(),
+  reviewedAt: timestamp('reviewed_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    savedWordIdIdx: index('word_reviews_saved_word_id_idx').on(table.savedWordId),
+    userIdReviewedAtIdx: index('word_reviews_user_id_reviewed_at_idx').on(table.userId, table.reviewedAt),
+  };
+});
+
+// Review settings table - per-user daily limits and deck selection for the review queue
+export const reviewSettings = pgTable('review_settings', {
+  userId: integer('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  newCardsPerDay: integer('new_cards_per_day').default(20).notNull(),
+  maxReviewsPerDay: integer('max_reviews_per_day').default(200).notNull(),
+  deckMode: text('deck_mode', { enum: ['interleave', 'book'] }).default('interleave').notNull(), // Mix all books or study one book's deck
+  activeBookId: text('active_book_id').references(() => books.id, { onDelete: 'set null' }), // Deck studied in 'book' mode
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    newCardsPerDayCheck: check('review_settings_new_cards_per_day_check', sql`${table.newCardsPerDay} >= 0`),
+    maxReviewsPerDayCheck: check('review_settings_max_reviews_per_day_check', sql`${table.maxReviewsPerDay} >= 0`),
+  };
+});
+
+// Saved sentences table - sentence-mining cards reviewed as cloze deletions of a target word
+export const savedSentences = pgTable('saved_sentences', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  bookId: text('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
+  chapterId: text('chapter_id').references(() => chapters.id, { onDelete: 'set null' }),
+  sentence: text('sentence').notNull(), // Sentence as it appears in the chapter
+  translation: text('translation'), // English translation of the whole sentence
+  targetWord: text('target_word').notNull(), // Word blanked out in cloze review
+  targetStart: integer('target_start').notNull(), // Character offsets of the target word in the sentence
+  targetEnd: integer('target_end').notNull(),
+  audioStartTime: real('audio_start_time'), // Sentence range in the chapter narration (seconds)
+  audioEndTime: real('audio_end_time'),
+  // SM-2 scheduling state - see services/spacedRepetition.ts
+  easeFactor: real('ease_factor').default(2.5).notNull(),
+  intervalDays: real('interval_days').default(0).notNull(),
+  repetitions: integer('repetitions').default(0).notNull(),
+  lapses: integer('lapses').default(0).notNull(),
+  lastReviewedAt: timestamp('last_reviewed_at', { withTimezone: true }),
+  nextReviewAt: timestamp('next_review_at', { withTimezone: true }).defaultNow().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdSentenceTargetIdx: uniqueIndex('saved_sentences_user_id_sentence_target_idx').on(table.userId, table.bookId, table.sentence, table.targetStart),
+    userIdIdx: index('saved_sentences_user_id_idx').on(table.userId),
+    nextReviewAtIdx: index('saved_sentences_next_review_at_idx').on(table.nextReviewAt),
   };
 });
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   entitlements: many(entitlements),
   savedWords: many(savedWords),
+  wordReviews: many(wordReviews),
+  savedSentences: many(savedSentences),
+  reviewSettings: one(reviewSettings),
 }));
 
 export const booksRelations = relations(books, ({ many }) => ({
@@ -93,6 +220,7 @@ export const booksRelations = relations(books, ({ many }) => ({
   entitlements: many(entitlements),
   bookSources: many(bookSources),
   ttsConfigs: many(ttsConfigs),
+  bookCast: many(bookCast),
   processingJobs: many(processingJobs),
 }));
 
@@ -104,6 +232,7 @@ export const chaptersRelations = relations(chapters, ({ one, many }) => ({
   processingJobs: many(processingJobs),
   ttsConfigs: many(ttsConfigs),
   activities: many(chapterActivities),
+  timingVersions: many(chapterTimingVersions),
 }));
 
 export const entitlementsRelations = relations(entitlements, ({ one }) => ({
@@ -117,11 +246,49 @@ export const entitlementsRelations = relations(entitlements, ({ one }) => ({
   }),
 }));
 
-export const savedWordsRelations = relations(savedWords, ({ one }) => ({
+export const savedWordsRelations = relations(savedWords, ({ one, many }) => ({
   user: one(users, {
     fields: [savedWords.userId],
     references: [users.id],
   }),
+  reviews: many(wordReviews),
+}));
+
+export const reviewSettingsRelations = relations(reviewSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [reviewSettings.userId],
+    references: [users.id],
+  }),
+  activeBook: one(books, {
+    fields: [reviewSettings.activeBookId],
+    references: [books.id],
+  }),
+}));
+
+export const savedSentencesRelations = relations(savedSentences, ({ one }) => ({
+  user: one(users, {
+    fields: [savedSentences.userId],
+    references: [users.id],
+  }),
+  book: one(books, {
+    fields: [savedSentences.bookId],
+    references: [books.id],
+  }),
+  chapter: one(chapters, {
+    fields: [savedSentences.chapterId],
+    references: [chapters.id],
+  }),
+}));
+
+export const wordReviewsRelations = relations(wordReviews, ({ one }) => ({
+  savedWord: one(savedWords, {
+    fields: [wordReviews.savedWordId],
+    references: [savedWords.id],
+  }),
+  user: one(users, {
+    fields: [wordReviews.userId],
+    references: [users.id],
+  }),
 }));
 
 // Access codes table for admin-generated book access
@@ -185,6 +352,23 @@ export const adminActions = pgTable('admin_actions', {
   };
 });
 
+// Activity sections a manuscript chapter can end with, in the order they are numbered
+export type ParsedActivityType = 'vocabulary_support' | 'comprehension_questions' | 'true_false' | 'matching' | 'writing_prompts';
+
+// How a manuscript is split into chapters, copied onto its upload so later preset changes don't reparse it differently
+export interface ParsingProfile {
+  presetId: string; // Preset the rules started from
+  headingStyles: string[]; // Word paragraph styles that start a chapter, e.g. "Heading 1"
+  chapterFontSize: number | null; // Paragraphs this size (pt) or larger, less the tolerance, start a chapter; null turns the rule off
+  bodyFontSize: number;
+  fontSizeTolerance: number;
+  boldHeadingFontSize: number | null; // Short bold paragraphs this size or larger start a chapter; null turns the rule off
+  maxHeadingLength: number; // Longer paragraphs are never headings
+  chapterPatterns: string[]; // Regular expressions matched case-insensitively at the start of a paragraph, e.g. "Capítulo \d+"
+  splitOnPageBreaks: boolean; // A page break starts a new chapter
+  activityMarkers: Record<ParsedActivityType, string>; // Regular expressions for the heading of each activity section
+}
+
 // Book sources table - tracks uploaded Word documents for processing
 export const bookSources = pgTable('book_sources', {
   id: serial('id').primaryKey(),
@@ -194,6 +378,7 @@ export const bookSources = pgTable('book_sources', {
   fileSize: integer('file_size'), // size in bytes
   uploadedByAdminId: integer('uploaded_by_admin_id').notNull().references(() => users.id),
   status: text('status', { enum: ['uploaded', 'processing', 'processed', 'failed'] }).default('uploaded').notNull(),
+  parsingProfile: jsonb('parsing_profile').$type<ParsingProfile>(), // Chapter detection rules chosen at upload; null = the standard profile
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => {
@@ -208,12 +393,18 @@ export const bookSources = pgTable('book_sources', {
 // Processing jobs table - monitors async parsing/TTS jobs
 export const processingJobs = pgTable('processing_jobs', {
   id: serial('id').primaryKey(),
-  bookSourceId: integer('book_source_id').notNull().references(() => bookSources.id, { onDelete: 'cascade' }),
+  bookSourceId: integer('book_source_id').references(() => bookSources.id, { onDelete: 'cascade' }), // null for jobs not tied to an upload, e.g. tts_generation or alignment
   bookId: text('book_id').references(() => books.id, { onDelete: 'cascade' }), // nullable initially, set when book is created
   chapterId: text('chapter_id').references(() => chapters.id, { onDelete: 'cascade' }), // nullable, for chapter-specific jobs
-  jobType: text('job_type', { enum: ['parsing', 'tts_generation', 'chapter_creation'] }).notNull(),
+  jobType: text('job_type', { enum: ['parsing', 'tts_generation', 'chapter_creation', 'alignment'] }).notNull(),
   status: text('status', { enum: ['pending', 'running', 'completed', 'failed'] }).default('pending').notNull(),
   progress: integer('progress').default(0).notNull(), // 0-100 progress percentage
+  attempts: integer('attempts').default(0).notNull(), // Runs started so far, including the current one
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  runAfter: timestamp('run_after', { withTimezone: true }), // Retry backoff: the job isn't picked up before this time
+  lockedBy: text('locked_by'), // Worker holding the job while it runs
+  heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }), // Refreshed by that worker; a stale heartbeat means it died
+  cancelRequestedAt: timestamp('cancel_requested_at', { withTimezone: true }), // Running jobs stop at their next stage
   startedAt: timestamp('started_at', { withTimezone: true }),
   completedAt: timestamp('completed_at', { withTimezone: true }),
   errorMessage: text('error_message'), // if failed
@@ -232,6 +423,8 @@ export const processingJobs = pgTable('processing_jobs', {
     createdAtIdx: index('processing_jobs_created_at_idx').on(table.createdAt),
     // Composite index for efficient querying by status and creation time
     statusCreatedAtIdx: index('processing_jobs_status_created_at_idx').on(table.status, table.createdAt),
+    // Job worker claims due jobs by type
+    jobTypeStatusRunAfterIdx: index('processing_jobs_job_type_status_run_after_idx').on(table.jobType, table.status, table.runAfter),
     // CHECK constraint to ensure progress is between 0 and 100
     progressCheck: check('processing_jobs_progress_check', sql`${table.progress} >= 0 AND ${table.progress} <= 100`),
   };
@@ -267,6 +460,23 @@ export const ttsConfigs = pgTable('tts_configs', {
   };
 });
 
+// Book cast table - the voice each character speaks with in multi-voice narration
+export const bookCast = pgTable('book_cast', {
+  id: serial('id').primaryKey(),
+  bookId: text('book_id').notNull().references(() => books.id, { onDelete: 'cascade' }),
+  speaker: text('speaker').notNull(), // Normalised speaker key, matched against chapter segments
+  displayName: text('display_name').notNull(),
+  voiceProvider: text('voice_provider').notNull(),
+  voiceId: text('voice_id').notNull(),
+  voiceSettings: jsonb('voice_settings'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    bookIdSpeakerIdx: uniqueIndex('book_cast_book_id_speaker_idx').on(table.bookId, table.speaker),
+  };
+});
+
 // Chapter activities table - stores different types of learning activities for chapters
 export const chapterActivities = pgTable('chapter_activities', {
   id: serial('id').primaryKey(),
@@ -291,23 +501,85 @@ export const chapterActivities = pgTable('chapter_activities', {
   };
 });
 
+// Chapter timing versions table - word timings saved from the admin timing editor, so corrections can be undone
+export const chapterTimingVersions = pgTable('chapter_timing_versions', {
+  id: serial('id').primaryKey(),
+  chapterId: text('chapter_id').notNull().references(() => chapters.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(), // Counts up from 1 per chapter
+  source: text('source', { enum: ['generated', 'editor', 'restore'] }).notNull(), // generated: the TTS or aligner timings an edit started from
+  audioUrl: text('audio_url'), // Narration the timings belong to
+  timingData: jsonb('timing_data').notNull(), // Same shape as chapters.elevenLabsTimingData
+  note: text('note'),
+  createdByAdminId: integer('created_by_admin_id').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    chapterIdVersionIdx: uniqueIndex('chapter_timing_versions_chapter_id_version_idx').on(table.chapterId, table.version),
+  };
+});
+
 // Translation cache table - stores Spanish-English word translations to save OpenAI API costs
 export const translationCache = pgTable('translation_cache', {
   id: serial('id').primaryKey(),
   spanishWord: text('spanish_word').notNull(),
   englishTranslation: text('english_translation').notNull(),
-  context: text('context'), // Optional context where the word appears
+  context: text('context'), // Sense label (e.g. "bench (seat)"), null for the general translation
+  partOfSpeech: text('part_of_speech'),
   usageCount: integer('usage_count').default(1).notNull(), // Track how often this translation is used
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => {
   return {
-    spanishWordIdx: uniqueIndex('translation_cache_spanish_word_idx').on(table.spanishWord),
+    spanishWordIdx: index('translation_cache_spanish_word_idx').on(table.spanishWord),
+    // One row per (word, sense); the general translation has a null context
+    spanishWordContextUnique: unique('translation_cache_spanish_word_context_unique').on(table.spanishWord, table.context).nullsNotDistinct(),
     usageCountIdx: index('translation_cache_usage_count_idx').on(table.usageCount),
     createdAtIdx: index('translation_cache_created_at_idx').on(table.createdAt),
   };
 });
 
+// Sentence senses table - which cached sense a word has in a sentence, so the reader's lookups skip the provider
+export const translationSentenceSenses = pgTable('translation_sentence_senses', {
+  id: serial('id').primaryKey(),
+  spanishWord: text('spanish_word').notNull(),
+  sentenceHash: text('sentence_hash').notNull(), // sha256 of the normalized sentence
+  translationCacheId: integer('translation_cache_id').notNull().references(() => translationCache.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    spanishWordSentenceHashIdx: uniqueIndex('translation_sentence_senses_spanish_word_sentence_hash_idx').on(table.spanishWord, table.sentenceHash),
+  };
+});
+
+// Dictionary entries table - offline bilingual dictionary imported from TSV/JSON dumps
+export const dictionaryEntries = pgTable('dictionary_entries', {
+  id: serial('id').primaryKey(),
+  headword: text('headword').notNull(), // Spanish word as listed in the dictionary
+  englishGloss: text('english_gloss').notNull(),
+  partOfSpeech: text('part_of_speech'),
+  source: text('source').notNull(), // Name of the imported dictionary, e.g. 'freedict-spa-eng'
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    headwordIdx: index('dictionary_entries_headword_idx').on(table.headword),
+    headwordGlossSourceIdx: uniqueIndex('dictionary_entries_headword_gloss_source_idx').on(table.headword, table.englishGloss, table.source),
+  };
+});
+
+// Dictionary forms table - inflected forms a dictionary lists as "form of" another word, e.g. comió → comer
+export const dictionaryForms = pgTable('dictionary_forms', {
+  id: serial('id').primaryKey(),
+  form: text('form').notNull(),
+  lemma: text('lemma').notNull(), // Headword the form is an inflection or spelling of
+  source: text('source').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => {
+  return {
+    formIdx: index('dictionary_forms_form_idx').on(table.form),
+    formLemmaSourceIdx: uniqueIndex('dictionary_forms_form_lemma_source_idx').on(table.form, table.lemma, table.source),
+  };
+});
+
 // Activity progress table - tracks user progress on chapter activities
 export const activityProgress = pgTable('activity_progress', {
   id: serial('id').primaryKey(),
@@ -417,6 +689,13 @@ export const ttsConfigsRelations = relations(ttsConfigs, ({ one }) => ({
   }),
 }));
 
+export const bookCastRelations = relations(bookCast, ({ one }) => ({
+  book: one(books, {
+    fields: [bookCast.bookId],
+    references: [books.id],
+  }),
+}));
+
 export const chapterActivitiesRelations = relations(chapterActivities, ({ one }) => ({
   chapter: one(chapters, {
     fields: [chapterActivities.chapterId],
@@ -424,6 +703,17 @@ export const chapterActivitiesRelations = relations(chapterActivities, ({ one })
   }),
 }));
 
+export const chapterTimingVersionsRelations = relations(chapterTimingVersions, ({ one }) => ({
+  chapter: one(chapters, {
+    fields: [chapterTimingVersions.chapterId],
+    references: [chapters.id],
+  }),
+  createdBy: one(users, {
+    fields: [chapterTimingVersions.createdByAdminId],
+    references: [users.id],
+  }),
+}));
+
 export const activityProgressRelations = relations(activityProgress, ({ one }) => ({
   user: one(users, {
     fields: [activityProgress.userId],
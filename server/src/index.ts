@@ -4,13 +4,17 @@ import dotenv from 'dotenv';
 import authRoutes from './routes/auth';
 import booksRoutes from './routes/books';
 import wordsRoutes from './routes/words';
+import sentencesRoutes from './routes/sentences';
 import adminRoutes from './routes/admin';
 import progressRoutes from './routes/progress';
 import parsingRoutes from './routes/parsing';
 import activitiesRoutes from './routes/activities';
+import jobsRoutes from './routes/jobs';
 import ttsRoutes from './api/tts';
 import elevenlabsRoutes from './api/elevenlabs';
 import { ObjectStorageService, ObjectNotFoundError } from './objectStorage.js';
+import { jobWorker } from './services/jobWorker';
+import { registerJobHandlers } from './services/jobHandlers';
 
 dotenv.config();
 
@@ -38,9 +42,11 @@ app.use('/audio', express.static('public/audio'));
 app.use('/api/auth', authRoutes);
 app.use('/api', booksRoutes);
 app.use('/api/words', wordsRoutes);
+app.use('/api/sentences', sentencesRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/progress', progressRoutes);
 app.use('/api/parsing', parsingRoutes);
+app.use('/api/jobs', jobsRoutes);
 app.use('/api', activitiesRoutes);
 app.use('/api/tts', ttsRoutes);
 app.use('/api/elevenlabs', elevenlabsRoutes);
@@ -51,7 +57,7 @@ app.get('/objects/:objectPath(*)', async (req, res) => {
   const objectStorageService = new ObjectStorageService();
   try {
     const objectFile = await objectStorageService.getObjectEntityFile(req.path);
-    objectStorageService.downloadObject(objectFile, res);
+    objectStorageService.downloadObject(objectFile, res, 3600, req.headers.range);
   } catch (error) {
     console.error('Error serving object:', error);
     if (error instanceof ObjectNotFoundError) {
@@ -88,6 +94,12 @@ app.get('/health', (req, res) => {
 
 app.listen(port, '0.0.0.0', () => {
   console.log(`Server running on port ${port}`);
+
+  // Background jobs run in this process unless a separate worker (npm run worker) handles them
+  registerJobHandlers();
+  if (process.env.JOB_WORKER_ENABLED !== 'false') {
+    jobWorker.start();
+  }
 });
 
 export default app;
\ No newline at end of file
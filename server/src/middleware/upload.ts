@@ -3,7 +3,7 @@ import path from 'path';
 import fs from 'fs';
 import { Request, Response, NextFunction } from 'express';
 import { db } from '../db/index.js';
-import { books } from '../db/schema.js';
+import { books, chapters } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
 
 // Define custom interface for file upload requests
@@ -11,6 +11,7 @@ export interface UploadRequest extends Request {
   adminId?: number;
   userRole?: string;
   validatedBookId?: string;
+  validatedChapterId?: string;
 }
 
 // Secure bookId validation middleware - prevents path traversal attacks
@@ -63,8 +64,39 @@ export const validateBookId = async (req: UploadRequest, res: Response, next: Ne
   }
 };
 
-// Content validation for .docx files - checks ZIP magic bytes and structure
-const validateDocxContent = (buffer: Buffer): boolean => {
+// Chapter ID validation for narration uploads - rejects unknown chapters before the audio is received
+export const validateChapterId = async (req: UploadRequest, res: Response, next: NextFunction) => {
+  try {
+    const chapterId = req.params.id;
+
+    if (!chapterId || chapterId.length > 200) {
+      return res.status(400).json({
+        message: 'Invalid chapter ID',
+        error: 'INVALID_CHAPTER_ID'
+      });
+    }
+
+    const existingChapter = await db.select({ id: chapters.id }).from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+    if (existingChapter.length === 0) {
+      return res.status(404).json({
+        message: 'Chapter not found',
+        error: 'CHAPTER_NOT_FOUND'
+      });
+    }
+
+    req.validatedChapterId = chapterId;
+    next();
+  } catch (error) {
+    console.error('Error validating chapter ID:', error);
+    return res.status(500).json({
+      message: 'Internal server error during chapter validation',
+      error: 'VALIDATION_ERROR'
+    });
+  }
+};
+
+// .docx and .epub files are both ZIP archives - check the magic bytes
+const hasZipMagicBytes = (buffer: Buffer): boolean => {
   // Check ZIP magic bytes (first 4 bytes should be 'PK\x03\x04' or 'PK\x05\x06' or 'PK\x07\x08')
   if (buffer.length < 4) return false;
   
@@ -75,11 +107,14 @@ const validateDocxContent = (buffer: Buffer): boolean => {
     Buffer.from([0x50, 0x4B, 0x07, 0x08])  // ZIP data descriptor
   ];
   
-  const hasValidMagicBytes = validMagicBytes.some(validMagic => 
+  return validMagicBytes.some(validMagic => 
     magicBytes.equals(validMagic)
   );
-  
-  if (!hasValidMagicBytes) return false;
+};
+
+// Content validation for .docx files - checks ZIP magic bytes and structure
+const validateDocxContent = (buffer: Buffer): boolean => {
+  if (!hasZipMagicBytes(buffer)) return false;
   
   // Check for required .docx files in the ZIP structure
   const bufferString = buffer.toString('binary');
@@ -97,30 +132,135 @@ const validateDocxContent = (buffer: Buffer): boolean => {
   return hasAllRequiredFiles;
 };
 
+// Content validation for .epub files - checks ZIP magic bytes, the mimetype entry and the container
+const validateEpubContent = (buffer: Buffer): boolean => {
+  if (!hasZipMagicBytes(buffer)) return false;
+  
+  const bufferString = buffer.toString('binary');
+  return bufferString.includes('mimetype') &&
+    bufferString.includes('application/epub+zip') &&
+    bufferString.includes('META-INF/container.xml');
+};
+
+// Content validation for Markdown and plain-text files - must be UTF-8 text
+const validateTextContent = (buffer: Buffer): boolean => {
+  if (buffer.includes(0)) return false; // Binary files contain NUL bytes
+  
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const TEXT_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
 // Enhanced file filter with content validation
 const fileFilter = (req: UploadRequest, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Check file extension
-  const allowedExtensions = ['.docx'];
+  const allowedMimeTypes: Record<string, string[]> = {
+    '.docx': ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    // Browsers without an EPUB handler registered send a generic type
+    '.epub': ['application/epub+zip', 'application/octet-stream'],
+    '.md': ['text/markdown', 'text/x-markdown', 'text/plain', 'application/octet-stream'],
+    '.markdown': ['text/markdown', 'text/x-markdown', 'text/plain', 'application/octet-stream'],
+    '.txt': ['text/plain'],
+  };
   const fileExtension = path.extname(file.originalname).toLowerCase();
   
-  if (!allowedExtensions.includes(fileExtension)) {
-    return cb(new Error('Only .docx files are allowed'));
+  if (!allowedMimeTypes[fileExtension]) {
+    return cb(new Error('Only .docx, .epub, .md and .txt files are allowed'));
   }
 
   // Check MIME type for additional security
-  const allowedMimeTypes = [
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-  ];
-  
-  if (!allowedMimeTypes.includes(file.mimetype)) {
-    return cb(new Error('Invalid file type. Only Word documents are allowed'));
+  if (!allowedMimeTypes[fileExtension].includes(file.mimetype)) {
+    return cb(new Error('Invalid file type. Only Word documents, EPUB books and Markdown or text files are allowed'));
   }
 
   cb(null, true);
 };
 
+// Narration recordings accepted per chapter; all are transcoded to MP3 before they are stored
+const NARRATION_MIME_TYPES: Record<string, string[]> = {
+  '.mp3': ['audio/mpeg', 'audio/mp3', 'application/octet-stream'],
+  '.m4a': ['audio/mp4', 'audio/x-m4a', 'audio/m4a', 'audio/aac', 'application/octet-stream'],
+  '.wav': ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave', 'application/octet-stream'],
+};
+
+const narrationFileFilter = (req: UploadRequest, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const fileExtension = path.extname(file.originalname).toLowerCase();
+
+  if (!NARRATION_MIME_TYPES[fileExtension]) {
+    return cb(new Error('Only .mp3, .m4a and .wav files are allowed'));
+  }
+
+  if (!NARRATION_MIME_TYPES[fileExtension].includes(file.mimetype)) {
+    return cb(new Error('Invalid file type. Only MP3, M4A and WAV audio is allowed'));
+  }
+
+  cb(null, true);
+};
+
+// Content validation for audio files - checks the container's magic bytes match the extension
+const validateAudioContent = (buffer: Buffer, fileExtension: string): boolean => {
+  if (buffer.length < 12) return false;
+
+  switch (fileExtension) {
+    case '.wav':
+      return buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE';
+    case '.m4a':
+      return buffer.toString('ascii', 4, 8) === 'ftyp';
+    case '.mp3':
+      // An ID3 tag, or straight into an MPEG audio frame (11 sync bits)
+      return buffer.toString('ascii', 0, 3) === 'ID3' || (buffer[0] === 0xFF && (buffer[1] & 0xE0) === 0xE0);
+    default:
+      return false;
+  }
+};
+
+// Post-upload content validation middleware for narration recordings
+export const validateUploadedNarrationContent = async (req: UploadRequest, res: Response, next: NextFunction) => {
+  try {
+    if (!req.file) {
+      return next();
+    }
+
+    // Only the header is needed, and recordings can be large
+    const header = Buffer.alloc(12);
+    const fd = fs.openSync(req.file.path, 'r');
+    try {
+      fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (!validateAudioContent(header, path.extname(req.file.originalname).toLowerCase())) {
+      cleanupUploadedFile(req.file.path);
+
+      return res.status(400).json({
+        message: 'Invalid audio file content. The file is not an MP3, M4A or WAV recording.',
+        error: 'INVALID_AUDIO_CONTENT'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error validating uploaded narration:', error);
+
+    if (req.file) {
+      cleanupUploadedFile(req.file.path);
+    }
+
+    return res.status(500).json({
+      message: 'Failed to validate uploaded audio',
+      error: 'VALIDATION_ERROR'
+    });
+  }
+};
+
 // Post-upload content validation middleware
-export const validateUploadedDocxContent = async (req: UploadRequest, res: Response, next: NextFunction) => {
+export const validateUploadedDocumentContent = async (req: UploadRequest, res: Response, next: NextFunction) => {
   try {
     if (!req.file) {
       return next();
@@ -129,6 +269,34 @@ export const validateUploadedDocxContent = async (req: UploadRequest, res: Respo
     // Read the uploaded file for content validation
     const fileBuffer = fs.readFileSync(req.file.path);
     
+    const fileExtension = path.extname(req.file.originalname).toLowerCase();
+    
+    // Validate Markdown and plain-text content
+    if (TEXT_EXTENSIONS.includes(fileExtension)) {
+      if (!validateTextContent(fileBuffer)) {
+        cleanupUploadedFile(req.file.path);
+        
+        return res.status(400).json({
+          message: 'Invalid text file content. Markdown and text files must be UTF-8 encoded.',
+          error: 'INVALID_TEXT_CONTENT'
+        });
+      }
+      return next();
+    }
+    
+    // Validate .epub content structure
+    if (fileExtension === '.epub') {
+      if (!validateEpubContent(fileBuffer)) {
+        cleanupUploadedFile(req.file.path);
+        
+        return res.status(400).json({
+          message: 'Invalid .epub file content. File does not contain required EPUB structure.',
+          error: 'INVALID_EPUB_CONTENT'
+        });
+      }
+      return next();
+    }
+    
     // Validate .docx content structure
     if (!validateDocxContent(fileBuffer)) {
       // Cleanup invalid file
@@ -197,7 +365,7 @@ const storage = multer.diskStorage({
 });
 
 // Configure multer with validation and limits
-export const uploadWordDocument = multer({
+export const uploadSourceDocument = multer({
   storage: storage,
   fileFilter: fileFilter,
   limits: {
@@ -206,6 +374,74 @@ export const uploadWordDocument = multer({
   },
 }).single('document'); // Field name 'document'
 
+// Narration recordings wait here until they are transcoded and moved to object storage
+const narrationStorage = multer.diskStorage({
+  destination: (req: UploadRequest, file: Express.Multer.File, cb) => {
+    const targetPath = path.resolve(process.cwd(), 'uploads', 'narration');
+
+    try {
+      fs.mkdirSync(targetPath, { recursive: true });
+      cb(null, targetPath);
+    } catch (error) {
+      console.error('Failed to create upload directory:', error);
+      cb(new Error('Failed to create upload directory'), '');
+    }
+  },
+  filename: (req: UploadRequest, file: Express.Multer.File, cb) => {
+    const timestamp = Date.now();
+    const sanitizedName = file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_');
+    cb(null, `${timestamp}_${sanitizedName}`);
+  }
+});
+
+const MAX_NARRATION_SIZE_MB = 500; // An hour of CD-quality WAV is about 600MB; longer chapters come as MP3 or M4A
+
+export const uploadNarrationAudio = multer({
+  storage: narrationStorage,
+  fileFilter: narrationFileFilter,
+  limits: {
+    fileSize: MAX_NARRATION_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+}).single('audio'); // Field name 'audio'
+
+// Error handling middleware for multer errors on narration uploads
+export const handleNarrationUploadErrors = (error: any, req: UploadRequest, res: any, next: any) => {
+  if (error instanceof multer.MulterError) {
+    switch (error.code) {
+      case 'LIMIT_FILE_SIZE':
+        return res.status(400).json({
+          message: `File too large. Maximum size is ${MAX_NARRATION_SIZE_MB}MB.`,
+          error: 'FILE_TOO_LARGE'
+        });
+      case 'LIMIT_FILE_COUNT':
+        return res.status(400).json({
+          message: 'Too many files. Only one file allowed.',
+          error: 'TOO_MANY_FILES'
+        });
+      case 'LIMIT_UNEXPECTED_FILE':
+        return res.status(400).json({
+          message: 'Unexpected field name. Use "audio" field.',
+          error: 'UNEXPECTED_FIELD'
+        });
+      default:
+        return res.status(400).json({
+          message: 'Upload error occurred.',
+          error: error.code
+        });
+    }
+  }
+
+  if (error.message) {
+    return res.status(400).json({
+      message: error.message,
+      error: 'VALIDATION_ERROR'
+    });
+  }
+
+  next(error);
+};
+
 // Error handling middleware for multer errors
 export const handleUploadErrors = (error: any, req: UploadRequest, res: any, next: any) => {
   if (error instanceof multer.MulterError) {
@@ -95,7 +95,8 @@ export class ObjectStorageService {
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  // A byte range (the Range header audio players send to seek) is answered with just that part.
+  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600, range?: string) {
     try {
       // Get file metadata
       const [metadata] = await file.getMetadata();
@@ -106,13 +107,27 @@ export class ObjectStorageService {
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
         "Content-Length": metadata.size,
+        "Accept-Ranges": "bytes",
         "Cache-Control": `${
           isPublic ? "public" : "private"
         }, max-age=${cacheTtlSec}`,
       });
 
+      const size = Number(metadata.size);
+      const bytes = range ? parseByteRange(range, size) : null;
+      if (bytes === "unsatisfiable") {
+        res.status(416).set({ "Content-Range": `bytes */${size}` }).end();
+        return;
+      }
+      if (bytes) {
+        res.status(206).set({
+          "Content-Length": String(bytes.end - bytes.start + 1),
+          "Content-Range": `bytes ${bytes.start}-${bytes.end}/${size}`,
+        });
+      }
+
       // Stream the file to the response
-      const stream = file.createReadStream();
+      const stream = file.createReadStream(bytes ?? undefined);
 
       stream.on("error", (err) => {
         console.error("Stream error:", err);
@@ -154,6 +169,29 @@ export class ObjectStorageService {
     });
   }
 
+  // Uploads a file from the server (e.g. an image read from a manuscript) and returns its object path.
+  // An existing object of the same name is kept, so callers naming files by their content upload each once.
+  async uploadObjectEntity(
+    entityId: string,
+    data: Buffer,
+    contentType: string,
+    aclPolicy: ObjectAclPolicy
+  ): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+
+    const [exists] = await objectFile.exists();
+    if (!exists) {
+      await objectFile.save(data, { contentType, resumable: false });
+    }
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    return `/objects/${entityId}`;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -260,6 +298,25 @@ function parseObjectPath(path: string): {
   };
 }
 
+// Parses a single "bytes=start-end" range; other forms are ignored and the whole object is sent
+function parseByteRange(
+  range: string,
+  size: number
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (!match[1] && !match[2]) || !Number.isFinite(size)) {
+    return null;
+  }
+
+  // "bytes=-500" is the last 500 bytes
+  const start = match[1] ? parseInt(match[1], 10) : Math.max(size - parseInt(match[2], 10), 0);
+  const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return "unsatisfiable";
+  }
+  return { start, end };
+}
+
 async function signObjectURL({
   bucketName,
   objectName,
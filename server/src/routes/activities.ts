@@ -9,6 +9,7 @@ import {
   activityProgress 
 } from '../db/schema';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { ChapterNarration, wordClipService } from '../services/wordClipService';
 // Helper function to create mock activities based on chapter content
 function createMockActivities(chapterContent: any[]) {
   const activities = [];
@@ -135,6 +136,30 @@ function createMockActivities(chapterContent: any[]) {
   return activities;
 }
 
+// Fill in missing flashcard audio with word clips cut from the chapter's narration
+async function addFlashcardAudio(
+  activity: { cards?: Array<{ spanish: string; context?: string; audioUrl?: string }> },
+  chapter: { id: string; audioUrl: string | null; elevenLabsTimingData: unknown },
+  narration: ChapterNarration
+) {
+  if (!chapter.audioUrl || !chapter.elevenLabsTimingData || !Array.isArray(activity.cards)) {
+    return;
+  }
+
+  for (const card of activity.cards) {
+    if (card.audioUrl || !card.spanish) continue;
+
+    try {
+      const clip = await wordClipService.getClip(chapter, card.spanish, card.context, narration);
+      if (clip) {
+        card.audioUrl = `/${clip.audioUrl}`;
+      }
+    } catch (error) {
+      console.error(`Failed to cut audio clip for flashcard "${card.spanish}":`, error);
+    }
+  }
+}
+
 const router = Router();
 
 // GET /chapters/:bookId/activities/:chapterIndex - get activities for a chapter
@@ -246,6 +271,12 @@ router.get('/chapters/:bookId/activities/:chapterIndex', authMiddleware, async (
       }
     }
 
+    // Pronunciation clips for vocabulary flashcards
+    const narration = wordClipService.openNarration(chapter);
+    for (const activity of activitiesByType.vocabulary as Parameters<typeof addFlashcardAudio>[0][]) {
+      await addFlashcardAudio(activity, chapter, narration);
+    }
+
     res.json({
       bookId,
       chapterIndex: chapterIndexNum,
@@ -4,11 +4,21 @@ import crypto from 'crypto';
 import { db } from '../db/index.js';
 import { books, chapters, accessCodes, adminActions, users, bookSources, translationCache, chapterActivities } from '../db/schema.js';
 import { requireAdmin } from '../middleware/admin.js';
-import { validateBookId, uploadWordDocument, validateUploadedDocxContent, handleUploadErrors, cleanupUploadedFile, getSecureFileUrl } from '../middleware/upload.js';
+import { validateBookId, uploadSourceDocument, validateUploadedDocumentContent, handleUploadErrors, cleanupUploadedFile, getSecureFileUrl, validateChapterId, uploadNarrationAudio, validateUploadedNarrationContent, handleNarrationUploadErrors } from '../middleware/upload.js';
 import { eq, sql, desc, count, inArray } from 'drizzle-orm';
 import path from 'path';
 import fs from 'fs';
-import { ElevenLabsService } from '../services/elevenLabsService.js';
+import { chapterNarrationService } from '../services/chapterNarration.js';
+import { ttsJobService } from '../services/ttsJobs.js';
+import { alignmentJobService } from '../services/alignmentJobs.js';
+import { narrationUploadService, NarrationUploadError } from '../services/narrationUpload.js';
+import { jobWorker } from '../services/jobWorker.js';
+import { speakerSegmentService, NARRATOR } from '../services/speakerSegments.js';
+import { ttsConfigService, TTS_PROVIDERS, DEFAULT_VOICES } from '../services/ttsConfigService.js';
+import { parsingProfileService } from '../services/parsingProfiles.js';
+import { manuscriptReimportService, ReimportError } from '../services/manuscriptReimport.js';
+import { timingEditorService, TimingEditError } from '../services/timingEditor.js';
+import { timingQualityService } from '../services/timingQuality.js';
 import OpenAI from 'openai';
 import { ObjectStorageService, ObjectNotFoundError } from '../objectStorage.js';
 
@@ -24,6 +34,7 @@ interface AdminRequest extends express.Request {
   adminId?: number;
   userRole?: string;
   validatedBookId?: string;
+  validatedChapterId?: string;
 }
 
 // Log admin action helper
@@ -153,7 +164,7 @@ async function preTranslateWords(words: string[]): Promise<void> {
           if (translationsToInsert.length > 0) {
             await db.insert(translationCache)
               .values(translationsToInsert)
-              .onConflictDoNothing({ target: translationCache.spanishWord });
+              .onConflictDoNothing({ target: [translationCache.spanishWord, translationCache.context] });
             console.log(`✅ Cached ${translationsToInsert.length} translations`);
           }
           
@@ -352,8 +363,8 @@ router.delete('/books/:id', async (req: AdminRequest, res) => {
 
 // Document Upload Routes
 
-// POST /admin/books/:bookId/upload - Upload Word document for a book
-router.post('/books/:bookId/upload', validateBookId, uploadWordDocument, validateUploadedDocxContent, async (req: AdminRequest, res: express.Response) => {
+// POST /admin/books/:bookId/upload - Upload a Word document, EPUB or Markdown / text manuscript for a book
+router.post('/books/:bookId/upload', validateBookId, uploadSourceDocument, validateUploadedDocumentContent, async (req: AdminRequest, res: express.Response) => {
   let uploadedFilePath: string | undefined;
   
   try {
@@ -363,7 +374,7 @@ router.post('/books/:bookId/upload', validateBookId, uploadWordDocument, validat
     // Check if file was uploaded
     if (!req.file) {
       return res.status(400).json({ 
-        message: 'No file uploaded. Please select a .docx file.',
+        message: 'No file uploaded. Please select a .docx, .epub, .md or .txt file.',
         error: 'NO_FILE'
       });
     }
@@ -371,6 +382,20 @@ router.post('/books/:bookId/upload', validateBookId, uploadWordDocument, validat
     uploadedFilePath = req.file.path;
     const fileUrl = getSecureFileUrl(bookId, req.file.filename);
 
+    // Chapter detection rules picked in the upload form, sent as a JSON field
+    let parsingProfile = null;
+    if (req.body?.parsingProfile) {
+      const parsed = parsingProfileService.parseInput(req.body.parsingProfile);
+      if ('error' in parsed) {
+        cleanupUploadedFile(uploadedFilePath);
+        return res.status(400).json({
+          message: parsed.error,
+          error: 'INVALID_PARSING_PROFILE'
+        });
+      }
+      parsingProfile = parsed.profile;
+    }
+
     // Create book source record in database
     const newBookSource = await db.insert(bookSources).values({
       bookId,
@@ -379,12 +404,14 @@ router.post('/books/:bookId/upload', validateBookId, uploadWordDocument, validat
       fileSize: req.file.size,
       uploadedByAdminId: req.adminId!,
       status: 'uploaded',
+      parsingProfile,
     }).returning();
 
     await logAdminAction(req.adminId!, 'upload_document', 'book_source', newBookSource[0].id.toString(), {
       bookId,
       originalFileName: req.file.originalname,
       fileSize: req.file.size,
+      parsingProfile: parsingProfile?.presetId ?? null,
     });
 
     res.status(201).json({
@@ -395,6 +422,7 @@ router.post('/books/:bookId/upload', validateBookId, uploadWordDocument, validat
         originalFileName: req.file.originalname,
         fileSize: req.file.size,
         status: newBookSource[0].status,
+        parsingProfile: newBookSource[0].parsingProfile,
         createdAt: newBookSource[0].createdAt,
       }
     });
@@ -427,6 +455,7 @@ router.get('/books/:bookId/sources', async (req: AdminRequest, res) => {
         originalFileName: bookSources.originalFileName,
         fileSize: bookSources.fileSize,
         status: bookSources.status,
+        parsingProfile: bookSources.parsingProfile,
         createdAt: bookSources.createdAt,
         updatedAt: bookSources.updatedAt,
         uploadedByAdmin: users.email,
@@ -557,14 +586,17 @@ router.post('/books/:bookId/chapters', async (req: AdminRequest, res) => {
 
     // Generate JSON structure with correct format for frontend editing
     // Split content by double line breaks to preserve paragraphs (handle Windows/Unix line endings)
-    const paragraphs = content.split(/\r?\n\s*\r?\n/).filter((p: string) => p.trim().length > 0);
+    // [Name] tags set the speaker for multi-voice narration; untagged dialogue is detected
+    const { paragraphs, segments } = speakerSegmentService.segmentParagraphs(
+      content.split(/\r?\n\s*\r?\n/).filter((p: string) => p.trim().length > 0)
+    );
     
     const allSentences: any[] = [];
     const allWords: any[] = [];
     let sentenceIndex = 0;
     let wordIndex = 0;
 
-    const processedParagraphs = paragraphs.map((paragraph: string, pIndex: number) => {
+    const processedParagraphs = paragraphs.map((paragraph, pIndex) => {
       // Split each paragraph into sentences while preserving line breaks within paragraphs  
       const paragraphText = paragraph.trim();
       const sentences = paragraphText.split(/[.!?]+/).filter((s: string) => s.trim().length > 0);
@@ -604,7 +636,8 @@ router.post('/books/:bookId/chapters', async (req: AdminRequest, res) => {
       title,
       content: {
         paragraphs: processedParagraphs,
-        sentences: allSentences // Keep flat structure for backward compatibility
+        sentences: allSentences, // Keep flat structure for backward compatibility
+        segments // Speaker segments for multi-voice narration
       },
       words: allWords
     };
@@ -614,42 +647,39 @@ router.post('/books/:bookId/chapters', async (req: AdminRequest, res) => {
     const base64Content = Buffer.from(jsonString, 'utf8').toString('base64');
     const jsonUrl = `data:application/json;charset=utf-8;base64,${base64Content}`;
 
-    // Generate audio using ElevenLabs if no audioUrl provided
-    let finalAudioUrl = audioUrl || null;
-    let timingData = null;
-
-    if (!audioUrl && content) {
-      try {
-        console.log(`Generating ElevenLabs audio for chapter ${chapterId}...`);
-        const elevenLabs = new ElevenLabsService();
-        const audioResult = await elevenLabs.generateAudioWithTiming(content, chapterId);
-        
-        finalAudioUrl = audioResult.audioUrl;
-        timingData = audioResult.timingData;
-        
-        console.log(`Audio generated successfully: ${finalAudioUrl}`);
-      } catch (audioError) {
-        console.error('ElevenLabs audio generation failed:', audioError);
-        // Continue without audio - admin can manually generate later
-        console.log('Continuing without audio generation');
-      }
-    }
-
     const newChapter = await db.insert(chapters).values({
       id: chapterId,
       bookId,
       title,
       indexInBook: parseInt(indexInBook),
-      audioUrl: finalAudioUrl,
+      audioUrl: audioUrl || null,
       jsonUrl,
-      elevenLabsTimingData: timingData,
+      audioStatus: audioUrl ? 'ready' : 'none',
     }).returning();
 
     await logAdminAction(req.adminId!, 'create_chapter', 'chapter', chapterId, { 
       bookId, title, indexInBook 
     });
 
-    res.status(201).json({ message: 'Chapter created successfully', chapter: newChapter[0] });
+    // Narration runs as a background job with the chapter's voice config if no audioUrl provided;
+    // a provided recording gets its word timings from an alignment job instead
+    let audioJobId: number | null = null;
+    let alignmentJobId: number | null = null;
+    if (!audioUrl) {
+      try {
+        audioJobId = await ttsJobService.enqueueChapter(chapterId, 'chapter_created');
+      } catch (audioError) {
+        console.error('Failed to queue chapter audio generation:', audioError);
+      }
+    } else {
+      try {
+        alignmentJobId = await alignmentJobService.enqueueChapter(chapterId, 'chapter_created');
+      } catch (alignmentError) {
+        console.error('Failed to queue chapter alignment:', alignmentError);
+      }
+    }
+
+    res.status(201).json({ message: 'Chapter created successfully', chapter: newChapter[0], audioJobId, alignmentJobId });
   } catch (error: any) {
     console.error('Error creating chapter:', error);
     
@@ -680,14 +710,18 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
 
     // Generate updated JSON structure with correct format for frontend editing
     // Split content by double line breaks to preserve paragraphs (handle Windows/Unix line endings)
-    const paragraphs = content.split(/\r?\n\s*\r?\n/).filter((p: string) => p.trim().length > 0);
+    // [Name] tags set the speaker for multi-voice narration; untagged dialogue is detected
+    const { paragraphs, segments } = speakerSegmentService.segmentParagraphs(
+      content.split(/\r?\n\s*\r?\n/).filter((p: string) => p.trim().length > 0)
+    );
+    const narrationText = paragraphs.map(paragraph => paragraph.trim()).join('\n\n');
     
     const allSentences: any[] = [];
     const allWords: any[] = [];
     let sentenceIndex = 0;
     let wordIndex = 0;
 
-    const processedParagraphs = paragraphs.map((paragraph: string, pIndex: number) => {
+    const processedParagraphs = paragraphs.map((paragraph, pIndex) => {
       // Split each paragraph into sentences while preserving line breaks within paragraphs  
       const paragraphText = paragraph.trim();
       const sentences = paragraphText.split(/[.!?]+/).filter((s: string) => s.trim().length > 0);
@@ -727,7 +761,8 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
       title,
       content: {
         paragraphs: processedParagraphs,
-        sentences: allSentences // Keep flat structure for backward compatibility
+        sentences: allSentences, // Keep flat structure for backward compatibility
+        segments // Speaker segments for multi-voice narration
       },
       words: allWords
     };
@@ -738,8 +773,6 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
       return res.status(404).json({ message: 'Chapter not found' });
     }
 
-    const bookId = existingChapter[0].bookId;
-
     // Store JSON as base64 data URL with explicit UTF-8 charset
     const jsonString = JSON.stringify(chapterJson);
     const base64Content = Buffer.from(jsonString, 'utf8').toString('base64');
@@ -747,7 +780,7 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
 
     // Pre-translate all Spanish words in the content SYNCHRONOUSLY
     console.log('🔤 Extracting and pre-translating words from chapter content...');
-    const uniqueWords = extractUniqueWords(content);
+    const uniqueWords = extractUniqueWords(narrationText);
     if (uniqueWords.length > 0) {
       try {
         // Wait for pre-translation to complete before responding
@@ -759,34 +792,21 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
       }
     }
 
-    // Generate audio using ElevenLabs if no audioUrl provided
-    let finalAudioUrl = audioUrl || null;
-    let timingData = null;
-
-    if (!audioUrl && content) {
-      try {
-        console.log(`Regenerating ElevenLabs audio for chapter ${id}...`);
-        const elevenLabs = new ElevenLabsService();
-        const audioResult = await elevenLabs.generateAudioWithTiming(content, id);
-        
-        finalAudioUrl = audioResult.audioUrl;
-        timingData = audioResult.timingData;
-        
-        console.log(`Audio regenerated successfully: ${finalAudioUrl}`);
-      } catch (audioError) {
-        console.error('ElevenLabs audio regeneration failed:', audioError);
-        // Continue without updating audio
-        console.log('Continuing without audio regeneration');
-      }
-    }
-
+    // A new audioUrl replaces the narration; otherwise the current audio stays until the job replaces it
     const updatedChapter = await db.update(chapters)
       .set({
         title,
         indexInBook: parseInt(indexInBook),
-        audioUrl: finalAudioUrl,
         jsonUrl,
-        elevenLabsTimingData: timingData,
+        ...(audioUrl && audioUrl !== existingChapter[0].audioUrl && {
+          audioUrl,
+          elevenLabsTimingData: null,
+          timingQuality: null,
+          timingQualityScore: null,
+          audioTtsConfig: null,
+          audioStatus: 'ready' as const,
+          audioError: null,
+        }),
       })
       .where(eq(chapters.id, id))
       .returning();
@@ -799,7 +819,24 @@ router.put('/chapters/:id', async (req: AdminRequest, res) => {
       title, indexInBook, audioUrl, jsonUrl 
     });
 
-    res.json({ message: 'Chapter updated successfully', chapter: updatedChapter[0] });
+    let audioJobId: number | null = null;
+    let alignmentJobId: number | null = null;
+    if (!audioUrl) {
+      try {
+        audioJobId = await ttsJobService.enqueueChapter(id, 'chapter_updated');
+      } catch (audioError) {
+        console.error('Failed to queue chapter audio regeneration:', audioError);
+      }
+    } else if (audioUrl !== existingChapter[0].audioUrl || existingChapter[0].jsonUrl !== jsonUrl) {
+      // New narration, or the text it is aligned with changed
+      try {
+        alignmentJobId = await alignmentJobService.enqueueChapter(id, 'chapter_updated');
+      } catch (alignmentError) {
+        console.error('Failed to queue chapter alignment:', alignmentError);
+      }
+    }
+
+    res.json({ message: 'Chapter updated successfully', chapter: updatedChapter[0], audioJobId, alignmentJobId });
   } catch (error: any) {
     console.error('Error updating chapter:', error);
     
@@ -855,6 +892,519 @@ router.delete('/chapters/:id', async (req: AdminRequest, res) => {
   }
 });
 
+// Chapter Audio Job Routes
+
+// GET /admin/books/:bookId/audio-jobs - Latest narration job of each chapter
+router.get('/books/:bookId/audio-jobs', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+    const jobs = await ttsJobService.getBookJobs(bookId);
+    res.json({ bookId, jobs });
+  } catch (error) {
+    console.error('Error fetching audio jobs:', error);
+    res.status(500).json({ message: 'Failed to fetch audio jobs' });
+  }
+});
+
+// POST /admin/books/:bookId/audio/regenerate - Queue narration for every chapter of a book
+router.post('/books/:bookId/audio/regenerate', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+
+    const book = await db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).limit(1);
+    if (book.length === 0) {
+      return res.status(404).json({ message: 'Book not found' });
+    }
+
+    const { queued, skipped } = await ttsJobService.enqueueBook(bookId, 'regenerate_book');
+
+    await logAdminAction(req.adminId!, 'regenerate_book_audio', 'book', bookId, { chapters: queued.length, skippedRecorded: skipped });
+
+    const skippedNote = skipped.length > 0
+      ? `; skipped ${skipped.length} with recorded narration`
+      : '';
+    res.status(202).json({ message: `Queued audio generation for ${queued.length} chapters${skippedNote}`, jobs: queued, skipped });
+  } catch (error) {
+    console.error('Error queueing book audio:', error);
+    res.status(500).json({ message: 'Failed to queue audio generation' });
+  }
+});
+
+// POST /admin/chapters/:id/audio/regenerate - Queue narration for one chapter
+router.post('/chapters/:id/audio/regenerate', async (req: AdminRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const chapter = await db.select({ id: chapters.id }).from(chapters).where(eq(chapters.id, id)).limit(1);
+    if (chapter.length === 0) {
+      return res.status(404).json({ message: 'Chapter not found' });
+    }
+
+    const jobId = await ttsJobService.enqueueChapter(id, 'regenerate_chapter');
+
+    await logAdminAction(req.adminId!, 'regenerate_chapter_audio', 'chapter', id, { jobId });
+
+    res.status(202).json({ message: 'Audio generation queued', jobId });
+  } catch (error) {
+    console.error('Error queueing chapter audio:', error);
+    res.status(500).json({ message: 'Failed to queue audio generation' });
+  }
+});
+
+// POST /admin/chapters/:id/narration - Upload a recorded narration (MP3, M4A or WAV) for a chapter
+// The recording replaces any TTS audio and its word timings are aligned in the background
+router.post('/chapters/:id/narration', validateChapterId, uploadNarrationAudio, validateUploadedNarrationContent, async (req: AdminRequest, res: express.Response) => {
+  const uploadedFilePath = req.file?.path;
+
+  try {
+    const chapterId = req.validatedChapterId || req.params.id;
+
+    if (!req.file) {
+      return res.status(400).json({
+        message: 'No file uploaded. Please select an .mp3, .m4a or .wav file.',
+        error: 'NO_FILE'
+      });
+    }
+
+    // Narration still queued or running from TTS would replace the recording once it is accepted
+    let cancelledAudioJobs: number[] = [];
+    const narration = await narrationUploadService.importNarration(chapterId, req.file.path, req.adminId!, async () => {
+      cancelledAudioJobs = await ttsJobService.cancelChapter(chapterId);
+    });
+
+    let alignmentJobId: number | null = null;
+    try {
+      alignmentJobId = await alignmentJobService.enqueueChapter(chapterId, 'narration_uploaded');
+    } catch (alignmentError) {
+      console.error('Failed to queue narration alignment:', alignmentError);
+    }
+
+    await logAdminAction(req.adminId!, 'upload_narration', 'chapter', chapterId, {
+      originalFileName: req.file.originalname,
+      fileSize: req.file.size,
+      audioUrl: narration.audioUrl,
+      duration: narration.duration,
+      cancelledAudioJobs,
+      alignmentJobId,
+    });
+
+    res.status(201).json({
+      message: alignmentJobId ? 'Narration uploaded; word timings are being aligned' : 'Narration uploaded, but alignment could not be queued',
+      ...narration,
+      alignmentJobId,
+    });
+  } catch (error) {
+    console.error('Error uploading narration:', error);
+    if (error instanceof NarrationUploadError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    res.status(500).json({ message: 'Failed to upload narration' });
+  } finally {
+    if (uploadedFilePath) {
+      cleanupUploadedFile(uploadedFilePath);
+    }
+  }
+}, handleNarrationUploadErrors);
+
+// POST /admin/chapters/:id/align - Compute word timings for a chapter's narration with the local aligner
+router.post('/chapters/:id/align', async (req: AdminRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const chapter = await db.select({ id: chapters.id, audioUrl: chapters.audioUrl }).from(chapters).where(eq(chapters.id, id)).limit(1);
+    if (chapter.length === 0) {
+      return res.status(404).json({ message: 'Chapter not found' });
+    }
+    if (!chapter[0].audioUrl) {
+      return res.status(400).json({ message: 'Chapter has no narration to align', error: 'NO_NARRATION' });
+    }
+
+    const jobId = await alignmentJobService.enqueueChapter(id, 'align_chapter');
+
+    await logAdminAction(req.adminId!, 'align_chapter_audio', 'chapter', id, { jobId });
+
+    res.status(202).json({ message: 'Word timing alignment queued', jobId });
+  } catch (error) {
+    console.error('Error queueing chapter alignment:', error);
+    res.status(500).json({ message: 'Failed to queue alignment' });
+  }
+});
+
+// POST /admin/audio-jobs/:id/retry - Retry a failed narration job from where it stopped
+router.post('/audio-jobs/:id/retry', async (req: AdminRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: 'Invalid job ID' });
+    }
+
+    const job = await ttsJobService.retryJob(jobId);
+
+    await logAdminAction(req.adminId!, 'retry_audio_job', 'processing_job', String(jobId), { chapterId: job.chapterId });
+
+    res.json({ message: 'Audio job queued for retry', jobId });
+  } catch (error: any) {
+    console.error('Error retrying audio job:', error);
+    if (error.message?.includes('not found')) {
+      return res.status(404).json({ message: 'Audio job not found' });
+    }
+    if (error.message?.includes('Only failed jobs')) {
+      return res.status(400).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'Failed to retry audio job' });
+  }
+});
+
+// POST /admin/audio-jobs/:id/cancel - Cancel a queued or running narration job
+router.post('/audio-jobs/:id/cancel', async (req: AdminRequest, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: 'Invalid job ID' });
+    }
+
+    const outcome = await jobWorker.cancel(jobId);
+    if (!outcome) {
+      return res.status(400).json({ message: 'Only queued or running jobs can be cancelled' });
+    }
+
+    await logAdminAction(req.adminId!, 'cancel_audio_job', 'processing_job', String(jobId), { outcome });
+
+    res.json({
+      message: outcome === 'cancelling' ? 'Cancelling after the current part' : 'Audio job cancelled',
+      jobId,
+      status: outcome,
+    });
+  } catch (error) {
+    console.error('Error cancelling audio job:', error);
+    res.status(500).json({ message: 'Failed to cancel audio job' });
+  }
+});
+
+// Word Timing Editor Routes
+
+// GET /admin/chapters/:id/timings - A chapter's word timings with their version history
+router.get('/chapters/:id/timings', async (req: AdminRequest, res) => {
+  try {
+    const timings = await timingEditorService.getTimings(req.params.id);
+    res.json(timings);
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    console.error('Error fetching chapter timings:', error);
+    res.status(500).json({ message: 'Failed to fetch word timings' });
+  }
+});
+
+// PUT /admin/chapters/:id/timings - Save corrected times for every word as a new version
+router.put('/chapters/:id/timings', async (req: AdminRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { words, baseline, note } = req.body;
+
+    if (!Array.isArray(words) || words.some((word: any) => !Number.isFinite(word?.start) || !Number.isFinite(word?.end))) {
+      return res.status(400).json({ message: 'words must be a list of { start, end } in seconds', error: 'INVALID_TIMINGS' });
+    }
+    if (typeof baseline !== 'string') {
+      return res.status(400).json({ message: 'baseline is required', error: 'INVALID_TIMINGS' });
+    }
+
+    const saved = await timingEditorService.saveTimings(
+      id,
+      words.map((word: any) => ({ start: word.start, end: word.end })),
+      baseline,
+      req.adminId!,
+      typeof note === 'string' && note.trim() ? note.trim().slice(0, 500) : null
+    );
+
+    await logAdminAction(req.adminId!, 'edit_chapter_timings', 'chapter', id, { version: saved.version, note });
+
+    res.json({ message: `Word timings saved as version ${saved.version}`, ...saved });
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    console.error('Error saving chapter timings:', error);
+    res.status(500).json({ message: 'Failed to save word timings' });
+  }
+});
+
+// POST /admin/chapters/:id/timings/realign - Propose new times for a run of words by aligning its stretch of audio again
+// Runs the local aligner while the request waits, so the stretch is limited to one recogniser window
+router.post('/chapters/:id/timings/realign', async (req: AdminRequest, res) => {
+  try {
+    const { fromWord, toWord, start, end } = req.body;
+
+    if ((start !== undefined && !Number.isFinite(start)) || (end !== undefined && !Number.isFinite(end))) {
+      return res.status(400).json({ message: 'start and end must be times in seconds', error: 'INVALID_SPAN' });
+    }
+
+    const alignment = await timingEditorService.realignSpan(req.params.id, fromWord, toWord, { start, end });
+    res.json(alignment);
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    console.error('Error aligning word span:', error);
+    res.status(500).json({ message: error instanceof Error ? `Alignment failed: ${error.message}` : 'Alignment failed' });
+  }
+});
+
+// POST /admin/chapters/:id/timings/versions/:versionId/restore - Make an earlier version the current timings again
+router.post('/chapters/:id/timings/versions/:versionId/restore', async (req: AdminRequest, res) => {
+  try {
+    const { id } = req.params;
+    const versionId = parseInt(req.params.versionId);
+    const { baseline } = req.body;
+
+    if (isNaN(versionId)) {
+      return res.status(400).json({ message: 'Invalid version ID' });
+    }
+    if (typeof baseline !== 'string') {
+      return res.status(400).json({ message: 'baseline is required', error: 'INVALID_TIMINGS' });
+    }
+
+    const restored = await timingEditorService.restoreVersion(id, versionId, baseline, req.adminId!);
+
+    await logAdminAction(req.adminId!, 'restore_chapter_timings', 'chapter', id, { versionId, version: restored.version });
+
+    res.json({ message: `Timings restored as version ${restored.version}`, ...restored });
+  } catch (error) {
+    if (error instanceof TimingEditError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    console.error('Error restoring chapter timings:', error);
+    res.status(500).json({ message: 'Failed to restore word timings' });
+  }
+});
+
+// Voice (TTS) Config Routes
+
+// GET /admin/books/:bookId/tts-configs - Book and chapter voice configs
+router.get('/books/:bookId/tts-configs', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+
+    const book = await db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).limit(1);
+    if (book.length === 0) {
+      return res.status(404).json({ message: 'Book not found' });
+    }
+
+    const configs = await ttsConfigService.listForBook(bookId);
+    const effective = await ttsConfigService.resolveEffectiveConfig(bookId);
+
+    res.json({ bookId, configs, bookDefault: effective, providers: TTS_PROVIDERS, defaultVoices: DEFAULT_VOICES });
+  } catch (error) {
+    console.error('Error fetching TTS configs:', error);
+    res.status(500).json({ message: 'Failed to fetch voice settings' });
+  }
+});
+
+// POST /admin/books/:bookId/tts-configs - Set the book's voice, or a chapter's when chapterId is given
+router.post('/books/:bookId/tts-configs', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+    const chapterId: string | null = req.body.chapterId || null;
+
+    const parsed = ttsConfigService.parseInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const book = await db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).limit(1);
+    if (book.length === 0) {
+      return res.status(404).json({ message: 'Book not found' });
+    }
+
+    if (chapterId) {
+      const chapter = await db.select({ bookId: chapters.bookId }).from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+      if (chapter.length === 0 || chapter[0].bookId !== bookId) {
+        return res.status(404).json({ message: 'Chapter not found in this book' });
+      }
+    }
+
+    const config = await ttsConfigService.upsert(bookId, chapterId, parsed.input);
+
+    await logAdminAction(req.adminId!, 'set_tts_config', 'tts_config', String(config.id), {
+      bookId, chapterId, ...parsed.input
+    });
+
+    res.json({ message: 'Voice settings saved', config });
+  } catch (error) {
+    console.error('Error saving TTS config:', error);
+    res.status(500).json({ message: 'Failed to save voice settings' });
+  }
+});
+
+// PUT /admin/tts-configs/:id - Update a voice config
+router.put('/tts-configs/:id', async (req: AdminRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid config ID' });
+    }
+
+    const parsed = ttsConfigService.parseInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const config = await ttsConfigService.update(id, parsed.input);
+    if (!config) {
+      return res.status(404).json({ message: 'Voice config not found' });
+    }
+
+    await logAdminAction(req.adminId!, 'update_tts_config', 'tts_config', String(id), parsed.input);
+
+    res.json({ message: 'Voice settings updated', config });
+  } catch (error) {
+    console.error('Error updating TTS config:', error);
+    res.status(500).json({ message: 'Failed to update voice settings' });
+  }
+});
+
+// DELETE /admin/tts-configs/:id - Remove a config so the chapter/book falls back to the next level
+router.delete('/tts-configs/:id', async (req: AdminRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid config ID' });
+    }
+
+    const config = await ttsConfigService.delete(id);
+    if (!config) {
+      return res.status(404).json({ message: 'Voice config not found' });
+    }
+
+    await logAdminAction(req.adminId!, 'delete_tts_config', 'tts_config', String(id), {
+      bookId: config.bookId, chapterId: config.chapterId
+    });
+
+    res.json({ message: 'Voice settings removed' });
+  } catch (error) {
+    console.error('Error deleting TTS config:', error);
+    res.status(500).json({ message: 'Failed to remove voice settings' });
+  }
+});
+
+// GET /admin/chapters/:id/tts-config - The voice a chapter will be narrated with, and the one it was
+router.get('/chapters/:id/tts-config', async (req: AdminRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const chapter = await db
+      .select({ bookId: chapters.bookId, audioTtsConfig: chapters.audioTtsConfig })
+      .from(chapters)
+      .where(eq(chapters.id, id))
+      .limit(1);
+
+    if (chapter.length === 0) {
+      return res.status(404).json({ message: 'Chapter not found' });
+    }
+
+    const effective = await ttsConfigService.resolveEffectiveConfig(chapter[0].bookId, id);
+
+    res.json({ chapterId: id, effective, generatedWith: chapter[0].audioTtsConfig });
+  } catch (error) {
+    console.error('Error resolving TTS config:', error);
+    res.status(500).json({ message: 'Failed to resolve voice settings' });
+  }
+});
+
+// GET /admin/books/:bookId/cast - Character voices, plus the speakers found in the book's chapters
+router.get('/books/:bookId/cast', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+
+    const book = await db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).limit(1);
+    if (book.length === 0) {
+      return res.status(404).json({ message: 'Book not found' });
+    }
+
+    const cast = await ttsConfigService.listCast(bookId);
+    const bookChapters = await db
+      .select({ id: chapters.id, jsonUrl: chapters.jsonUrl })
+      .from(chapters)
+      .where(eq(chapters.bookId, bookId));
+
+    // Count dialogue segments per speaker so admins can see who needs a voice
+    const speakers = new Map<string, { speaker: string; segments: number; chapterIds: string[] }>();
+    for (const chapter of bookChapters) {
+      for (const segment of chapterNarrationService.segmentsFromJsonUrl(chapter.jsonUrl) ?? []) {
+        if (segment.speaker === NARRATOR) continue;
+        const key = speakerSegmentService.normalizeSpeaker(segment.speaker);
+        const entry = speakers.get(key) ?? { speaker: segment.speaker, segments: 0, chapterIds: [] };
+        entry.segments++;
+        if (!entry.chapterIds.includes(chapter.id)) entry.chapterIds.push(chapter.id);
+        speakers.set(key, entry);
+      }
+    }
+
+    res.json({ bookId, cast, speakers: [...speakers.values()], providers: TTS_PROVIDERS, defaultVoices: DEFAULT_VOICES });
+  } catch (error) {
+    console.error('Error fetching book cast:', error);
+    res.status(500).json({ message: 'Failed to fetch cast' });
+  }
+});
+
+// POST /admin/books/:bookId/cast - Give a character a voice (replaces their current voice)
+router.post('/books/:bookId/cast', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+    const speaker = typeof req.body.speaker === 'string' ? req.body.speaker.trim() : '';
+
+    if (!speaker || speakerSegmentService.normalizeSpeaker(speaker) === NARRATOR) {
+      return res.status(400).json({ message: 'A character name is required (use Voice Settings for the narrator)' });
+    }
+
+    const parsed = ttsConfigService.parseInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const book = await db.select({ id: books.id }).from(books).where(eq(books.id, bookId)).limit(1);
+    if (book.length === 0) {
+      return res.status(404).json({ message: 'Book not found' });
+    }
+
+    const member = await ttsConfigService.upsertCastMember(bookId, speaker, parsed.input);
+
+    await logAdminAction(req.adminId!, 'set_cast_voice', 'book_cast', String(member.id), {
+      bookId, speaker, ...parsed.input
+    });
+
+    res.json({ message: 'Cast voice saved', member });
+  } catch (error) {
+    console.error('Error saving cast voice:', error);
+    res.status(500).json({ message: 'Failed to save cast voice' });
+  }
+});
+
+// DELETE /admin/cast/:id - Remove a character's voice so they are read by the narrator
+router.delete('/cast/:id', async (req: AdminRequest, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: 'Invalid cast member ID' });
+    }
+
+    const member = await ttsConfigService.deleteCastMember(id);
+    if (!member) {
+      return res.status(404).json({ message: 'Cast member not found' });
+    }
+
+    await logAdminAction(req.adminId!, 'delete_cast_voice', 'book_cast', String(id), {
+      bookId: member.bookId, speaker: member.displayName
+    });
+
+    res.json({ message: 'Cast voice removed' });
+  } catch (error) {
+    console.error('Error deleting cast voice:', error);
+    res.status(500).json({ message: 'Failed to remove cast voice' });
+  }
+});
+
 // Access Code Management Routes
 
 // POST /admin/books/:bookId/access-codes - Generate access codes
@@ -1078,6 +1628,31 @@ router.get('/analytics/overview', async (req: AdminRequest, res) => {
   }
 });
 
+// GET /admin/analytics/timing-quality - Word timing quality of all chapters, with the problem chapters worst first
+router.get('/analytics/timing-quality', async (req: AdminRequest, res) => {
+  try {
+    const overview = await timingQualityService.getOverview();
+    res.json(overview);
+  } catch (error) {
+    console.error('Error fetching timing quality:', error);
+    res.status(500).json({ message: 'Failed to fetch timing quality' });
+  }
+});
+
+// POST /admin/analytics/timing-quality/check - Check the timings of chapters that have no quality report yet
+router.post('/analytics/timing-quality/check', async (req: AdminRequest, res) => {
+  try {
+    const checked = await timingQualityService.checkUnchecked();
+
+    await logAdminAction(req.adminId!, 'check_timing_quality', 'chapter', undefined, { checked });
+
+    res.json({ message: `Checked the timings of ${checked} chapter${checked === 1 ? '' : 's'}`, checked });
+  } catch (error) {
+    console.error('Error checking timing quality:', error);
+    res.status(500).json({ message: 'Failed to check timing quality' });
+  }
+});
+
 // Chapter Batch Creation from Parsing Results
 
 // POST /admin/books/:bookId/chapters/create - Create chapters from parsing results
@@ -1148,6 +1723,71 @@ router.post('/books/:bookId/chapters/create', async (req: AdminRequest, res) =>
   }
 });
 
+// Manuscript Re-import
+
+// GET /admin/books/:bookId/reimport - The revised manuscript waiting for review, compared chapter by chapter
+router.get('/books/:bookId/reimport', async (req: AdminRequest, res) => {
+  try {
+    const pending = await manuscriptReimportService.getPendingPlan(req.params.bookId);
+    res.json({ reimport: pending });
+  } catch (error) {
+    console.error('Error fetching re-import:', error);
+    res.status(500).json({ message: 'Failed to fetch re-import' });
+  }
+});
+
+// POST /admin/books/:bookId/reimport/:jobId/apply - Apply the chosen chapter changes of a re-import
+// An empty selection keeps every chapter as it is and closes the re-import
+router.post('/books/:bookId/reimport/:jobId/apply', async (req: AdminRequest, res) => {
+  try {
+    const { bookId } = req.params;
+    const jobId = parseInt(req.params.jobId);
+    const { changes } = req.body;
+
+    if (isNaN(jobId)) {
+      return res.status(400).json({ message: 'Invalid job ID' });
+    }
+    if (!Array.isArray(changes) || changes.some((change: any) => typeof change?.key !== 'string')) {
+      return res.status(400).json({ message: 'changes must be a list of { key, replaceActivities }', error: 'INVALID_REIMPORT_SELECTION' });
+    }
+
+    const outcome = await manuscriptReimportService.apply(bookId, jobId, changes.map((change: any) => ({
+      key: change.key,
+      replaceActivities: change.replaceActivities === true,
+    })));
+
+    await logAdminAction(req.adminId!, 'apply_reimport', 'book', bookId, {
+      jobId,
+      changes: changes.map((change: any) => change.key),
+      updated: outcome.updated,
+      added: outcome.added,
+      removed: outcome.removed,
+    });
+
+    // Only chapters with new text are narrated again
+    const audioJobs: { chapterId: string; jobId: number }[] = [];
+    for (const chapterId of outcome.chapterIdsToNarrate) {
+      try {
+        audioJobs.push({ chapterId, jobId: await ttsJobService.enqueueChapter(chapterId, 'manuscript_reimport') });
+      } catch (audioError) {
+        console.error(`Failed to queue narration for re-imported chapter ${chapterId}:`, audioError);
+      }
+    }
+
+    res.json({
+      message: `Re-import applied: ${outcome.updated} updated, ${outcome.added} added, ${outcome.removed} removed`,
+      ...outcome,
+      audioJobs,
+    });
+  } catch (error) {
+    if (error instanceof ReimportError) {
+      return res.status(error.status).json({ message: error.message, error: error.code });
+    }
+    console.error('Error applying re-import:', error);
+    res.status(500).json({ message: 'Failed to apply re-import' });
+  }
+});
+
 // POST /admin/chapters/:chapterId/activities - Save all activities for a chapter
 router.post('/chapters/:chapterId/activities', async (req: AdminRequest, res) => {
   try {
@@ -0,0 +1,165 @@
+import express from 'express';
+import { db } from '../db/index.js';
+import { processingJobs } from '../db/schema.js';
+import { requireAdmin } from '../middleware/admin.js';
+import { desc, eq } from 'drizzle-orm';
+import { jobEventService, JobEvent } from '../services/jobEvents.js';
+
+const router = express.Router();
+
+// Apply admin middleware to all job routes
+router.use(requireAdmin);
+
+interface AdminRequest extends express.Request {
+  adminId?: number;
+  userRole?: string;
+}
+
+const KEEP_ALIVE_INTERVAL_MS = 25 * 1000; // Below the idle timeout of common proxies
+const BOOK_SNAPSHOT_LIMIT = 50;
+
+function isFinished(event: JobEvent): boolean {
+  return event.status === 'completed' || event.status === 'failed';
+}
+
+/**
+ * Stream job events to the client as Server-Sent Events
+ * Sends a `snapshot` with the current state, then `progress` for every update and
+ * `done` (with the job result) when a job finishes. Subscribes before reading the
+ * snapshot so no update falls between the two
+ */
+async function streamJobEvents(
+  req: AdminRequest,
+  res: express.Response,
+  filter: (event: JobEvent) => boolean,
+  loadSnapshot: () => Promise<JobEvent[]>,
+  endWhenDone: boolean
+): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+  });
+
+  let closed = false;
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  const sendDone = async (event: JobEvent) => {
+    const job = await db.select({ result: processingJobs.result }).from(processingJobs).where(eq(processingJobs.id, event.jobId)).limit(1);
+    send('done', { ...event, result: job[0]?.result ?? null });
+    if (endWhenDone) close();
+  };
+
+  let unsubscribe: (() => void) | null = null;
+  const keepAlive = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, KEEP_ALIVE_INTERVAL_MS);
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe?.();
+    res.end();
+  }
+
+  req.on('close', close);
+
+  try {
+    unsubscribe = await jobEventService.subscribe(filter, event => {
+      send('progress', event);
+      if (isFinished(event)) {
+        sendDone(event).catch(error => console.error(`Failed to send result of job ${event.jobId}:`, error));
+      }
+    });
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    const snapshot = await loadSnapshot();
+    send('snapshot', snapshot);
+
+    // A single job that had already finished has nothing more to report
+    if (endWhenDone && snapshot.length > 0 && isFinished(snapshot[0])) {
+      await sendDone(snapshot[0]);
+    }
+  } catch (error) {
+    // Ending the stream makes EventSource clients reconnect
+    console.error('Error streaming job events:', error);
+    close();
+  }
+}
+
+/**
+ * GET /jobs/:jobId/events - Stream progress, stage messages and the result of one job
+ * The stream ends after `done`; EventSource clients should close on it instead of reconnecting
+ */
+router.get('/:jobId/events', async (req: AdminRequest, res) => {
+  const jobId = parseInt(req.params.jobId);
+
+  if (isNaN(jobId)) {
+    return res.status(400).json({
+      message: 'Invalid job ID',
+      error: 'INVALID_JOB_ID'
+    });
+  }
+
+  try {
+    const job = await db.select().from(processingJobs).where(eq(processingJobs.id, jobId)).limit(1);
+
+    if (job.length === 0) {
+      return res.status(404).json({
+        message: 'Job not found',
+        error: 'JOB_NOT_FOUND'
+      });
+    }
+  } catch (error) {
+    console.error('Error getting job:', error);
+    return res.status(500).json({
+      message: 'Failed to get job',
+      error: 'JOB_ERROR'
+    });
+  }
+
+  await streamJobEvents(
+    req,
+    res,
+    event => event.jobId === jobId,
+    async () => {
+      const job = await db.select().from(processingJobs).where(eq(processingJobs.id, jobId)).limit(1);
+      return job.map(row => jobEventService.toEvent(row));
+    },
+    true
+  );
+});
+
+/**
+ * GET /jobs/books/:bookId/events - Stream events of every job of a book (parsing and audio generation)
+ */
+router.get('/books/:bookId/events', async (req: AdminRequest, res) => {
+  const { bookId } = req.params;
+
+  await streamJobEvents(
+    req,
+    res,
+    event => event.bookId === bookId,
+    async () => {
+      const jobs = await db
+        .select()
+        .from(processingJobs)
+        .where(eq(processingJobs.bookId, bookId))
+        .orderBy(desc(processingJobs.createdAt))
+        .limit(BOOK_SNAPSHOT_LIMIT);
+      return jobs.map(job => jobEventService.toEvent(job));
+    },
+    false
+  );
+});
+
+export default router;
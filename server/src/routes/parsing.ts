@@ -4,6 +4,8 @@ import { bookSources, processingJobs } from '../db/schema.js';
 import { requireAdmin } from '../middleware/admin.js';
 import { eq } from 'drizzle-orm';
 import JobProcessor from '../services/jobProcessor.js';
+import { jobWorker } from '../services/jobWorker.js';
+import { parsingProfileService, DEFAULT_PARSING_PROFILE } from '../services/parsingProfiles.js';
 import path from 'path';
 
 const router = express.Router();
@@ -61,18 +63,9 @@ router.post('/start/:bookSourceId', async (req: AdminRequest, res) => {
       });
     }
 
-    // Create and start parsing job
+    // Create the parsing job; the job worker picks it up in the background
     const jobId = await jobProcessor.createParsingJob(bookSourceId);
 
-    // Start processing in background
-    setImmediate(async () => {
-      try {
-        await jobProcessor.executeParsingJob(jobId);
-      } catch (error) {
-        console.error(`Background parsing job ${jobId} failed:`, error);
-      }
-    });
-
     res.status(201).json({
       message: 'Document parsing started',
       jobId,
@@ -190,11 +183,12 @@ router.post('/cancel/:jobId', async (req: AdminRequest, res) => {
       });
     }
 
-    await jobProcessor.cancelJob(jobId);
+    const outcome = await jobProcessor.cancelJob(jobId);
 
     res.json({
-      message: 'Job cancelled successfully',
-      jobId
+      message: outcome === 'cancelling' ? 'Cancellation requested; the job stops after its current stage' : 'Job cancelled successfully',
+      jobId,
+      status: outcome
     });
 
   } catch (error) {
@@ -211,14 +205,8 @@ router.post('/cancel/:jobId', async (req: AdminRequest, res) => {
  */
 router.post('/process-queue', async (req: AdminRequest, res) => {
   try {
-    // Process job queue in background
-    setImmediate(async () => {
-      try {
-        await jobProcessor.processJobQueue();
-      } catch (error) {
-        console.error('Error processing job queue:', error);
-      }
-    });
+    // Jobs are picked up by the job worker; this only makes it look for work right away
+    jobWorker.wake();
 
     res.json({
       message: 'Job queue processing started'
@@ -233,6 +221,66 @@ router.post('/process-queue', async (req: AdminRequest, res) => {
   }
 });
 
+/**
+ * GET /parsing/profiles - Chapter detection presets to choose from when uploading
+ */
+router.get('/profiles', (req: AdminRequest, res) => {
+  res.json({
+    presets: parsingProfileService.getPresets(),
+    defaultPresetId: DEFAULT_PARSING_PROFILE.presetId
+  });
+});
+
+/**
+ * PUT /parsing/profile/:bookSourceId - Change the chapter detection rules of an upload
+ * Takes effect on the next preview or parsing job; chapters already created are left alone
+ */
+router.put('/profile/:bookSourceId', async (req: AdminRequest, res) => {
+  try {
+    const bookSourceId = parseInt(req.params.bookSourceId);
+    
+    if (isNaN(bookSourceId)) {
+      return res.status(400).json({ 
+        message: 'Invalid book source ID',
+        error: 'INVALID_BOOK_SOURCE_ID'
+      });
+    }
+
+    const parsed = parsingProfileService.parseInput(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        message: parsed.error,
+        error: 'INVALID_PARSING_PROFILE'
+      });
+    }
+
+    const updated = await db
+      .update(bookSources)
+      .set({ parsingProfile: parsed.profile, updatedAt: new Date() })
+      .where(eq(bookSources.id, bookSourceId))
+      .returning();
+
+    if (updated.length === 0) {
+      return res.status(404).json({ 
+        message: 'Book source not found',
+        error: 'BOOK_SOURCE_NOT_FOUND'
+      });
+    }
+
+    res.json({
+      bookSourceId,
+      parsingProfile: updated[0].parsingProfile
+    });
+
+  } catch (error) {
+    console.error('Error updating parsing profile:', error);
+    res.status(500).json({ 
+      message: 'Failed to update parsing profile',
+      error: 'PROFILE_UPDATE_ERROR'
+    });
+  }
+});
+
 /**
  * GET /parsing/preview/:bookSourceId - Get parsing preview without creating chapters
  */
@@ -265,19 +313,21 @@ router.get('/preview/:bookSourceId', async (req: AdminRequest, res) => {
     const parser = new (await import('../services/documentParser.js')).default();
     const filePath = path.resolve(process.cwd(), bookSource[0].fileUrl);
     
-    const parsedDocument = await parser.parseDocument(filePath);
+    const parsedDocument = await parser.parseDocument(filePath, bookSource[0].parsingProfile);
     const validation = parser.validateParsedDocument(parsedDocument);
 
     res.json({
       bookSourceId,
       preview: {
+        parsingProfile: parsingProfileService.compile(bookSource[0].parsingProfile).profile,
         chapters: parsedDocument.chapters.map(chapter => ({
           id: chapter.id,
           title: chapter.title,
           indexInBook: chapter.indexInBook,
           wordCount: chapter.wordCount,
           sentenceCount: chapter.sentences.length,
-          contentPreview: chapter.sentences.slice(0, 2).map(s => s.text).join(' ')
+          contentPreview: chapter.sentences.slice(0, 2).map(s => s.text).join(' '),
+          detectedBy: chapter.detectedBy ?? null
         })),
         metadata: parsedDocument.metadata,
         validation
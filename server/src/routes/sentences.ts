@@ -0,0 +1,282 @@
+import { Router } from 'express';
+import { eq, and, lte, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { savedSentences, entitlements, books, chapters } from '../db/schema';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { spacedRepetitionScheduler, CardSchedule, ReviewGrade } from '../services/spacedRepetition';
+import { normalizeSpanishWord } from '../services/spanishLemma';
+import { dictionaryService } from '../services/dictionaryProvider';
+import { wordClipService } from '../services/wordClipService';
+
+const router = Router();
+
+type SavedSentence = typeof savedSentences.$inferSelect;
+
+// Read the scheduling state stored on a sentence card
+const toCardSchedule = (card: SavedSentence): CardSchedule => ({
+  easeFactor: card.easeFactor,
+  intervalDays: card.intervalDays,
+  repetitions: card.repetitions,
+  lapses: card.lapses,
+  dueAt: card.nextReviewAt,
+});
+
+// Attach the projected Again/Hard/Good/Easy intervals for the review buttons
+const withNextIntervals = (card: SavedSentence, now: Date = new Date()) => ({
+  ...card,
+  nextIntervals: spacedRepetitionScheduler.previewIntervals(toCardSchedule(card), now),
+});
+
+// Locate the target word in the sentence when the client didn't send offsets
+const findTargetOffsets = (sentence: string, targetWord: string): { start: number; end: number } | null => {
+  const target = normalizeSpanishWord(targetWord);
+  const tokenPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(sentence)) !== null) {
+    if (normalizeSpanishWord(match[0]) === target) {
+      // Trim surrounding punctuation so only the word itself is blanked
+      const leading = match[0].match(/^[^a-záéíóúñü]*/i)![0].length;
+      const trailing = match[0].match(/[^a-záéíóúñü]*$/i)![0].length;
+      return { start: match.index + leading, end: match.index + match[0].length - trailing };
+    }
+  }
+
+  return null;
+};
+
+// POST /sentences/save - save the sentence a word was met in as a cloze card
+router.post('/save', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { bookId, chapterId, sentence, targetWord, targetStart, targetEnd, translation, audioStartTime, audioEndTime } = req.body;
+    const userId = req.userId!;
+
+    if (!bookId || typeof sentence !== 'string' || !sentence.trim() || typeof targetWord !== 'string' || !normalizeSpanishWord(targetWord)) {
+      return res.status(400).json({ error: 'bookId, sentence and targetWord are required' });
+    }
+
+    if (sentence.length > 1000) {
+      return res.status(400).json({ error: 'Sentence is too long' });
+    }
+
+    // Check if user has access to this book
+    const userEntitlement = await db.select().from(entitlements).where(
+      and(eq(entitlements.userId, userId), eq(entitlements.bookId, bookId))
+    ).limit(1);
+
+    if (userEntitlement.length === 0) {
+      return res.status(403).json({ error: 'Access denied. You do not have access to this book.' });
+    }
+
+    // Trust client offsets only when they actually point at the target word
+    let offsets: { start: number; end: number } | null = null;
+    if (Number.isInteger(targetStart) && Number.isInteger(targetEnd) && targetStart >= 0 && targetEnd <= sentence.length && targetStart < targetEnd
+      && normalizeSpanishWord(sentence.slice(targetStart, targetEnd)) === normalizeSpanishWord(targetWord)) {
+      offsets = { start: targetStart, end: targetEnd };
+    } else {
+      offsets = findTargetOffsets(sentence, targetWord);
+    }
+
+    if (!offsets) {
+      return res.status(400).json({ error: 'targetWord does not appear in the sentence' });
+    }
+
+    const chapter = chapterId
+      ? (await db.select().from(chapters).where(and(eq(chapters.id, chapterId), eq(chapters.bookId, bookId))).limit(1))[0]
+      : undefined;
+
+    if (chapterId && !chapter) {
+      return res.status(404).json({ error: 'Chapter not found' });
+    }
+
+    // Prefer the narration timing for the sentence; fall back to what the reader knew
+    let audioRange = chapter ? wordClipService.findWordTiming(chapter.elevenLabsTimingData, sentence) : null;
+    if (!audioRange && typeof audioStartTime === 'number' && typeof audioEndTime === 'number' && audioEndTime > audioStartTime) {
+      audioRange = { start: audioStartTime, end: audioEndTime };
+    }
+
+    let sentenceTranslation: string | null = typeof translation === 'string' && translation.trim() ? translation.trim() : null;
+    if (!sentenceTranslation) {
+      const book = await db.select({ title: books.title }).from(books).where(eq(books.id, bookId)).limit(1);
+      const storyContext = [book[0]?.title, chapter?.title].filter(Boolean).join(' - ') || undefined;
+      sentenceTranslation = await dictionaryService.translateSentence(sentence, storyContext);
+    }
+
+    const inserted = await db.insert(savedSentences).values({
+      userId,
+      bookId,
+      chapterId: chapter?.id ?? null,
+      sentence,
+      translation: sentenceTranslation,
+      targetWord: sentence.slice(offsets.start, offsets.end),
+      targetStart: offsets.start,
+      targetEnd: offsets.end,
+      audioStartTime: audioRange?.start ?? null,
+      audioEndTime: audioRange?.end ?? null,
+      nextReviewAt: new Date(), // Available for immediate review
+    }).onConflictDoNothing().returning();
+
+    if (inserted.length === 0) {
+      const existing = await db.select().from(savedSentences).where(
+        and(
+          eq(savedSentences.userId, userId),
+          eq(savedSentences.bookId, bookId),
+          eq(savedSentences.sentence, sentence),
+          eq(savedSentences.targetStart, offsets.start)
+        )
+      ).limit(1);
+
+      return res.status(200).json({
+        message: 'Sentence already saved',
+        sentence: existing[0],
+      });
+    }
+
+    res.status(201).json({
+      message: 'Sentence saved successfully',
+      sentence: inserted[0],
+    });
+  } catch (error) {
+    console.error('Save sentence error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /sentences - all of the user's sentence cards
+router.get('/', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const now = new Date();
+
+    const sentences = await db
+      .select()
+      .from(savedSentences)
+      .where(eq(savedSentences.userId, userId))
+      .orderBy(desc(savedSentences.createdAt));
+
+    res.json({
+      sentences: sentences.map(card => withNextIntervals(card, now)),
+      totalCount: sentences.length,
+    });
+  } catch (error) {
+    console.error('Get saved sentences error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /sentences/review - sentence cards due for review
+router.get('/review', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const now = new Date();
+
+    const sentences = await db
+      .select()
+      .from(savedSentences)
+      .where(and(eq(savedSentences.userId, userId), lte(savedSentences.nextReviewAt, now)))
+      .orderBy(savedSentences.nextReviewAt)
+      .limit(20); // Limit to 20 sentences per review session
+
+    res.json({
+      sentences: sentences.map(card => withNextIntervals(card, now)),
+      totalCount: sentences.length,
+    });
+  } catch (error) {
+    console.error('Get review sentences error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /sentences/:id/review - grade a cloze card and reschedule it (SM-2)
+router.post('/:id/review', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const sentenceId = parseInt(req.params.id);
+    const { grade } = req.body;
+    const userId = req.userId!;
+
+    if (isNaN(sentenceId)) {
+      return res.status(400).json({ error: 'Invalid sentence ID' });
+    }
+
+    if (![1, 2, 3, 4].includes(grade)) {
+      return res.status(400).json({ error: 'Grade must be between 1 and 4' });
+    }
+
+    const card = await db.select().from(savedSentences).where(
+      and(eq(savedSentences.id, sentenceId), eq(savedSentences.userId, userId))
+    ).limit(1);
+
+    if (card.length === 0) {
+      return res.status(404).json({ error: 'Sentence not found' });
+    }
+
+    const now = new Date();
+    const next = spacedRepetitionScheduler.review(toCardSchedule(card[0]), grade as ReviewGrade, now);
+
+    const updated = await db
+      .update(savedSentences)
+      .set({
+        easeFactor: next.easeFactor,
+        intervalDays: next.intervalDays,
+        repetitions: next.repetitions,
+        lapses: next.lapses,
+        lastReviewedAt: now,
+        nextReviewAt: next.dueAt,
+      })
+      .where(eq(savedSentences.id, sentenceId))
+      .returning();
+
+    res.json({
+      message: 'Sentence review updated successfully',
+      sentence: withNextIntervals(updated[0], now),
+    });
+  } catch (error) {
+    console.error('Update sentence review error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /sentences/:id/audio - the sentence as narrated in its chapter
+router.get('/:id/audio', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const sentenceId = parseInt(req.params.id);
+    const userId = req.userId!;
+
+    if (isNaN(sentenceId)) {
+      return res.status(400).json({ error: 'Invalid sentence ID' });
+    }
+
+    const card = await db.select().from(savedSentences).where(
+      and(eq(savedSentences.id, sentenceId), eq(savedSentences.userId, userId))
+    ).limit(1);
+
+    if (card.length === 0) {
+      return res.status(404).json({ error: 'Sentence not found' });
+    }
+
+    const { chapterId, audioStartTime, audioEndTime } = card[0];
+    if (!chapterId || audioStartTime === null || audioEndTime === null) {
+      return res.status(404).json({ error: 'No narration audio for this sentence' });
+    }
+
+    const chapter = await db
+      .select({ id: chapters.id, audioUrl: chapters.audioUrl, elevenLabsTimingData: chapters.elevenLabsTimingData })
+      .from(chapters)
+      .where(eq(chapters.id, chapterId))
+      .limit(1);
+
+    const clip = chapter[0] ? await wordClipService.getRangeClip(chapter[0], { start: audioStartTime, end: audioEndTime }) : null;
+    if (!clip) {
+      return res.status(404).json({ error: 'No narration audio for this sentence' });
+    }
+
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+    res.sendFile(clip.filePath);
+  } catch (error) {
+    console.error('Get sentence audio error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
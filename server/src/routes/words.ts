@@ -1,20 +1,67 @@
 import { Router } from 'express';
-import { eq, and, lte, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { eq, and, or, gte, desc, inArray, sql } from 'drizzle-orm';
 import { db } from '../db';
-import { savedWords, entitlements, translationCache } from '../db/schema';
+import { savedWords, entitlements, translationCache, translationSentenceSenses, wordReviews, books, chapters, SurfaceForm } from '../db/schema';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { spacedRepetitionScheduler, CardSchedule, ReviewGrade } from '../services/spacedRepetition';
+import { normalizeSense, normalizeSpanishWord, spanishLemmatizer } from '../services/spanishLemma';
+import { vocabularyListParser, VocabularyListFormat } from '../services/vocabularyImport';
+import { dictionaryService } from '../services/dictionaryProvider';
+import { ankiExportService, ExportNote } from '../services/ankiExport';
+import { wordClipService } from '../services/wordClipService';
+import { reviewQueueService } from '../services/reviewQueue';
 
 const router = Router();
 
+type SavedWord = typeof savedWords.$inferSelect;
+
+// Read the scheduling state stored on a saved word
+const toCardSchedule = (word: SavedWord): CardSchedule => ({
+  easeFactor: word.easeFactor,
+  intervalDays: word.intervalDays,
+  repetitions: word.repetitions,
+  lapses: word.lapses,
+  dueAt: word.nextReviewAt,
+});
+
+// Attach the projected Again/Hard/Good/Easy intervals for the review buttons
+const withNextIntervals = (word: SavedWord, now: Date = new Date()) => ({
+  ...word,
+  nextIntervals: spacedRepetitionScheduler.previewIntervals(toCardSchedule(word), now),
+});
+
+// What identifies a card: its lemma in one sense, or the legacy spanish-english dictId
+interface CardKey {
+  lemma: string;
+  sense: string;
+  dictId: string;
+}
+
+// Find the user's card for a lemma in the same sense, also matching legacy rows saved before senses existed by dictId
+const findSavedWordByLemma = async (userId: number, card: CardKey, bookId?: string) => {
+  const sameSense = and(eq(savedWords.lemma, card.lemma), eq(savedWords.sense, card.sense));
+  const conditions = [
+    eq(savedWords.userId, userId),
+    or(sameSense, eq(savedWords.dictId, card.dictId)),
+  ];
+  if (bookId) {
+    conditions.push(eq(savedWords.bookId, bookId));
+  }
+
+  const existing = await db
+    .select()
+    .from(savedWords)
+    .where(and(...conditions))
+    .orderBy(sql`${sameSense} is true desc`)
+    .limit(1);
+  return existing[0];
+};
+
 // POST /words/save - save a word for later review
 router.post('/save', authMiddleware, async (req: AuthRequest, res) => {
   try {
-    const { dictId, spanishWord, englishTranslation, bookId } = req.body;
+    const { dictId, spanishWord, englishTranslation, bookId, sentence, chapterId, sense } = req.body;
     const userId = req.userId!;
 
     // Accept either legacy dictId format or new individual fields
@@ -48,19 +95,40 @@ router.post('/save', authMiddleware, async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'Access denied. You do not have access to this book.' });
     }
 
-    // Check if word is already saved (use Spanish word as primary identifier)
-    const existingWord = await db.select().from(savedWords).where(
-      and(
-        eq(savedWords.userId, userId),
-        eq(savedWords.spanishWord, finalSpanishWord),
-        eq(savedWords.bookId, bookId)
-      )
-    ).limit(1);
+    // Conjugations and plurals of a word collapse into one card per sense, keyed by lemma
+    const surfaceForm = normalizeSpanishWord(finalSpanishWord) || finalSpanishWord;
+    const lemma = await spanishLemmatizer.lemmatize(surfaceForm) || surfaceForm;
+    const cardSense = normalizeSense(typeof sense === 'string' && sense.trim() ? sense : finalEnglishTranslation);
+    const encounter: SurfaceForm = {
+      form: surfaceForm,
+      ...(sentence ? { sentence: String(sentence) } : {}),
+      ...(chapterId ? { chapterId: String(chapterId) } : {}),
+      savedAt: new Date().toISOString(),
+    };
+
+    const existingWord = await findSavedWordByLemma(userId, { lemma, sense: cardSense, dictId: finalDictId }, bookId);
+
+    if (existingWord) {
+      // Record the new form/sentence on the existing card unless we've already seen it
+      const alreadySeen = existingWord.surfaceForms.some(
+        f => f.form === encounter.form && (f.sentence ?? null) === (encounter.sentence ?? null)
+      );
+
+      // Legacy cards matched by dictId take the lemma and sense they were saved with
+      const updatedWord = alreadySeen && existingWord.sense
+        ? [existingWord]
+        : await db
+          .update(savedWords)
+          .set({
+            ...(existingWord.sense ? {} : { lemma, sense: cardSense }),
+            surfaceForms: alreadySeen ? existingWord.surfaceForms : [...existingWord.surfaceForms, encounter],
+          })
+          .where(eq(savedWords.id, existingWord.id))
+          .returning();
 
-    if (existingWord.length > 0) {
       return res.status(200).json({ 
         message: 'Word already saved',
-        word: existingWord[0]
+        word: updatedWord[0]
       });
     }
 
@@ -68,7 +136,10 @@ router.post('/save', authMiddleware, async (req: AuthRequest, res) => {
     const newWord = await db.insert(savedWords).values({
       userId,
       dictId: finalDictId,
-      spanishWord: finalSpanishWord,
+      spanishWord: surfaceForm,
+      lemma,
+      sense: cardSense,
+      surfaceForms: [encounter],
       englishTranslation: finalEnglishTranslation,
       bookId,
       ease: 2, // Default ease level
@@ -85,28 +156,165 @@ router.post('/save', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
-// GET /words/review - get words due for review
+// POST /words/import - bulk import a CSV/TSV or Anki text export into a book's word bank
+// With dryRun the rows are classified (new/duplicate/invalid) without saving anything
+router.post('/import', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { content, format, bookId, dryRun = true } = req.body;
+    const userId = req.userId!;
+
+    if (typeof content !== 'string' || !content.trim() || !bookId) {
+      return res.status(400).json({ error: 'content and bookId are required' });
+    }
+
+    if (format !== undefined && !['csv', 'tsv', 'anki'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be csv, tsv or anki' });
+    }
+
+    if (content.length > 2_000_000) {
+      return res.status(413).json({ error: 'File is too large to import' });
+    }
+
+    // Check if user has access to this book
+    const userEntitlement = await db.select().from(entitlements).where(
+      and(eq(entitlements.userId, userId), eq(entitlements.bookId, bookId))
+    ).limit(1);
+
+    if (userEntitlement.length === 0) {
+      return res.status(403).json({ error: 'Access denied. You do not have access to this book.' });
+    }
+
+    const detectedFormat: VocabularyListFormat = format ?? vocabularyListParser.detectFormat(content);
+    const parsedRows = vocabularyListParser.parse(content, detectedFormat);
+
+    // Existing keys for this book, mirroring the (user, lemma, sense, book) and (user, dictId, book) unique indexes
+    const existingWords = await db
+      .select({
+        lemma: savedWords.lemma,
+        sense: savedWords.sense,
+        spanishWord: savedWords.spanishWord,
+        englishTranslation: savedWords.englishTranslation,
+        dictId: savedWords.dictId,
+      })
+      .from(savedWords)
+      .where(and(eq(savedWords.userId, userId), eq(savedWords.bookId, bookId)));
+
+    // One dictionary query for every word of the file and of the legacy cards
+    const lemmas = await spanishLemmatizer.lemmatizeMany(
+      [...parsedRows.map(row => row.spanishWord), ...existingWords.filter(w => !w.sense).map(w => w.spanishWord)]
+        .flatMap(text => text.split(/\s+/))
+    );
+    const cardKey = (lemma: string, sense: string) => `${lemma}|${sense}`;
+
+    const existingCards = new Set(existingWords.map(w => w.sense && w.lemma
+      ? cardKey(w.lemma, w.sense)
+      : cardKey(spanishLemmatizer.lemmaKey(w.spanishWord, lemmas), normalizeSense(w.englishTranslation))
+    ));
+    const existingDictIds = new Set(existingWords.map(w => w.dictId));
+    const fileCards = new Map<string, number>();
+
+    const rows = parsedRows.map(row => {
+      const lemma = spanishLemmatizer.lemmaKey(row.spanishWord, lemmas);
+      const sense = normalizeSense(row.englishTranslation);
+      const dictId = `${row.spanishWord}-${row.englishTranslation}`;
+      const base = {
+        line: row.line,
+        spanishWord: row.spanishWord,
+        englishTranslation: row.englishTranslation,
+        sentence: row.sentence ?? null,
+        lemma,
+        sense,
+      };
+
+      if (row.error || !lemma) {
+        return { ...base, status: 'invalid' as const, reason: row.error ?? 'Spanish word contains no letters' };
+      }
+      if (existingCards.has(cardKey(lemma, sense)) || existingDictIds.has(dictId)) {
+        return { ...base, status: 'duplicate' as const, reason: 'Already in your word bank for this book' };
+      }
+      if (fileCards.has(cardKey(lemma, sense))) {
+        return { ...base, status: 'duplicate' as const, reason: `Same word as line ${fileCards.get(cardKey(lemma, sense))}` };
+      }
+
+      fileCards.set(cardKey(lemma, sense), row.line);
+      return { ...base, status: 'new' as const };
+    });
+
+    const newRows = rows.filter(row => row.status === 'new');
+    const summary = {
+      total: rows.length,
+      new: newRows.length,
+      duplicate: rows.filter(row => row.status === 'duplicate').length,
+      invalid: rows.filter(row => row.status === 'invalid').length,
+    };
+
+    let imported = 0;
+    if (!dryRun && newRows.length > 0) {
+      const now = new Date();
+      const savedAt = now.toISOString();
+
+      // Batched so very long lists don't exceed Postgres' bind parameter limit
+      for (let i = 0; i < newRows.length; i += 500) {
+        const inserted = await db.insert(savedWords).values(
+          newRows.slice(i, i + 500).map(row => ({
+            userId,
+            dictId: `${row.spanishWord}-${row.englishTranslation}`,
+            spanishWord: row.spanishWord,
+            lemma: row.lemma,
+            sense: row.sense,
+            surfaceForms: [{
+              form: row.spanishWord,
+              ...(row.sentence ? { sentence: row.sentence } : {}),
+              savedAt,
+            }],
+            englishTranslation: row.englishTranslation,
+            bookId,
+            ease: 2, // Default ease level
+            nextReviewAt: now, // Available for immediate review
+          }))
+        ).onConflictDoNothing().returning({ id: savedWords.id });
+
+        imported += inserted.length;
+      }
+    }
+
+    res.status(!dryRun && imported > 0 ? 201 : 200).json({
+      dryRun: Boolean(dryRun),
+      format: detectedFormat,
+      bookId,
+      summary,
+      imported,
+      rows: rows.map(({ lemma, sense, ...row }) => row),
+    });
+  } catch (error) {
+    console.error('Import words error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Browser timezone offset in minutes (Date.getTimezoneOffset), used to find the learner's day boundary
+const parseTzOffset = (value: unknown): number => {
+  const offset = parseInt(value as string);
+  return Number.isFinite(offset) && Math.abs(offset) <= 14 * 60 ? offset : 0;
+};
+
+// GET /words/review - today's review queue, honouring the user's daily limits and deck
+// Optional bookId studies one book's deck regardless of the saved deck mode
 router.get('/review', authMiddleware, async (req: AuthRequest, res) => {
   try {
     const userId = req.userId!;
     const now = new Date();
 
-    // Get words due for review
-    const wordsToReview = await db
-      .select()
-      .from(savedWords)
-      .where(
-        and(
-          eq(savedWords.userId, userId),
-          lte(savedWords.nextReviewAt, now)
-        )
-      )
-      .orderBy(savedWords.nextReviewAt)
-      .limit(20); // Limit to 20 words per review session
+    const queue = await reviewQueueService.buildQueue(userId, {
+      bookId: (req.query.bookId as string) || undefined,
+      tzOffsetMinutes: parseTzOffset(req.query.tzOffset),
+      now,
+    });
 
     res.json({
-      words: wordsToReview,
-      totalCount: wordsToReview.length,
+      ...queue,
+      words: queue.words.map(word => withNextIntervals(word, now)),
+      totalCount: queue.words.length,
     });
   } catch (error) {
     console.error('Get review words error:', error);
@@ -114,15 +322,103 @@ router.get('/review', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
-// POST /words/review/:wordId - update word after review
+// GET /words/settings - review settings (daily limits and deck mode)
+router.get('/settings', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const settings = await reviewQueueService.getSettings(req.userId!);
+    res.json({ settings });
+  } catch (error) {
+    console.error('Get review settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /words/settings - update review settings
+router.put('/settings', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const { newCardsPerDay, maxReviewsPerDay, deckMode, activeBookId } = req.body;
+    const changes: Parameters<typeof reviewQueueService.updateSettings>[1] = {};
+
+    if (newCardsPerDay !== undefined) {
+      if (!Number.isInteger(newCardsPerDay) || newCardsPerDay < 0 || newCardsPerDay > 9999) {
+        return res.status(400).json({ error: 'newCardsPerDay must be a whole number between 0 and 9999' });
+      }
+      changes.newCardsPerDay = newCardsPerDay;
+    }
+
+    if (maxReviewsPerDay !== undefined) {
+      if (!Number.isInteger(maxReviewsPerDay) || maxReviewsPerDay < 0 || maxReviewsPerDay > 9999) {
+        return res.status(400).json({ error: 'maxReviewsPerDay must be a whole number between 0 and 9999' });
+      }
+      changes.maxReviewsPerDay = maxReviewsPerDay;
+    }
+
+    if (deckMode !== undefined) {
+      if (!['interleave', 'book'].includes(deckMode)) {
+        return res.status(400).json({ error: 'deckMode must be interleave or book' });
+      }
+      changes.deckMode = deckMode;
+    }
+
+    if (activeBookId !== undefined) {
+      if (activeBookId !== null) {
+        const userEntitlement = await db.select().from(entitlements).where(
+          and(eq(entitlements.userId, userId), eq(entitlements.bookId, activeBookId))
+        ).limit(1);
+
+        if (userEntitlement.length === 0) {
+          return res.status(403).json({ error: 'Access denied. You do not have access to this book.' });
+        }
+      }
+      changes.activeBookId = activeBookId;
+    }
+
+    const settings = await reviewQueueService.updateSettings(userId, changes);
+
+    if (settings.deckMode === 'book' && !settings.activeBookId) {
+      return res.status(200).json({ settings, warning: 'Choose a book to study in book deck mode' });
+    }
+
+    res.json({ settings });
+  } catch (error) {
+    console.error('Update review settings error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /words/decks - due/new/learning counts per book deck
+router.get('/decks', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const decks = await reviewQueueService.getDeckCounts(req.userId!, {
+      tzOffsetMinutes: parseTzOffset(req.query.tzOffset),
+    });
+
+    res.json({ decks });
+  } catch (error) {
+    console.error('Get decks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /words/review/:wordId - grade a word and reschedule it (SM-2)
+// Accepts `grade` 1-4 (again/hard/good/easy) or the legacy `ease` 1-5
 router.post('/review/:wordId', authMiddleware, async (req: AuthRequest, res) => {
   try {
     const { wordId } = req.params;
-    const { ease } = req.body;
+    const { grade, ease, responseTimeMs } = req.body;
     const userId = req.userId!;
 
-    if (ease === undefined || ease < 1 || ease > 5) {
-      return res.status(400).json({ error: 'Ease must be between 1 and 5' });
+    let reviewGrade: ReviewGrade;
+    if (grade !== undefined) {
+      if (![1, 2, 3, 4].includes(grade)) {
+        return res.status(400).json({ error: 'Grade must be between 1 and 4' });
+      }
+      reviewGrade = grade;
+    } else if (ease !== undefined && ease >= 1 && ease <= 5) {
+      reviewGrade = spacedRepetitionScheduler.gradeFromLegacyEase(ease);
+    } else {
+      return res.status(400).json({ error: 'Grade must be between 1 and 4' });
     }
 
     // Check if word belongs to user
@@ -134,26 +430,44 @@ router.post('/review/:wordId', authMiddleware, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'Word not found' });
     }
 
-    // Calculate next review date based on ease (simple spaced repetition)
-    const baseInterval = 1; // 1 day
-    const intervals = [1, 1, 3, 7, 14]; // Days for ease levels 1-5
-    const intervalDays = intervals[ease - 1] || 1;
-    const nextReviewAt = new Date();
-    nextReviewAt.setDate(nextReviewAt.getDate() + intervalDays);
+    const now = new Date();
+    const previous = word[0];
+    const next = spacedRepetitionScheduler.review(toCardSchedule(previous), reviewGrade, now);
+
+    const updatedWord = await db.transaction(async (tx) => {
+      // Log the review so learning curves and retention can be computed later
+      await tx.insert(wordReviews).values({
+        savedWordId: previous.id,
+        userId,
+        grade: reviewGrade,
+        elapsedDays: previous.lastReviewedAt
+          ? (now.getTime() - previous.lastReviewedAt.getTime()) / 86400000
+          : null,
+        responseTimeMs: Number.isInteger(responseTimeMs) && responseTimeMs >= 0 ? responseTimeMs : null,
+        previousIntervalDays: previous.intervalDays,
+        intervalDays: next.intervalDays,
+        easeFactor: next.easeFactor,
+        reviewedAt: now,
+      });
 
-    // Update the word
-    const updatedWord = await db
-      .update(savedWords)
-      .set({
-        ease,
-        nextReviewAt,
-      })
-      .where(eq(savedWords.id, parseInt(wordId)))
-      .returning();
+      return tx
+        .update(savedWords)
+        .set({
+          ease: reviewGrade,
+          easeFactor: next.easeFactor,
+          intervalDays: next.intervalDays,
+          repetitions: next.repetitions,
+          lapses: next.lapses,
+          lastReviewedAt: now,
+          nextReviewAt: next.dueAt,
+        })
+        .where(eq(savedWords.id, previous.id))
+        .returning();
+    });
 
     res.json({
       message: 'Word review updated successfully',
-      word: updatedWord[0],
+      word: withNextIntervals(updatedWord[0], now),
     });
   } catch (error) {
     console.error('Update word review error:', error);
@@ -162,87 +476,158 @@ router.post('/review/:wordId', authMiddleware, async (req: AuthRequest, res) =>
 });
 
 // GET /words/translate/:word - get English translation for Spanish word (with caching)
+// Optional query: sentence (surrounding text for sense disambiguation), bookId, chapterId
 router.get('/translate/:word', authMiddleware, async (req: AuthRequest, res) => {
   try {
     const { word } = req.params;
+    const { bookId, chapterId } = req.query;
+    const sentence = typeof req.query.sentence === 'string' ? req.query.sentence.trim().slice(0, 500) : undefined;
     const spanishWord = word.toLowerCase().trim();
 
     if (!spanishWord) {
       return res.status(400).json({ error: 'Word parameter is required' });
     }
 
-    // First check if translation exists in cache
-    const cachedTranslation = await db
+    // Resolve the tapped form to its lemma and any card the user already has for it in the sense shown
+    const lemma = await spanishLemmatizer.lemmatize(spanishWord) || spanishWord;
+    const lemmaEntry = async (english: string, sense: string | null) => {
+      const savedWord = await findSavedWordByLemma(
+        req.userId!,
+        { lemma, sense: normalizeSense(sense ?? english), dictId: `${spanishWord}-${english}` },
+        bookId as string | undefined
+      );
+      return {
+        lemma,
+        savedWord: savedWord
+          ? { id: savedWord.id, spanishWord: savedWord.spanishWord, englishTranslation: savedWord.englishTranslation }
+          : null,
+      };
+    };
+
+    // All cached senses for this word, most used first
+    const cachedSenses = await db
       .select()
       .from(translationCache)
       .where(eq(translationCache.spanishWord, spanishWord))
-      .limit(1);
-
-    if (cachedTranslation.length > 0) {
-      // Update usage count for analytics
-      await db
-        .update(translationCache)
-        .set({ 
-          usageCount: sql`${translationCache.usageCount} + 1`,
-          updatedAt: new Date()
-        })
-        .where(eq(translationCache.id, cachedTranslation[0].id));
-      
+      .orderBy(desc(translationCache.usageCount));
+
+    const markUsed = (id: number) => db
+      .update(translationCache)
+      .set({ 
+        usageCount: sql`${translationCache.usageCount} + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(translationCache.id, id));
+
+    // Without a sentence there is nothing to disambiguate: serve the most used sense
+    if (!sentence && cachedSenses.length > 0) {
+      const cached = cachedSenses[0];
+      await markUsed(cached.id);
+
       return res.json({
         spanish: spanishWord,
-        english: cachedTranslation[0].englishTranslation,
-        cached: true
+        english: cached.englishTranslation,
+        partOfSpeech: cached.partOfSpeech,
+        sense: cached.context,
+        cached: true,
+        ...await lemmaEntry(cached.englishTranslation, cached.context)
       });
     }
 
-    // If not in cache, use OpenAI to translate
-    console.log(`🌍 Translating "${spanishWord}" using OpenAI...`);
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Using more efficient model for simple translations
-      messages: [
-        {
-          role: "system",
-          content: "You are a Spanish-English translation expert. Translate the given Spanish word to English. Provide only the most common, concise translation. Respond with JSON in this format: { 'english': 'translation' }"
-        },
-        {
-          role: "user",
-          content: `Translate this Spanish word to English: "${spanishWord}"`
-        }
-      ],
-      response_format: { type: "json_object" },
-      max_completion_tokens: 200
-    });
+    // The sense this word was given in the same sentence before, so re-reading a page costs no provider calls
+    const sentenceHash = sentence
+      ? createHash('sha256').update(sentence.toLowerCase().replace(/\s+/g, ' ')).digest('hex')
+      : null;
+    if (sentenceHash) {
+      const [known] = await db
+        .select({ translation: translationCache })
+        .from(translationSentenceSenses)
+        .innerJoin(translationCache, eq(translationSentenceSenses.translationCacheId, translationCache.id))
+        .where(and(eq(translationSentenceSenses.spanishWord, spanishWord), eq(translationSentenceSenses.sentenceHash, sentenceHash)))
+        .limit(1);
+
+      if (known) {
+        await markUsed(known.translation.id);
+
+        return res.json({
+          spanish: spanishWord,
+          english: known.translation.englishTranslation,
+          partOfSpeech: known.translation.partOfSpeech,
+          sense: known.translation.context,
+          cached: true,
+          ...await lemmaEntry(known.translation.englishTranslation, known.translation.context)
+        });
+      }
+    }
 
-    // Check if response has content before parsing
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      console.error('OpenAI response has no content:', response);
-      throw new Error('OpenAI response is empty');
+    // Remember the sense chosen for this sentence
+    const rememberSentenceSense = async (translationCacheId: number) => {
+      if (!sentenceHash) return;
+      await db.insert(translationSentenceSenses)
+        .values({ spanishWord, sentenceHash, translationCacheId })
+        .onConflictDoNothing();
+    };
+
+    // Book/chapter titles give the model a hint about the story's setting
+    let storyContext: string | undefined;
+    if (sentence && bookId) {
+      const [book] = await db.select({ title: books.title }).from(books).where(eq(books.id, bookId as string)).limit(1);
+      const [chapter] = chapterId
+        ? await db.select({ title: chapters.title }).from(chapters).where(eq(chapters.id, chapterId as string)).limit(1)
+        : [];
+      storyContext = [book?.title, chapter?.title].filter(Boolean).join(' – ') || undefined;
     }
 
-    console.log('OpenAI raw response:', content);
-    const result = JSON.parse(content);
-    const englishTranslation = result.english;
+    console.log(`🌍 Translating "${spanishWord}"${sentence ? ' in context' : ''}...`);
+
+    // Offline dictionary first, OpenAI as an optional fallback
+    const knownSenses = cachedSenses.map(c => c.context).filter((c): c is string => !!c);
+    const result = await dictionaryService.lookup(spanishWord, { sentence, storyContext, knownSenses });
 
-    if (!englishTranslation) {
-      console.error('No English translation found in response:', result);
-      throw new Error('No translation found in OpenAI response');
+    if (!result) {
+      return res.status(404).json({ error: 'No translation found for this word' });
     }
 
-    // Save to cache for future use
-    await db.insert(translationCache).values({
+    const sense = sentence ? result.sense ?? result.english : null;
+
+    // Reuse the cached row when the provider picked a sense we already know
+    const knownSense = cachedSenses.find(c => (c.context ?? '').toLowerCase() === (sense ?? '').toLowerCase());
+    if (knownSense) {
+      await markUsed(knownSense.id);
+      await rememberSentenceSense(knownSense.id);
+
+      return res.json({
+        spanish: spanishWord,
+        english: knownSense.englishTranslation,
+        partOfSpeech: knownSense.partOfSpeech,
+        sense: knownSense.context,
+        cached: false,
+        ...await lemmaEntry(knownSense.englishTranslation, knownSense.context)
+      });
+    }
+
+    // Save to cache for future use, keyed by (word, sense)
+    const [inserted] = await db.insert(translationCache).values({
       spanishWord,
-      englishTranslation,
+      englishTranslation: result.english,
+      context: sense,
+      partOfSpeech: result.partOfSpeech ?? null,
       usageCount: 1
-    });
+    }).onConflictDoNothing().returning({ id: translationCache.id });
+    if (inserted) {
+      await rememberSentenceSense(inserted.id);
+    }
 
-    console.log(`✅ Translated "${spanishWord}" → "${englishTranslation}" and cached`);
+    console.log(`✅ Translated "${spanishWord}" → "${result.english}"${sense ? ` (${sense})` : ''} via ${result.source} and cached`);
 
     res.json({
       spanish: spanishWord,
-      english: englishTranslation,
-      cached: false
+      english: result.english,
+      partOfSpeech: result.partOfSpeech ?? null,
+      sense,
+      source: result.source,
+      cached: false,
+      ...await lemmaEntry(result.english, sense)
     });
   } catch (error) {
     console.error('Translation error:', error);
@@ -269,7 +654,7 @@ router.get('/saved', authMiddleware, async (req: AuthRequest, res) => {
 
 
     res.json({
-      words: userSavedWords,
+      words: userSavedWords.map(word => withNextIntervals(word)),
       totalCount: userSavedWords.length,
     });
   } catch (error) {
@@ -278,4 +663,255 @@ router.get('/saved', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+// GET /words/export?format=apkg|csv|tsv&bookId= - download the word bank for Anki or a spreadsheet
+router.get('/export', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const format = (req.query.format as string) || 'apkg';
+    const bookId = req.query.bookId as string | undefined;
+
+    if (!['apkg', 'csv', 'tsv'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be one of apkg, csv or tsv' });
+    }
+
+    const rows = await db
+      .select({ word: savedWords, bookTitle: books.title })
+      .from(savedWords)
+      .innerJoin(books, eq(savedWords.bookId, books.id))
+      .where(bookId ? and(eq(savedWords.userId, userId), eq(savedWords.bookId, bookId)) : eq(savedWords.userId, userId))
+      .orderBy(savedWords.createdAt);
+
+    // Chapters the words were met in, for cutting audio clips from their narration
+    const chapterIds = [...new Set(rows.flatMap(({ word }) => word.surfaceForms.map(f => f.chapterId).filter((id): id is string => !!id)))];
+    const sourceChapters = format === 'apkg' && chapterIds.length > 0
+      ? await db
+        .select({ id: chapters.id, audioUrl: chapters.audioUrl, elevenLabsTimingData: chapters.elevenLabsTimingData })
+        .from(chapters)
+        .where(inArray(chapters.id, chapterIds))
+      : [];
+    const chaptersById = new Map(sourceChapters.map(c => [c.id, c]));
+
+    const notes: ExportNote[] = [];
+    const clipsByChapter = new Map<string, { note: ExportNote; form: string; sentence?: string }[]>();
+    for (const { word, bookTitle } of rows) {
+      const encounter = word.surfaceForms.find(f => f.sentence) ?? word.surfaceForms[0];
+      const note: ExportNote = {
+        id: word.id,
+        spanish: word.spanishWord,
+        english: word.englishTranslation,
+        sentence: encounter?.sentence,
+        bookTitle,
+      };
+      notes.push(note);
+
+      const chapter = encounter?.chapterId ? chaptersById.get(encounter.chapterId) : undefined;
+      if (chapter?.audioUrl && chapter.elevenLabsTimingData) {
+        const pending = clipsByChapter.get(chapter.id) ?? [];
+        pending.push({ note, form: encounter.form, sentence: encounter.sentence });
+        clipsByChapter.set(chapter.id, pending);
+      }
+    }
+
+    // Each chapter's narration is read once for all the clips cut from it
+    for (const [chapterId, pending] of clipsByChapter) {
+      const chapter = chaptersById.get(chapterId)!;
+      const narration = wordClipService.openNarration(chapter);
+
+      for (const { note, form, sentence } of pending) {
+        try {
+          const clip = await wordClipService.extractClip(chapter, form, sentence, narration);
+          if (clip) {
+            note.audio = { filename: `rr_word_${note.id}.mp3`, data: clip };
+          }
+        } catch (error) {
+          console.error(`Failed to cut audio clip for word ${note.id}:`, error);
+        }
+      }
+    }
+
+    const filenameBase = bookId ? `riveting-reads-${bookId}` : 'riveting-reads-word-bank';
+
+    if (format === 'apkg') {
+      const deckName = bookId && rows.length > 0 ? `Riveting Reads::${rows[0].bookTitle}` : 'Riveting Reads';
+      const apkg = await ankiExportService.buildApkg(deckName, notes);
+
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${filenameBase}.apkg"`);
+      return res.send(apkg);
+    }
+
+    const delimiter = format === 'csv' ? ',' : '\t';
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'text/tab-separated-values; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filenameBase}.${format}"`);
+    res.send(ankiExportService.buildDelimited(notes, delimiter));
+  } catch (error) {
+    console.error('Export words error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /words/stats - retention summary for the word bank
+router.get('/stats', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 86400000);
+
+    // Cards with an interval of three weeks or more count as mature (same threshold as Anki)
+    const [cardCounts] = await db
+      .select({
+        total: sql<number>`cast(count(*) as int)`,
+        new: sql<number>`cast(count(*) filter (where ${savedWords.lastReviewedAt} is null) as int)`,
+        learning: sql<number>`cast(count(*) filter (where ${savedWords.lastReviewedAt} is not null and ${savedWords.intervalDays} < 1) as int)`,
+        young: sql<number>`cast(count(*) filter (where ${savedWords.intervalDays} >= 1 and ${savedWords.intervalDays} < 21) as int)`,
+        mature: sql<number>`cast(count(*) filter (where ${savedWords.intervalDays} >= 21) as int)`,
+      })
+      .from(savedWords)
+      .where(eq(savedWords.userId, userId));
+
+    // True retention only counts reviews of cards that had already graduated,
+    // so first-time learning steps don't inflate the pass rate
+    const [reviewCounts] = await db
+      .select({
+        total: sql<number>`cast(count(*) as int)`,
+        graduated: sql<number>`cast(count(*) filter (where ${wordReviews.previousIntervalDays} >= 1) as int)`,
+        graduatedPassed: sql<number>`cast(count(*) filter (where ${wordReviews.previousIntervalDays} >= 1 and ${wordReviews.grade} > 1) as int)`,
+        matureGraduated: sql<number>`cast(count(*) filter (where ${wordReviews.previousIntervalDays} >= 21) as int)`,
+        maturePassed: sql<number>`cast(count(*) filter (where ${wordReviews.previousIntervalDays} >= 21 and ${wordReviews.grade} > 1) as int)`,
+        averageResponseTimeMs: sql<number | null>`cast(avg(${wordReviews.responseTimeMs}) as int)`,
+      })
+      .from(wordReviews)
+      .where(and(eq(wordReviews.userId, userId), gte(wordReviews.reviewedAt, since)));
+
+    const dailyReviews = await db
+      .select({
+        date: sql<string>`to_char(date_trunc('day', ${wordReviews.reviewedAt}), 'YYYY-MM-DD')`,
+        count: sql<number>`cast(count(*) as int)`,
+      })
+      .from(wordReviews)
+      .where(and(eq(wordReviews.userId, userId), gte(wordReviews.reviewedAt, since)))
+      .groupBy(sql`date_trunc('day', ${wordReviews.reviewedAt})`)
+      .orderBy(sql`date_trunc('day', ${wordReviews.reviewedAt})`);
+
+    const ratio = (passed: number, total: number) => (total > 0 ? passed / total : null);
+
+    res.json({
+      periodDays: days,
+      cards: cardCounts,
+      reviews: {
+        total: reviewCounts.total,
+        reviewsPerDay: reviewCounts.total / days,
+        averageResponseTimeMs: reviewCounts.averageResponseTimeMs,
+        dailyReviews,
+      },
+      retention: {
+        trueRetention: ratio(reviewCounts.graduatedPassed, reviewCounts.graduated),
+        matureRetention: ratio(reviewCounts.maturePassed, reviewCounts.matureGraduated),
+      },
+    });
+  } catch (error) {
+    console.error('Get word stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /words/:id/audio - pronunciation clip for a saved word, cut from chapter narration
+// Prefers the chapter (and sentence) the word was saved from, then any narrated chapter of its book
+router.get('/:id/audio', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const userId = req.userId!;
+
+    if (isNaN(wordId)) {
+      return res.status(400).json({ error: 'Invalid word ID' });
+    }
+
+    const word = await db.select().from(savedWords).where(
+      and(eq(savedWords.id, wordId), eq(savedWords.userId, userId))
+    ).limit(1);
+
+    if (word.length === 0) {
+      return res.status(404).json({ error: 'Word not found' });
+    }
+
+    const { surfaceForms, spanishWord, bookId } = word[0];
+    const forms = surfaceForms.length > 0 ? surfaceForms : [{ form: spanishWord } as SurfaceForm];
+
+    const bookChapters = await db
+      .select({ id: chapters.id, audioUrl: chapters.audioUrl, elevenLabsTimingData: chapters.elevenLabsTimingData })
+      .from(chapters)
+      .where(eq(chapters.bookId, bookId))
+      .orderBy(chapters.indexInBook);
+
+    // Encounters with a known chapter first, then every form against every chapter
+    const attempts = [
+      ...forms.filter(f => f.chapterId).map(f => ({ form: f.form, sentence: f.sentence, chapterId: f.chapterId })),
+      ...forms.flatMap(f => bookChapters.map(c => ({ form: f.form, sentence: undefined, chapterId: c.id }))),
+    ];
+
+    // Chapters whose narration couldn't be read aren't tried again for another form
+    const unreadable = new Set<string>();
+    for (const attempt of attempts) {
+      const chapter = bookChapters.find(c => c.id === attempt.chapterId);
+      if (!chapter?.elevenLabsTimingData || unreadable.has(chapter.id)) continue;
+
+      // Only chapters whose timings contain the form are worth loading narration for
+      const timing = wordClipService.findWordTiming(chapter.elevenLabsTimingData, attempt.form, attempt.sentence);
+      if (!timing) continue;
+
+      try {
+        const clip = await wordClipService.getRangeClip(chapter, timing);
+        if (clip) {
+          res.setHeader('Content-Type', 'audio/mpeg');
+          res.setHeader('Cache-Control', 'private, max-age=86400');
+          return res.sendFile(clip.filePath);
+        }
+      } catch (error) {
+        console.error(`Failed to cut audio clip for word ${wordId} from chapter ${chapter.id}:`, error);
+        unreadable.add(chapter.id);
+      }
+    }
+
+    res.status(404).json({ error: 'No narration audio found for this word' });
+  } catch (error) {
+    console.error('Get word audio error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /words/:id/history - review log for a single word (its learning curve)
+router.get('/:id/history', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const userId = req.userId!;
+
+    if (isNaN(wordId)) {
+      return res.status(400).json({ error: 'Invalid word ID' });
+    }
+
+    const word = await db.select().from(savedWords).where(
+      and(eq(savedWords.id, wordId), eq(savedWords.userId, userId))
+    ).limit(1);
+
+    if (word.length === 0) {
+      return res.status(404).json({ error: 'Word not found' });
+    }
+
+    const reviews = await db
+      .select()
+      .from(wordReviews)
+      .where(eq(wordReviews.savedWordId, wordId))
+      .orderBy(wordReviews.reviewedAt);
+
+    res.json({
+      word: withNextIntervals(word[0]),
+      reviews,
+      totalCount: reviews.length,
+    });
+  } catch (error) {
+    console.error('Get word history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import 'dotenv/config';
+import { FileDictionaryProvider } from '../services/dictionaryProvider';
+
+/**
+ * Import a bilingual Spanish-English dictionary dump into Postgres
+ * Usage: npm run dict:import -- <file.tsv|file.json|file.jsonl> [source-name]
+ */
+async function main() {
+  const [filePath, source] = process.argv.slice(2);
+
+  if (!filePath) {
+    console.error('Usage: npm run dict:import -- <file.tsv|file.json|file.jsonl> [source-name]');
+    process.exit(1);
+  }
+
+  const provider = new FileDictionaryProvider();
+  await provider.importFile(filePath, source);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Dictionary import failed:', error);
+  process.exit(1);
+});
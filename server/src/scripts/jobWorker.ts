@@ -0,0 +1,10 @@
+import 'dotenv/config';
+import { jobWorker } from '../services/jobWorker';
+import { registerJobHandlers } from '../services/jobHandlers';
+
+/**
+ * Run the job worker on its own, e.g. next to API servers started with JOB_WORKER_ENABLED=false
+ * Usage: npm run worker
+ */
+registerJobHandlers();
+jobWorker.start();
@@ -0,0 +1,139 @@
+import { db } from '../db/index';
+import { chapters, processingJobs } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import JobProcessor from './jobProcessor';
+import { jobWorker, JobContext, JobHandler, ProcessingJob } from './jobWorker';
+import { jobEventService } from './jobEvents';
+import { chapterNarrationService } from './chapterNarration';
+import { forcedAlignmentService } from './forcedAlignment';
+import { narrationAudioService } from './narrationAudio';
+import { timingQualityService } from './timingQuality';
+
+// metadata of an alignment job
+interface AlignmentJobMetadata {
+  chapterId: string;
+  reason: string; // What queued the job: narration_uploaded, align_chapter...
+  lastMessage?: string;
+  lastUpdated?: string;
+}
+
+// How the word timings of a chapter were computed, stored next to them in elevenLabsTimingData
+export interface AlignmentInfo {
+  engine: string;
+  audioUrl: string;
+  matchedWords: number;
+  exactMatches: number;
+  totalWords: number;
+  alignedAt: string;
+}
+
+/**
+ * Computes word timings for chapter narration as alignment processing jobs
+ * Used for narration recorded by people, which comes without the timings TTS providers return
+ */
+export class AlignmentJobService implements JobHandler {
+  private jobProcessor = new JobProcessor();
+
+  /**
+   * Queue alignment of a chapter's current narration
+   * A job that hasn't started yet is reused, since jobs read the chapter audio when they run
+   */
+  async enqueueChapter(chapterId: string, reason: string): Promise<number> {
+    const chapter = await db.select({ id: chapters.id, bookId: chapters.bookId, audioUrl: chapters.audioUrl }).from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+    if (chapter.length === 0) {
+      throw new Error(`Chapter not found: ${chapterId}`);
+    }
+    if (!chapter[0].audioUrl) {
+      throw new Error(`Chapter ${chapterId} has no narration to align`);
+    }
+
+    const pending = await db
+      .select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(eq(processingJobs.chapterId, chapterId), eq(processingJobs.jobType, 'alignment'), eq(processingJobs.status, 'pending')))
+      .orderBy(desc(processingJobs.createdAt))
+      .limit(1);
+    if (pending.length > 0) {
+      jobWorker.wake();
+      return pending[0].id;
+    }
+
+    const metadata: AlignmentJobMetadata = { chapterId, reason };
+    const newJob = await db.insert(processingJobs).values({
+      bookId: chapter[0].bookId,
+      chapterId,
+      jobType: 'alignment',
+      status: 'pending',
+      progress: 0,
+      maxAttempts: 1, // Aligning the same audio again gives the same result, so failures are retried by hand
+      metadata,
+    }).returning();
+    console.log(`Created alignment job ${newJob[0].id} for chapter ${chapterId} (${reason})`);
+    await jobEventService.publish(newJob[0]);
+
+    jobWorker.wake();
+    return newJob[0].id;
+  }
+
+  /**
+   * Align the job's chapter text with its narration and store the word timings
+   */
+  async run(job: ProcessingJob, context: JobContext): Promise<void> {
+    const chapter = job.chapterId
+      ? await db.select().from(chapters).where(eq(chapters.id, job.chapterId)).limit(1)
+      : [];
+    if (chapter.length === 0) {
+      throw new Error(`Chapter not found: ${job.chapterId}`);
+    }
+
+    const audioUrl = chapter[0].audioUrl;
+    if (!audioUrl) {
+      throw new Error('Chapter has no narration to align');
+    }
+    const content = chapterNarrationService.contentFromJsonUrl(chapter[0].jsonUrl);
+    if (!content || !content.text.trim()) {
+      throw new Error('Chapter has no text to align');
+    }
+
+    await this.jobProcessor.updateJobProgress(context, 5, 'running', 'Reading narration...');
+    const audio = await narrationAudioService.read(audioUrl);
+
+    await context.throwIfCancelled();
+    await this.jobProcessor.updateJobProgress(context, 15, 'running', `Recognising words with ${forcedAlignmentService.engine}...`);
+    const result = await forcedAlignmentService.align(audio, content.text);
+
+    await context.throwIfCancelled();
+    await this.jobProcessor.updateJobProgress(context, 95, 'running', 'Saving word timings...');
+    const alignment: AlignmentInfo = {
+      engine: forcedAlignmentService.engine,
+      audioUrl,
+      matchedWords: result.matchedWords,
+      exactMatches: result.exactMatches,
+      totalWords: result.timingData.words.length,
+      alignedAt: new Date().toISOString(),
+    };
+
+    // Narration replaced while the job ran keeps its own timings
+    const updated = await db.update(chapters)
+      .set({ elevenLabsTimingData: { ...result.timingData, alignment } })
+      .where(and(eq(chapters.id, chapter[0].id), eq(chapters.audioUrl, audioUrl)))
+      .returning({ id: chapters.id });
+    if (updated.length === 0) {
+      await this.jobProcessor.updateJobProgress(context, 100, 'completed', 'Narration changed while aligning; timings discarded', { discarded: true });
+      return;
+    }
+    const quality = await timingQualityService.checkChapter(chapter[0].id);
+
+    await this.jobProcessor.updateJobProgress(context, 100, 'completed', 'Word timings aligned', {
+      duration: result.timingData.totalDuration,
+      words: alignment.totalWords,
+      matchedWords: alignment.matchedWords,
+      exactMatches: alignment.exactMatches,
+      timingScore: quality?.score ?? null,
+    });
+
+    console.log(`✅ Alignment job ${job.id} completed for chapter ${chapter[0].id}`);
+  }
+}
+
+export const alignmentJobService = new AlignmentJobService();
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+
+export interface ExportNote {
+  id: number;          // saved_words.id, used for a stable note GUID
+  spanish: string;
+  english: string;
+  sentence?: string;
+  bookTitle: string;
+  audio?: { filename: string; data: Buffer };
+}
+
+// Anki collection schema (anki2, schema version 11)
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_NAMES = ['Spanish', 'English', 'Sentence', 'Book', 'Audio'];
+
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 24px; text-align: center; color: #1e293b; background: #fff; }
+.sentence { font-size: 18px; font-style: italic; color: #475569; margin-top: 12px; }
+.book { font-size: 14px; color: #94a3b8; margin-top: 12px; }`;
+
+/**
+ * Builds word bank exports: Anki .apkg packages and CSV/TSV files
+ */
+export class AnkiExportService {
+  /**
+   * Build an .apkg (zip of an Anki collection + media) with one note per saved word
+   */
+  async buildApkg(deckName: string, notes: ExportNote[]): Promise<Buffer> {
+    const SQL = await initSqlJs();
+    const collection = new SQL.Database();
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+
+    // Anki ids are millisecond timestamps; derive them from the deck name so re-exports update the same deck
+    const deckId = this.stableId(`deck:${deckName}`);
+    const modelId = this.stableId('model:riveting-reads-vocab');
+
+    const model = {
+      id: modelId,
+      name: 'Riveting Reads Vocabulary',
+      type: 0,
+      mod: nowSeconds,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [{
+        name: 'Spanish → English',
+        ord: 0,
+        qfmt: '{{Spanish}}<br>{{Audio}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{English}}<div class="sentence">{{Sentence}}</div><div class="book">{{Book}}</div>',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      }],
+      flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: CARD_CSS,
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      tags: [],
+      vers: [],
+      req: [[0, 'any', [0]]],
+    };
+
+    const deck = (id: number, name: string) => ({
+      id,
+      name,
+      desc: '',
+      mod: nowSeconds,
+      usn: -1,
+      collapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      dyn: 0,
+      extendNew: 10,
+      extendRev: 50,
+      conf: 1,
+    });
+
+    const deckConfig = {
+      id: 1,
+      name: 'Default',
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      timer: 0,
+      autoplay: true,
+      replayq: true,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    };
+
+    const config = {
+      nextPos: notes.length + 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: 1,
+      newBust: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(modelId),
+      collapseTime: 1200,
+    };
+
+    collection.run(COLLECTION_SCHEMA);
+    collection.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        nowSeconds,
+        now,
+        now,
+        JSON.stringify(config),
+        JSON.stringify({ [modelId]: model }),
+        JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }),
+        JSON.stringify({ 1: deckConfig }),
+        '{}',
+      ]
+    );
+
+    const zip = new JSZip();
+    const media: Record<string, string> = {};
+
+    notes.forEach((note, index) => {
+      let audioField = '';
+      if (note.audio) {
+        const mediaIndex = String(Object.keys(media).length);
+        media[mediaIndex] = note.audio.filename;
+        zip.file(mediaIndex, note.audio.data);
+        audioField = `[sound:${note.audio.filename}]`;
+      }
+
+      const fields = [
+        this.escapeHtml(note.spanish),
+        this.escapeHtml(note.english),
+        this.escapeHtml(note.sentence ?? ''),
+        this.escapeHtml(note.bookTitle),
+        audioField,
+      ];
+
+      const noteId = now + index;
+      collection.run(
+        'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)',
+        [noteId, this.noteGuid(note.id), modelId, nowSeconds, ' riveting-reads ', fields.join('\x1f'), note.spanish, this.fieldChecksum(note.spanish), '']
+      );
+      collection.run(
+        'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)',
+        [noteId, noteId, deckId, nowSeconds, index + 1, '']
+      );
+    });
+
+    zip.file('collection.anki2', Buffer.from(collection.export()));
+    zip.file('media', JSON.stringify(media));
+    collection.close();
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Build a CSV (RFC 4180) or TSV export with a header row
+   */
+  buildDelimited(notes: ExportNote[], delimiter: ',' | '\t'): string {
+    const escape = (value: string) => {
+      if (delimiter === '\t') {
+        return value.replace(/[\t\r\n]+/g, ' ');
+      }
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    };
+
+    const rows = [
+      ['spanish', 'english', 'sentence', 'book'],
+      ...notes.map(note => [note.spanish, note.english, note.sentence ?? '', note.bookTitle]),
+    ];
+
+    return rows.map(row => row.map(escape).join(delimiter)).join('\r\n') + '\r\n';
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // Anki stores the first 8 hex digits of the SHA-1 of the sort field as an integer
+  private fieldChecksum(value: string): number {
+    return parseInt(crypto.createHash('sha1').update(value).digest('hex').slice(0, 8), 16);
+  }
+
+  // Stable GUID so importing a newer export updates notes instead of duplicating them
+  private noteGuid(savedWordId: number): string {
+    return crypto.createHash('sha1').update(`riveting-reads:saved-word:${savedWordId}`).digest('base64').slice(0, 10);
+  }
+
+  private stableId(key: string): number {
+    // 13-digit positive integer, in the same range as Anki's millisecond ids
+    return 1_000_000_000_000 + (parseInt(crypto.createHash('sha1').update(key).digest('hex').slice(0, 10), 16) % 1_000_000_000_000);
+  }
+}
+
+export const ankiExportService = new AnkiExportService();
@@ -0,0 +1,73 @@
+import { TtsConfigSnapshot } from '../db/schema';
+import { ttsConfigService } from './ttsConfigService';
+import { ttsService, TtsSynthesisResult, PartSynthesisOptions } from './ttsProvider';
+import { speakerSegmentService, SpeakerSegment, NARRATOR } from './speakerSegments';
+
+/**
+ * Narrates chapters with their configured voices
+ * A chapter uses its effective voice config (chapter → book → default); when its
+ * JSON has speaker segments, each character is read with their cast voice
+ */
+export class ChapterNarrationService {
+  /**
+   * Speaker segments stored in a chapter's JSON (content.segments), if any
+   */
+  segmentsFromJsonUrl(jsonUrl: string | null | undefined): SpeakerSegment[] | null {
+    return this.contentFromJsonUrl(jsonUrl)?.segments ?? null;
+  }
+
+  /**
+   * The text narrated for a chapter and its speaker segments, rebuilt from its JSON
+   * Chapters keep paragraphs, except documents parsed before paragraphs were stored, which only have sentences
+   */
+  contentFromJsonUrl(jsonUrl: string | null | undefined): { text: string; segments: SpeakerSegment[] | null } | null {
+    if (!jsonUrl?.startsWith('data:application/json') || !jsonUrl.includes(';base64,')) {
+      return null;
+    }
+
+    try {
+      const content = JSON.parse(Buffer.from(jsonUrl.split(';base64,')[1], 'base64').toString('utf8'))?.content;
+      const text = Array.isArray(content?.paragraphs) && content.paragraphs.length > 0
+        ? content.paragraphs.map((paragraph: { text: string }) => paragraph.text.trim()).join('\n\n')
+        : (content?.sentences ?? []).map((sentence: { text: string }) => sentence.text.trim()).join(' ');
+      return { text, segments: Array.isArray(content?.segments) ? content.segments : null };
+    } catch (error) {
+      console.error('Failed to read chapter JSON:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Narrate a chapter part by part; see TtsService.synthesizeParts for resuming
+   */
+  async narrate(
+    bookId: string,
+    chapterId: string,
+    text: string,
+    segments?: SpeakerSegment[] | null,
+    options: PartSynthesisOptions = {}
+  ): Promise<TtsSynthesisResult & { ttsConfig: TtsConfigSnapshot; fallbackWarning?: string }> {
+    if (speakerSegmentService.isMultiVoice(segments)) {
+      const speakers = [...new Set(segments.map(segment => segment.speaker))];
+      const voices = await ttsConfigService.resolveSpeakerConfigs(bookId, chapterId, speakers);
+      console.log(`Using multi-voice narration for chapter ${chapterId}: ${speakers.join(', ')}`);
+
+      const ranges = speakerSegmentService.alignSegments(text, segments);
+      const audioResult = await ttsService.synthesizeParts(text, chapterId, ttsService.planParts(text, ranges, voices), options);
+      return {
+        ...audioResult,
+        ttsConfig: { ...ttsConfigService.snapshot(audioResult.ttsConfig), cast: audioResult.cast },
+      };
+    }
+
+    const config = await ttsConfigService.resolveEffectiveConfig(bookId, chapterId);
+    console.log(`Using ${config.scope} voice config for chapter ${chapterId}: ${config.voiceProvider}/${config.voiceId}`);
+
+    // The recorded config is the one actually used, which differs after an offline fallback
+    const parts = ttsService.planParts(text, [{ speaker: NARRATOR, start: 0, end: text.length }], { [NARRATOR]: config });
+    const audioResult = await ttsService.synthesizeParts(text, chapterId, parts, options);
+    return { ...audioResult, ttsConfig: ttsConfigService.snapshot(audioResult.ttsConfig) };
+  }
+}
+
+export const chapterNarrationService = new ChapterNarrationService();
@@ -0,0 +1,31 @@
+import { spawn } from 'child_process';
+
+/**
+ * Running the command-line tools the audio services depend on (ffmpeg, whisper.cpp, espeak, piper)
+ */
+
+const STDERR_TAIL_CHARS = 4000; // Enough for the error a tool ends with, without buffering its whole log
+
+/**
+ * Run a command to completion, optionally writing input to its stdin
+ * Rejects with the tail of its stderr when it exits with an error, or with
+ * "Could not start <command>" when the binary can't be started at all
+ */
+export function runCommand(command: string, args: string[], input?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: [input === undefined ? 'ignore' : 'pipe', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    child.stderr?.on('data', (data) => { stderr = (stderr + data.toString()).slice(-STDERR_TAIL_CHARS); });
+    child.on('error', (error) => reject(new Error(`Could not start ${command}: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    child.stdin?.end(input);
+  });
+}
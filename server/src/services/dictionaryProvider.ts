@@ -0,0 +1,354 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import OpenAI from 'openai';
+import { inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { dictionaryEntries, dictionaryForms } from '../db/schema';
+import { spanishLemmatizer } from './spanishLemma';
+
+export interface DictionaryEntry {
+  headword: string;
+  english: string;
+  partOfSpeech?: string;
+  sense?: string; // Sense label used to key the translation cache
+  source: string;
+}
+
+export interface DictionaryLookupContext {
+  sentence?: string;     // Sentence the word appears in, for sense disambiguation
+  storyContext?: string; // Book/chapter title
+  knownSenses?: string[];
+}
+
+/**
+ * A source of Spanish → English definitions
+ * Offline providers must work without network access
+ */
+export interface DictionaryProvider {
+  readonly name: string;
+  readonly offline: boolean;
+  lookup(word: string, context?: DictionaryLookupContext): Promise<DictionaryEntry[]>;
+  // Optional: providers that can translate whole sentences (for sentence-mining cards)
+  translateSentence?(sentence: string, storyContext?: string): Promise<string | null>;
+}
+
+/**
+ * File-backed dictionary provider
+ * Bilingual dictionary dumps are imported into the dictionary_entries table once,
+ * after which lookups are plain Postgres queries with no network access
+ */
+export class FileDictionaryProvider implements DictionaryProvider {
+  readonly name = 'dictionary';
+  readonly offline = true;
+
+  /**
+   * Look up all senses of a word: those of the words it is a form of, then those of its own
+   * headword or else of the first dictionary form it inflects
+   */
+  async lookup(word: string): Promise<DictionaryEntry[]> {
+    const headwords = [...(await spanishLemmatizer.headwordsMany([word])).values()][0] ?? [];
+    if (headwords.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(dictionaryEntries)
+      .where(inArray(dictionaryEntries.headword, headwords))
+      .orderBy(dictionaryEntries.id);
+
+    rows.sort((a, b) => headwords.indexOf(a.headword) - headwords.indexOf(b.headword));
+    return rows.slice(0, 20).map(row => ({
+      headword: row.headword,
+      english: row.englishGloss,
+      partOfSpeech: row.partOfSpeech ?? undefined,
+      sense: row.englishGloss,
+      source: row.source,
+    }));
+  }
+
+  /**
+   * Import a bilingual dictionary dump into Postgres
+   * Supported formats (by extension):
+   *  - .tsv/.txt: `spanish<TAB>english[<TAB>pos]`, lines starting with # are skipped
+   *  - .json: array of { word|headword|spanish, english|translation|gloss, pos }
+   *  - .jsonl: Wiktextract-style lines { word, pos, senses: [{ glosses: [...] }] }; senses that are
+   *    only a form of another word (form_of/alt_of, e.g. "comió": "preterite of comer") are stored as forms
+   */
+  async importFile(
+    filePath: string,
+    source: string = path.basename(filePath, path.extname(filePath))
+  ): Promise<{ entries: number; forms: number }> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Dictionary file not found: ${filePath}`);
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+    let batch: (typeof dictionaryEntries.$inferInsert)[] = [];
+    let formBatch: (typeof dictionaryForms.$inferInsert)[] = [];
+    let imported = 0;
+    let importedForms = 0;
+
+    const flush = async () => {
+      // Rows already imported from the same source are skipped and not counted
+      if (batch.length > 0) {
+        const inserted = await db.insert(dictionaryEntries).values(batch).onConflictDoNothing().returning({ id: dictionaryEntries.id });
+        imported += inserted.length;
+        batch = [];
+      }
+      if (formBatch.length > 0) {
+        const inserted = await db.insert(dictionaryForms).values(formBatch).onConflictDoNothing().returning({ id: dictionaryForms.id });
+        importedForms += inserted.length;
+        formBatch = [];
+      }
+    };
+
+    const add = async (spanish: unknown, english: unknown, partOfSpeech?: unknown) => {
+      const headword = typeof spanish === 'string' ? spanish.toLowerCase().trim() : '';
+      const englishGloss = typeof english === 'string' ? english.trim() : '';
+      if (!headword || !englishGloss || headword.includes(' ')) {
+        return; // Multi-word expressions can't be tapped in the reader
+      }
+
+      batch.push({
+        headword,
+        englishGloss,
+        partOfSpeech: typeof partOfSpeech === 'string' && partOfSpeech ? partOfSpeech : null,
+        source,
+      });
+
+      if (batch.length >= 1000) {
+        await flush();
+      }
+    };
+
+    const addForm = async (spanish: unknown, lemma: unknown) => {
+      const form = typeof spanish === 'string' ? spanish.toLowerCase().trim() : '';
+      const target = typeof lemma === 'string' ? lemma.toLowerCase().trim() : '';
+      if (!form || !target || form === target || form.includes(' ') || target.includes(' ')) {
+        return;
+      }
+
+      formBatch.push({ form, lemma: target, source });
+      if (formBatch.length >= 1000) {
+        await flush();
+      }
+    };
+
+    if (extension === '.json') {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      if (!Array.isArray(data)) {
+        throw new Error('JSON dictionary must be an array of entries');
+      }
+      for (const entry of data) {
+        await add(
+          entry.word ?? entry.headword ?? entry.spanish,
+          entry.english ?? entry.translation ?? entry.gloss,
+          entry.pos ?? entry.partOfSpeech
+        );
+      }
+    } else {
+      const lines = readline.createInterface({
+        input: fs.createReadStream(filePath, { encoding: 'utf-8' }),
+        crlfDelay: Infinity,
+      });
+
+      for await (const line of lines) {
+        if (!line.trim() || line.startsWith('#')) continue;
+
+        if (extension === '.jsonl') {
+          const entry = JSON.parse(line);
+          for (const sense of entry.senses ?? []) {
+            const formOf: { word?: unknown }[] = [...(sense.form_of ?? []), ...(sense.alt_of ?? [])];
+            if (formOf.length > 0) {
+              for (const target of formOf) {
+                await addForm(entry.word, target.word);
+              }
+            } else {
+              await add(entry.word, sense.glosses?.[0], entry.pos);
+            }
+          }
+        } else {
+          const [spanish, english, partOfSpeech] = line.split('\t');
+          await add(spanish, english, partOfSpeech);
+        }
+      }
+    }
+
+    await flush();
+    console.log(`📖 Imported ${imported} dictionary entries and ${importedForms} inflected forms from ${path.basename(filePath)} (source: ${source})`);
+    return { entries: imported, forms: importedForms };
+  }
+}
+
+/**
+ * OpenAI-backed provider, used as a fallback when the offline dictionary has no entry
+ * or several senses that need the sentence to pick between
+ */
+export class OpenAIDictionaryProvider implements DictionaryProvider {
+  readonly name = 'openai';
+  readonly offline = false;
+  // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async lookup(word: string, context: DictionaryLookupContext = {}): Promise<DictionaryEntry[]> {
+    const { sentence, storyContext, knownSenses = [] } = context;
+
+    const systemPrompt = sentence
+      ? "You are a Spanish-English translation expert helping a language learner. Translate the given Spanish word as it is used in the sentence. " +
+        "Give a concise, sense-specific English gloss, its part of speech (noun, verb, adjective, adverb, pronoun, preposition, conjunction, article, interjection) " +
+        "and a short English sense label that distinguishes this meaning from other meanings of the word. " +
+        "If one of the known senses fits, return that sense label exactly. " +
+        "Respond with JSON in this format: { 'english': 'gloss', 'partOfSpeech': 'noun', 'sense': 'sense label' }"
+      : "You are a Spanish-English translation expert. Translate the given Spanish word to English. Provide only the most common, concise translation and its part of speech. " +
+        "Respond with JSON in this format: { 'english': 'translation', 'partOfSpeech': 'noun' }";
+
+    const userPrompt = sentence
+      ? [
+          `Spanish word: "${word}"`,
+          `Sentence: "${sentence}"`,
+          storyContext ? `Story: ${storyContext}` : null,
+          knownSenses.length > 0 ? `Known senses: ${knownSenses.map(s => `"${s}"`).join(', ')}` : null,
+        ].filter(Boolean).join('\n')
+      : `Translate this Spanish word to English: "${word}"`;
+
+    const response = await this.client.chat.completions.create({
+      model: "gpt-4o-mini", // Using more efficient model for simple translations
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+      ],
+      response_format: { type: "json_object" },
+      max_completion_tokens: 200
+    });
+
+    // Check if response has content before parsing
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      console.error('OpenAI response has no content:', response);
+      throw new Error('OpenAI response is empty');
+    }
+
+    console.log('OpenAI raw response:', content);
+    const result = JSON.parse(content);
+
+    if (!result.english) {
+      console.error('No English translation found in response:', result);
+      throw new Error('No translation found in OpenAI response');
+    }
+
+    return [{
+      headword: word,
+      english: result.english,
+      partOfSpeech: result.partOfSpeech || undefined,
+      sense: sentence ? result.sense || result.english : undefined,
+      source: this.name,
+    }];
+  }
+
+  async translateSentence(sentence: string, storyContext?: string): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        {
+          role: "system",
+          content: "You are a Spanish-English translation expert helping a language learner. Translate the given Spanish sentence into natural English. " +
+            "Respond with JSON in this format: { 'english': 'translation' }"
+        },
+        { role: "user", content: storyContext ? `Story: ${storyContext}\nSentence: "${sentence}"` : `Sentence: "${sentence}"` }
+      ],
+      response_format: { type: "json_object" },
+      max_completion_tokens: 400
+    });
+
+    const content = response.choices[0]?.message?.content;
+    return content ? JSON.parse(content).english || null : null;
+  }
+}
+
+/**
+ * Consults dictionary providers in order
+ * An offline hit with a single sense wins outright; when it has several senses and there is
+ * a sentence, they are handed to the next provider as known senses to choose from
+ */
+export class DictionaryService {
+  constructor(private providers: DictionaryProvider[]) {}
+
+  async lookup(
+    word: string,
+    context: DictionaryLookupContext = {},
+    options: { offlineOnly?: boolean } = {}
+  ): Promise<DictionaryEntry | null> {
+    for (const [index, provider] of this.providers.entries()) {
+      if (options.offlineOnly && !provider.offline) {
+        continue;
+      }
+
+      try {
+        const entries = await provider.lookup(word, context);
+        if (entries.length === 0) {
+          continue;
+        }
+
+        // With a single sense (or no sentence to disambiguate by) there is nothing left to decide
+        if (entries.length === 1 || !context.sentence) {
+          return entries[0];
+        }
+
+        // Several senses - let the remaining providers pick one using the sentence
+        const remaining = new DictionaryService(this.providers.slice(index + 1));
+        const chosen = await remaining.lookup(word, {
+          ...context,
+          knownSenses: [...(context.knownSenses ?? []), ...entries.map(e => e.sense ?? e.english)],
+        }, options);
+
+        if (!chosen) {
+          return entries[0];
+        }
+
+        // Prefer our own entry when the fallback agreed on one of its senses
+        return entries.find(e => (e.sense ?? '').toLowerCase() === (chosen.sense ?? '').toLowerCase()) ?? chosen;
+      } catch (error) {
+        console.error(`Dictionary provider "${provider.name}" failed for "${word}":`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Translate a whole sentence with the first provider that supports it
+   */
+  async translateSentence(sentence: string, storyContext?: string): Promise<string | null> {
+    for (const provider of this.providers) {
+      if (!provider.translateSentence) continue;
+
+      try {
+        const translation = await provider.translateSentence(sentence, storyContext);
+        if (translation) {
+          return translation;
+        }
+      } catch (error) {
+        console.error(`Dictionary provider "${provider.name}" failed to translate sentence:`, error);
+      }
+    }
+
+    return null;
+  }
+}
+
+// Offline dictionary first; OpenAI only when a key is configured and the fallback isn't disabled
+const buildProviders = (): DictionaryProvider[] => {
+  const providers: DictionaryProvider[] = [new FileDictionaryProvider()];
+  if (process.env.OPENAI_API_KEY && process.env.DICTIONARY_OPENAI_FALLBACK !== 'false') {
+    providers.push(new OpenAIDictionaryProvider(process.env.OPENAI_API_KEY));
+  }
+  return providers;
+};
+
+export const dictionaryService = new DictionaryService(buildProviders());
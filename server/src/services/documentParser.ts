@@ -1,22 +1,37 @@
 import mammoth from 'mammoth';
-import natural from 'natural';
 import compromise from 'compromise';
 import fs from 'fs';
 import path from 'path';
 import JSZip from 'jszip';
 import { XMLParser } from 'fast-xml-parser';
-
-// Spanish language configuration for natural
-// Note: Using stemmer directly without attach method
+import { getSpanishStem } from './spanishLemma';
+import { dictionaryService } from './dictionaryProvider';
+import { speakerSegmentService, SpeakerSegment } from './speakerSegments';
+import EpubParser, { TextRange, IMAGE_MEDIA_TYPES } from './epubParser';
+import MarkdownParser, { BookFrontMatter } from './markdownParser';
+import { parsingProfileService, CompiledParsingProfile } from './parsingProfiles';
+import { ParsingProfile, ParsedActivityType } from '../db/schema';
 
 interface ParsedElement {
   text: string;
   fontSize?: number;
   isBold?: boolean;
   isHeading?: boolean;
+  italics?: TextRange[];
+  styleName?: string;
+  pageBreakBefore?: boolean;
+  detectedBy?: ChapterDetection; // The rule that made this paragraph a chapter heading
+  imagesBefore?: SourceImage[]; // Pictures between the previous paragraph and this one
+  imagesAfter?: SourceImage[]; // Pictures after the last paragraph of the document
   elementType: 'paragraph' | 'heading' | 'table' | 'other';
 }
 
+// Which rule of the parsing profile (or which structure of an EPUB / Markdown file) started a chapter
+interface ChapterDetection {
+  rule: 'heading_style' | 'chapter_pattern' | 'font_size' | 'bold_heading' | 'page_break' | 'leading_content' | 'epub_toc' | 'epub_spine' | 'markdown_heading' | 'text_chapter_line';
+  detail: string;
+}
+
 interface DocxRun {
   text: string;
   fontSize?: number;
@@ -27,6 +42,9 @@ interface DocxParagraph {
   runs: DocxRun[];
   styleId?: string;
   styleName?: string;
+  pageBreakBefore?: boolean;
+  imagesBefore?: SourceImage[];
+  imagesAfter?: SourceImage[];
 }
 
 interface ChapterData {
@@ -37,10 +55,32 @@ interface ChapterData {
   wordCount: number;
   sentences: ProcessedSentence[];
   activities?: ChapterActivity[];
+  segments?: SpeakerSegment[]; // Narrator and character lines for multi-voice narration
+  paragraphs?: ChapterParagraph[]; // Main content as written, without activities
+  images?: ChapterImage[];
+  detectedBy?: ChapterDetection;
 }
 
+interface ChapterParagraph {
+  text: string;
+  italics?: TextRange[];
+}
+
+// An image from the source document, placed before the paragraph at paragraphIndex (after the last one when past the end)
+interface ChapterImage {
+  id: string;
+  fileName: string;
+  mediaType: string;
+  alt: string;
+  paragraphIndex: number;
+  data: Buffer;
+  src?: string; // Object path of the stored file, set by the parsing job
+}
+
+type SourceImage = Omit<ChapterImage, 'id' | 'paragraphIndex' | 'src'>;
+
 interface ChapterActivity {
-  activityType: 'vocabulary_support' | 'comprehension_questions' | 'true_false' | 'matching' | 'writing_prompts';
+  activityType: ParsedActivityType;
   title: string;
   description?: string;
   activityData: any;
@@ -67,7 +107,7 @@ interface ProcessedWord {
   audioTimestamp?: number;
 }
 
-interface ParsedDocument {
+export interface ParsedDocument {
   chapters: ChapterData[];
   metadata: {
     totalChapters: number;
@@ -75,21 +115,31 @@ interface ParsedDocument {
     totalSentences: number;
     language: 'es'; // Spanish
     processingTime: number;
+    format: 'docx' | 'epub' | 'markdown';
+    title?: string; // From the document's own metadata, where it has any
+    author?: string;
+    bookDetails?: BookFrontMatter; // Book fields the manuscript asks to set (Markdown front matter)
+    parsingProfile: string; // Preset the chapter detection rules came from
   };
 }
 
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
 interface FontMapping {
   [key: string]: number;
 }
 
 /**
- * Comprehensive Word document parser for Spanish storybooks
- * Analyzes font formatting to detect chapters and processes text for vocabulary features
+ * Comprehensive Word document, EPUB and Markdown parser for Spanish storybooks
+ * Detects chapters from Word formatting by the rules of a parsing profile (or from the EPUB
+ * table of contents, or Markdown headings) and processes text for vocabulary features
  */
 export class DocumentParser {
-  private readonly CHAPTER_FONT_SIZE = 16; // 16pt indicates chapter headings
-  private readonly BODY_FONT_SIZE = 12;    // 12pt indicates body text
-  private readonly TOLERANCE = 1;          // Allow ±1pt variation in font detection
+  // Markdown activities are rewritten into the standard "Part N – Name" layout
+  private readonly standardProfile = parsingProfileService.compile(null);
+  private definitionCache = new Map<string, string | undefined>();
+  private epubParser = new EpubParser();
+  private markdownParser = new MarkdownParser();
   
   private spanish_stopwords = new Set([
     'el', 'la', 'de', 'que', 'y', 'a', 'en', 'un', 'es', 'se', 'no', 'te', 'lo', 'le', 'da', 'su', 'por', 'son',
@@ -97,16 +147,26 @@ export class DocumentParser {
   ]);
 
   /**
-   * Parse a Word document from file path
+   * Parse a Word document, EPUB, or Markdown / plain-text manuscript from file path
+   * The profile's chapter rules apply to Word documents; its activity markers to every format
    */
-  async parseDocument(filePath: string): Promise<ParsedDocument> {
+  async parseDocument(filePath: string, parsingProfile?: ParsingProfile | null): Promise<ParsedDocument> {
     const startTime = Date.now();
+    const profile = parsingProfileService.compile(parsingProfile);
     
     try {
       if (!fs.existsSync(filePath)) {
         throw new Error(`File not found: ${filePath}`);
       }
 
+      const extension = path.extname(filePath).toLowerCase();
+      if (extension === '.epub') {
+        return await this.parseEpub(filePath, startTime, profile);
+      }
+      if (MARKDOWN_EXTENSIONS.includes(extension)) {
+        return await this.parseMarkdown(filePath, startTime, profile);
+      }
+
       // Read the .docx file
       const buffer = fs.readFileSync(filePath) as any;
       
@@ -124,28 +184,12 @@ export class DocumentParser {
       const htmlResult = await mammoth.convertToHtml(buffer as any, options);
       
       // Parse the formatted content to detect font sizes and structure
-      const parsedElements = await this.parseFormattedContent(buffer);
+      const parsedElements = await this.parseFormattedContent(buffer, profile);
       
       // Detect chapters based on font analysis
-      const chapters = this.detectChapters(parsedElements);
+      const chapters = this.detectChapters(parsedElements, profile);
       
-      // Process Spanish text for each chapter
-      const processedChapters = await Promise.all(
-        chapters.map((chapter, index) => this.processChapterContent(chapter, index))
-      );
-
-      const processingTime = Date.now() - startTime;
-      
-      return {
-        chapters: processedChapters,
-        metadata: {
-          totalChapters: processedChapters.length,
-          totalWords: processedChapters.reduce((sum, ch) => sum + ch.wordCount, 0),
-          totalSentences: processedChapters.reduce((sum, ch) => sum + ch.sentences.length, 0),
-          language: 'es',
-          processingTime
-        }
-      };
+      return await this.buildDocument(chapters, startTime, { format: 'docx' }, profile);
       
     } catch (error) {
       console.error('Error parsing document:', error);
@@ -153,11 +197,134 @@ export class DocumentParser {
     }
   }
 
+  /**
+   * Parse an EPUB, taking chapters from its table of contents instead of font sizes
+   */
+  private async parseEpub(filePath: string, startTime: number, profile: CompiledParsingProfile): Promise<ParsedDocument> {
+    const epub = await this.epubParser.parse(fs.readFileSync(filePath));
+
+    const chapters = epub.chapters
+      .map((chapter, index): ChapterData => {
+        const title = chapter.title || `Capítulo ${index + 1}`;
+        return {
+          id: '',
+          title,
+          indexInBook: 0,
+          content: [
+            { text: title, isHeading: true, elementType: 'heading' },
+            // Subheadings inside a chapter are read as part of its text
+            ...chapter.blocks.map((block): ParsedElement => ({
+              text: block.text,
+              italics: block.italics,
+              isHeading: false,
+              elementType: block.kind,
+            })),
+          ],
+          wordCount: 0,
+          sentences: [],
+          images: chapter.images.map(image => ({ id: '', ...image })),
+          detectedBy: chapter.source === 'toc'
+            ? { rule: 'epub_toc', detail: `Table of contents entry "${title}"` }
+            : { rule: 'epub_spine', detail: 'Book file without a usable table of contents entry' },
+        };
+      })
+      .filter(chapter => this.hasEnoughText(chapter))
+      .map((chapter, index) => ({
+        ...chapter,
+        id: `chapter_${index + 1}`,
+        indexInBook: index + 1,
+      }));
+
+    console.log(`Read ${chapters.length} chapters from EPUB table of contents`);
+    return this.buildDocument(chapters, startTime, { format: 'epub', title: epub.title, author: epub.author }, profile);
+  }
+
+  /**
+   * Parse a Markdown or plain-text manuscript: # headings are chapters and front matter
+   * carries the book details
+   */
+  private async parseMarkdown(filePath: string, startTime: number, profile: CompiledParsingProfile): Promise<ParsedDocument> {
+    const markdown = this.markdownParser.parse(fs.readFileSync(filePath, 'utf8'));
+
+    const chapters = markdown.chapters
+      .map((chapter, index): ChapterData => {
+        const id = `chapter_${index + 1}`;
+        return {
+          id,
+          title: chapter.title,
+          indexInBook: index + 1,
+          content: [
+            { text: chapter.title, isHeading: true, elementType: 'heading' },
+            ...chapter.paragraphs.map((paragraph): ParsedElement => ({
+              text: paragraph.text,
+              italics: paragraph.italics,
+              isHeading: false,
+              elementType: 'paragraph',
+            })),
+          ],
+          wordCount: 0,
+          sentences: [],
+          activities: chapter.activitiesContent ? this.parseActivities(chapter.activitiesContent, id, this.standardProfile) : [],
+          detectedBy: this.markdownDetection(chapter.source, chapter.title),
+        };
+      })
+      .filter(chapter => this.hasEnoughText(chapter))
+      .map((chapter, index) => ({ ...chapter, id: `chapter_${index + 1}`, indexInBook: index + 1 }));
+
+    console.log(`Read ${chapters.length} chapters from Markdown headings`);
+    return this.buildDocument(chapters, startTime, {
+      format: 'markdown',
+      title: markdown.frontMatter.title,
+      author: markdown.frontMatter.author,
+      bookDetails: Object.keys(markdown.frontMatter).length > 0 ? markdown.frontMatter : undefined,
+    }, profile);
+  }
+
+  private markdownDetection(source: 'heading' | 'chapter_line' | 'leading_text', title: string): ChapterDetection {
+    switch (source) {
+      case 'heading':
+        return { rule: 'markdown_heading', detail: `# ${title}` };
+      case 'chapter_line':
+        return { rule: 'text_chapter_line', detail: `Line "${title}"` };
+      default:
+        return { rule: 'leading_content', detail: 'Text before the first chapter heading' };
+    }
+  }
+
+  /**
+   * Process Spanish text for each chapter and summarise the document
+   */
+  private async buildDocument(
+    chapters: ChapterData[],
+    startTime: number,
+    source: Pick<ParsedDocument['metadata'], 'format' | 'title' | 'author' | 'bookDetails'>,
+    profile: CompiledParsingProfile
+  ): Promise<ParsedDocument> {
+    const processedChapters = await Promise.all(
+      chapters.map((chapter, index) => this.processChapterContent(chapter, index, profile))
+    );
+
+    const processingTime = Date.now() - startTime;
+    
+    return {
+      chapters: processedChapters,
+      metadata: {
+        totalChapters: processedChapters.length,
+        totalWords: processedChapters.reduce((sum, ch) => sum + ch.wordCount, 0),
+        totalSentences: processedChapters.reduce((sum, ch) => sum + ch.sentences.length, 0),
+        language: 'es',
+        processingTime,
+        parsingProfile: profile.profile.presetId,
+        ...source
+      }
+    };
+  }
+
   /**
    * Parse formatted content to extract elements with font information
    * Uses direct DOCX XML parsing for accurate font size detection
    */
-  private async parseFormattedContent(buffer: Buffer): Promise<ParsedElement[]> {
+  private async parseFormattedContent(buffer: Buffer, profile: CompiledParsingProfile): Promise<ParsedElement[]> {
     try {
       console.log('Parsing DOCX XML for accurate font size extraction...');
       
@@ -177,19 +344,25 @@ export class DocumentParser {
           
           const fontSize = fontSizes.length > 0 
             ? this.getMostCommonFontSize(fontSizes)
-            : this.BODY_FONT_SIZE;
+            : profile.profile.bodyFontSize;
           
           // Check if any run is bold
           const isBold = paragraph.runs.some(run => run.isBold);
           
-          const isHeading = this.isLikelyHeading(fullText, fontSize, isBold);
+          const styleName = paragraph.styleName ?? paragraph.styleId;
+          const detectedBy = this.matchHeadingRule(fullText, fontSize, isBold, paragraph, profile);
           
           elements.push({
             text: fullText.trim(),
             fontSize,
             isBold,
-            isHeading,
-            elementType: isHeading ? 'heading' : 'paragraph'
+            isHeading: !!detectedBy,
+            styleName,
+            pageBreakBefore: paragraph.pageBreakBefore,
+            ...(detectedBy && { detectedBy }),
+            ...(paragraph.imagesBefore && { imagesBefore: paragraph.imagesBefore }),
+            ...(paragraph.imagesAfter && { imagesAfter: paragraph.imagesAfter }),
+            elementType: detectedBy ? 'heading' : 'paragraph'
           });
         }
       }
@@ -201,7 +374,7 @@ export class DocumentParser {
       console.warn('XML parsing failed, falling back to HTML method:', error instanceof Error ? error.message : 'Unknown error');
       
       // Fallback to HTML parsing if XML parsing fails
-      return this.parseFormattedContentFallback(buffer);
+      return this.parseFormattedContentFallback(buffer, profile);
     }
   }
 
@@ -209,8 +382,6 @@ export class DocumentParser {
    * Get the most common font size from an array of sizes
    */
   private getMostCommonFontSize(fontSizes: number[]): number {
-    if (fontSizes.length === 0) return this.BODY_FONT_SIZE;
-    
     const frequency: { [key: number]: number } = {};
     
     for (const size of fontSizes) {
@@ -246,7 +417,7 @@ export class DocumentParser {
   }
 
   /**
-   * Parse DOCX XML to extract actual font sizes and formatting
+   * Parse DOCX XML to extract actual font sizes and formatting, paragraph styles, page breaks and pictures
    */
   private async parseDocxXML(buffer: Buffer): Promise<DocxParagraph[]> {
     try {
@@ -264,16 +435,30 @@ export class DocumentParser {
       
       const xmlDoc = parser.parse(documentXml);
       const body = xmlDoc['w:document']['w:body'];
+      const styleNames = await this.readStyleNames(zip, parser);
+      const relationships = await this.readRelationships(zip, parser);
+      const imageFiles = new Map<string, SourceImage | null>(); // By relationship id, as a picture may be used twice
       
       const paragraphs: DocxParagraph[] = [];
       
       // Handle both single paragraph and array of paragraphs
       const pElements = Array.isArray(body['w:p']) ? body['w:p'] : [body['w:p']].filter(Boolean);
       
+      // A break at the end of a paragraph (or in an empty one) belongs to the next paragraph with text
+      let pageBreakPending = false;
+      // Pictures go before the next paragraph with text, unless they follow text in their own paragraph
+      let pendingImages: SourceImage[] = [];
+
       for (const p of pElements) {
         if (!p) continue;
         
         const runs: DocxRun[] = [];
+        const pPr = p['w:pPr'];
+        const styleId: string | undefined = pPr?.['w:pStyle']?.['@_w:val'];
+        let pageBreakBefore = pageBreakPending || this.isOnOffSet(pPr?.['w:pageBreakBefore']);
+        pageBreakPending = false;
+        const leadingImages: SourceImage[] = [];
+        const trailingImages: SourceImage[] = [];
         
         // Handle runs within the paragraph
         const rElements = p['w:r'] ? (Array.isArray(p['w:r']) ? p['w:r'] : [p['w:r']]) : [];
@@ -282,6 +467,15 @@ export class DocumentParser {
           if (!r) continue;
           
           const text = this.extractTextFromRun(r);
+          const images = await this.extractImagesFromRun(r, zip, relationships, imageFiles);
+          (runs.some(run => run.text.trim()) ? trailingImages : leadingImages).push(...images);
+          if (this.hasPageBreak(r)) {
+            if (runs.length === 0) {
+              pageBreakBefore = true;
+            } else {
+              pageBreakPending = true;
+            }
+          }
           if (text) {
             const fontSize = this.extractFontSizeFromRun(r);
             const isBold = this.extractBoldFromRun(r);
@@ -294,10 +488,33 @@ export class DocumentParser {
           }
         }
         
-        if (runs.length > 0) {
-          paragraphs.push({ runs });
+        // A next-page section break ends its page like a page break
+        const sectionType = pPr?.['w:sectPr']?.['w:type']?.['@_w:val'];
+        if (pPr?.['w:sectPr'] && sectionType !== 'continuous') {
+          pageBreakPending = true;
+        }
+
+        if (runs.some(run => run.text.trim())) {
+          const imagesBefore = [...pendingImages, ...leadingImages];
+          paragraphs.push({
+            runs,
+            styleId,
+            styleName: styleId ? styleNames.get(styleId) : undefined,
+            pageBreakBefore,
+            ...(imagesBefore.length > 0 && { imagesBefore }),
+          });
+          pendingImages = trailingImages;
+        } else {
+          pendingImages.push(...leadingImages, ...trailingImages);
+          if (pageBreakBefore) {
+            pageBreakPending = true;
+          }
         }
       }
+
+      if (pendingImages.length > 0 && paragraphs.length > 0) {
+        paragraphs[paragraphs.length - 1].imagesAfter = pendingImages;
+      }
       
       return paragraphs;
     } catch (error) {
@@ -306,6 +523,109 @@ export class DocumentParser {
     }
   }
 
+  /**
+   * Map style ids (as paragraphs reference them) to the names Word shows, e.g. "Heading1" to "heading 1"
+   */
+  private async readStyleNames(zip: JSZip, parser: XMLParser): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+    if (!stylesXml) return names;
+
+    const styles = parser.parse(stylesXml)['w:styles']?.['w:style'];
+    for (const style of Array.isArray(styles) ? styles : [styles].filter(Boolean)) {
+      const name = style['w:name']?.['@_w:val'];
+      if (style['@_w:styleId'] && name) {
+        names.set(style['@_w:styleId'], name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Map relationship ids to the files they point to inside the package, e.g. "rId5" to "word/media/image1.png"
+   * Linked (external) pictures aren't in the file and are left out
+   */
+  private async readRelationships(zip: JSZip, parser: XMLParser): Promise<Map<string, string>> {
+    const targets = new Map<string, string>();
+    const relsXml = await zip.file('word/_rels/document.xml.rels')?.async('string');
+    if (!relsXml) return targets;
+
+    const relationships = parser.parse(relsXml)['Relationships']?.['Relationship'];
+    for (const relationship of Array.isArray(relationships) ? relationships : [relationships].filter(Boolean)) {
+      const target: string | undefined = relationship['@_Target'];
+      if (!relationship['@_Id'] || !target || relationship['@_TargetMode'] === 'External') continue;
+      targets.set(relationship['@_Id'], target.startsWith('/') ? target.slice(1) : path.posix.normalize(`word/${target}`));
+    }
+    return targets;
+  }
+
+  /**
+   * Pictures in a run: DrawingML (w:drawing) with its alt text, or legacy VML (w:pict)
+   */
+  private async extractImagesFromRun(
+    run: any,
+    zip: JSZip,
+    relationships: Map<string, string>,
+    imageFiles: Map<string, SourceImage | null>
+  ): Promise<SourceImage[]> {
+    if (!run['w:drawing'] && !run['w:pict'] && !run['mc:AlternateContent']) return [];
+
+    const images: SourceImage[] = [];
+    for (const reference of this.findImageReferences(run, '')) {
+      if (!imageFiles.has(reference.relationshipId)) {
+        imageFiles.set(reference.relationshipId, await this.readImageFile(zip, relationships.get(reference.relationshipId)));
+      }
+      const image = imageFiles.get(reference.relationshipId);
+      if (image) images.push({ ...image, alt: reference.alt });
+    }
+    return images;
+  }
+
+  private findImageReferences(node: any, alt: string): { relationshipId: string; alt: string }[] {
+    if (!node || typeof node !== 'object') return [];
+    if (Array.isArray(node)) return node.flatMap(child => this.findImageReferences(child, alt));
+
+    // Alt text is on the drawing's docPr ("descr", else "title"), or on a VML shape
+    const docPr = node['wp:docPr'];
+    const nodeAlt = String(docPr?.['@_descr'] || docPr?.['@_title'] || node['@_alt'] || alt).trim();
+    const relationshipId = node['a:blip']?.['@_r:embed'] ?? node['v:imagedata']?.['@_r:id'];
+    if (relationshipId) {
+      return [{ relationshipId, alt: nodeAlt || String(node['v:imagedata']?.['@_o:title'] ?? '').trim() }];
+    }
+
+    return Object.entries(node)
+      // Alternate content repeats the picture as a fallback for older readers
+      .filter(([key]) => !key.startsWith('@_') && key !== 'mc:Fallback')
+      .flatMap(([, child]) => this.findImageReferences(child, nodeAlt));
+  }
+
+  private async readImageFile(zip: JSZip, target: string | undefined): Promise<SourceImage | null> {
+    const file = target ? zip.file(target) : null;
+    if (!target || !file) {
+      console.warn(`DOCX picture not found: ${target ?? 'missing relationship'}`);
+      return null;
+    }
+    const mediaType = IMAGE_MEDIA_TYPES[path.posix.extname(target).toLowerCase()];
+    if (!mediaType) {
+      // Word's EMF/WMF vector formats can't be shown in a browser
+      console.warn(`Skipping DOCX picture in an unsupported format: ${target}`);
+      return null;
+    }
+    return { fileName: path.posix.basename(target), mediaType, alt: '', data: await file.async('nodebuffer') };
+  }
+
+  private hasPageBreak(run: any): boolean {
+    const breaks = run['w:br'] === undefined ? [] : Array.isArray(run['w:br']) ? run['w:br'] : [run['w:br']];
+    return breaks.some((br: any) => br?.['@_w:type'] === 'page');
+  }
+
+  /**
+   * Word on/off properties are on when present, unless their value says otherwise
+   */
+  private isOnOffSet(property: any): boolean {
+    return property !== undefined && !['0', 'false', 'off'].includes(property?.['@_w:val']);
+  }
+
   /**
    * Extract text from a word run element
    */
@@ -363,7 +683,7 @@ export class DocumentParser {
   /**
    * Fallback HTML parsing method (kept as backup)
    */
-  private async parseFormattedContentFallback(buffer: Buffer): Promise<ParsedElement[]> {
+  private async parseFormattedContentFallback(buffer: Buffer, profile: CompiledParsingProfile): Promise<ParsedElement[]> {
     try {
       // Use mammoth to extract structured content with formatting
       const result = await mammoth.convertToHtml(buffer as any, {
@@ -385,16 +705,17 @@ export class DocumentParser {
       for (const paragraph of paragraphs) {
         const cleanText = this.extractTextFromHtml(paragraph);
         if (cleanText.trim()) {
-          const fontSize = this.estimateFontSizeHeuristic(paragraph, cleanText);
+          const fontSize = this.estimateFontSizeHeuristic(paragraph, cleanText, profile);
           const isBold = paragraph.includes('<strong>') || paragraph.includes('<b>');
-          const isHeading = this.isLikelyHeading(cleanText, fontSize, isBold);
+          const detectedBy = this.matchHeadingRule(cleanText, fontSize, isBold, {}, profile);
           
           elements.push({
             text: cleanText.trim(),
             fontSize,
             isBold,
-            isHeading,
-            elementType: isHeading ? 'heading' : 'paragraph'
+            isHeading: !!detectedBy,
+            ...(detectedBy && { detectedBy }),
+            elementType: detectedBy ? 'heading' : 'paragraph'
           });
         }
       }
@@ -409,7 +730,7 @@ export class DocumentParser {
   /**
    * Heuristic font size estimation (fallback method)
    */
-  private estimateFontSizeHeuristic(htmlContent: string, text: string): number {
+  private estimateFontSizeHeuristic(htmlContent: string, text: string, profile: CompiledParsingProfile): number {
     // Look for explicit style information
     const styleMatch = htmlContent.match(/font-size:\s*(\d+)pt/i);
     if (styleMatch) {
@@ -420,56 +741,89 @@ export class DocumentParser {
     const isBold = htmlContent.includes('<strong>') || htmlContent.includes('<b>');
     const isUpperCase = text === text.toUpperCase() && text.length > 2;
     const isShort = text.length < 50;
-    const hasChapterKeywords = /^(capítulo|capítulo\s+\d+|chapter)/i.test(text.trim());
+    const hasChapterKeywords = profile.chapterPatterns.some(pattern => pattern.regex.test(text.trim()));
+    const chapterFontSize = profile.profile.chapterFontSize ?? profile.profile.bodyFontSize;
 
     // Heuristic font size estimation
     if (hasChapterKeywords || (isBold && isShort && isUpperCase)) {
-      return this.CHAPTER_FONT_SIZE; // Likely chapter heading
+      return chapterFontSize; // Likely chapter heading
     } else if (isBold && isShort) {
       return 14; // Likely subheading
     } else {
-      return this.BODY_FONT_SIZE; // Default body text
+      return profile.profile.bodyFontSize; // Default body text
     }
   }
 
   /**
-   * Determine if text is likely a heading based on multiple factors
+   * Find the profile rule, if any, that makes a paragraph a chapter heading
+   * Rules are tried from the most explicit (a heading style) to the most guessed (bold text)
    */
-  private isLikelyHeading(text: string, fontSize: number, isBold: boolean): boolean {
-    const hasChapterKeywords = /^(capítulo|capítulo\s+\d+|chapter)/i.test(text.trim());
-    const isShort = text.length < 100;
-    const isLargeFontSize = fontSize >= (this.CHAPTER_FONT_SIZE - this.TOLERANCE);
-    const endsWithoutPunctuation = !/[.!?]$/.test(text.trim());
-
-    return hasChapterKeywords || 
-           (isLargeFontSize && isShort && endsWithoutPunctuation) ||
-           (isBold && isShort && endsWithoutPunctuation && fontSize >= 14);
+  private matchHeadingRule(
+    text: string,
+    fontSize: number,
+    isBold: boolean,
+    style: Pick<DocxParagraph, 'styleId' | 'styleName'>,
+    profile: CompiledParsingProfile
+  ): ChapterDetection | null {
+    const trimmed = text.trim();
+    if (trimmed.length >= profile.profile.maxHeadingLength) return null;
+
+    const styleName = [style.styleName, style.styleId].find(name => name && profile.headingStyles.has(name.toLowerCase()));
+    if (styleName) {
+      return { rule: 'heading_style', detail: `Paragraph style "${styleName}"` };
+    }
+
+    const pattern = profile.chapterPatterns.find(candidate => candidate.regex.test(trimmed));
+    if (pattern) {
+      return { rule: 'chapter_pattern', detail: `Matches pattern "${pattern.source}"` };
+    }
+
+    if (/[.!?]$/.test(trimmed)) return null; // Sentences aren't titles
+
+    const { chapterFontSize, fontSizeTolerance, boldHeadingFontSize } = profile.profile;
+    if (chapterFontSize !== null && fontSize >= chapterFontSize - fontSizeTolerance) {
+      return { rule: 'font_size', detail: `${fontSize}pt text (chapter titles from ${chapterFontSize}pt)` };
+    }
+    if (boldHeadingFontSize !== null && isBold && fontSize >= boldHeadingFontSize) {
+      return { rule: 'bold_heading', detail: `Bold ${fontSize}pt text` };
+    }
+    return null;
   }
 
   /**
-   * Detect chapters based on font size analysis and content structure
+   * Detect chapters from the headings the profile found, and page breaks when it splits on them
    */
-  private detectChapters(elements: ParsedElement[]): ChapterData[] {
+  private detectChapters(elements: ParsedElement[], profile: CompiledParsingProfile): ChapterData[] {
     const chapters: ChapterData[] = [];
     let currentChapter: ChapterData | null = null;
     let chapterIndex = 0;
 
     for (const element of elements) {
-      if (element.isHeading) {
+      const detectedBy: ChapterDetection | null = element.detectedBy
+        ?? (profile.profile.splitOnPageBreaks && element.pageBreakBefore
+          ? { rule: 'page_break', detail: 'Starts after a page break' }
+          : null);
+
+      if (detectedBy) {
         // Save previous chapter if exists
         if (currentChapter && currentChapter.content.length > 0) {
           chapters.push(currentChapter);
         }
 
+        // A page that opens with a short line without final punctuation is titled by it
+        const isTitle = element.isHeading ||
+          (element.text.length < profile.profile.maxHeadingLength && !/[.!?]$/.test(element.text));
+
         // Start new chapter
         chapterIndex++;
         currentChapter = {
           id: `chapter_${chapterIndex}`,
-          title: element.text,
+          title: isTitle ? element.text : '', // Untitled pages are named once numbered
           indexInBook: chapterIndex,
-          content: [element],
+          content: [isTitle ? { ...element, isHeading: true, elementType: 'heading' } : element],
           wordCount: 0,
-          sentences: []
+          sentences: [],
+          detectedBy
         };
       } else if (currentChapter) {
         // Add content to current chapter
@@ -483,7 +837,8 @@ export class DocumentParser {
             indexInBook: 0,
             content: [element],
             wordCount: 0,
-            sentences: []
+            sentences: [],
+            detectedBy: { rule: 'leading_content', detail: 'Text before the first chapter heading' }
           };
         }
       }
@@ -494,27 +849,71 @@ export class DocumentParser {
       chapters.push(currentChapter);
     }
 
-    // Validate chapters and filter out very short ones
-    return chapters.filter(chapter => {
-      const totalText = chapter.content.map(c => c.text).join(' ');
-      return totalText.trim().length > 50; // Minimum chapter length
-    });
+    // Validate chapters and filter out very short ones (a title page, an empty page), numbering the rest without gaps
+    let number = 0;
+    return chapters
+      .filter(chapter => this.hasEnoughText(chapter))
+      .map(chapter => {
+        if (chapter.indexInBook === 0) return chapter; // The introduction keeps its own id
+        number++;
+        return { ...chapter, id: `chapter_${number}`, title: chapter.title || `Capítulo ${number}`, indexInBook: number };
+      });
+  }
+
+  /**
+   * Place the pictures of Word paragraphs by the index of the body paragraph they precede
+   */
+  private imagesFromElements(content: ParsedElement[]): ChapterImage[] {
+    const images: ChapterImage[] = [];
+    let paragraphIndex = 0;
+    for (const element of content) {
+      images.push(...(element.imagesBefore ?? []).map(image => ({ ...image, id: '', paragraphIndex })));
+      if (!element.isHeading) paragraphIndex++;
+      images.push(...(element.imagesAfter ?? []).map(image => ({ ...image, id: '', paragraphIndex })));
+    }
+    return images;
+  }
+
+  private hasEnoughText(chapter: ChapterData): boolean {
+    const totalText = chapter.content.map(c => c.text).join(' ');
+    return totalText.trim().length > 50; // Minimum chapter length
   }
 
   /**
    * Process chapter content for Spanish language features
    */
-  private async processChapterContent(chapter: ChapterData, index: number): Promise<ChapterData> {
+  private async processChapterContent(chapter: ChapterData, index: number, profile: CompiledParsingProfile): Promise<ChapterData> {
     try {
       // Combine all chapter text (excluding the title)
       const bodyElements = chapter.content.filter(c => !c.isHeading);
       const fullText = bodyElements.map(c => c.text).join(' ');
 
       // Separate main content from activities
-      const { mainContent, activitiesContent } = this.separateContentFromActivities(fullText);
+      const { mainContent, activitiesContent } = this.separateContentFromActivities(fullText, profile);
       
-      // Parse activities if they exist
-      const activities = activitiesContent ? this.parseActivities(activitiesContent, chapter.id) : [];
+      // Parse activities if they exist; Markdown chapters arrive with theirs already parsed
+      const activities = activitiesContent ? this.parseActivities(activitiesContent, chapter.id, profile) : (chapter.activities ?? []);
+
+      // Dialogue is detected per paragraph, so keep the paragraphs that make up the main content
+      const paragraphs: ChapterParagraph[] = [];
+      let remaining = mainContent.length;
+      for (const element of bodyElements) {
+        if (remaining <= 0) break;
+        const text = element.text.slice(0, remaining);
+        const italics = element.italics
+          ?.map(range => ({ start: range.start, end: Math.min(range.end, text.length) }))
+          .filter(range => range.end > range.start);
+        paragraphs.push({ text, ...(italics?.length && { italics }) });
+        remaining -= element.text.length + 1; // +1 for the joining space
+      }
+      const segments = speakerSegmentService.detectSegments(paragraphs.map(paragraph => paragraph.text));
+
+      // Pictures keep their place between paragraphs; those among the activities go after the text
+      const images = (chapter.images ?? this.imagesFromElements(chapter.content)).map((image, imageIndex) => ({
+        ...image,
+        id: `${chapter.id}_image_${imageIndex + 1}`,
+        paragraphIndex: Math.min(image.paragraphIndex, paragraphs.length),
+      }));
 
       // Spanish sentence segmentation for main content only
       const sentences = this.segmentSpanishSentences(mainContent);
@@ -545,7 +944,10 @@ export class DocumentParser {
         ...chapter,
         sentences: processedSentences,
         wordCount,
-        activities
+        activities,
+        segments,
+        paragraphs,
+        images
       };
     } catch (error) {
       console.error(`Error processing chapter ${index}:`, error);
@@ -622,7 +1024,7 @@ export class DocumentParser {
           words.push({
             id: `word_${i}_${normalizedTerm}`,
             text: term,
-            lemma: this.getSpanishLemma(normalizedTerm),
+            lemma: getSpanishStem(normalizedTerm),
             pos: this.getPartOfSpeech(term),
             startIndex: wordIndex,
             endIndex: wordIndex + term.length,
@@ -641,24 +1043,6 @@ export class DocumentParser {
     }
   }
 
-  /**
-   * Get Spanish lemma (root form) of a word
-   */
-  private getSpanishLemma(word: string): string {
-    // Use Spanish-specific stemmer
-    const stemmed = natural.PorterStemmerEs.stem(word);
-    
-    // Handle common Spanish verb endings
-    if (word.endsWith('ando') || word.endsWith('endo')) {
-      return word.slice(0, -4) + 'ar'; // Gerund to infinitive approximation
-    }
-    if (word.endsWith('ado') || word.endsWith('ido')) {
-      return word.slice(0, -3) + 'ar'; // Past participle approximation
-    }
-    
-    return stemmed || word;
-  }
-
   /**
    * Get basic part of speech for Spanish words
    */
@@ -685,12 +1069,15 @@ export class DocumentParser {
   }
 
   /**
-   * Get definition for a Spanish word (placeholder - integrate with dictionary API)
+   * Get definition for a Spanish word from the offline dictionary
+   * Never goes to the network so parsing works offline and stays fast
    */
   private async getWordDefinition(word: string): Promise<string | undefined> {
-    // Placeholder - in production, integrate with Spanish dictionary API
-    // For now, return undefined to indicate no definition available
-    return undefined;
+    if (!this.definitionCache.has(word)) {
+      const entry = await dictionaryService.lookup(word, {}, { offlineOnly: true });
+      this.definitionCache.set(word, entry?.english);
+    }
+    return this.definitionCache.get(word);
   }
 
   /**
@@ -723,7 +1110,11 @@ export class DocumentParser {
               ...(word.definition && { definition: word.definition }),
               ...(word.audioTimestamp && { audioTimestamp: word.audioTimestamp })
             }))
-          }))
+          })),
+          segments: chapter.segments ?? [],
+          paragraphs: (chapter.paragraphs ?? []).map((paragraph, index) => ({ id: index, ...paragraph })),
+          // Image files are stored separately; this places them in the text
+          images: (chapter.images ?? []).map(({ data, ...image }) => image)
         }
       }))
     };
@@ -760,15 +1151,16 @@ export class DocumentParser {
   }
 
   /**
-   * Separate main content from activities based on activity patterns
+   * Separate main content from activities at the first activity marker of the profile
    */
-  private separateContentFromActivities(fullText: string): { mainContent: string; activitiesContent: string | null } {
-    // Activity pattern: Look for "Part 1" or "Part 1 –" which marks the start of activities
-    const activityStartPattern = /\bPart\s+1\s*[–-]?\s*Vocabulary\s+Support/i;
-    const match = fullText.match(activityStartPattern);
+  private separateContentFromActivities(fullText: string, profile: CompiledParsingProfile): { mainContent: string; activitiesContent: string | null } {
+    // Activities normally open with "Part 1 – Vocabulary Support", but any section may come first
+    const starts = profile.activityMarkers
+      .map(marker => fullText.match(marker.regex)?.index)
+      .filter((start): start is number => start !== undefined);
     
-    if (match) {
-      const splitIndex = match.index!;
+    if (starts.length > 0) {
+      const splitIndex = Math.min(...starts);
       const mainContent = fullText.substring(0, splitIndex).trim();
       const activitiesContent = fullText.substring(splitIndex).trim();
       
@@ -786,12 +1178,12 @@ export class DocumentParser {
   /**
    * Parse all activity types from activities content
    */
-  private parseActivities(activitiesContent: string, chapterId: string): ChapterActivity[] {
+  private parseActivities(activitiesContent: string, chapterId: string, profile: CompiledParsingProfile): ChapterActivity[] {
     const activities: ChapterActivity[] = [];
     
     try {
       // Split activities by Part markers
-      const activitySections = this.splitIntoActivitySections(activitiesContent);
+      const activitySections = this.splitIntoActivitySections(activitiesContent, profile);
       
       for (const [partNumber, activityType, content] of activitySections) {
         const activity = this.parseActivitySection(partNumber, activityType, content, chapterId);
@@ -812,22 +1204,13 @@ export class DocumentParser {
   /**
    * Split activities content into individual activity sections
    */
-  private splitIntoActivitySections(activitiesContent: string): Array<[number, string, string]> {
+  private splitIntoActivitySections(activitiesContent: string, profile: CompiledParsingProfile): Array<[number, string, string]> {
     const sections: Array<[number, string, string]> = [];
     
-    // Patterns for each activity type
-    const activityPatterns = [
-      { part: 1, type: 'vocabulary_support', pattern: /Part\s+1\s*[–-]?\s*Vocabulary\s+Support/i },
-      { part: 2, type: 'comprehension_questions', pattern: /Part\s+2\s*[–-]?\s*Comprehension\s+Questions/i },
-      { part: 3, type: 'true_false', pattern: /Part\s+3\s*[–-]?\s*True\s+or\s+False/i },
-      { part: 4, type: 'matching', pattern: /Part\s+4\s*[–-]?\s*Vocabulary\s+Match\s+up/i },
-      { part: 5, type: 'writing_prompts', pattern: /Part\s+5\s*[–-]?\s*Writing\s+Prompts/i }
-    ];
-    
     // Find start positions of each activity section
     const sectionMarkers: Array<{ part: number; type: string; start: number }> = [];
     
-    for (const { part, type, pattern } of activityPatterns) {
+    for (const { part, activityType: type, regex: pattern } of profile.activityMarkers) {
       const match = activitiesContent.match(pattern);
       if (match && match.index !== undefined) {
         sectionMarkers.push({ part, type, start: match.index });
@@ -2,14 +2,15 @@ import WebSocket from 'ws';
 import { writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { whisperTimingService } from './whisperTimingService';
+import { getMp3Duration, concatMp3 } from './mp3Slicer';
 
-interface ElevenLabsTimingData {
+export interface ElevenLabsTimingData {
   chars: string[];
   charStartTimesMs: number[];
   charsDurationsMs: number[];
 }
 
-interface WordTiming {
+export interface WordTiming {
   text: string;
   startTime: number;  // Backend field name
   endTime: number;    // Backend field name
@@ -18,9 +19,11 @@ interface WordTiming {
   charStart: number;
   charEnd: number;
   isPause?: boolean; // Mark injected pauses to prevent frontend highlighting
+  isEstimated?: boolean; // Timing interpolated from a longer span rather than measured per word
+  speaker?: string; // Voice that reads the word in multi-voice narration
 }
 
-interface AudioGenerationResult {
+export interface AudioGenerationResult {
   audioUrl: string;
   timingData: {
     words: WordTiming[];
@@ -29,10 +32,68 @@ interface AudioGenerationResult {
   };
 }
 
+// One piece of a longer narration, synthesised on its own and joined with mergeChunkedResults
+export interface NarrationChunk {
+  audioBuffer: Buffer;
+  words: WordTiming[];                  // Times relative to the chunk's audio, offsets relative to its text
+  charAlignment?: ElevenLabsTimingData; // Character timings, when the provider reports them
+  textStartIndex: number;               // Where the chunk's text starts in the full text
+  textEndIndex: number;
+  speaker?: string;
+}
+
+/**
+ * Stitch separately synthesised chunks into one MP3
+ * Every time (startTime/endTime, start/end and character timings) is shifted by the
+ * decoded length of the audio before it, so word timings stay continuous across joins
+ */
+export function mergeChunkedResults(chunks: NarrationChunk[]): { audio: Buffer; timingData: AudioGenerationResult['timingData'] } {
+  console.log('Merging chunked results with cumulative timing...');
+
+  let timeOffset = 0;
+  const words: WordTiming[] = [];
+  const charAlignment: ElevenLabsTimingData = { chars: [], charStartTimesMs: [], charsDurationsMs: [] };
+
+  for (const chunk of chunks) {
+    // The audio itself is the source of truth; fall back to the last word when it can't be decoded
+    const decodedDuration = getMp3Duration(chunk.audioBuffer);
+    const duration = decodedDuration > 0 ? decodedDuration : Math.max(0, ...chunk.words.map(word => word.endTime));
+
+    for (const word of chunk.words) {
+      words.push({
+        ...word,
+        startTime: word.startTime + timeOffset,
+        endTime: word.endTime + timeOffset,
+        start: word.startTime + timeOffset,
+        end: word.endTime + timeOffset,
+        charStart: word.charStart + chunk.textStartIndex,
+        charEnd: word.charEnd + chunk.textStartIndex,
+        ...(chunk.speaker ? { speaker: chunk.speaker } : {}),
+      });
+    }
+
+    if (chunk.charAlignment) {
+      charAlignment.chars.push(...chunk.charAlignment.chars);
+      charAlignment.charStartTimesMs.push(...chunk.charAlignment.charStartTimesMs.map(time => time + timeOffset * 1000));
+      charAlignment.charsDurationsMs.push(...chunk.charAlignment.charsDurationsMs);
+    }
+
+    timeOffset += duration;
+  }
+
+  console.log(`Merged ${chunks.length} chunks into ${words.length} words with total duration ${timeOffset}s`);
+
+  return {
+    audio: chunks.length === 1 ? chunks[0].audioBuffer : concatMp3(chunks.map(chunk => chunk.audioBuffer)),
+    timingData: { words, totalDuration: timeOffset, charAlignment },
+  };
+}
+
 export class ElevenLabsService {
   private apiKey: string;
   private voiceId: string = 'VR6AewLTigWG4xSOukaG'; // Spanish female voice
   private modelId: string = 'eleven_multilingual_v2';
+  private voiceSettingsOverride: Record<string, unknown> | null = null; // From tts_configs.voiceSettings
 
   constructor() {
     this.apiKey = process.env.ELEVENLABS_API_KEY!;
@@ -46,6 +107,18 @@ export class ElevenLabsService {
     console.log('Voice set to:', voiceId);
   }
 
+  setVoiceSettings(voiceSettings: Record<string, unknown> | null) {
+    this.voiceSettingsOverride = voiceSettings;
+    if (voiceSettings) {
+      console.log('Voice settings override:', voiceSettings);
+    }
+  }
+
+  // Configured settings win over each generation method's tuned defaults
+  private withVoiceSettings(defaults: Record<string, unknown>): Record<string, unknown> {
+    return { ...defaults, ...this.voiceSettingsOverride };
+  }
+
   // ===== ELEVENLABS PROJECTS API FOR NATIVE PLAYER =====
   
   async createAudioNativeProjectForPerfectTiming(text: string, title: string): Promise<{ projectId: string; audioUrl: string }> {
@@ -58,12 +131,12 @@ export class ElevenLabsService {
       formData.append('text', text);
       formData.append('voice_id', this.voiceId);
       formData.append('model_id', this.modelId);
-      formData.append('voice_settings', JSON.stringify({
+      formData.append('voice_settings', JSON.stringify(this.withVoiceSettings({
         stability: 1.0,           // Maximum clarity for Spanish learning
         similarity_boost: 0.3,    // Slower, more deliberate speech  
         style: 0.1,               // Minimal style for natural pacing
         use_speaker_boost: false
-      }));
+      })));
 
       const createProjectResponse = await fetch('https://api.elevenlabs.io/v1/audio-native', {
         method: 'POST',
@@ -255,7 +328,18 @@ export class ElevenLabsService {
     }
     
     // FIX 2: Merge with clean text (no pause positions needed)
-    return this.mergeChunkedResults(chunkResults, fullTextClean, [], chapterId);
+    const merged = mergeChunkedResults(chunkResults.map(chunk => ({
+      audioBuffer: chunk.audioBuffer,
+      words: this.processTimingData(fullTextClean.substring(chunk.textStartIndex, chunk.textEndIndex), chunk.timingData),
+      charAlignment: chunk.timingData,
+      textStartIndex: chunk.textStartIndex,
+      textEndIndex: chunk.textEndIndex,
+    })));
+
+    return {
+      audioUrl: this.saveAudioFile(merged.audio, chapterId),
+      timingData: merged.timingData,
+    };
   }
 
   private async generateSingleChunkWithTiming(text: string, chunkId: string): Promise<{
@@ -282,12 +366,12 @@ export class ElevenLabsService {
         // FIX: Use empty text to avoid off-by-one character alignment bug
         ws.send(JSON.stringify({
           text: "",
-          voice_settings: {
+          voice_settings: this.withVoiceSettings({
             stability: 0.95,        // Maximum stability for slowest speech
             similarity_boost: 0.70, // Lower for more deliberate pacing
             style: 0.05,            // Minimum style for slowest, clearest speech
             use_speaker_boost: false // Disable for natural slow pacing
-          },
+          }),
           xi_api_key: this.apiKey
         }));
 
@@ -359,104 +443,10 @@ export class ElevenLabsService {
     });
   }
 
-  private mergeChunkedResults(
-    chunkResults: Array<{
-      audioBuffer: Buffer;
-      timingData: ElevenLabsTimingData;
-      textStartIndex: number;
-      textEndIndex: number;
-    }>,
-    fullText: string,
-    pausePositions: number[],
-    chapterId: string
-  ): AudioGenerationResult {
-    console.log('Merging chunked results with cumulative timing...');
-    
-    // Merge all audio buffers
-    const mergedAudio = Buffer.concat(chunkResults.map(r => r.audioBuffer));
-    const audioUrl = this.saveAudioFile(mergedAudio, chapterId);
-    
-    // FIX 3: Add duration validation for chunks
-    for (let i = 0; i < chunkResults.length; i++) {
-      const chunk = chunkResults[i];
-      const chunkDuration = this.calculateTotalDuration(chunk.timingData);
-      if (chunkDuration < 1.0) { // Chunks should be at least 1 second
-        console.warn(`Chunk ${i} has unrealistic duration: ${chunkDuration}s - may indicate timing issues`);
-      }
-    }
-    
-    // Build cumulative timing data
-    let cumulativeTimeOffset = 0;
-    const allWords: WordTiming[] = [];
-    const mergedCharAlignment: ElevenLabsTimingData = {
-      chars: [],
-      charStartTimesMs: [],
-      charsDurationsMs: []
-    };
-    
-    for (let i = 0; i < chunkResults.length; i++) {
-      const chunk = chunkResults[i];
-      const chunkText = fullText.substring(chunk.textStartIndex, chunk.textEndIndex);
-      
-      // Process words for this chunk with cumulative timing
-      const chunkWords = this.processTimingData(chunkText, chunk.timingData);
-      
-      // Apply cumulative time offset to chunk words
-      const offsetWords = chunkWords.map(word => ({
-        ...word,
-        startTime: word.startTime + cumulativeTimeOffset,
-        endTime: word.endTime + cumulativeTimeOffset,
-        charStart: word.charStart + chunk.textStartIndex,
-        charEnd: word.charEnd + chunk.textStartIndex
-      }));
-      
-      allWords.push(...offsetWords);
-      
-      // Calculate actual chunk duration from timing data
-      const chunkDuration = this.calculateTotalDuration(chunk.timingData);
-      
-      // FIX 2: No more pause tokens in clean text approach
-      if (i < chunkResults.length - 1) {
-        // Add natural pause between chunks (but not in text alignment)
-        const pauseDuration = 0.5; // 500ms pause between chunks
-        cumulativeTimeOffset += chunkDuration + pauseDuration;
-      } else {
-        // Last chunk - just add its duration
-        cumulativeTimeOffset += chunkDuration;
-      }
-      
-      // Merge character alignment data with time offsets
-      const timeOffsetMs = (cumulativeTimeOffset - chunkDuration) * 1000;
-      
-      if (chunk.timingData.chars) {
-        mergedCharAlignment.chars.push(...chunk.timingData.chars);
-      }
-      if (chunk.timingData.charStartTimesMs) {
-        mergedCharAlignment.charStartTimesMs.push(...chunk.timingData.charStartTimesMs.map(t => t + timeOffsetMs));
-      }
-      if (chunk.timingData.charsDurationsMs) {
-        mergedCharAlignment.charsDurationsMs.push(...chunk.timingData.charsDurationsMs);
-      }
-    }
-    
-    console.log(`Merged ${chunkResults.length} chunks into ${allWords.length} words with total duration ${cumulativeTimeOffset}s`);
-    console.log(`Expected speech rate: ${allWords.length / cumulativeTimeOffset} words/second (target: 0.5-0.7)`);
-    console.log(`Character alignment: input=${fullText.length}, aligned=${mergedCharAlignment.chars.length}`);
-    
-    return {
-      audioUrl,
-      timingData: {
-        words: allWords,
-        totalDuration: cumulativeTimeOffset,
-        charAlignment: mergedCharAlignment
-      }
-    };
-  }
-
   async generateAudioWithTiming(text: string, chapterId: string): Promise<AudioGenerationResult & { projectId?: string }> {
     console.log(`Generating Spanish TTS for chapter: ${chapterId}`);
     console.log(`Text length: ${text.length} characters`);
-    console.log('Using Spanish voice: Isabel ID:', this.voiceId);
+    console.log('Using voice ID:', this.voiceId);
     
     // Skip problematic WebSocket approach - go directly to reliable HTTP TTS + AI timing
     console.log('=== RELIABLE HTTP TTS + AI TIMING APPROACH ===');
@@ -469,20 +459,8 @@ export class ElevenLabsService {
       
     } catch (httpError) {
       console.error('HTTP TTS + AI timing failed:', httpError);
-      
-      // Only fallback to simple timing if absolutely necessary
-      console.warn('Creating fallback timing data as last resort...');
-      const audioUrl = `audio/fallback_${chapterId}_${Date.now()}.mp3`; // Placeholder
-      const wordTimings = this.createFallbackTimings(text);
-      
-      return {
-        audioUrl,
-        timingData: {
-          words: wordTimings,
-          totalDuration: wordTimings.length * 1.5, // 1.5s per word for 0.67 words/second
-          charAlignment: { chars: [], charStartTimesMs: [], charsDurationsMs: [] }
-        }
-      };
+      // No audio was produced - let the caller pick another provider instead of storing a missing file
+      throw httpError;
     }
   }
 
@@ -505,12 +483,12 @@ export class ElevenLabsService {
       body: JSON.stringify({
         text: textWithPauses,
         model_id: this.modelId,
-        voice_settings: {
+        voice_settings: this.withVoiceSettings({
           stability: 0.95,          // High stability for clear learning speech
           similarity_boost: 0.15,   // Much lower for very slow, deliberate speech
           style: 0.05,              // Minimal style for slowest educational pacing
           use_speaker_boost: false  // Keep disabled for natural learning pace
-        }
+        })
       }),
     });
 
@@ -550,7 +528,8 @@ export class ElevenLabsService {
         end: w.end,         // Frontend expected field name
         charStart: w.textStart,
         charEnd: w.textEnd,
-        isPause: false
+        isPause: false,
+        ...(w.isEstimated ? { isEstimated: true } : {})
       }));
       
       return {
@@ -912,42 +891,14 @@ export class ElevenLabsService {
       text: word,
       startTime: index * averageWordDuration,
       endTime: (index + 1) * averageWordDuration,
+      start: index * averageWordDuration,
+      end: (index + 1) * averageWordDuration,
       charStart: text.indexOf(word), // Better character positioning
-      charEnd: text.indexOf(word) + word.length - 1
+      charEnd: text.indexOf(word) + word.length - 1,
+      isEstimated: true // Replaced by measured times when the chapter is aligned (see ForcedAlignmentService)
     }));
   }
 
-  private calculateTotalDuration(timingData: ElevenLabsTimingData | null): number {
-    if (!timingData || !timingData.charStartTimesMs || !timingData.charsDurationsMs) {
-      console.warn('No timing data for duration calculation');
-      return 0;
-    }
-
-    // FIX: NaN-safe duration calculation
-    const startTimes = timingData.charStartTimesMs.filter(t => !isNaN(t) && isFinite(t));
-    const durations = timingData.charsDurationsMs.filter(d => !isNaN(d) && isFinite(d));
-    
-    if (startTimes.length === 0 || durations.length === 0) {
-      console.warn('No valid timing values for duration calculation');
-      return 0;
-    }
-
-    // Calculate total duration from last valid character
-    const lastStartTime = Math.max(...startTimes);
-    const lastDuration = durations[durations.length - 1] || 100; // Fallback 100ms
-    
-    const totalDurationMs = lastStartTime + lastDuration;
-    const totalDurationSec = totalDurationMs / 1000;
-    
-    if (isNaN(totalDurationSec) || !isFinite(totalDurationSec)) {
-      console.warn('Calculated duration is NaN or infinite, using fallback');
-      return 5.0; // 5 second fallback
-    }
-    
-    console.log(`Calculated duration: ${totalDurationSec.toFixed(2)}s from ${startTimes.length} valid timing points`);
-    return totalDurationSec;
-  }
-
   // Alternative HTTP method for simpler integration
   async generateAudioSimple(text: string, chapterId: string): Promise<AudioGenerationResult> {
     try {
@@ -963,12 +914,12 @@ export class ElevenLabsService {
         body: JSON.stringify({
           text: text,
           model_id: this.modelId,
-          voice_settings: {
+          voice_settings: this.withVoiceSettings({
             stability: 0.85,        // Higher stability = slower, more consistent speech
             similarity_boost: 0.75, // Slightly lower for natural flow
             style: 0.15,            // Lower style = slower, more deliberate pace
             use_speaker_boost: false // Disable for more natural pacing
-          }
+          })
         })
       });
 
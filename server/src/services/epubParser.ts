@@ -0,0 +1,418 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+
+// A range of characters in a paragraph
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Paragraph or heading text with its italics
+export interface EpubBlock {
+  kind: 'paragraph' | 'heading';
+  text: string;
+  italics: TextRange[];
+}
+
+// An image embedded in a chapter, placed before the block at paragraphIndex (or at the end)
+export interface EpubImage {
+  fileName: string;
+  mediaType: string;
+  alt: string;
+  paragraphIndex: number;
+  data: Buffer;
+}
+
+export interface EpubChapter {
+  title: string;
+  source: 'toc' | 'spine'; // A table of contents entry, or a whole spine document when there is no usable table of contents
+  blocks: EpubBlock[];
+  images: EpubImage[];
+}
+
+export interface EpubDocument {
+  title?: string;
+  author?: string;
+  language?: string;
+  chapters: EpubChapter[];
+}
+
+interface ManifestItem {
+  id: string;
+  href: string; // Path inside the archive
+  mediaType: string;
+  properties: string[];
+}
+
+// A table of contents entry: where a chapter starts
+interface TocEntry {
+  title: string;
+  href: string;
+  fragment?: string;
+}
+
+// Block or image read from a spine document, with the element ids seen up to it
+type SpineItem =
+  | { type: 'block'; block: EpubBlock; anchors: string[] }
+  | { type: 'image'; image: Omit<EpubImage, 'paragraphIndex'>; anchors: string[] };
+
+// Output of fast-xml-parser with preserveOrder: one key for the tag (or #text) plus ':@' for attributes
+type XmlNode = Record<string, unknown>;
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'dt', 'dd', 'pre']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const ITALIC_TAGS = new Set(['em', 'i', 'cite', 'var']);
+const INLINE_TAGS = new Set(['a', 'span', 'em', 'i', 'strong', 'b', 'cite', 'var', 'small', 'sup', 'sub', 'u', 'q', 'abbr', 'ruby', 'br']);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'rt', 'rp']);
+const XHTML_MEDIA_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+export const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Reads EPUB 2 and 3 books into chapters of paragraphs
+ * Chapter boundaries come from the table of contents (nav document or NCX) mapped onto
+ * the spine; without one, every spine document is a chapter
+ */
+export class EpubParser {
+  private xmlParser = new XMLParser({
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    trimValues: false,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    htmlEntities: true,
+  });
+
+  async parse(buffer: Buffer): Promise<EpubDocument> {
+    const zip = await JSZip.loadAsync(buffer);
+
+    const container = await this.readXml(zip, 'META-INF/container.xml');
+    const rootfile = this.findAll(container, 'rootfile')[0];
+    const opfPath = rootfile ? this.attr(rootfile, 'full-path') : undefined;
+    if (!opfPath) {
+      throw new Error('EPUB container does not name a package document');
+    }
+
+    const opf = await this.readXml(zip, opfPath);
+    const opfDir = path.posix.dirname(opfPath);
+
+    const manifest = new Map<string, ManifestItem>();
+    for (const item of this.findAll(opf, 'item')) {
+      const id = this.attr(item, 'id');
+      const href = this.attr(item, 'href');
+      if (!id || !href) continue;
+      manifest.set(id, {
+        id,
+        href: this.resolveHref(opfDir, href),
+        mediaType: this.attr(item, 'media-type') ?? '',
+        properties: (this.attr(item, 'properties') ?? '').split(/\s+/).filter(Boolean),
+      });
+    }
+    const manifestByHref = new Map([...manifest.values()].map(item => [item.href, item]));
+
+    const spineNode = this.findAll(opf, 'spine')[0];
+    const navItem = [...manifest.values()].find(item => item.properties.includes('nav'));
+    const spine = this.findAll(opf, 'itemref')
+      .filter(itemref => this.attr(itemref, 'linear') !== 'no')
+      .map(itemref => manifest.get(this.attr(itemref, 'idref') ?? ''))
+      .filter((item): item is ManifestItem => !!item && XHTML_MEDIA_TYPES.has(item.mediaType) && item !== navItem);
+
+    if (spine.length === 0) {
+      throw new Error('EPUB spine has no readable documents');
+    }
+
+    const toc = await this.readToc(zip, manifest, navItem, spineNode ? this.attr(spineNode, 'toc') : undefined);
+    const spineHrefs = new Set(spine.map(item => item.href));
+    const entries = toc.filter(entry => spineHrefs.has(entry.href));
+
+    const chapters: EpubChapter[] = [];
+    let current: EpubChapter | null = null;
+
+    for (const item of spine) {
+      const documentEntries = entries.filter(entry => entry.href === item.href);
+      const items = await this.readSpineDocument(zip, item, manifestByHref);
+
+      if (entries.length === 0) {
+        // No usable table of contents: one chapter per document, titled by its first heading
+        const heading = items.find(entry => entry.type === 'block' && entry.block.kind === 'heading');
+        current = { title: heading?.type === 'block' ? heading.block.text : `Chapter ${chapters.length + 1}`, source: 'spine', blocks: [], images: [] };
+        chapters.push(current);
+      }
+
+      for (const spineItem of items) {
+        const starting = documentEntries.find(entry =>
+          !entry.fragment ? spineItem === items[0] : spineItem.anchors.includes(entry.fragment)
+        );
+        if (starting) {
+          current = { title: starting.title, source: 'toc', blocks: [], images: [] };
+          chapters.push(current);
+        }
+        // Front matter before the first table of contents entry isn't part of any chapter
+        if (!current) continue;
+
+        if (spineItem.type === 'block') {
+          current.blocks.push(spineItem.block);
+        } else {
+          current.images.push({ ...spineItem.image, paragraphIndex: current.blocks.length });
+        }
+      }
+    }
+
+    return {
+      title: this.text(this.findAll(opf, 'title')[0]).trim() || undefined,
+      author: this.text(this.findAll(opf, 'creator')[0]).trim() || undefined,
+      language: this.text(this.findAll(opf, 'language')[0]).trim() || undefined,
+      chapters: chapters.map(chapter => this.withoutTitleHeading(chapter)),
+    };
+  }
+
+  /**
+   * Top-level table of contents entries, from the EPUB 3 nav document or the EPUB 2 NCX
+   */
+  private async readToc(zip: JSZip, manifest: Map<string, ManifestItem>, navItem: ManifestItem | undefined, ncxId: string | undefined): Promise<TocEntry[]> {
+    if (navItem) {
+      const nav = await this.readXml(zip, navItem.href);
+      const tocNav = this.findAll(nav, 'nav').find(node => (this.attr(node, 'type') ?? '').split(/\s+/).includes('toc'));
+      const list = tocNav ? this.children(tocNav).find(child => this.tagName(child) === 'ol') : undefined;
+      if (list) {
+        const entries = this.children(list)
+          .filter(child => this.tagName(child) === 'li')
+          .map(li => this.children(li).find(child => this.tagName(child) === 'a'))
+          .filter((anchor): anchor is XmlNode => !!anchor && !!this.attr(anchor, 'href'))
+          .map(anchor => this.tocEntry(path.posix.dirname(navItem.href), this.attr(anchor, 'href')!, this.text(anchor)));
+        if (entries.length > 0) return entries;
+      }
+    }
+
+    const ncxItem = (ncxId ? manifest.get(ncxId) : undefined)
+      ?? [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (!ncxItem) return [];
+
+    const ncx = await this.readXml(zip, ncxItem.href);
+    const navMap = this.findAll(ncx, 'navMap')[0];
+    if (!navMap) return [];
+
+    return this.children(navMap)
+      .filter(child => this.tagName(child) === 'navPoint')
+      .map(navPoint => {
+        const label = this.children(navPoint).find(child => this.tagName(child) === 'navLabel');
+        const content = this.children(navPoint).find(child => this.tagName(child) === 'content');
+        const src = content ? this.attr(content, 'src') : undefined;
+        return src ? this.tocEntry(path.posix.dirname(ncxItem.href), src, label ? this.text(label) : '') : null;
+      })
+      .filter((entry): entry is TocEntry => entry !== null);
+  }
+
+  private tocEntry(baseDir: string, href: string, title: string): TocEntry {
+    const [file, fragment] = href.split('#');
+    return { title: title.replace(/\s+/g, ' ').trim(), href: this.resolveHref(baseDir, file), fragment: fragment || undefined };
+  }
+
+  /**
+   * Paragraphs, headings and images of one spine document in reading order
+   */
+  private async readSpineDocument(zip: JSZip, item: ManifestItem, manifestByHref: Map<string, ManifestItem>): Promise<SpineItem[]> {
+    const document = await this.readXml(zip, item.href);
+    const body = this.findAll(document, 'body')[0];
+    if (!body) return [];
+
+    const baseDir = path.posix.dirname(item.href);
+    const items: SpineItem[] = [];
+    const anchors: string[] = []; // Ids seen since the last item, so fragments map to the next block
+    let runs: { text: string; italic: boolean }[] = [];
+    let kind: EpubBlock['kind'] = 'paragraph';
+
+    const flushBlock = () => {
+      const block = this.toBlock(runs, kind);
+      runs = [];
+      if (block) {
+        items.push({ type: 'block', block, anchors: anchors.splice(0) });
+      }
+    };
+
+    const walk = (node: XmlNode, italic: boolean, inBlock: boolean) => {
+      const tag = this.tagName(node);
+      if (tag === '#text') {
+        // Text straight inside a div or section reads as a paragraph of its own
+        if (inBlock || String(node['#text']).trim()) {
+          runs.push({ text: String(node['#text']), italic });
+        }
+        return;
+      }
+      if (!tag || SKIPPED_TAGS.has(tag)) return;
+
+      const startsBlock = !inBlock && BLOCK_TAGS.has(tag);
+      if (startsBlock || (!inBlock && runs.length > 0 && !INLINE_TAGS.has(tag))) {
+        flushBlock();
+        kind = startsBlock && HEADING_TAGS.has(tag) ? 'heading' : 'paragraph';
+      }
+
+      const id = this.attr(node, 'id');
+      if (id) anchors.push(id);
+
+      if (tag === 'br') {
+        runs.push({ text: '\n', italic });
+        return;
+      }
+
+      if (tag === 'img' || tag === 'image') {
+        const src = this.attr(node, 'src') ?? this.attr(node, 'href');
+        if (src) {
+          // Images split the paragraph they sit in, keeping their place in the text
+          flushBlock();
+          const alt = this.attr(node, 'alt') ?? '';
+          items.push({ type: 'image', image: { fileName: src, mediaType: '', alt, data: Buffer.alloc(0) }, anchors: anchors.splice(0) });
+        }
+        return;
+      }
+
+      for (const child of this.children(node)) {
+        walk(child, italic || ITALIC_TAGS.has(tag), inBlock || startsBlock);
+      }
+
+      if (startsBlock) {
+        flushBlock();
+        kind = 'paragraph';
+      }
+    };
+
+    for (const child of this.children(body)) {
+      walk(child, false, false);
+    }
+    flushBlock();
+
+    // Load the image files now that the document is read
+    for (const spineItem of items) {
+      if (spineItem.type !== 'image') continue;
+      const href = this.resolveHref(baseDir, spineItem.image.fileName.split('#')[0]);
+      const file = zip.file(href);
+      if (!file) {
+        console.warn(`EPUB image not found: ${href}`);
+        continue;
+      }
+      spineItem.image = {
+        ...spineItem.image,
+        fileName: path.posix.basename(href),
+        mediaType: manifestByHref.get(href)?.mediaType || IMAGE_MEDIA_TYPES[path.posix.extname(href).toLowerCase()] || 'application/octet-stream',
+        data: await file.async('nodebuffer'),
+      };
+    }
+
+    return items.filter(spineItem => spineItem.type === 'block' || spineItem.image.data.length > 0);
+  }
+
+  /**
+   * Join text runs into a paragraph, collapsing whitespace the way a browser would
+   * and keeping italic runs as character ranges
+   */
+  private toBlock(runs: { text: string; italic: boolean }[], kind: EpubBlock['kind']): EpubBlock | null {
+    let text = '';
+    const italics: TextRange[] = [];
+
+    for (const run of runs) {
+      let piece = run.text === '\n' ? '\n' : run.text.replace(/\s+/g, ' ');
+      if (piece !== '\n' && (text.endsWith(' ') || text.endsWith('\n') || text.length === 0)) {
+        piece = piece.replace(/^ /, '');
+      }
+      if (piece === '\n') {
+        text = text.replace(/ $/, '');
+      }
+      if (!piece) continue;
+
+      const start = text.length;
+      text += piece;
+      if (run.italic && piece.trim()) {
+        const last = italics[italics.length - 1];
+        if (last && last.end === start) {
+          last.end = text.length;
+        } else {
+          italics.push({ start, end: text.length });
+        }
+      }
+    }
+
+    const trimmed = text.trimEnd();
+    if (!trimmed.trim()) return null;
+
+    return {
+      kind,
+      text: trimmed,
+      italics: italics
+        .map(range => ({ start: range.start, end: Math.min(range.end, trimmed.length) }))
+        .map(range => {
+          // Spaces at the edges of an italic run aren't italic
+          const value = trimmed.slice(range.start, range.end);
+          return { start: range.start + (value.length - value.trimStart().length), end: range.end - (value.length - value.trimEnd().length) };
+        })
+        .filter(range => range.end > range.start),
+    };
+  }
+
+  // The chapter title is usually repeated as the first heading of its text
+  private withoutTitleHeading(chapter: EpubChapter): EpubChapter {
+    const first = chapter.blocks[0];
+    if (first?.kind === 'heading' && first.text.replace(/\s+/g, ' ').toLowerCase() === chapter.title.toLowerCase()) {
+      return {
+        ...chapter,
+        blocks: chapter.blocks.slice(1),
+        images: chapter.images.map(image => ({ ...image, paragraphIndex: Math.max(image.paragraphIndex - 1, 0) })),
+      };
+    }
+    return chapter;
+  }
+
+  private async readXml(zip: JSZip, filePath: string): Promise<XmlNode[]> {
+    const content = await zip.file(filePath)?.async('string');
+    if (content === undefined) {
+      throw new Error(`Missing file in EPUB: ${filePath}`);
+    }
+    return this.xmlParser.parse(content) as XmlNode[];
+  }
+
+  private resolveHref(baseDir: string, href: string): string {
+    return path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href.split('?')[0])));
+  }
+
+  private tagName(node: XmlNode): string | undefined {
+    return Object.keys(node).find(key => key !== ':@');
+  }
+
+  private children(node: XmlNode): XmlNode[] {
+    const tag = this.tagName(node);
+    const value = tag ? node[tag] : undefined;
+    return Array.isArray(value) ? (value as XmlNode[]) : [];
+  }
+
+  private attr(node: XmlNode, name: string): string | undefined {
+    const attributes = node[':@'] as Record<string, string> | undefined;
+    return attributes?.[`@_${name}`];
+  }
+
+  // Depth-first search for elements by tag name
+  private findAll(nodes: XmlNode[] | XmlNode, tag: string): XmlNode[] {
+    const found: XmlNode[] = [];
+    const visit = (node: XmlNode) => {
+      if (this.tagName(node) === tag) found.push(node);
+      this.children(node).forEach(visit);
+    };
+    (Array.isArray(nodes) ? nodes : [nodes]).forEach(visit);
+    return found;
+  }
+
+  private text(node: XmlNode | undefined): string {
+    if (!node) return '';
+    if (this.tagName(node) === '#text') return String(node['#text']);
+    return this.children(node).map(child => this.text(child)).join('');
+  }
+}
+
+export default EpubParser;
@@ -0,0 +1,252 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AudioGenerationResult, WordTiming } from './elevenLabsService';
+import { runCommand } from './commandRunner';
+import { splitWords, toWordTiming, TextSpan } from './ttsProvider';
+import { globalSequenceAlignment, wordsMatch } from './wordAlignment';
+
+// A word the recogniser heard, in seconds from the start of the audio
+export interface RecognizedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ForcedAlignmentResult {
+  timingData: AudioGenerationResult['timingData'];
+  matchedWords: number; // Words of the text whose times were heard rather than interpolated
+  exactMatches: number; // Of those, words the recogniser spelled the same way as the text
+}
+
+// whisper.cpp JSON output (-oj); with -ml 1 every segment is a single word
+interface WhisperCppOutput {
+  transcription?: { offsets?: { from: number; to: number }; text?: string }[];
+}
+
+/**
+ * Computes word timings for a recording of a known text without any online service
+ * A local whisper.cpp binary transcribes the audio with word timestamps, then the heard
+ * words are lined up with the chapter text by global sequence alignment. Text words the
+ * recogniser missed get times interpolated between their neighbours and are marked isEstimated
+ */
+export class ForcedAlignmentService {
+  readonly engine = 'whisper.cpp';
+  private readonly BINARY = process.env.ALIGNER_BINARY || 'whisper-cli';
+  private readonly MODEL = process.env.ALIGNER_MODEL || join(process.cwd(), 'models', 'whisper', 'ggml-base.bin');
+  private readonly FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly LANGUAGE = process.env.ALIGNER_LANGUAGE || 'es';
+  private readonly THREADS = process.env.ALIGNER_THREADS || '2';
+  private readonly WINDOW_WORDS = 240; // Text words aligned at once; memory grows with the square of this
+  private readonly WINDOW_OVERLAP = 60; // Words at the end of a window are aligned again with the next one
+  private readonly MIN_MATCH_RATE = 0.3; // Below this the recording is probably not of this text
+
+  /**
+   * Length of a PCM WAV file in seconds
+   */
+  private wavDuration(buffer: Buffer): number {
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString('ascii', offset, offset + 4);
+      const size = Math.min(buffer.readUInt32LE(offset + 4), buffer.length - offset - 8);
+
+      if (id === 'fmt ') {
+        byteRate = buffer.readUInt32LE(offset + 16);
+      } else if (id === 'data' && byteRate > 0) {
+        return size / byteRate;
+      }
+
+      offset += 8 + size + (size % 2);
+    }
+
+    throw new Error('Decoded audio has no samples');
+  }
+
+  /**
+   * Transcribe audio with word timestamps
+   * Any format ffmpeg reads is accepted; it is converted to the 16 kHz mono WAV whisper.cpp expects.
+   * With a range only that stretch is transcribed, and the words keep times from the start of the audio
+   */
+  async recognize(audio: Buffer, prompt?: string, range?: { start: number; end: number }): Promise<{ words: RecognizedWord[]; duration: number }> {
+    if (!existsSync(this.MODEL)) {
+      throw new Error(`Alignment model not found at ${this.MODEL}; set ALIGNER_MODEL to a whisper.cpp ggml model`);
+    }
+
+    const workDir = mkdtempSync(join(tmpdir(), 'alignment-'));
+    try {
+      const inputPath = join(workDir, 'narration');
+      const wavPath = join(workDir, 'narration.wav');
+      const outputBase = join(workDir, 'transcript');
+      writeFileSync(inputPath, audio);
+
+      const offset = range ? range.start : 0;
+      await runCommand(this.FFMPEG, [
+        '-y', '-loglevel', 'error',
+        '-i', inputPath,
+        ...(range ? ['-ss', range.start.toFixed(3), '-to', range.end.toFixed(3)] : []),
+        '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+        wavPath,
+      ]);
+      const duration = this.wavDuration(readFileSync(wavPath));
+
+      await runCommand(this.BINARY, [
+        '-m', this.MODEL,
+        '-f', wavPath,
+        '-l', this.LANGUAGE,
+        '-t', this.THREADS,
+        '-ml', '1', '-sow', // One segment per word
+        '-oj', '-of', outputBase,
+        '-np',
+        ...(prompt ? ['--prompt', prompt] : []),
+      ]);
+
+      const output = JSON.parse(readFileSync(`${outputBase}.json`, 'utf8')) as WhisperCppOutput;
+      const words: RecognizedWord[] = [];
+      for (const segment of output.transcription ?? []) {
+        if (!segment.offsets || !segment.text) continue;
+        const start = offset + segment.offsets.from / 1000;
+        const end = Math.max(offset + segment.offsets.to / 1000, start);
+
+        // A segment can still hold several words (numbers, contractions); share its time by length
+        const segmentWords = splitWords(segment.text);
+        const totalLength = segmentWords.reduce((sum, word) => sum + word.text.length, 0);
+        let cursor = start;
+        for (const word of segmentWords) {
+          const wordEnd = cursor + (end - start) * (word.text.length / totalLength);
+          words.push({ text: word.text, start: cursor, end: wordEnd });
+          cursor = wordEnd;
+        }
+      }
+
+      return { words, duration };
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Index of the heard word each text word aligns with (-1 when it was not heard)
+   * The text is aligned in overlapping windows that follow the recording, so a
+   * chapter of any length is aligned in bounded memory
+   */
+  private alignToText(textWords: TextSpan[], heard: RecognizedWord[]): number[] {
+    const matches: number[] = new Array(textWords.length).fill(-1);
+    const step = this.WINDOW_WORDS - this.WINDOW_OVERLAP;
+    let heardFrom = 0;
+
+    for (let from = 0; from < textWords.length; from += step) {
+      const window = textWords.slice(from, from + this.WINDOW_WORDS);
+      const isLast = from + this.WINDOW_WORDS >= textWords.length;
+      // Readers add and skip words, so give the heard side room to run ahead of the text
+      const heardWindow = heard.slice(heardFrom, heardFrom + Math.ceil(window.length * 1.5) + 40);
+      const { alignment1 } = globalSequenceAlignment(window.map(word => word.text), heardWindow.map(word => word.text));
+
+      // The end of a window aligns against words that belong to the next one, so only its start is kept
+      const keep = isLast ? window.length : step;
+      let lastHeard = -1;
+      for (let index = 0; index < keep; index++) {
+        if (alignment1[index] !== -1) {
+          matches[from + index] = heardFrom + alignment1[index];
+          lastHeard = alignment1[index];
+        }
+      }
+      if (lastHeard !== -1) {
+        heardFrom += lastHeard + 1;
+      }
+      if (isLast) break;
+    }
+
+    return matches;
+  }
+
+  /**
+   * Time text words between from and until with the words heard there
+   */
+  private timeWords(textWords: TextSpan[], heard: RecognizedWord[], from: number, until: number): { words: WordTiming[]; matchedWords: number; exactMatches: number } {
+    const matches = this.alignToText(textWords, heard);
+    const words: WordTiming[] = [];
+    let lastEnd = from;
+    let matchedWords = 0;
+    let exactMatches = 0;
+
+    for (let index = 0; index < textWords.length;) {
+      if (matches[index] !== -1) {
+        const match = heard[matches[index]];
+        const start = Math.min(Math.max(match.start, lastEnd), until);
+        const end = Math.min(Math.max(match.end, start), until);
+        words.push(toWordTiming(textWords[index], start, end));
+        lastEnd = end;
+        matchedWords++;
+        if (wordsMatch(textWords[index].text, match.text)) exactMatches++;
+        index++;
+        continue;
+      }
+
+      // A run of words that were not heard: spread them by length between the neighbouring matches
+      let runEnd = index;
+      while (runEnd < textWords.length && matches[runEnd] === -1) runEnd++;
+      const run = textWords.slice(index, runEnd);
+      const runUntil = runEnd < textWords.length ? Math.min(heard[matches[runEnd]].start, until) : until;
+      const span = Math.max(runUntil - lastEnd, 0);
+      const totalLength = run.reduce((sum, word) => sum + word.text.length, 0);
+
+      let cursor = lastEnd;
+      for (const word of run) {
+        const wordEnd = cursor + span * (word.text.length / totalLength);
+        words.push(toWordTiming(word, cursor, wordEnd, true));
+        cursor = wordEnd;
+      }
+      lastEnd = Math.max(cursor, lastEnd);
+      index = runEnd;
+    }
+
+    return { words, matchedWords, exactMatches };
+  }
+
+  /**
+   * Word timings for a text from the words heard in its recording
+   */
+  alignWords(text: string, heard: RecognizedWord[], duration: number): ForcedAlignmentResult {
+    const { words, matchedWords, exactMatches } = this.timeWords(splitWords(text), heard, 0, duration);
+
+    return {
+      timingData: { words, totalDuration: duration, charAlignment: { chars: [], charStartTimesMs: [], charsDurationsMs: [] } },
+      matchedWords,
+      exactMatches,
+    };
+  }
+
+  /**
+   * Word timings for a recording of a known text
+   * Fails when too few words line up, which usually means the audio belongs to another chapter
+   */
+  async align(audio: Buffer, text: string): Promise<ForcedAlignmentResult> {
+    // The start of the text steers the recogniser towards the book's names and spelling
+    const { words: heard, duration } = await this.recognize(audio, text.slice(0, 200));
+    const result = this.alignWords(text, heard, duration);
+
+    const totalWords = result.timingData.words.length;
+    const matchRate = totalWords > 0 ? result.matchedWords / totalWords : 0;
+    console.log(`🎯 Aligned ${result.matchedWords}/${totalWords} words (${result.exactMatches} exact) over ${duration.toFixed(1)}s of audio`);
+
+    if (totalWords > 0 && matchRate < this.MIN_MATCH_RATE) {
+      throw new Error(`Only ${Math.round(matchRate * 100)}% of the chapter's words were heard in the narration; check that the audio belongs to this chapter`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Word timings for a stretch of a recording, used to repair part of a chapter's timings
+   * The words keep their character offsets in the chapter text; times are from the start of the audio
+   */
+  async alignSpan(audio: Buffer, textWords: TextSpan[], start: number, end: number): Promise<{ words: WordTiming[]; matchedWords: number; exactMatches: number }> {
+    const { words: heard } = await this.recognize(audio, textWords.map(word => word.text).join(' ').slice(0, 200), { start, end });
+    const result = this.timeWords(textWords, heard, start, end);
+    console.log(`🎯 Aligned ${result.matchedWords}/${textWords.length} words (${result.exactMatches} exact) between ${start.toFixed(1)}s and ${end.toFixed(1)}s`);
+    return result;
+  }
+}
+
+export const forcedAlignmentService = new ForcedAlignmentService();
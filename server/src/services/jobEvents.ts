@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { Client } from 'pg';
+import { sql } from 'drizzle-orm';
+import { db } from '../db/index';
+import { processingJobs } from '../db/schema';
+
+type ProcessingJob = typeof processingJobs.$inferSelect;
+
+// Progress of one job at one moment, as streamed to the admin
+export interface JobEvent {
+  jobId: number;
+  jobType: ProcessingJob['jobType'];
+  bookId: string | null;
+  bookSourceId: number | null;
+  chapterId: string | null;
+  status: ProcessingJob['status'];
+  progress: number;
+  message: string | null;
+  errorMessage: string | null;
+  attempts: number;
+  maxAttempts: number;
+  at: string;
+}
+
+const CHANNEL = 'processing_job_events';
+
+/**
+ * Publishes job progress through Postgres NOTIFY and fans it out to subscribers
+ * Going through the database means events reach the API even when jobs run in a
+ * separate worker process (npm run worker)
+ */
+export class JobEventService {
+  private readonly RECONNECT_DELAY_MS = 5 * 1000;
+
+  private emitter = new EventEmitter();
+  private listener: Client | null = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor() {
+    this.emitter.setMaxListeners(0); // One per open event stream
+  }
+
+  toEvent(job: ProcessingJob): JobEvent {
+    const metadata = (job.metadata as { lastMessage?: string } | null) ?? {};
+    return {
+      jobId: job.id,
+      jobType: job.jobType,
+      bookId: job.bookId,
+      bookSourceId: job.bookSourceId,
+      chapterId: job.chapterId,
+      status: job.status,
+      progress: job.progress,
+      message: metadata.lastMessage ?? null,
+      errorMessage: job.errorMessage,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Announce the current state of a job
+   * Results aren't included (NOTIFY payloads are limited to 8000 bytes); streams load them
+   * from the job once it has finished
+   */
+  async publish(job: ProcessingJob): Promise<void> {
+    try {
+      await db.execute(sql`select pg_notify(${CHANNEL}, ${JSON.stringify(this.toEvent(job))})`);
+    } catch (error) {
+      console.error(`Failed to publish event for job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Receive events matching a filter until the returned function is called
+   */
+  async subscribe(filter: (event: JobEvent) => boolean, onEvent: (event: JobEvent) => void): Promise<() => void> {
+    await this.listen();
+
+    const handler = (event: JobEvent) => {
+      if (filter(event)) onEvent(event);
+    };
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  private async listen(): Promise<void> {
+    if (this.listener) return;
+
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = new Client({ connectionString: process.env.DATABASE_URL });
+
+        client.on('notification', notification => {
+          if (notification.channel !== CHANNEL || !notification.payload) return;
+          try {
+            this.emitter.emit('event', JSON.parse(notification.payload));
+          } catch (error) {
+            console.error('Ignoring malformed job event:', error);
+          }
+        });
+
+        client.on('error', error => {
+          console.error('Job event listener disconnected:', error);
+          this.listener = null;
+          client.end().catch(() => undefined);
+
+          // Open streams keep their subscriptions; reconnect for them
+          if (this.emitter.listenerCount('event') > 0) {
+            setTimeout(() => this.listen().catch(reconnectError => console.error('Failed to reconnect job event listener:', reconnectError)), this.RECONNECT_DELAY_MS);
+          }
+        });
+
+        try {
+          await client.connect();
+          await client.query(`LISTEN ${CHANNEL}`);
+        } catch (error) {
+          await client.end().catch(() => undefined);
+          throw error;
+        }
+        this.listener = client;
+        console.log('📡 Listening for job events');
+      })().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    await this.connecting;
+  }
+}
+
+export const jobEventService = new JobEventService();
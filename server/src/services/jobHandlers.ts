@@ -0,0 +1,15 @@
+import { jobWorker } from './jobWorker';
+import { parsingJobHandler } from './jobProcessor';
+import { ttsJobService } from './ttsJobs';
+import { alignmentJobService } from './alignmentJobs';
+
+/**
+ * Register the handler of every job type with the job worker
+ * Done in every process, including API servers that don't run the worker, so that
+ * cancelling a pending job still runs its handler's cleanup
+ */
+export function registerJobHandlers(): void {
+  jobWorker.registerHandler('parsing', parsingJobHandler);
+  jobWorker.registerHandler('tts_generation', ttsJobService);
+  jobWorker.registerHandler('alignment', alignmentJobService);
+}
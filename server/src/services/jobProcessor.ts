@@ -1,7 +1,12 @@
 import { db } from '../db/index.js';
 import { processingJobs, bookSources, books, chapters, chapterActivities } from '../db/schema.js';
 import { eq, and } from 'drizzle-orm';
-import DocumentParser from './documentParser.js';
+import DocumentParser, { ParsedDocument } from './documentParser.js';
+import { jobWorker, JobContext, JobHandler, JobLeaseLostError } from './jobWorker.js';
+import { jobEventService } from './jobEvents.js';
+import { manuscriptReimportService, ReimportPlan } from './manuscriptReimport.js';
+import { ObjectStorageService } from '../objectStorage.js';
+import { createHash } from 'crypto';
 import fs from 'fs';
 import path from 'path';
 
@@ -13,13 +18,14 @@ interface JobProgress {
   result?: any;
 }
 
-interface ParsingJobResult {
+export interface ParsingJobResult {
   chapters: Array<{
     id: string;
     title: string;
     indexInBook: number;
     jsonContent: any;
     wordCount: number;
+    detectedBy?: { rule: string; detail: string }; // The parsing profile rule that started the chapter
     activities?: Array<{
       activityType: 'vocabulary_support' | 'comprehension_questions' | 'true_false' | 'matching' | 'writing_prompts';
       title: string;
@@ -33,7 +39,18 @@ interface ParsingJobResult {
     totalWords: number;
     totalSentences: number;
     processingTime: number;
+    format?: 'docx' | 'epub' | 'markdown';
+    parsingProfile?: string;
+    title?: string;
+    author?: string;
+    bookDetails?: {
+      title?: string;
+      author?: string;
+      difficultyLevel?: string;
+      language?: string;
+    };
   };
+  reimport?: ReimportPlan; // Set instead of creating chapters when the book already had some
 }
 
 /**
@@ -78,6 +95,8 @@ export class JobProcessor {
       }).returning();
 
       console.log(`Created parsing job ${newJob[0].id} for book source ${bookSourceId}`);
+      await jobEventService.publish(newJob[0]);
+      jobWorker.wake();
       return newJob[0].id;
     } catch (error) {
       console.error('Error creating parsing job:', error);
@@ -87,11 +106,12 @@ export class JobProcessor {
 
   /**
    * Execute a parsing job
+   * Failures are thrown for the job worker, which retries or fails the job
    */
-  async executeParsingJob(jobId: number): Promise<ParsingJobResult> {
+  async executeParsingJob(jobId: number, context?: JobContext): Promise<ParsingJobResult> {
     try {
       // Update job status to running
-      await this.updateJobProgress(jobId, 5, 'running', 'Starting document parsing...');
+      await this.updateJobProgress(context ?? jobId, 5, 'running', 'Starting document parsing...');
 
       // Get job details
       const job = await db
@@ -115,7 +135,7 @@ export class JobProcessor {
       }
 
       // Update progress
-      await this.updateJobProgress(jobId, 10, 'running', 'Reading document file...');
+      await this.updateJobProgress(context ?? jobId, 10, 'running', 'Reading document file...');
 
       // Construct file path
       const filePath = path.resolve(process.cwd(), bookSource.fileUrl);
@@ -125,13 +145,15 @@ export class JobProcessor {
       }
 
       // Update progress
-      await this.updateJobProgress(jobId, 20, 'running', 'Analyzing document structure...');
+      await context?.throwIfCancelled();
+      await this.updateJobProgress(context ?? jobId, 20, 'running', 'Analyzing document structure...');
 
       // Parse the document
-      const parsedDocument = await this.parser.parseDocument(filePath);
+      const parsedDocument = await this.parser.parseDocument(filePath, bookSource.parsingProfile);
 
       // Update progress
-      await this.updateJobProgress(jobId, 60, 'running', 'Processing chapters...');
+      await context?.throwIfCancelled();
+      await this.updateJobProgress(context ?? jobId, 60, 'running', 'Processing chapters...');
 
       // Validate parsed document
       const validation = this.parser.validateParsedDocument(parsedDocument);
@@ -139,8 +161,17 @@ export class JobProcessor {
         throw new Error(`Document validation failed: ${validation.errors.join(', ')}`);
       }
 
+      // Pictures are stored before the chapter JSON is written, which links them
+      const imageCount = parsedDocument.chapters.reduce((sum, chapter) => sum + (chapter.images?.length ?? 0), 0);
+      if (imageCount > 0) {
+        await context?.throwIfCancelled();
+        await this.updateJobProgress(context ?? jobId, 70, 'running', `Storing ${imageCount} images...`);
+        await this.storeChapterImages(parsedDocument, bookSource.uploadedByAdminId);
+      }
+
       // Update progress
-      await this.updateJobProgress(jobId, 80, 'running', 'Generating output format...');
+      await context?.throwIfCancelled();
+      await this.updateJobProgress(context ?? jobId, 80, 'running', 'Generating output format...');
 
       // Generate reading JSON
       const readingJSON = this.parser.generateReadingJSON(parsedDocument);
@@ -153,11 +184,41 @@ export class JobProcessor {
           indexInBook: chapter.indexInBook,
           jsonContent: readingJSON.chapters.find((c: any) => c.id === chapter.id),
           wordCount: chapter.wordCount,
+          detectedBy: chapter.detectedBy,
           activities: chapter.activities || []
         })),
         metadata: parsedDocument.metadata
       };
 
+      // Markdown front matter sets the book's title, author, level and language
+      const bookDetails = parsedDocument.metadata.bookDetails;
+      if (bookSource.bookId && bookDetails) {
+        await this.updateJobProgress(context ?? jobId, 85, 'running', 'Applying book details from front matter...');
+        await db.update(books)
+          .set({ ...bookDetails, updatedAt: new Date() })
+          .where(eq(books.id, bookSource.bookId));
+        console.log(`Updated book ${bookSource.bookId} from front matter: ${Object.keys(bookDetails).join(', ')}`);
+      }
+
+      // Create chapters in database from parsed results before the job counts as done,
+      // so a failure here is retried instead of leaving a completed job without chapters
+      await context?.throwIfCancelled();
+      const existingChapters = bookSource.bookId
+        ? await db.select({ id: chapters.id }).from(chapters).where(eq(chapters.bookId, bookSource.bookId)).limit(1)
+        : [];
+      if (bookSource.bookId && existingChapters.length > 0) {
+        // A revised manuscript: compare it with the chapters for an admin to review instead of recreating them
+        await this.updateJobProgress(context ?? jobId, 90, 'running', 'Comparing with existing chapters...');
+        result.reimport = await manuscriptReimportService.compare(bookSource.bookId, result);
+        const pending = result.reimport.changes.filter(change => change.kind !== 'unchanged').length;
+        console.log(`Compared ${result.chapters.length} parsed chapters with book ${bookSource.bookId}: ${pending} changes to review`);
+      } else if (bookSource.bookId && result.chapters.length > 0) {
+        await this.updateJobProgress(context ?? jobId, 90, 'running', 'Creating chapters...');
+        console.log(`Creating ${result.chapters.length} chapters in database for book ${bookSource.bookId}`);
+        await this.createChaptersFromResults(bookSource.bookId, result);
+        console.log(`Successfully created chapters in database for book ${bookSource.bookId}`);
+      }
+
       // Update book source status
       await db.update(bookSources)
         .set({ 
@@ -167,55 +228,67 @@ export class JobProcessor {
         .where(eq(bookSources.id, bookSource.id));
 
       // Complete job
-      await this.updateJobProgress(jobId, 100, 'completed', 'Document parsing completed successfully', result);
+      await this.updateJobProgress(context ?? jobId, 100, 'completed', 'Document parsing completed successfully', result);
 
       console.log(`Parsing job ${jobId} completed successfully. Found ${result.chapters.length} chapters.`);
       
-      // Create chapters in database from parsed results
-      if (bookSource.bookId && result.chapters.length > 0) {
-        console.log(`Creating ${result.chapters.length} chapters in database for book ${bookSource.bookId}`);
-        await this.createChaptersFromResults(bookSource.bookId, result);
-        console.log(`Successfully created chapters in database for book ${bookSource.bookId}`);
-      }
-      
       return result;
 
     } catch (error) {
       console.error(`Error executing parsing job ${jobId}:`, error);
-      
-      // Update job status to failed
-      await this.updateJobProgress(
-        jobId, 
-        0, 
-        'failed', 
-        `Parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw error;
+    }
+  }
 
-      // Update book source status
-      const jobData = await db.select().from(processingJobs).where(eq(processingJobs.id, jobId)).limit(1);
-      if (jobData.length > 0 && jobData[0].bookSourceId) {
-        await db.update(bookSources)
-          .set({ 
-            status: 'failed',
-            updatedAt: new Date()
-          })
-          .where(eq(bookSources.id, jobData[0].bookSourceId));
+  /**
+   * Upload the document's images to object storage and set their src
+   * Files are named by their content, so a retried job or a re-imported manuscript reuses them
+   */
+  private async storeChapterImages(parsedDocument: ParsedDocument, adminId: number): Promise<void> {
+    const objectStorageService = new ObjectStorageService();
+    for (const chapter of parsedDocument.chapters) {
+      for (const image of chapter.images ?? []) {
+        const extension = path.extname(image.fileName).toLowerCase();
+        const entityId = `chapter-images/${createHash('sha256').update(image.data).digest('hex')}${extension}`;
+        try {
+          image.src = await objectStorageService.uploadObjectEntity(entityId, image.data, image.mediaType, {
+            owner: adminId.toString(),
+            visibility: 'public',
+          });
+        } catch (error) {
+          throw new Error(`Failed to store image ${image.fileName} of "${chapter.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }
-
-      throw error;
     }
   }
 
   /**
-   * Update job progress and status
+   * Mark the book source of a parsing job that gave up as failed
+   */
+  async markBookSourceFailed(bookSourceId: number | null): Promise<void> {
+    if (!bookSourceId) return;
+
+    await db.update(bookSources)
+      .set({ 
+        status: 'failed',
+        updatedAt: new Date()
+      })
+      .where(eq(bookSources.id, bookSourceId));
+  }
+
+  /**
+   * Update job progress and status, and publish it to job event streams
+   * Handlers pass their JobContext so only the worker holding the lease can update the job;
+   * once another worker has recovered it this throws JobLeaseLostError
    */
   async updateJobProgress(
-    jobId: number, 
+    job: number | JobContext,
     progress: number, 
     status: 'pending' | 'running' | 'completed' | 'failed',
     message?: string,
     result?: any
   ): Promise<void> {
+    const jobId = typeof job === 'number' ? job : job.jobId;
     try {
       const updateData: any = {
         progress,
@@ -250,12 +323,25 @@ export class JobProcessor {
         updateData.result = result;
       }
 
-      await db.update(processingJobs)
+      const updated = await db.update(processingJobs)
         .set(updateData)
-        .where(eq(processingJobs.id, jobId));
+        .where(typeof job === 'number'
+          ? eq(processingJobs.id, jobId)
+          : and(eq(processingJobs.id, jobId), eq(processingJobs.lockedBy, job.workerId), eq(processingJobs.status, 'running')))
+        .returning();
+
+      if (updated.length === 0 && typeof job !== 'number') {
+        throw new JobLeaseLostError(jobId);
+      }
+      if (updated.length > 0) {
+        await jobEventService.publish(updated[0]);
+      }
 
       console.log(`Job ${jobId} progress updated: ${progress}% - ${status} - ${message || ''}`);
     } catch (error) {
+      if (error instanceof JobLeaseLostError) {
+        throw error;
+      }
       console.error(`Error updating job progress for job ${jobId}:`, error);
     }
   }
@@ -377,55 +463,11 @@ export class JobProcessor {
   }
 
   /**
-   * Process job queue (for background processing)
+   * Cancel a job: a pending job stops right away, a running one at its next stage
    */
-  async processJobQueue(): Promise<void> {
+  async cancelJob(jobId: number): Promise<'cancelled' | 'cancelling' | null> {
     try {
-      // Get pending parsing jobs
-      const pendingJobs = await db
-        .select()
-        .from(processingJobs)
-        .where(and(
-          eq(processingJobs.status, 'pending'),
-          eq(processingJobs.jobType, 'parsing')
-        ))
-        .orderBy(processingJobs.createdAt)
-        .limit(5); // Process up to 5 jobs at a time
-
-      for (const job of pendingJobs) {
-        try {
-          console.log(`Processing job ${job.id}...`);
-          const result = await this.executeParsingJob(job.id);
-          
-          // If job completed successfully and has a bookId, create chapters
-          if (job.bookId && result.chapters.length > 0) {
-            await this.createChaptersFromResults(job.bookId, result);
-          }
-        } catch (error) {
-          console.error(`Failed to process job ${job.id}:`, error);
-          // Error handling is done in executeParsingJob
-        }
-      }
-    } catch (error) {
-      console.error('Error processing job queue:', error);
-    }
-  }
-
-  /**
-   * Cancel a job
-   */
-  async cancelJob(jobId: number): Promise<void> {
-    try {
-      await db.update(processingJobs)
-        .set({
-          status: 'failed',
-          errorMessage: 'Job cancelled by user',
-          completedAt: new Date(),
-          updatedAt: new Date()
-        })
-        .where(eq(processingJobs.id, jobId));
-
-      console.log(`Job ${jobId} cancelled`);
+      return await jobWorker.cancel(jobId);
     } catch (error) {
       console.error(`Error cancelling job ${jobId}:`, error);
       throw error;
@@ -433,4 +475,16 @@ export class JobProcessor {
   }
 }
 
+const parsingJobProcessor = new JobProcessor();
+
+/**
+ * Runs parsing jobs in the job worker
+ */
+export const parsingJobHandler: JobHandler = {
+  run: (job, context) => parsingJobProcessor.executeParsingJob(job.id, context),
+  onFailed: async (job) => {
+    await parsingJobProcessor.markBookSourceFailed(job.bookSourceId);
+  },
+};
+
 export default JobProcessor;
\ No newline at end of file
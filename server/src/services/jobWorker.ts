@@ -0,0 +1,386 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { db } from '../db/index';
+import { processingJobs } from '../db/schema';
+import { and, asc, eq, gte, inArray, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { jobEventService } from './jobEvents';
+
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type JobType = ProcessingJob['jobType'];
+
+export const CANCELLED_MESSAGE = 'Job cancelled by user';
+
+export class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+    Object.setPrototypeOf(this, JobCancelledError.prototype);
+  }
+}
+
+// The job was recovered by another worker after this one missed its heartbeats
+export class JobLeaseLostError extends Error {
+  constructor(jobId: number) {
+    super(`Lost the lease on job ${jobId}`);
+    this.name = 'JobLeaseLostError';
+    Object.setPrototypeOf(this, JobLeaseLostError.prototype);
+  }
+}
+
+export interface JobContext {
+  readonly jobId: number;
+  readonly workerId: string; // Worker holding the lease; progress updates from anyone else are refused
+  /**
+   * Call between stages: throws JobCancelledError once a cancel was requested,
+   * or JobLeaseLostError if the job was handed to another worker
+   */
+  throwIfCancelled(): Promise<void>;
+}
+
+/**
+ * Runs one type of job. Handlers mark their job completed (JobProcessor.updateJobProgress with their context);
+ * failures are thrown and the worker decides between a retry and giving up
+ */
+export interface JobHandler {
+  run(job: ProcessingJob, context: JobContext): Promise<unknown>;
+  onRetry?(job: ProcessingJob, errorMessage: string, runAfter: Date): Promise<void>;
+  onFailed?(job: ProcessingJob, errorMessage: string, cancelled: boolean): Promise<void>;
+}
+
+const JOB_TYPES: JobType[] = ['parsing', 'tts_generation', 'chapter_creation', 'alignment'];
+// Overridden per type with JOB_CONCURRENCY_<TYPE>, e.g. JOB_CONCURRENCY_TTS_GENERATION=2
+const DEFAULT_CONCURRENCY: Record<JobType, number> = { parsing: 2, tts_generation: 1, chapter_creation: 1, alignment: 1 };
+
+// Merge a progress message into the job metadata, the way JobProcessor.updateJobProgress stores it
+function withLastMessage(message: string) {
+  const patch = JSON.stringify({ lastMessage: message, lastUpdated: new Date().toISOString() });
+  return sql`coalesce(${processingJobs.metadata}, '{}'::jsonb) || ${patch}::jsonb`;
+}
+
+/**
+ * Long-running loop that executes processing_jobs
+ * Jobs are leased with SELECT … FOR UPDATE SKIP LOCKED so several workers can share the
+ * table, kept alive with heartbeats, and recovered by any worker once the heartbeats stop
+ */
+export class JobWorker {
+  private readonly POLL_INTERVAL_MS = 5 * 1000;
+  private readonly HEARTBEAT_INTERVAL_MS = 15 * 1000;
+  private readonly STALE_AFTER_MS = 90 * 1000; // A running job without a heartbeat for this long was abandoned
+  private readonly RETRY_BASE_DELAY_MS = 30 * 1000;
+  private readonly RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+  readonly workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private handlers = new Map<JobType, JobHandler>();
+  private concurrency: Record<JobType, number>;
+  private active = new Map<number, JobType>();
+  private started = false;
+  private polling = false;
+  private pollAgain = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.concurrency = { ...DEFAULT_CONCURRENCY };
+    for (const type of JOB_TYPES) {
+      const configured = parseInt(process.env[`JOB_CONCURRENCY_${type.toUpperCase()}`] ?? '', 10);
+      if (Number.isInteger(configured) && configured >= 0) {
+        this.concurrency[type] = configured;
+      }
+    }
+  }
+
+  registerHandler(jobType: JobType, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const limits = JOB_TYPES.filter(type => this.handlers.has(type)).map(type => `${type}=${this.concurrency[type]}`);
+    console.log(`🛠️ Job worker ${this.workerId} started (${limits.join(', ')})`);
+    this.wake();
+  }
+
+  /**
+   * Look for work now instead of at the next poll, e.g. right after a job was queued
+   * Does nothing in processes that don't run the worker
+   */
+  wake(): void {
+    if (!this.started) return;
+    this.poll().catch(error => console.error('Job worker poll failed:', error));
+  }
+
+  /**
+   * Cancel a job: pending jobs stop right away, running ones at their next stage
+   */
+  async cancel(jobId: number): Promise<'cancelled' | 'cancelling' | null> {
+    const now = new Date();
+    const cancelled = await db.update(processingJobs)
+      .set({
+        status: 'failed',
+        errorMessage: CANCELLED_MESSAGE,
+        cancelRequestedAt: now,
+        completedAt: now,
+        updatedAt: now,
+        metadata: withLastMessage(CANCELLED_MESSAGE),
+      })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, 'pending')))
+      .returning();
+
+    if (cancelled.length > 0) {
+      await jobEventService.publish(cancelled[0]);
+      await this.handlers.get(cancelled[0].jobType)?.onFailed?.(cancelled[0], CANCELLED_MESSAGE, true);
+      console.log(`Job ${jobId} cancelled`);
+      return 'cancelled';
+    }
+
+    const requested = await db.update(processingJobs)
+      .set({ cancelRequestedAt: now, updatedAt: now, metadata: withLastMessage('Cancelling...') })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.status, 'running')))
+      .returning();
+
+    if (requested.length > 0) {
+      await jobEventService.publish(requested[0]);
+      console.log(`Cancellation requested for running job ${jobId}`);
+      return 'cancelling';
+    }
+    return null;
+  }
+
+  private activeCount(jobType: JobType): number {
+    return [...this.active.values()].filter(type => type === jobType).length;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.polling = true;
+    try {
+      do {
+        this.pollAgain = false;
+        await this.recoverStaleJobs();
+
+        for (const type of JOB_TYPES) {
+          const handler = this.handlers.get(type);
+          const slots = this.concurrency[type] - this.activeCount(type);
+          if (!handler || slots <= 0) continue;
+
+          for (const job of await this.claimJobs(type, slots)) {
+            await jobEventService.publish(job);
+            this.execute(job, handler);
+          }
+        }
+      } while (this.pollAgain);
+    } finally {
+      this.polling = false;
+      if (this.pollTimer) clearTimeout(this.pollTimer);
+      this.pollTimer = setTimeout(() => this.wake(), this.POLL_INTERVAL_MS);
+    }
+  }
+
+  private async claimJobs(jobType: JobType, limit: number): Promise<ProcessingJob[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(
+        eq(processingJobs.jobType, jobType),
+        eq(processingJobs.status, 'pending'),
+        or(isNull(processingJobs.runAfter), lte(processingJobs.runAfter, now))
+      ))
+      .orderBy(asc(processingJobs.createdAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db.update(processingJobs)
+      .set({
+        status: 'running',
+        attempts: sql`${processingJobs.attempts} + 1`,
+        lockedBy: this.workerId,
+        heartbeatAt: now,
+        startedAt: now,
+        runAfter: null,
+        updatedAt: now,
+      })
+      .where(inArray(processingJobs.id, due))
+      .returning();
+  }
+
+  private execute(job: ProcessingJob, handler: JobHandler): void {
+    this.active.set(job.id, job.jobType);
+    console.log(`▶️ Job ${job.id} (${job.jobType}) started, attempt ${job.attempts}/${job.maxAttempts}`);
+
+    const heartbeat = setInterval(() => {
+      db.update(processingJobs)
+        .set({ heartbeatAt: new Date() })
+        .where(and(eq(processingJobs.id, job.id), eq(processingJobs.lockedBy, this.workerId)))
+        .catch(error => console.error(`Heartbeat failed for job ${job.id}:`, error));
+    }, this.HEARTBEAT_INTERVAL_MS);
+
+    const context: JobContext = {
+      jobId: job.id,
+      workerId: this.workerId,
+      throwIfCancelled: async () => {
+        const current = await db
+          .select({ status: processingJobs.status, lockedBy: processingJobs.lockedBy, cancelRequestedAt: processingJobs.cancelRequestedAt })
+          .from(processingJobs)
+          .where(eq(processingJobs.id, job.id))
+          .limit(1);
+
+        if (current.length === 0 || current[0].cancelRequestedAt) {
+          throw new JobCancelledError(job.id);
+        }
+        if (current[0].status !== 'running' || current[0].lockedBy !== this.workerId) {
+          throw new JobLeaseLostError(job.id);
+        }
+      },
+    };
+
+    (async () => {
+      try {
+        await handler.run(job, context);
+
+        // Handlers complete their job; make sure the row doesn't stay running if one didn't
+        const completed = await db.update(processingJobs)
+          .set({ status: 'completed', progress: 100, completedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(processingJobs.id, job.id), eq(processingJobs.lockedBy, this.workerId), eq(processingJobs.status, 'running')))
+          .returning();
+        if (completed.length > 0) {
+          await jobEventService.publish(completed[0]);
+        }
+        await this.release(job.id);
+      } catch (error) {
+        await this.handleFailure(job, handler, error);
+      }
+    })()
+      .catch(error => console.error(`Job worker lost track of job ${job.id}:`, error))
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.active.delete(job.id);
+        this.wake();
+      });
+  }
+
+  private async release(jobId: number): Promise<void> {
+    await db.update(processingJobs)
+      .set({ lockedBy: null, heartbeatAt: null })
+      .where(and(eq(processingJobs.id, jobId), eq(processingJobs.lockedBy, this.workerId)));
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(this.RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), this.RETRY_MAX_DELAY_MS);
+  }
+
+  private async handleFailure(job: ProcessingJob, handler: JobHandler, error: unknown): Promise<void> {
+    if (error instanceof JobLeaseLostError) {
+      console.warn(`⚠️ ${error.message}; leaving it to the worker that recovered it`);
+      return;
+    }
+
+    const cancelled = error instanceof JobCancelledError;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const owned = and(eq(processingJobs.id, job.id), eq(processingJobs.lockedBy, this.workerId));
+
+    if (!cancelled && job.attempts < job.maxAttempts) {
+      const delay = this.retryDelay(job.attempts);
+      const runAfter = new Date(Date.now() + delay);
+      console.error(`Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s:`, error);
+
+      const retried = await db.update(processingJobs)
+        .set({
+          status: 'pending',
+          runAfter,
+          errorMessage,
+          lockedBy: null,
+          heartbeatAt: null,
+          updatedAt: new Date(),
+          metadata: withLastMessage(`Attempt ${job.attempts}/${job.maxAttempts} failed: ${errorMessage}. Retrying in ${Math.round(delay / 1000)}s`),
+        })
+        .where(owned)
+        .returning();
+      if (retried.length > 0) {
+        await jobEventService.publish(retried[0]);
+        await handler.onRetry?.(retried[0], errorMessage, runAfter);
+      }
+      return;
+    }
+
+    const message = cancelled
+      ? CANCELLED_MESSAGE
+      : `Failed after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}: ${errorMessage}`;
+    console.error(`Job ${job.id} ${cancelled ? 'cancelled' : 'failed'}:`, cancelled ? '' : error);
+
+    const failed = await db.update(processingJobs)
+      .set({
+        status: 'failed',
+        errorMessage: message,
+        completedAt: new Date(),
+        lockedBy: null,
+        heartbeatAt: null,
+        updatedAt: new Date(),
+        metadata: withLastMessage(message),
+      })
+      .where(owned)
+      .returning();
+    if (failed.length > 0) {
+      await jobEventService.publish(failed[0]);
+      await handler.onFailed?.(failed[0], message, cancelled);
+    }
+  }
+
+  /**
+   * Put running jobs whose worker stopped sending heartbeats back in the queue,
+   * or fail them when they have no attempts left
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - this.STALE_AFTER_MS);
+    const stale = and(
+      eq(processingJobs.status, 'running'),
+      or(isNull(processingJobs.heartbeatAt), lt(processingJobs.heartbeatAt, staleBefore)),
+      lt(processingJobs.updatedAt, staleBefore)
+    );
+    const message = 'Worker stopped responding';
+
+    const requeued = await db.update(processingJobs)
+      .set({
+        status: 'pending',
+        runAfter: null,
+        errorMessage: message,
+        lockedBy: null,
+        heartbeatAt: null,
+        updatedAt: new Date(),
+        metadata: withLastMessage(`${message}; job requeued`),
+      })
+      .where(and(stale, lt(processingJobs.attempts, processingJobs.maxAttempts)))
+      .returning();
+
+    const failed = await db.update(processingJobs)
+      .set({
+        status: 'failed',
+        errorMessage: `${message} on the last attempt`,
+        completedAt: new Date(),
+        lockedBy: null,
+        heartbeatAt: null,
+        updatedAt: new Date(),
+        metadata: withLastMessage(`${message} on the last attempt`),
+      })
+      .where(and(stale, gte(processingJobs.attempts, processingJobs.maxAttempts)))
+      .returning();
+
+    for (const job of requeued) {
+      console.warn(`🔁 Requeued stale job ${job.id} (${job.jobType})`);
+      await jobEventService.publish(job);
+      await this.handlers.get(job.jobType)?.onRetry?.(job, message, new Date());
+    }
+    for (const job of failed) {
+      console.warn(`Stale job ${job.id} (${job.jobType}) had no attempts left`);
+      await jobEventService.publish(job);
+      await this.handlers.get(job.jobType)?.onFailed?.(job, job.errorMessage ?? message, false);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
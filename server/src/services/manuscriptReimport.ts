@@ -0,0 +1,380 @@
+import { createHash } from 'crypto';
+import { db } from '../db/index';
+import { chapters, chapterActivities, processingJobs } from '../db/schema';
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import { chapterNarrationService } from './chapterNarration';
+import { diffText, DiffPart } from './textDiff';
+import type { ParsingJobResult } from './jobProcessor';
+
+type ParsedChapter = ParsingJobResult['chapters'][number];
+
+// One chapter of a re-import: an existing chapter matched to a parsed one, or a chapter only one side has
+export interface ReimportChange {
+  key: string; // The existing chapter id, or new_<position> for a chapter only the revision has
+  kind: 'changed' | 'unchanged' | 'added' | 'removed';
+  chapterId: string | null;
+  parsedIndex: number | null; // Position in the job result's chapters
+  title: string;
+  previousTitle: string | null;
+  indexInBook: number | null;
+  previousIndexInBook: number | null;
+  textChanged: boolean;
+  titleChanged: boolean;
+  moved: boolean;
+  activitiesChanged: boolean;
+  imagesChanged: boolean; // Pictures differ while the text may not; the audio still matches
+  hasAudio: boolean;
+  wordCount: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+  diff: DiffPart[] | null; // Only when the text changed
+  preview: string | null; // Opening text of an added or removed chapter
+  baseline: string | null; // Hash of the existing chapter's JSON when compared, to catch edits made since
+}
+
+export interface ReimportPlan {
+  bookId: string;
+  comparedAt: string;
+  changes: ReimportChange[];
+  appliedAt?: string;
+  appliedKeys?: string[];
+}
+
+export interface ReimportSelection {
+  key: string;
+  replaceActivities?: boolean; // Activities are kept unless asked, since they may have been edited by hand
+}
+
+export interface ReimportOutcome {
+  updated: number;
+  added: number;
+  removed: number;
+  chapterIdsToNarrate: string[]; // Chapters whose text is new, so their audio and timings were dropped
+}
+
+export class ReimportError extends Error {
+  constructor(message: string, public code: string, public status: number) {
+    super(message);
+    this.name = 'ReimportError';
+    Object.setPrototypeOf(this, ReimportError.prototype);
+  }
+}
+
+const PREVIEW_LENGTH = 300;
+// Chapters without a matching title or text still pair up when this share of their words is the same
+const MIN_WORD_OVERLAP = 0.5;
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+const normalizeTitle = (title: string) =>
+  title.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Merges a revised manuscript into a book that already has chapters
+ * The parsed chapters are compared with the existing ones and only the changes an admin picks are applied,
+ * so chapters whose text is unchanged keep their audio, timings and activities
+ */
+export class ManuscriptReimportService {
+  /**
+   * Compare a parsing result with the book's chapters
+   * Chapters are paired by identical text, then by title, then by shared words, so moved and
+   * renamed chapters aren't reported as removed and added
+   */
+  async compare(bookId: string, result: ParsingJobResult): Promise<ReimportPlan> {
+    const existing = await db.select().from(chapters).where(eq(chapters.bookId, bookId)).orderBy(asc(chapters.indexInBook));
+    const activities = existing.length > 0
+      ? await db.select().from(chapterActivities)
+          .where(and(inArray(chapterActivities.chapterId, existing.map(chapter => chapter.id)), eq(chapterActivities.isActive, 1)))
+          .orderBy(asc(chapterActivities.sortOrder))
+      : [];
+
+    const existingTexts = existing.map(chapter => chapterNarrationService.contentFromJsonUrl(chapter.jsonUrl)?.text ?? '');
+    const parsedJsonUrls = result.chapters.map(chapter => this.jsonUrlFor(chapter));
+    const parsedTexts = parsedJsonUrls.map(jsonUrl => chapterNarrationService.contentFromJsonUrl(jsonUrl)?.text ?? '');
+
+    const pairs = new Map<number, number>(); // parsed position → existing position
+    const taken = new Set<number>();
+    const pair = (matches: (parsedIndex: number, existingIndex: number) => boolean) => {
+      result.chapters.forEach((_, parsedIndex) => {
+        if (pairs.has(parsedIndex)) return;
+        const existingIndex = existing.findIndex((__, index) => !taken.has(index) && matches(parsedIndex, index));
+        if (existingIndex !== -1) {
+          pairs.set(parsedIndex, existingIndex);
+          taken.add(existingIndex);
+        }
+      });
+    };
+    pair((parsedIndex, index) => normalizeText(parsedTexts[parsedIndex]) === normalizeText(existingTexts[index]));
+    pair((parsedIndex, index) => normalizeTitle(result.chapters[parsedIndex].title) === normalizeTitle(existing[index].title));
+    pair((parsedIndex, index) => this.wordOverlap(parsedTexts[parsedIndex], existingTexts[index]) >= MIN_WORD_OVERLAP);
+
+    const changes: ReimportChange[] = result.chapters.map((parsed, parsedIndex) => {
+      const existingIndex = pairs.get(parsedIndex);
+      const wordCount = this.countWords(parsedTexts[parsedIndex]);
+
+      if (existingIndex === undefined) {
+        return {
+          ...this.emptyChange(`new_${parsedIndex}`, 'added', parsed.title),
+          parsedIndex,
+          indexInBook: parsed.indexInBook,
+          textChanged: true,
+          activitiesChanged: (parsed.activities?.length ?? 0) > 0,
+          wordCount,
+          wordsAdded: wordCount,
+          preview: parsedTexts[parsedIndex].slice(0, PREVIEW_LENGTH),
+        };
+      }
+
+      const chapter = existing[existingIndex];
+      const textChanged = normalizeText(parsedTexts[parsedIndex]) !== normalizeText(existingTexts[existingIndex]);
+      const diff = textChanged ? diffText(existingTexts[existingIndex], parsedTexts[parsedIndex]) : null;
+      const titleChanged = parsed.title.trim() !== chapter.title.trim();
+      const moved = parsed.indexInBook !== chapter.indexInBook;
+      const activitiesChanged = this.activitiesKey(parsed.activities ?? []) !==
+        this.activitiesKey(activities.filter(activity => activity.chapterId === chapter.id));
+      const imagesChanged = this.imagesKey(parsedJsonUrls[parsedIndex]) !== this.imagesKey(chapter.jsonUrl);
+
+      return {
+        key: chapter.id,
+        kind: textChanged || titleChanged || moved || activitiesChanged || imagesChanged ? 'changed' : 'unchanged',
+        chapterId: chapter.id,
+        parsedIndex,
+        title: parsed.title,
+        previousTitle: chapter.title,
+        indexInBook: parsed.indexInBook,
+        previousIndexInBook: chapter.indexInBook,
+        textChanged,
+        titleChanged,
+        moved,
+        activitiesChanged,
+        imagesChanged,
+        hasAudio: Boolean(chapter.audioUrl),
+        wordCount,
+        wordsAdded: diff?.wordsAdded ?? 0,
+        wordsRemoved: diff?.wordsRemoved ?? 0,
+        diff: diff?.parts ?? null,
+        preview: null,
+        baseline: this.hash(chapter.jsonUrl),
+      };
+    });
+
+    existing.forEach((chapter, index) => {
+      if (taken.has(index)) return;
+      const wordCount = this.countWords(existingTexts[index]);
+      changes.push({
+        ...this.emptyChange(chapter.id, 'removed', chapter.title),
+        chapterId: chapter.id,
+        previousTitle: chapter.title,
+        previousIndexInBook: chapter.indexInBook,
+        hasAudio: Boolean(chapter.audioUrl),
+        wordCount,
+        wordsRemoved: wordCount,
+        preview: existingTexts[index].slice(0, PREVIEW_LENGTH),
+        baseline: this.hash(chapter.jsonUrl),
+      });
+    });
+
+    return { bookId, comparedAt: new Date().toISOString(), changes };
+  }
+
+  /**
+   * The re-import waiting for review: the latest parsing job of the book, if it compared chapters and wasn't applied
+   */
+  async getPendingPlan(bookId: string): Promise<{ jobId: number; plan: ReimportPlan } | null> {
+    const latest = await db.select().from(processingJobs)
+      .where(and(eq(processingJobs.bookId, bookId), eq(processingJobs.jobType, 'parsing'), eq(processingJobs.status, 'completed')))
+      .orderBy(sql`${processingJobs.completedAt} DESC NULLS LAST`)
+      .limit(1);
+
+    const plan = (latest[0]?.result as { reimport?: ReimportPlan } | null)?.reimport;
+    if (!plan || plan.appliedAt) {
+      return null;
+    }
+    return { jobId: latest[0].id, plan };
+  }
+
+  /**
+   * Apply the chosen changes of a re-import in one transaction
+   * Chapters whose text changed lose their audio and word timings; the caller queues their narration.
+   * Changes that weren't chosen are left as they are, and the plan is closed either way
+   */
+  async apply(bookId: string, jobId: number, selections: ReimportSelection[]): Promise<ReimportOutcome> {
+    const job = await db.select().from(processingJobs).where(eq(processingJobs.id, jobId)).limit(1);
+    const result = job[0]?.result as (ParsingJobResult & { reimport?: ReimportPlan }) | null;
+    const plan = result?.reimport;
+    if (!job[0] || job[0].jobType !== 'parsing' || !plan || plan.bookId !== bookId) {
+      throw new ReimportError('No re-import found for this book and job', 'REIMPORT_NOT_FOUND', 404);
+    }
+    if (plan.appliedAt) {
+      throw new ReimportError('This re-import has already been applied', 'REIMPORT_ALREADY_APPLIED', 409);
+    }
+
+    const chosen = new Map<string, ReimportChange>();
+    for (const selection of selections) {
+      const change = plan.changes.find(candidate => candidate.key === selection.key);
+      if (!change) {
+        throw new ReimportError(`Unknown change: ${selection.key}`, 'INVALID_REIMPORT_SELECTION', 400);
+      }
+      if (change.kind !== 'unchanged') chosen.set(change.key, change);
+    }
+    const replaceActivities = new Set(selections.filter(selection => selection.replaceActivities).map(selection => selection.key));
+
+    const outcome: ReimportOutcome = { updated: 0, added: 0, removed: 0, chapterIdsToNarrate: [] };
+
+    await db.transaction(async (tx) => {
+      const current = await tx.select().from(chapters).where(eq(chapters.bookId, bookId)).for('update');
+      const currentById = new Map(current.map(chapter => [chapter.id, chapter]));
+
+      for (const change of chosen.values()) {
+        if (change.chapterId && currentById.get(change.chapterId) === undefined) {
+          throw new ReimportError(`Chapter "${change.previousTitle}" was deleted after the comparison; upload the manuscript again`, 'REIMPORT_STALE', 409);
+        }
+        if (change.chapterId && change.baseline !== this.hash(currentById.get(change.chapterId)!.jsonUrl)) {
+          throw new ReimportError(`Chapter "${change.previousTitle}" was edited after the comparison; upload the manuscript again`, 'REIMPORT_STALE', 409);
+        }
+      }
+
+      // Park every index below zero so chapters can swap places without tripping the (book, index) unique index
+      await tx.update(chapters).set({ indexInBook: sql`-1 - ${chapters.indexInBook}` }).where(eq(chapters.bookId, bookId));
+
+      const targets: { chapterId: string; indexInBook: number; revised: boolean }[] = [];
+      const addedAt = Date.now();
+
+      for (const chapter of current) {
+        const change = chosen.get(chapter.id);
+        if (change?.kind === 'removed') {
+          await tx.delete(chapters).where(eq(chapters.id, chapter.id));
+          outcome.removed++;
+          continue;
+        }
+        if (!change) {
+          targets.push({ chapterId: chapter.id, indexInBook: chapter.indexInBook, revised: false });
+          continue;
+        }
+
+        const parsed = result.chapters[change.parsedIndex!];
+        await tx.update(chapters)
+          .set({
+            title: parsed.title,
+            ...((change.textChanged || change.imagesChanged) && { jsonUrl: this.jsonUrlFor(parsed) }),
+            ...(change.textChanged && {
+              audioUrl: null,
+              elevenLabsTimingData: null,
+              timingQuality: null,
+              timingQualityScore: null,
+              audioTtsConfig: null,
+              audioStatus: 'none' as const,
+              audioError: null,
+            }),
+          })
+          .where(eq(chapters.id, chapter.id));
+        if (change.activitiesChanged && replaceActivities.has(change.key)) {
+          await tx.delete(chapterActivities).where(eq(chapterActivities.chapterId, chapter.id));
+          await this.insertActivities(tx, chapter.id, parsed);
+        }
+        if (change.textChanged) outcome.chapterIdsToNarrate.push(chapter.id);
+        targets.push({ chapterId: chapter.id, indexInBook: parsed.indexInBook, revised: true });
+        outcome.updated++;
+      }
+
+      for (const change of chosen.values()) {
+        if (change.kind !== 'added') continue;
+        const parsed = result.chapters[change.parsedIndex!];
+        const chapterId = `chapter_${bookId}_${parsed.indexInBook}_${addedAt + outcome.added}`;
+        await tx.insert(chapters).values({
+          id: chapterId,
+          bookId,
+          title: parsed.title,
+          indexInBook: -1_000_000 - outcome.added, // Placed with the others below
+          jsonUrl: this.jsonUrlFor(parsed),
+        });
+        await this.insertActivities(tx, chapterId, parsed);
+        outcome.chapterIdsToNarrate.push(chapterId);
+        targets.push({ chapterId, indexInBook: parsed.indexInBook, revised: true });
+        outcome.added++;
+      }
+
+      // Revised chapters take their manuscript position, the rest keep theirs; ties go to the manuscript
+      targets.sort((a, b) => a.indexInBook - b.indexInBook || Number(b.revised) - Number(a.revised));
+      const firstIndex = targets[0]?.indexInBook === 0 ? 0 : 1;
+      for (const [position, target] of targets.entries()) {
+        await tx.update(chapters).set({ indexInBook: firstIndex + position }).where(eq(chapters.id, target.chapterId));
+      }
+
+      await tx.update(processingJobs)
+        .set({
+          result: { ...result, reimport: { ...plan, appliedAt: new Date().toISOString(), appliedKeys: [...chosen.keys()] } },
+          updatedAt: new Date(),
+        })
+        .where(eq(processingJobs.id, jobId));
+    });
+
+    console.log(`Applied re-import of job ${jobId} to book ${bookId}: ${outcome.updated} updated, ${outcome.added} added, ${outcome.removed} removed`);
+    return outcome;
+  }
+
+  /**
+   * Chapter JSON is stored inline as a data URL, as createChaptersFromResults does
+   */
+  jsonUrlFor(chapter: ParsedChapter): string {
+    const jsonContent = JSON.stringify(chapter.jsonContent, null, 2);
+    return `data:application/json;base64,${Buffer.from(jsonContent).toString('base64')}`;
+  }
+
+  private async insertActivities(executor: Pick<typeof db, 'insert'>, chapterId: string, parsed: ParsedChapter): Promise<void> {
+    for (const activity of parsed.activities ?? []) {
+      await executor.insert(chapterActivities).values({
+        chapterId,
+        // Stored under the parser's type names, as createChaptersFromResults does
+        activityType: activity.activityType as typeof chapterActivities.$inferInsert['activityType'],
+        title: activity.title,
+        description: activity.description || null,
+        activityData: activity.activityData,
+        sortOrder: activity.sortOrder,
+        isActive: 1,
+      });
+    }
+  }
+
+  private emptyChange(key: string, kind: ReimportChange['kind'], title: string): ReimportChange {
+    return {
+      key, kind, title,
+      chapterId: null, parsedIndex: null, previousTitle: null, indexInBook: null, previousIndexInBook: null,
+      textChanged: false, titleChanged: false, moved: false, activitiesChanged: false, imagesChanged: false, hasAudio: false,
+      wordCount: 0, wordsAdded: 0, wordsRemoved: 0, diff: null, preview: null, baseline: null,
+    };
+  }
+
+  private activitiesKey(activities: { activityType: string; title: string; activityData: unknown }[]): string {
+    return JSON.stringify(activities.map(activity => [activity.activityType, activity.title, activity.activityData]));
+  }
+
+  // Pictures of a chapter JSON as compared: where each one is, what it shows and which file it is
+  private imagesKey(jsonUrl: string): string {
+    try {
+      const images = JSON.parse(Buffer.from(jsonUrl.split(';base64,')[1] ?? '', 'base64').toString('utf8'))?.content?.images;
+      return JSON.stringify((Array.isArray(images) ? images : [])
+        .map((image: { src?: string; alt?: string; paragraphIndex?: number }) => [image.src, image.alt, image.paragraphIndex]));
+    } catch {
+      return '[]';
+    }
+  }
+
+  private wordOverlap(a: string, b: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0));
+    const first = words(a);
+    const second = words(b);
+    if (first.size === 0 || second.size === 0) return 0;
+    const shared = [...first].filter(word => second.has(word)).length;
+    return shared / Math.max(first.size, second.size);
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(word => word.length > 0).length;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha1').update(value).digest('hex');
+  }
+}
+
+export const manuscriptReimportService = new ManuscriptReimportService();
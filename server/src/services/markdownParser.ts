@@ -0,0 +1,292 @@
+import { TextRange } from './epubParser';
+
+// Book fields a manuscript can set in its front matter, in the values the admin form uses
+export interface BookFrontMatter {
+  title?: string;
+  author?: string;
+  difficultyLevel?: string;
+  language?: string;
+}
+
+export interface MarkdownParagraph {
+  text: string;
+  italics: TextRange[];
+}
+
+export interface MarkdownChapter {
+  title: string;
+  source: 'heading' | 'chapter_line' | 'leading_text'; // A # heading, a "Capítulo N" line in plain text, or text before either
+  paragraphs: MarkdownParagraph[];
+  activitiesContent: string | null; // "Part N – ..." sections, the layout DocumentParser's activity parsers read
+}
+
+export interface MarkdownDocument {
+  frontMatter: BookFrontMatter;
+  chapters: MarkdownChapter[];
+}
+
+const DIFFICULTY_LEVELS = ['Beginner', 'Elementary', 'Intermediate', 'Upper-Intermediate', 'Advanced'];
+const CEFR_LEVELS: Record<string, string> = {
+  a1: 'Beginner',
+  a2: 'Elementary',
+  b1: 'Intermediate',
+  b2: 'Upper-Intermediate',
+  c1: 'Advanced',
+  c2: 'Advanced',
+};
+const LANGUAGES: Record<string, string> = {
+  'spanish': 'Spanish',
+  'español': 'Spanish',
+  'es': 'Spanish',
+  'spanish (mexico)': 'Spanish (Mexico)',
+  'es-mx': 'Spanish (Mexico)',
+  'spanish (argentina)': 'Spanish (Argentina)',
+  'es-ar': 'Spanish (Argentina)',
+  'spanish (colombia)': 'Spanish (Colombia)',
+  'es-co': 'Spanish (Colombia)',
+};
+
+// Activity subheadings under "## Activities", matched to the part the activity parsers expect
+const ACTIVITY_SECTIONS = [
+  { part: 1, name: 'Vocabulary Support', pattern: /vocabulary\s+support|glossary|vocabulario/i },
+  { part: 2, name: 'Comprehension Questions', pattern: /comprehension|comprensión/i },
+  { part: 3, name: 'True or False', pattern: /true\s+or\s+false|verdadero/i },
+  { part: 4, name: 'Vocabulary Match up', pattern: /match/i },
+  { part: 5, name: 'Writing Prompts', pattern: /writing|escritura/i },
+];
+
+const FRONT_MATTER_REGEX = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const CHAPTER_HEADING_REGEX = /^#\s+(.+?)\s*#*\s*$/;
+const SUBHEADING_REGEX = /^#{2,6}\s+(.+?)\s*#*\s*$/;
+const ACTIVITIES_HEADING_REGEX = /^##\s+(activities|actividades)\s*#*\s*$/i;
+// Plain text manuscripts without # headings: "Capítulo 3", "Chapter 3: Title"
+const PLAIN_CHAPTER_REGEX = /^(capítulo|chapter)\s+\S+.*$/i;
+const LIST_MARKER_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+/**
+ * Reads Markdown and plain-text manuscripts: YAML front matter for book details,
+ * `#` headings for chapters and an `## Activities` section per chapter
+ */
+export class MarkdownParser {
+  parse(source: string): MarkdownDocument {
+    const text = source.replace(/^\uFEFF/, '');
+    const frontMatterMatch = text.match(FRONT_MATTER_REGEX);
+    const frontMatter = frontMatterMatch ? this.parseFrontMatter(frontMatterMatch[1]) : {};
+    const body = frontMatterMatch ? text.slice(frontMatterMatch[0].length) : text;
+
+    const lines = body.split(/\r?\n/);
+    const hasMarkdownChapters = lines.some(line => CHAPTER_HEADING_REGEX.test(line));
+    const chapterTitle = (line: string): string | null => {
+      if (hasMarkdownChapters) {
+        return line.match(CHAPTER_HEADING_REGEX)?.[1] ?? null;
+      }
+      return PLAIN_CHAPTER_REGEX.test(line.trim()) ? line.trim() : null;
+    };
+
+    const chapters: { title: string; source: MarkdownChapter['source']; lines: string[]; activityLines: string[] | null }[] = [];
+    let current: (typeof chapters)[number] | null = null;
+
+    for (const line of lines) {
+      const title = chapterTitle(line);
+      if (title !== null) {
+        current = { title: this.inlineText(title).text, source: hasMarkdownChapters ? 'heading' : 'chapter_line', lines: [], activityLines: null };
+        chapters.push(current);
+        continue;
+      }
+
+      if (!current) {
+        // Text before the first heading, or a manuscript without any
+        if (!line.trim()) continue;
+        current = { title: frontMatter.title ?? 'Introducción', source: 'leading_text', lines: [], activityLines: null };
+        chapters.push(current);
+      }
+
+      if (ACTIVITIES_HEADING_REGEX.test(line.trim())) {
+        current.activityLines = [];
+      } else if (current.activityLines) {
+        current.activityLines.push(line);
+      } else {
+        current.lines.push(line);
+      }
+    }
+
+    return {
+      frontMatter,
+      chapters: chapters.map(chapter => ({
+        title: chapter.title,
+        source: chapter.source,
+        paragraphs: this.paragraphs(chapter.lines),
+        activitiesContent: chapter.activityLines ? this.activitiesContent(chapter.activityLines) : null,
+      })),
+    };
+  }
+
+  /**
+   * Simple `key: value` front matter; nested YAML isn't needed for book details
+   */
+  private parseFrontMatter(block: string): BookFrontMatter {
+    const values: Record<string, string> = {};
+    for (const line of block.split(/\r?\n/)) {
+      const match = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*?)\s*$/);
+      if (!match || line.trimStart().startsWith('#')) continue;
+      const value = match[2].replace(/\s+#.*$/, '').replace(/^(["'])(.*)\1$/, '$2').trim();
+      if (value) values[match[1].toLowerCase()] = value;
+    }
+
+    const frontMatter: BookFrontMatter = {};
+    if (values.title) frontMatter.title = values.title;
+    if (values.author) frontMatter.author = values.author;
+
+    const level = values.level ?? values.difficulty ?? values.difficultylevel;
+    if (level) {
+      const difficultyLevel = DIFFICULTY_LEVELS.find(option => option.toLowerCase() === level.toLowerCase()) ?? CEFR_LEVELS[level.toLowerCase()];
+      if (difficultyLevel) {
+        frontMatter.difficultyLevel = difficultyLevel;
+      } else {
+        console.warn(`Ignoring unknown level in front matter: ${level}`);
+      }
+    }
+
+    if (values.language) {
+      const language = LANGUAGES[values.language.toLowerCase()];
+      if (language) {
+        frontMatter.language = language;
+      } else {
+        console.warn(`Ignoring unsupported language in front matter: ${values.language}`);
+      }
+    }
+
+    return frontMatter;
+  }
+
+  /**
+   * Blank lines separate paragraphs; single line breaks are soft wraps unless the line
+   * ends with two spaces or a backslash. Subheadings become paragraphs of their own
+   */
+  private paragraphs(lines: string[]): MarkdownParagraph[] {
+    const paragraphs: MarkdownParagraph[] = [];
+    let pending: string[] = [];
+
+    const flush = () => {
+      if (pending.length === 0) return;
+      let source = '';
+      pending.forEach((line, index) => {
+        const hardBreak = / {2,}$|\\$/.test(line);
+        source += line.replace(/(?: {2,}|\\)$/, '').trim();
+        if (index < pending.length - 1) source += hardBreak ? '\n' : ' ';
+      });
+      pending = [];
+
+      const paragraph = this.inlineText(source);
+      if (paragraph.text.trim()) paragraphs.push(paragraph);
+    };
+
+    for (const line of lines) {
+      const subheading = line.match(SUBHEADING_REGEX);
+      if (!line.trim() || subheading || /^(?:\*{3,}|-{3,}|_{3,})\s*$/.test(line.trim())) {
+        flush();
+        if (subheading) pending = [subheading[1]];
+        flush();
+        continue;
+      }
+      // Block quote markers aren't part of the text
+      pending.push(line.replace(/^\s*>\s?/, ''));
+    }
+    flush();
+
+    return paragraphs;
+  }
+
+  /**
+   * Strip inline Markdown, keeping *emphasis* as italic ranges
+   * Bold, links, code spans and images are reduced to their text
+   */
+  private inlineText(source: string): MarkdownParagraph {
+    const withoutLinks = source
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '') // Images can't be resolved from a single uploaded file
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/`([^`]*)`/g, '$1');
+
+    let text = '';
+    const italics: TextRange[] = [];
+    let italicStart: number | null = null;
+
+    for (let i = 0; i < withoutLinks.length; i++) {
+      const char = withoutLinks[i];
+      const next = withoutLinks[i + 1];
+
+      if (char === '\\' && next && /[\\`*_{}[\]()#+\-.!]/.test(next)) {
+        text += next;
+        i++;
+        continue;
+      }
+      if ((char === '*' || char === '_') && next === char) {
+        i++; // Bold markers are dropped
+        continue;
+      }
+      if (char === '*' || char === '_') {
+        // Underscores inside words (snake_case) aren't emphasis
+        const inWord = char === '_' && /\w/.test(withoutLinks[i - 1] ?? '') && /\w/.test(next ?? '');
+        if (!inWord) {
+          if (italicStart === null) {
+            italicStart = text.length;
+          } else {
+            if (text.length > italicStart) italics.push({ start: italicStart, end: text.length });
+            italicStart = null;
+          }
+          continue;
+        }
+      }
+      text += char;
+    }
+
+    const leading = text.length - text.trimStart().length;
+    const trimmed = text.trim();
+    return {
+      text: trimmed,
+      italics: italics
+        .map(range => ({ start: Math.max(range.start - leading, 0), end: Math.min(range.end - leading, trimmed.length) }))
+        .filter(range => range.end > range.start),
+    };
+  }
+
+  /**
+   * Rewrite the Activities section into "Part N – Name" sections, one item per line
+   */
+  private activitiesContent(lines: string[]): string | null {
+    const sections: string[] = [];
+    let current: { part: number; name: string; lines: string[] } | null = null;
+
+    const flush = () => {
+      if (current) sections.push([`Part ${current.part} – ${current.name}`, ...current.lines].join('\n'));
+    };
+
+    for (const line of lines) {
+      const subheading = line.match(SUBHEADING_REGEX);
+      if (subheading) {
+        const section = ACTIVITY_SECTIONS.find(candidate => candidate.pattern.test(subheading[1]));
+        flush();
+        current = section ? { part: section.part, name: section.name, lines: [] } : null;
+        if (!section) console.warn(`Ignoring unknown activity section: ${subheading[1]}`);
+        continue;
+      }
+      if (!current || !line.trim()) continue;
+
+      const item = this.inlineText(line.replace(LIST_MARKER_REGEX, '')).text;
+      if (current.part === 4) {
+        // The matching parser reads a number, the Spanish word and the English meaning on separate lines
+        const pair = item.match(/^(.+?)\s*[=→]\s*(.+)$/);
+        if (pair) {
+          current.lines.push(String(current.lines.length / 3 + 1), pair[1].trim(), pair[2].trim());
+        }
+        continue;
+      }
+      current.lines.push(item);
+    }
+    flush();
+
+    return sections.length > 0 ? sections.join('\n') : null;
+  }
+}
+
+export default MarkdownParser;
@@ -0,0 +1,128 @@
+// Bitrate tables in kbps, indexed by the 4-bit bitrate field
+const BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+// Sample rates in Hz for MPEG 1, 2 and 2.5
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000],  // MPEG 2.5
+};
+
+export interface Mp3Frame {
+  offset: number;
+  length: number;
+  duration: number; // seconds
+}
+
+/**
+ * Read an MPEG audio frame header at the given offset
+ * Returns null when the bytes there are not a valid frame header
+ */
+function readFrameHeader(buffer: Buffer, offset: number): Omit<Mp3Frame, 'offset'> | null {
+  if (offset + 4 > buffer.length) return null;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+  const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+  const padding = (buffer[offset + 2] >> 1) & 0x01;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isV1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+  const table = isV1
+    ? (layer === 1 ? BITRATES.v1l1 : layer === 2 ? BITRATES.v1l2 : BITRATES.v1l3)
+    : (layer === 1 ? BITRATES.v2l1 : BITRATES.v2l23);
+
+  const bitrate = table[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  const samplesPerFrame = layer === 1 ? 384 : (layer === 3 && !isV1 ? 576 : 1152);
+  const length = layer === 1
+    ? Math.floor((12 * bitrate) / sampleRate + padding) * 4
+    : Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+  return { length, duration: samplesPerFrame / sampleRate };
+}
+
+/**
+ * Skip a leading ID3v2 tag, returning the offset of the first audio byte
+ */
+function skipId3v2(buffer: Buffer): number {
+  if (buffer.length >= 10 && buffer.toString('latin1', 0, 3) === 'ID3') {
+    // Tag size is a 28-bit synchsafe integer
+    const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+    const hasFooter = (buffer[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+  }
+  return 0;
+}
+
+/**
+ * Walk all MPEG frames in an MP3 buffer
+ */
+export function readMp3Frames(buffer: Buffer): Mp3Frame[] {
+  const frames: Mp3Frame[] = [];
+  let offset = skipId3v2(buffer);
+
+  while (offset < buffer.length) {
+    const header = readFrameHeader(buffer, offset);
+    if (!header || header.length <= 0) {
+      offset++; // Resync on garbage between frames
+      continue;
+    }
+
+    frames.push({ offset, ...header });
+    offset += header.length;
+  }
+
+  return frames;
+}
+
+/**
+ * Total duration of an MP3 buffer in seconds
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  return readMp3Frames(buffer).reduce((total, frame) => total + frame.duration, 0);
+}
+
+/**
+ * Cut the frames covering [startTime, endTime) out of an MP3 buffer
+ * Frames are copied whole, so the clip is accurate to one frame (~26ms at 44.1kHz)
+ * and needs no re-encoding. Pass the frames when cutting several clips from one buffer
+ */
+export function sliceMp3(buffer: Buffer, startTime: number, endTime: number, frames: Mp3Frame[] = readMp3Frames(buffer)): Buffer {
+  const selected: Buffer[] = [];
+  let time = 0;
+
+  for (const frame of frames) {
+    const frameEnd = time + frame.duration;
+    if (frameEnd > startTime && time < endTime) {
+      selected.push(buffer.subarray(frame.offset, frame.offset + frame.length));
+    }
+    if (time >= endTime) break;
+    time = frameEnd;
+  }
+
+  return Buffer.concat(selected);
+}
+
+/**
+ * Join MP3 buffers frame by frame
+ * ID3 tags are dropped so players don't treat a later file's tag as the end of the stream
+ */
+export function concatMp3(buffers: Buffer[]): Buffer {
+  return Buffer.concat(
+    buffers.flatMap(buffer => readMp3Frames(buffer).map(frame => buffer.subarray(frame.offset, frame.offset + frame.length)))
+  );
+}
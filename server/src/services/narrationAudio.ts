@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { ObjectStorageService } from '../objectStorage';
+import { getMp3Duration } from './mp3Slicer';
+
+/**
+ * Reads chapter narration from wherever its audioUrl points: object storage, the web or public/audio
+ */
+export class NarrationAudioService {
+  private objectStorageService = new ObjectStorageService();
+
+  /**
+   * Resolve an audioUrl of locally generated narration (public/audio) to a file on disk
+   */
+  resolveLocalPath(audioUrl: string | null): string | null {
+    if (!audioUrl || /^https?:\/\//.test(audioUrl) || audioUrl.startsWith('/objects/')) {
+      return null;
+    }
+
+    const audioDir = path.join(process.cwd(), 'public', 'audio');
+    // Strip the leading audio/ prefix and any ?v= cache-busting query
+    const filePath = path.resolve(audioDir, audioUrl.replace(/^\/?(audio\/)?/, '').replace(/[?#].*$/, ''));
+
+    // Guard against path traversal out of the audio directory
+    if (!filePath.startsWith(audioDir + path.sep) || !fs.existsSync(filePath)) {
+      return null;
+    }
+
+    return filePath;
+  }
+
+  async read(audioUrl: string): Promise<Buffer> {
+    if (audioUrl.startsWith('/objects/')) {
+      const file = await this.objectStorageService.getObjectEntityFile(audioUrl);
+      const [contents] = await file.download();
+      return contents;
+    }
+
+    if (/^https?:\/\//.test(audioUrl)) {
+      const response = await fetch(audioUrl);
+      if (!response.ok) {
+        throw new Error(`Could not download the narration: ${response.status} ${response.statusText}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    }
+
+    const filePath = this.resolveLocalPath(audioUrl);
+    if (!filePath) {
+      throw new Error(`Narration file not found: ${audioUrl}`);
+    }
+    return fs.promises.readFile(filePath);
+  }
+
+  /**
+   * Length of MP3 narration in seconds, or null when it can't be read or isn't MP3
+   * Generated and uploaded narration is always stored as MP3
+   */
+  async measureDuration(audioUrl: string): Promise<number | null> {
+    try {
+      const duration = getMp3Duration(await this.read(audioUrl));
+      return duration > 0 ? duration : null;
+    } catch (error) {
+      console.warn(`Could not measure narration ${audioUrl}:`, error);
+      return null;
+    }
+  }
+}
+
+export const narrationAudioService = new NarrationAudioService();
@@ -0,0 +1,125 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { db } from '../db/index';
+import { chapters } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { ObjectStorageService } from '../objectStorage';
+import { getMp3Duration } from './mp3Slicer';
+import { runCommand } from './commandRunner';
+
+export class NarrationUploadError extends Error {
+  constructor(message: string, public code: string, public status: number) {
+    super(message);
+    this.name = 'NarrationUploadError';
+    Object.setPrototypeOf(this, NarrationUploadError.prototype);
+  }
+}
+
+const NARRATION_ENTITY_PREFIX = 'narration/';
+
+/**
+ * Whether a chapter's audio is a recording uploaded by an admin rather than TTS narration
+ */
+export function isRecordedNarration(audioUrl: string | null): boolean {
+  return !!audioUrl?.startsWith(`/objects/${NARRATION_ENTITY_PREFIX}`);
+}
+
+export interface ImportedNarration {
+  audioUrl: string;
+  duration: number; // seconds
+  size: number; // bytes of the stored MP3
+}
+
+/**
+ * Imports narration recorded by people for a chapter
+ * Uploads are transcoded to MP3 with ffmpeg, so every chapter plays, slices and aligns the
+ * same way whatever the narrator delivered, and stored in object storage by content hash
+ */
+export class NarrationUploadService {
+  private readonly FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly MIN_DURATION_SECONDS = 1;
+  private readonly MAX_DURATION_SECONDS = 3 * 60 * 60;
+  private objectStorageService = new ObjectStorageService();
+
+  /**
+   * Transcode a recording to mono MP3, failing with a 400 when ffmpeg can't decode it
+   */
+  private async transcode(filePath: string): Promise<Buffer> {
+    const workDir = mkdtempSync(join(tmpdir(), 'narration-'));
+    try {
+      const mp3Path = join(workDir, 'narration.mp3');
+      try {
+        await runCommand(this.FFMPEG, [
+          '-y', '-loglevel', 'error',
+          '-i', filePath,
+          '-vn', // Drop cover art embedded in MP3 and M4A files
+          '-ac', '1', '-ar', '44100',
+          '-codec:a', 'libmp3lame', '-qscale:a', '4',
+          mp3Path,
+        ]);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Could not start')) {
+          throw error;
+        }
+        console.error('Narration transcoding failed:', error);
+        throw new NarrationUploadError('The audio could not be decoded. Check that the file plays and is not damaged.', 'INVALID_AUDIO', 400);
+      }
+      return readFileSync(mp3Path);
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Replace a chapter's narration with an uploaded recording
+   * The chapter's word timings are cleared until its alignment job finishes.
+   * beforeReplace runs once the recording is accepted and stored, right before the chapter changes
+   */
+  async importNarration(
+    chapterId: string,
+    filePath: string,
+    adminId: number,
+    beforeReplace?: () => Promise<void>
+  ): Promise<ImportedNarration> {
+    const audio = await this.transcode(filePath);
+
+    const duration = getMp3Duration(audio);
+    if (duration < this.MIN_DURATION_SECONDS) {
+      throw new NarrationUploadError('The recording is empty or too short', 'AUDIO_TOO_SHORT', 400);
+    }
+    if (duration > this.MAX_DURATION_SECONDS) {
+      throw new NarrationUploadError(`Recordings can be at most ${this.MAX_DURATION_SECONDS / 3600} hours long`, 'AUDIO_TOO_LONG', 400);
+    }
+
+    const entityId = `${NARRATION_ENTITY_PREFIX}${createHash('sha256').update(audio).digest('hex')}.mp3`;
+    const audioUrl = await this.objectStorageService.uploadObjectEntity(entityId, audio, 'audio/mpeg', {
+      owner: adminId.toString(),
+      visibility: 'public',
+    });
+
+    await beforeReplace?.();
+
+    const updated = await db.update(chapters)
+      .set({
+        audioUrl,
+        elevenLabsTimingData: null,
+        timingQuality: null,
+        timingQualityScore: null,
+        audioTtsConfig: null,
+        audioStatus: 'ready',
+        audioError: null,
+      })
+      .where(eq(chapters.id, chapterId))
+      .returning({ id: chapters.id });
+    if (updated.length === 0) {
+      throw new NarrationUploadError('Chapter not found', 'CHAPTER_NOT_FOUND', 404);
+    }
+
+    console.log(`🎙️ Imported narration for chapter ${chapterId}: ${duration.toFixed(1)}s, ${audio.length} bytes`);
+    return { audioUrl, duration, size: audio.length };
+  }
+}
+
+export const narrationUploadService = new NarrationUploadService();
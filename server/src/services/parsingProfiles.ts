@@ -0,0 +1,240 @@
+import { ParsingProfile, ParsedActivityType } from '../db/schema';
+
+export interface ParsingProfilePreset {
+  id: string;
+  name: string;
+  description: string;
+  profile: ParsingProfile;
+}
+
+// A profile with its patterns compiled, as the document parser uses it
+export interface CompiledParsingProfile {
+  profile: ParsingProfile;
+  headingStyles: Set<string>; // Lower-cased style names and ids
+  chapterPatterns: { source: string; regex: RegExp }[];
+  activityMarkers: { part: number; activityType: ParsedActivityType; source: string; regex: RegExp }[];
+}
+
+// Activity sections are numbered in this order; the number is also their sort order
+export const ACTIVITY_PARTS: ParsedActivityType[] = [
+  'vocabulary_support',
+  'comprehension_questions',
+  'true_false',
+  'matching',
+  'writing_prompts',
+];
+
+const ENGLISH_ACTIVITY_MARKERS: Record<ParsedActivityType, string> = {
+  vocabulary_support: '\\bPart\\s+1\\s*[–-]?\\s*Vocabulary\\s+Support',
+  comprehension_questions: 'Part\\s+2\\s*[–-]?\\s*Comprehension\\s+Questions',
+  true_false: 'Part\\s+3\\s*[–-]?\\s*True\\s+or\\s+False',
+  matching: 'Part\\s+4\\s*[–-]?\\s*Vocabulary\\s+Match\\s+up',
+  writing_prompts: 'Part\\s+5\\s*[–-]?\\s*Writing\\s+Prompts',
+};
+
+// The layout manuscripts were written in before profiles existed: 16pt chapter titles over 12pt text
+export const DEFAULT_PARSING_PROFILE: ParsingProfile = {
+  presetId: 'standard',
+  headingStyles: [],
+  chapterFontSize: 16,
+  bodyFontSize: 12,
+  fontSizeTolerance: 1,
+  boldHeadingFontSize: 14,
+  maxHeadingLength: 100,
+  chapterPatterns: ['(capítulo|capítulo\\s+\\d+|chapter)'],
+  splitOnPageBreaks: false,
+  activityMarkers: ENGLISH_ACTIVITY_MARKERS,
+};
+
+const NO_FORMATTING_RULES = {
+  headingStyles: [],
+  chapterFontSize: null,
+  boldHeadingFontSize: null,
+  chapterPatterns: [],
+};
+
+export const PARSING_PROFILE_PRESETS: ParsingProfilePreset[] = [
+  {
+    id: 'standard',
+    name: 'Standard (font sizes)',
+    description: 'Chapter titles in 16pt or bold 14pt over 12pt text, or starting with "Capítulo" / "Chapter". Activities start at "Part 1 – Vocabulary Support".',
+    profile: DEFAULT_PARSING_PROFILE,
+  },
+  {
+    id: 'heading-styles',
+    name: 'Word heading styles',
+    description: 'Paragraphs styled "Heading 1" or "Title" start a chapter, whatever their font size.',
+    profile: { ...DEFAULT_PARSING_PROFILE, ...NO_FORMATTING_RULES, presetId: 'heading-styles', headingStyles: ['Heading 1', 'Title'] },
+  },
+  {
+    id: 'numbered-chapters',
+    name: 'Numbered chapters (Capítulo 1, Parte 1 – Vocabulario)',
+    description: 'Lines such as "Capítulo 3" or "Capítulo III" start a chapter. Activity sections may be titled in Spanish.',
+    profile: {
+      ...DEFAULT_PARSING_PROFILE,
+      ...NO_FORMATTING_RULES,
+      presetId: 'numbered-chapters',
+      chapterPatterns: ['cap[íi]tulo\\s+(\\d+|[ivxlc]+\\b)', 'chapter\\s+(\\d+|[ivxlc]+\\b)'],
+      activityMarkers: {
+        vocabulary_support: '\\bParte?\\s+1\\s*[–-]?\\s*(Vocabulary\\s+Support|Vocabulario)',
+        comprehension_questions: 'Parte?\\s+2\\s*[–-]?\\s*(Comprehension\\s+Questions|Preguntas\\s+de\\s+comprensi[óo]n)',
+        true_false: 'Parte?\\s+3\\s*[–-]?\\s*(True\\s+or\\s+False|Verdadero\\s+o\\s+falso)',
+        matching: 'Parte?\\s+4\\s*[–-]?\\s*(Vocabulary\\s+Match\\s+up|Relaciona)',
+        writing_prompts: 'Parte?\\s+5\\s*[–-]?\\s*(Writing\\s+Prompts|Escritura)',
+      },
+    },
+  },
+  {
+    id: 'page-breaks',
+    name: 'One chapter per page break',
+    description: 'Every page break (or next-page section break) starts a chapter, titled by its first line when that looks like a title.',
+    profile: { ...DEFAULT_PARSING_PROFILE, ...NO_FORMATTING_RULES, presetId: 'page-breaks', splitOnPageBreaks: true },
+  },
+];
+
+const MAX_FONT_SIZE = 200;
+const MAX_PATTERNS = 20;
+
+/**
+ * Chapter detection presets, and validation of the profiles admins pick when uploading a manuscript
+ */
+export class ParsingProfileService {
+  getPresets(): ParsingProfilePreset[] {
+    return PARSING_PROFILE_PRESETS;
+  }
+
+  /**
+   * Validate an admin-supplied profile: a preset id with optional overrides of any of its rules.
+   * Accepts the JSON string a multipart upload carries
+   */
+  parseInput(input: any): { error: string } | { profile: ParsingProfile } {
+    let body = input;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return { error: 'parsingProfile must be JSON' };
+      }
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return { error: 'parsingProfile must be an object' };
+    }
+
+    const presetId = body.presetId ?? DEFAULT_PARSING_PROFILE.presetId;
+    const preset = PARSING_PROFILE_PRESETS.find(candidate => candidate.id === presetId);
+    if (!preset) {
+      return { error: `presetId must be one of: ${PARSING_PROFILE_PRESETS.map(candidate => candidate.id).join(', ')}` };
+    }
+
+    const profile: ParsingProfile = { ...preset.profile, activityMarkers: { ...preset.profile.activityMarkers } };
+
+    if (body.headingStyles !== undefined) {
+      const styles = this.stringList(body.headingStyles);
+      if (!styles) return { error: 'headingStyles must be a list of style names' };
+      profile.headingStyles = styles;
+    }
+
+    for (const field of ['chapterFontSize', 'boldHeadingFontSize'] as const) {
+      if (body[field] === undefined) continue;
+      if (body[field] !== null && !this.isFontSize(body[field])) {
+        return { error: `${field} must be a font size in points, or null to turn the rule off` };
+      }
+      profile[field] = body[field];
+    }
+
+    if (body.bodyFontSize !== undefined) {
+      if (!this.isFontSize(body.bodyFontSize)) return { error: 'bodyFontSize must be a font size in points' };
+      profile.bodyFontSize = body.bodyFontSize;
+    }
+
+    if (body.fontSizeTolerance !== undefined) {
+      if (typeof body.fontSizeTolerance !== 'number' || body.fontSizeTolerance < 0 || body.fontSizeTolerance > 10) {
+        return { error: 'fontSizeTolerance must be between 0 and 10 points' };
+      }
+      profile.fontSizeTolerance = body.fontSizeTolerance;
+    }
+
+    if (body.maxHeadingLength !== undefined) {
+      if (!Number.isInteger(body.maxHeadingLength) || body.maxHeadingLength < 10 || body.maxHeadingLength > 500) {
+        return { error: 'maxHeadingLength must be between 10 and 500 characters' };
+      }
+      profile.maxHeadingLength = body.maxHeadingLength;
+    }
+
+    if (body.chapterPatterns !== undefined) {
+      const patterns = this.stringList(body.chapterPatterns);
+      if (!patterns) return { error: 'chapterPatterns must be a list of regular expressions' };
+      const invalid = patterns.find(pattern => !this.isValidPattern(pattern));
+      if (invalid) return { error: `Invalid chapter pattern: ${invalid}` };
+      profile.chapterPatterns = patterns;
+    }
+
+    if (body.splitOnPageBreaks !== undefined) {
+      if (typeof body.splitOnPageBreaks !== 'boolean') return { error: 'splitOnPageBreaks must be true or false' };
+      profile.splitOnPageBreaks = body.splitOnPageBreaks;
+    }
+
+    if (body.activityMarkers !== undefined) {
+      if (!body.activityMarkers || typeof body.activityMarkers !== 'object') {
+        return { error: `activityMarkers must map activity types (${ACTIVITY_PARTS.join(', ')}) to regular expressions` };
+      }
+      for (const [activityType, pattern] of Object.entries(body.activityMarkers)) {
+        if (!ACTIVITY_PARTS.includes(activityType as ParsedActivityType)) {
+          return { error: `Unknown activity type: ${activityType}` };
+        }
+        if (typeof pattern !== 'string' || !pattern.trim() || !this.isValidPattern(pattern.trim())) {
+          return { error: `Invalid activity marker for ${activityType}: ${String(pattern)}` };
+        }
+        profile.activityMarkers[activityType as ParsedActivityType] = pattern.trim();
+      }
+    }
+
+    if (profile.headingStyles.length === 0 && profile.chapterFontSize === null && profile.boldHeadingFontSize === null &&
+        profile.chapterPatterns.length === 0 && !profile.splitOnPageBreaks) {
+      return { error: 'The profile needs at least one chapter rule: a heading style, a font size, a pattern or page breaks' };
+    }
+
+    return { profile };
+  }
+
+  /**
+   * Compile a stored profile; uploads from before profiles existed have none and use the standard one
+   */
+  compile(profile: ParsingProfile | null | undefined): CompiledParsingProfile {
+    const resolved = profile ?? DEFAULT_PARSING_PROFILE;
+    return {
+      profile: resolved,
+      headingStyles: new Set(resolved.headingStyles.map(style => style.toLowerCase())),
+      // Anchored so "Capítulo \d+" doesn't match a sentence that mentions a chapter
+      chapterPatterns: resolved.chapterPatterns.map(source => ({ source, regex: new RegExp(`^(?:${source})`, 'i') })),
+      activityMarkers: ACTIVITY_PARTS.map((activityType, index) => ({
+        part: index + 1,
+        activityType,
+        source: resolved.activityMarkers[activityType],
+        regex: new RegExp(resolved.activityMarkers[activityType], 'i'),
+      })),
+    };
+  }
+
+  private stringList(value: unknown): string[] | null {
+    if (!Array.isArray(value) || value.length > MAX_PATTERNS || value.some(item => typeof item !== 'string')) {
+      return null;
+    }
+    return value.map((item: string) => item.trim()).filter(item => item.length > 0);
+  }
+
+  private isFontSize(value: unknown): value is number {
+    return typeof value === 'number' && value > 0 && value <= MAX_FONT_SIZE;
+  }
+
+  private isValidPattern(pattern: string): boolean {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const parsingProfileService = new ParsingProfileService();
@@ -0,0 +1,225 @@
+import { eq, and, lte, gt, gte, isNull, isNotNull, inArray, sql, SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { savedWords, wordReviews, reviewSettings, entitlements, books } from '../db/schema';
+
+export type ReviewSettings = typeof reviewSettings.$inferSelect;
+export type QueueType = 'learning' | 'review' | 'new';
+
+export interface DeckCounts {
+  bookId: string;
+  title: string;
+  due: number;      // Review cards due now, capped by today's remaining reviews
+  new: number;      // New cards available today, capped by today's remaining new cards
+  learning: number; // Cards in (re)learning steps that are due now
+  total: number;
+}
+
+export interface ReviewQueue {
+  words: (typeof savedWords.$inferSelect & { queueType: QueueType })[];
+  counts: { learning: number; review: number; new: number };
+  today: { newStudied: number; reviewsDone: number; newRemaining: number; reviewsRemaining: number };
+  deck: { mode: ReviewSettings['deckMode']; bookId: string | null };
+  nextDueAt: Date | null; // When the next card becomes due once today's queue is empty
+}
+
+const DEFAULT_SETTINGS = {
+  newCardsPerDay: 20,
+  maxReviewsPerDay: 200,
+  deckMode: 'interleave' as const,
+  activeBookId: null,
+};
+
+/**
+ * Builds the daily review queue from saved words
+ * Learning cards always come first; review and new cards are capped by the
+ * user's daily limits and new cards are spread evenly through the reviews
+ */
+export class ReviewQueueService {
+  private readonly MAX_QUEUE_SIZE = 100; // Cards returned per request
+
+  /**
+   * A user's review settings, falling back to defaults when none are saved
+   */
+  async getSettings(userId: number): Promise<ReviewSettings> {
+    const rows = await db.select().from(reviewSettings).where(eq(reviewSettings.userId, userId)).limit(1);
+    return rows[0] ?? { userId, ...DEFAULT_SETTINGS, updatedAt: new Date() };
+  }
+
+  async updateSettings(userId: number, changes: Partial<Omit<ReviewSettings, 'userId' | 'updatedAt'>>): Promise<ReviewSettings> {
+    const current = await this.getSettings(userId);
+    const next = { ...current, ...changes, userId, updatedAt: new Date() };
+
+    const saved = await db
+      .insert(reviewSettings)
+      .values(next)
+      .onConflictDoUpdate({
+        target: reviewSettings.userId,
+        set: {
+          newCardsPerDay: next.newCardsPerDay,
+          maxReviewsPerDay: next.maxReviewsPerDay,
+          deckMode: next.deckMode,
+          activeBookId: next.activeBookId,
+          updatedAt: next.updatedAt,
+        },
+      })
+      .returning();
+
+    return saved[0];
+  }
+
+  /**
+   * Start of the learner's day; tzOffsetMinutes is the browser's Date.getTimezoneOffset()
+   */
+  startOfDay(now: Date, tzOffsetMinutes: number = 0): Date {
+    const local = new Date(now.getTime() - tzOffsetMinutes * 60000);
+    local.setUTCHours(0, 0, 0, 0);
+    return new Date(local.getTime() + tzOffsetMinutes * 60000);
+  }
+
+  /**
+   * New cards introduced and reviews done since the start of the day
+   * A card's first review (no elapsed days) counts against the new-card limit
+   */
+  async getTodayCounts(userId: number, dayStart: Date) {
+    const [row] = await db
+      .select({
+        newStudied: sql<number>`cast(count(distinct ${wordReviews.savedWordId}) filter (where ${wordReviews.elapsedDays} is null) as int)`,
+        reviewsDone: sql<number>`cast(count(*) filter (where ${wordReviews.elapsedDays} is not null) as int)`,
+      })
+      .from(wordReviews)
+      .where(and(eq(wordReviews.userId, userId), gte(wordReviews.reviewedAt, dayStart)));
+
+    return { newStudied: row?.newStudied ?? 0, reviewsDone: row?.reviewsDone ?? 0 };
+  }
+
+  /**
+   * Build today's queue; bookId overrides the deck chosen in the settings
+   */
+  async buildQueue(userId: number, options: { bookId?: string; tzOffsetMinutes?: number; now?: Date } = {}): Promise<ReviewQueue> {
+    const now = options.now ?? new Date();
+    const settings = await this.getSettings(userId);
+    const deckBookId = options.bookId ?? (settings.deckMode === 'book' ? settings.activeBookId : null);
+    const dayStart = this.startOfDay(now, options.tzOffsetMinutes);
+
+    const today = await this.getTodayCounts(userId, dayStart);
+    const newRemaining = Math.max(0, settings.newCardsPerDay - today.newStudied);
+    const reviewsRemaining = Math.max(0, settings.maxReviewsPerDay - today.reviewsDone);
+
+    const deckConditions: SQL[] = [eq(savedWords.userId, userId)];
+    if (deckBookId) {
+      deckConditions.push(eq(savedWords.bookId, deckBookId));
+    }
+
+    const learning = await db
+      .select()
+      .from(savedWords)
+      .where(and(...deckConditions, isNotNull(savedWords.lastReviewedAt), sql`${savedWords.intervalDays} < 1`, lte(savedWords.nextReviewAt, now)))
+      .orderBy(savedWords.nextReviewAt)
+      .limit(this.MAX_QUEUE_SIZE);
+
+    const reviews = reviewsRemaining > 0
+      ? await db
+        .select()
+        .from(savedWords)
+        .where(and(...deckConditions, isNotNull(savedWords.lastReviewedAt), sql`${savedWords.intervalDays} >= 1`, lte(savedWords.nextReviewAt, now)))
+        .orderBy(savedWords.nextReviewAt)
+        .limit(Math.min(reviewsRemaining, this.MAX_QUEUE_SIZE))
+      : [];
+
+    const newCards = newRemaining > 0
+      ? await db
+        .select()
+        .from(savedWords)
+        .where(and(...deckConditions, isNull(savedWords.lastReviewedAt)))
+        .orderBy(savedWords.createdAt)
+        .limit(Math.min(newRemaining, this.MAX_QUEUE_SIZE))
+      : [];
+
+    // Spread new cards evenly through the reviews rather than front-loading them
+    const mixed: ReviewQueue['words'] = reviews.map(word => ({ ...word, queueType: 'review' as const }));
+    const spacing = newCards.length > 0 ? (mixed.length + newCards.length) / newCards.length : 0;
+    newCards.forEach((word, index) => {
+      mixed.splice(Math.min(mixed.length, Math.floor(index * spacing)), 0, { ...word, queueType: 'new' as const });
+    });
+
+    const words = [
+      ...learning.map(word => ({ ...word, queueType: 'learning' as const })),
+      ...mixed,
+    ].slice(0, this.MAX_QUEUE_SIZE);
+
+    // Nothing left today - tell the learner when to come back
+    let nextDueAt: Date | null = null;
+    if (words.length === 0) {
+      const [next] = await db
+        .select({ dueAt: sql<Date>`min(${savedWords.nextReviewAt})`.mapWith(savedWords.nextReviewAt) })
+        .from(savedWords)
+        .where(and(...deckConditions, isNotNull(savedWords.lastReviewedAt), gt(savedWords.nextReviewAt, now)));
+      nextDueAt = next?.dueAt ?? null;
+
+      // With a daily limit used up, held-back cards unlock at the start of tomorrow
+      if (newRemaining === 0 || reviewsRemaining === 0) {
+        const tomorrow = new Date(dayStart.getTime() + 86400000);
+        nextDueAt = nextDueAt && nextDueAt < tomorrow ? nextDueAt : tomorrow;
+      }
+    }
+
+    return {
+      words,
+      counts: { learning: learning.length, review: reviews.length, new: newCards.length },
+      today: { ...today, newRemaining, reviewsRemaining },
+      deck: { mode: options.bookId ? 'book' : settings.deckMode, bookId: deckBookId },
+      nextDueAt,
+    };
+  }
+
+  /**
+   * Due/new/learning counts for each book the user owns, honouring today's limits
+   */
+  async getDeckCounts(userId: number, options: { tzOffsetMinutes?: number; now?: Date } = {}): Promise<DeckCounts[]> {
+    const now = options.now ?? new Date();
+    const settings = await this.getSettings(userId);
+    const dayStart = this.startOfDay(now, options.tzOffsetMinutes);
+
+    const ownedBooks = await db
+      .select({ bookId: books.id, title: books.title })
+      .from(entitlements)
+      .innerJoin(books, eq(entitlements.bookId, books.id))
+      .where(eq(entitlements.userId, userId));
+
+    if (ownedBooks.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select({
+        bookId: savedWords.bookId,
+        total: sql<number>`cast(count(*) as int)`,
+        due: sql<number>`cast(count(*) filter (where ${savedWords.lastReviewedAt} is not null and ${savedWords.intervalDays} >= 1 and ${savedWords.nextReviewAt} <= ${now}) as int)`,
+        learning: sql<number>`cast(count(*) filter (where ${savedWords.lastReviewedAt} is not null and ${savedWords.intervalDays} < 1 and ${savedWords.nextReviewAt} <= ${now}) as int)`,
+        new: sql<number>`cast(count(*) filter (where ${savedWords.lastReviewedAt} is null) as int)`,
+      })
+      .from(savedWords)
+      .where(and(eq(savedWords.userId, userId), inArray(savedWords.bookId, ownedBooks.map(b => b.bookId))))
+      .groupBy(savedWords.bookId);
+
+    // Limits are per user, so each deck shows at most what could still be studied today
+    const today = await this.getTodayCounts(userId, dayStart);
+    const newRemaining = Math.max(0, settings.newCardsPerDay - today.newStudied);
+    const reviewsRemaining = Math.max(0, settings.maxReviewsPerDay - today.reviewsDone);
+    const countsByBook = new Map(rows.map(row => [row.bookId, row]));
+
+    return ownedBooks.map(({ bookId, title }) => {
+      const counts = countsByBook.get(bookId);
+      return {
+        bookId,
+        title,
+        due: Math.min(counts?.due ?? 0, reviewsRemaining),
+        new: Math.min(counts?.new ?? 0, newRemaining),
+        learning: counts?.learning ?? 0,
+        total: counts?.total ?? 0,
+      };
+    });
+  }
+}
+
+export const reviewQueueService = new ReviewQueueService();
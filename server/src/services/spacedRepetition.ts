@@ -0,0 +1,141 @@
+// Review grades shown in the word bank as "Again / Hard / Good / Easy"
+export type ReviewGrade = 1 | 2 | 3 | 4;
+
+export const REVIEW_GRADES: Record<ReviewGrade, 'again' | 'hard' | 'good' | 'easy'> = {
+  1: 'again',
+  2: 'hard',
+  3: 'good',
+  4: 'easy',
+};
+
+export interface CardSchedule {
+  easeFactor: number;   // SM-2 ease factor, 1.3 minimum
+  intervalDays: number; // Current interval (fractional for relearning steps)
+  repetitions: number;  // Consecutive successful reviews
+  lapses: number;       // Times the card was forgotten after being learned
+  dueAt: Date;
+}
+
+export interface ProjectedInterval {
+  intervalDays: number;
+  dueAt: Date;
+}
+
+const MINUTE_IN_DAYS = 1 / (24 * 60);
+
+/**
+ * SM-2 spaced repetition scheduler (Anki-style four-button variant)
+ * Tracks ease factor, interval, repetitions and lapses per card so well-known
+ * words drift further out while a lapse sends the card back to relearning
+ */
+export class SpacedRepetitionScheduler {
+  private readonly DEFAULT_EASE = 2.5;
+  private readonly MIN_EASE = 1.3;
+  private readonly MAX_INTERVAL_DAYS = 365 * 10;
+  private readonly RELEARN_STEP_DAYS = 10 * MINUTE_IN_DAYS; // "Again" comes back in 10 minutes
+  private readonly HARD_MULTIPLIER = 1.2;
+  private readonly EASY_BONUS = 1.3;
+
+  /**
+   * Schedule for a card that has never been reviewed
+   */
+  initialSchedule(now: Date = new Date()): CardSchedule {
+    return {
+      easeFactor: this.DEFAULT_EASE,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now,
+    };
+  }
+
+  /**
+   * Apply a review grade and return the card's next schedule
+   */
+  review(card: CardSchedule, grade: ReviewGrade, now: Date = new Date()): CardSchedule {
+    let { easeFactor, intervalDays, repetitions, lapses } = card;
+
+    // Reviews done late still count the extra time the word was remembered
+    const overdueDays = Math.max(0, (now.getTime() - card.dueAt.getTime()) / 86400000);
+
+    switch (grade) {
+      case 1: // Again - forgotten, back to relearning
+        if (repetitions > 0) {
+          lapses += 1;
+        }
+        repetitions = 0;
+        easeFactor = Math.max(this.MIN_EASE, easeFactor - 0.2);
+        intervalDays = this.RELEARN_STEP_DAYS;
+        break;
+
+      case 2: // Hard
+        easeFactor = Math.max(this.MIN_EASE, easeFactor - 0.15);
+        intervalDays = repetitions === 0
+          ? 1
+          : Math.max(intervalDays + 1, intervalDays * this.HARD_MULTIPLIER);
+        repetitions += 1;
+        break;
+
+      case 3: // Good
+        if (repetitions === 0) {
+          intervalDays = 1;
+        } else if (repetitions === 1) {
+          intervalDays = 3;
+        } else {
+          intervalDays = Math.max(intervalDays + 1, (intervalDays + overdueDays / 2) * easeFactor);
+        }
+        repetitions += 1;
+        break;
+
+      case 4: // Easy
+        intervalDays = repetitions === 0
+          ? 4
+          : Math.max(intervalDays + 1, (intervalDays + overdueDays) * easeFactor * this.EASY_BONUS);
+        easeFactor += 0.15;
+        repetitions += 1;
+        break;
+    }
+
+    // Whole days once the card has graduated from relearning
+    if (intervalDays >= 1) {
+      intervalDays = Math.min(this.MAX_INTERVAL_DAYS, Math.round(intervalDays));
+    }
+
+    return {
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      intervalDays,
+      repetitions,
+      lapses,
+      dueAt: new Date(now.getTime() + intervalDays * 86400000),
+    };
+  }
+
+  /**
+   * Project the interval each grade would produce, for labelling review buttons
+   */
+  previewIntervals(card: CardSchedule, now: Date = new Date()): Record<'again' | 'hard' | 'good' | 'easy', ProjectedInterval> {
+    const preview = {} as Record<'again' | 'hard' | 'good' | 'easy', ProjectedInterval>;
+
+    for (const grade of [1, 2, 3, 4] as ReviewGrade[]) {
+      const next = this.review(card, grade, now);
+      preview[REVIEW_GRADES[grade]] = {
+        intervalDays: next.intervalDays,
+        dueAt: next.dueAt,
+      };
+    }
+
+    return preview;
+  }
+
+  /**
+   * Map the legacy 1-5 ease scale onto the four review grades
+   */
+  gradeFromLegacyEase(ease: number): ReviewGrade {
+    if (ease <= 1) return 1;
+    if (ease === 2) return 2;
+    if (ease === 3) return 3;
+    return 4;
+  }
+}
+
+export const spacedRepetitionScheduler = new SpacedRepetitionScheduler();
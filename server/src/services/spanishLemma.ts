@@ -0,0 +1,173 @@
+import natural from 'natural';
+import { inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { dictionaryEntries, dictionaryForms } from '../db/schema';
+
+// Spanish language configuration for natural
+// Note: Using stemmer directly without attach method
+
+/**
+ * Normalize a tapped/parsed token into a bare lowercase Spanish word
+ * Strips punctuation such as ¿¡.,;:"« » while keeping accented letters
+ */
+export function normalizeSpanishWord(word: string): string {
+  return word.toLowerCase().trim().replace(/[^a-záéíóúñü]/g, '');
+}
+
+/**
+ * Get the Spanish Snowball/Porter stem of a word
+ * Stems are only a search hint: unrelated words share them ("casa", "casar", "caso" → "cas")
+ */
+export function getSpanishStem(word: string): string {
+  const normalized = normalizeSpanishWord(word);
+  if (!normalized) {
+    return normalized;
+  }
+
+  return natural.PorterStemmerEs.stem(normalized) || normalized;
+}
+
+/**
+ * Normalize a sense label or translation into the key cards of one lemma are told apart by
+ */
+export function normalizeSense(sense: string): string {
+  return sense.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+// Inflectional endings and the dictionary-form endings they can come from, longest first
+// Nouns and adjectives come before verbs so "casas" prefers "casa" over "casar"
+const INFLECTION_RULES: [string, string[]][] = [
+  ['ces', ['z']],
+  ['os', ['o']],
+  ['as', ['a', 'o', 'ar']],
+  ['es', ['', 'e', 'er', 'ir', 'ar']],
+  ['a', ['o', 'ar', 'er', 'ir']],
+  ['s', ['']],
+  ['ábamos', ['ar']], ['abais', ['ar']], ['aban', ['ar']], ['abas', ['ar']], ['aba', ['ar']],
+  ['íamos', ['er', 'ir']], ['íais', ['er', 'ir']], ['ían', ['er', 'ir']], ['ías', ['er', 'ir']], ['ía', ['er', 'ir']],
+  ['asteis', ['ar']], ['aron', ['ar']], ['aste', ['ar']],
+  ['isteis', ['er', 'ir']], ['ieron', ['er', 'ir']], ['iste', ['er', 'ir']], ['ió', ['er', 'ir']],
+  ['ando', ['ar']], ['iendo', ['er', 'ir']], ['yendo', ['er', 'ir']],
+  ['ado', ['ar']], ['ada', ['ar']], ['ados', ['ar']], ['adas', ['ar']],
+  ['ido', ['er', 'ir']], ['ida', ['er', 'ir']], ['idos', ['er', 'ir']], ['idas', ['er', 'ir']],
+  ['amos', ['ar']], ['emos', ['er', 'ar']], ['imos', ['ir']],
+  ['áis', ['ar']], ['éis', ['er', 'ar']], ['ís', ['ir']],
+  ['an', ['ar', 'er', 'ir']], ['en', ['er', 'ir', 'ar']],
+  ['é', ['ar']], ['ó', ['ar']], ['í', ['er', 'ir']],
+  ['o', ['ar', 'er', 'ir']], ['e', ['er', 'ir', 'ar']],
+];
+
+// Future and conditional endings are added to the whole infinitive ("comerá" → "comer")
+const INFINITIVE_ENDINGS = ['íamos', 'íais', 'emos', 'éis', 'ían', 'ías', 'ía', 'án', 'ás', 'á', 'é'];
+
+/**
+ * Resolves inflected Spanish words to their dictionary form
+ * A lemma is the headword the offline dictionary lists the word as a form of, or else a headword
+ * the word is a regular inflection of, so "comió" and "comemos" share "comer" while "casa",
+ * "casar" and "caso" stay apart. Words the dictionary doesn't know fall back to their stem
+ */
+export class SpanishLemmatizer {
+  /**
+   * Dictionary forms a word could be an inflection of, most likely first, starting with the word itself
+   */
+  candidates(word: string): string[] {
+    const form = normalizeSpanishWord(word);
+    if (!form) {
+      return [];
+    }
+
+    const candidates = [form];
+    for (const [suffix, replacements] of INFLECTION_RULES) {
+      const stem = form.slice(0, -suffix.length);
+      if (!form.endsWith(suffix) || stem.length < 2) continue;
+      candidates.push(...replacements.map(replacement => stem + replacement));
+    }
+    for (const ending of INFINITIVE_ENDINGS) {
+      const infinitive = form.slice(0, -ending.length);
+      if (form.endsWith(ending) && /[aei]r$/.test(infinitive) && infinitive.length > 3) {
+        candidates.push(infinitive);
+      }
+    }
+
+    return [...new Set(candidates)];
+  }
+
+  /**
+   * Dictionary headwords of several words, best first, keyed by the normalized word:
+   * the words the dictionary lists it as a form of, then the first candidate that is a headword.
+   * Words the dictionary doesn't know map to an empty list
+   */
+  async headwordsMany(words: string[]): Promise<Map<string, string[]>> {
+    const candidatesByForm = new Map<string, string[]>();
+    for (const word of words) {
+      const form = normalizeSpanishWord(word);
+      if (form && !candidatesByForm.has(form)) {
+        candidatesByForm.set(form, this.candidates(form));
+      }
+    }
+
+    const forms = [...candidatesByForm.keys()];
+    const allCandidates = [...new Set([...candidatesByForm.values()].flat())];
+    const formLemmas = new Map<string, string[]>();
+    const headwords = new Set<string>();
+    // Batched so long word lists don't exceed Postgres' bind parameter limit
+    for (let i = 0; i < forms.length; i += 5000) {
+      const rows = await db
+        .select({ form: dictionaryForms.form, lemma: dictionaryForms.lemma })
+        .from(dictionaryForms)
+        .where(inArray(dictionaryForms.form, forms.slice(i, i + 5000)))
+        .orderBy(dictionaryForms.id);
+      rows.forEach(row => formLemmas.set(row.form, [...(formLemmas.get(row.form) ?? []), row.lemma]));
+    }
+    for (let i = 0; i < allCandidates.length; i += 5000) {
+      const rows = await db
+        .selectDistinct({ headword: dictionaryEntries.headword })
+        .from(dictionaryEntries)
+        .where(inArray(dictionaryEntries.headword, allCandidates.slice(i, i + 5000)));
+      rows.forEach(row => headwords.add(row.headword));
+    }
+
+    const result = new Map<string, string[]>();
+    for (const [form, candidates] of candidatesByForm) {
+      const headword = candidates.find(candidate => headwords.has(candidate));
+      result.set(form, [...new Set([...(formLemmas.get(form) ?? []), ...(headword ? [headword] : [])])]);
+    }
+    return result;
+  }
+
+  /**
+   * Lemmas of several words, keyed by the normalized word
+   */
+  async lemmatizeMany(words: string[]): Promise<Map<string, string>> {
+    const lemmas = new Map<string, string>();
+    for (const [form, headwords] of await this.headwordsMany(words)) {
+      lemmas.set(form, headwords[0] ?? getSpanishStem(form));
+    }
+    return lemmas;
+  }
+
+  /**
+   * Lemma of a single word, or an empty string when it has no letters
+   */
+  async lemmatize(word: string): Promise<string> {
+    const form = normalizeSpanishWord(word);
+    if (!form) {
+      return form;
+    }
+    return (await this.lemmatizeMany([form])).get(form) ?? form;
+  }
+
+  /**
+   * Lemma key for a word or short phrase, lemmatizing each word ("tenía miedo" → "tener miedo")
+   */
+  lemmaKey(text: string, lemmas: Map<string, string>): string {
+    return text
+      .split(/\s+/)
+      .map(normalizeSpanishWord)
+      .filter(Boolean)
+      .map(form => lemmas.get(form) ?? form)
+      .join(' ');
+  }
+}
+
+export const spanishLemmatizer = new SpanishLemmatizer();
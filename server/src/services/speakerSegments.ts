@@ -0,0 +1,271 @@
+export const NARRATOR = 'narrator';
+export const UNATTRIBUTED = 'dialogue'; // Dialogue whose speaker couldn't be worked out
+
+/**
+ * A run of chapter text read by one voice, stored in chapter JSON as content.segments
+ * Segments are kept in reading order and located in the narration text at generation time,
+ * since the text sent to TTS is rebuilt from paragraphs or sentences depending on its source
+ */
+export interface SpeakerSegment {
+  speaker: string; // NARRATOR, UNATTRIBUTED or a character name as written
+  text: string;
+  source: 'detected' | 'manual'; // manual = tagged with [Name] in the chapter editor
+}
+
+// A segment located in the text being narrated
+export interface SpeakerRange {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Speech verbs that introduce the speaker in Spanish dialogue: "—Hola —dijo María."
+const SPEECH_VERBS = [
+  'dijo', 'preguntó', 'respondió', 'contestó', 'exclamó', 'gritó', 'susurró', 'murmuró', 'añadió',
+  'explicó', 'insistió', 'repitió', 'continuó', 'replicó', 'pidió', 'anunció', 'comentó', 'suspiró',
+];
+const VERB_PATTERN = SPEECH_VERBS.flatMap(verb => [verb, verb[0].toUpperCase() + verb.slice(1)]).join('|');
+// Case-sensitive so that only a capitalised word counts as a name: "dijo María", "dijo la abuela"
+const ATTRIBUTION_AFTER_REGEX = new RegExp(
+  `(?:^|[^\\p{L}])(?:${VERB_PATTERN})\\s+(?:(?:el|la)\\s+(\\p{L}+)|(\\p{Lu}\\p{L}+))`,
+  'u'
+);
+// "María dijo:", "El abuelo preguntó:"
+const ATTRIBUTION_BEFORE_REGEX = new RegExp(
+  `(?:^|[^\\p{L}])(?:(?:[Ee]l|[Ll]a)\\s+(\\p{L}+)|(\\p{Lu}\\p{L}+))\\s+(?:${VERB_PATTERN})(?![\\p{L}])`,
+  'u'
+);
+// Capitalised words that start a sentence before a speech verb without naming anyone
+const NOT_NAMES = new Set(['entonces', 'luego', 'después', 'pero', 'ella', 'él', 'ellos', 'ellas', 'alguien', 'nadie', 'todos', 'también', 'finalmente']);
+
+// [María] switches the voice from that point to the end of the paragraph or the next tag
+const SPEAKER_TAG_REGEX = /\[(\p{L}[\p{L} .'-]{0,39})\][ \t]*/gu;
+const NARRATOR_TAGS = [NARRATOR, 'narrador'];
+
+const WORD_REGEX = /[\p{L}\p{N}]+(?:['\-][\p{L}\p{N}]+)*/gu;
+const DIALOGUE_DASHES = ['—', '―', '–'];
+const QUOTE_PAIRS: Record<string, string> = { '«': '»', '“': '”', '"': '"' };
+const MAX_SKIPPED_WORDS = 40; // How far alignment looks ahead when the narration text drops words
+
+/**
+ * Splits chapter text into narrator and character segments for multi-voice narration
+ * Dialogue is detected from dialogue dashes and quotation marks, and the speaker from
+ * speech verbs in the surrounding narration; editors can override with [Name] tags
+ */
+export class SpeakerSegmentService {
+  normalizeSpeaker(name: string): string {
+    return name.normalize('NFC').trim().toLowerCase();
+  }
+
+  private hasWords(text: string): boolean {
+    return new RegExp(WORD_REGEX.source, 'u').test(text);
+  }
+
+  /**
+   * Remove [Name] tags from paragraphs and segment them
+   * Paragraphs with tags use exactly the tagged speakers; the others are detected
+   */
+  segmentParagraphs(paragraphs: string[]): { paragraphs: string[]; segments: SpeakerSegment[] } {
+    const cleanParagraphs: string[] = [];
+    const segments: SpeakerSegment[] = [];
+    const conversation: string[] = []; // Speakers of consecutive dialogue paragraphs, for turn-taking
+
+    for (const paragraph of paragraphs) {
+      const tagged = this.parseSpeakerTags(paragraph);
+
+      if (tagged) {
+        cleanParagraphs.push(tagged.text);
+        segments.push(...this.mergeAdjacent(tagged.segments));
+        conversation.length = 0;
+        continue;
+      }
+
+      cleanParagraphs.push(paragraph);
+      segments.push(...this.mergeAdjacent(this.detectParagraph(paragraph, conversation)));
+    }
+
+    return { paragraphs: cleanParagraphs, segments };
+  }
+
+  /**
+   * Segment plain paragraphs, e.g. from an uploaded document
+   */
+  detectSegments(paragraphs: string[]): SpeakerSegment[] {
+    const conversation: string[] = [];
+    return paragraphs.flatMap(paragraph => this.mergeAdjacent(this.detectParagraph(paragraph, conversation)));
+  }
+
+  private parseSpeakerTags(paragraph: string): { text: string; segments: SpeakerSegment[] } | null {
+    const tags = [...paragraph.matchAll(SPEAKER_TAG_REGEX)];
+    if (tags.length === 0) return null;
+
+    const segments: SpeakerSegment[] = [];
+    let text = '';
+    let speaker = NARRATOR;
+    let cursor = 0;
+
+    const pushSegment = (segmentText: string) => {
+      text += segmentText;
+      if (this.hasWords(segmentText)) {
+        segments.push({ speaker, text: segmentText.trim(), source: 'manual' });
+      }
+    };
+
+    for (const tag of tags) {
+      pushSegment(paragraph.slice(cursor, tag.index));
+      const name = tag[1].trim();
+      speaker = NARRATOR_TAGS.includes(this.normalizeSpeaker(name)) ? NARRATOR : name;
+      cursor = tag.index! + tag[0].length;
+    }
+    pushSegment(paragraph.slice(cursor));
+
+    return { text: text.trim(), segments };
+  }
+
+  /**
+   * Split one paragraph at dialogue dashes and quotes, then attribute each line
+   */
+  private detectParagraph(paragraph: string, conversation: string[]): SpeakerSegment[] {
+    const parts: { dialogue: boolean; text: string }[] = [];
+    const trimmed = paragraph.trim();
+
+    if (DIALOGUE_DASHES.includes(trimmed[0])) {
+      // "—Line —narration— line": each dash switches between character and narrator
+      let dialogue = true;
+      let current = '';
+      for (const char of trimmed.slice(1)) {
+        if (DIALOGUE_DASHES.includes(char)) {
+          parts.push({ dialogue, text: current });
+          dialogue = !dialogue;
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      parts.push({ dialogue, text: current });
+    } else {
+      let current = '';
+      let closingQuote: string | null = null;
+      for (const char of trimmed) {
+        if (closingQuote ? char === closingQuote : char in QUOTE_PAIRS) {
+          parts.push({ dialogue: closingQuote !== null, text: current });
+          closingQuote = closingQuote ? null : QUOTE_PAIRS[char];
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      parts.push({ dialogue: closingQuote !== null, text: current });
+    }
+
+    const spoken = parts.filter(part => this.hasWords(part.text));
+    if (!spoken.some(part => part.dialogue)) {
+      conversation.length = 0;
+      return spoken.length > 0 ? [{ speaker: NARRATOR, text: trimmed, source: 'detected' }] : [];
+    }
+
+    // Attribution usually sits in the narration right after the line, otherwise before it
+    const narration = spoken.filter(part => !part.dialogue).map(part => part.text).join(' ');
+    const attributed = this.findSpeaker(narration);
+
+    // Untagged turns in a back-and-forth alternate between the last two speakers
+    const speaker = attributed
+      ?? (conversation.length >= 2 ? conversation[conversation.length - 2] : UNATTRIBUTED);
+    conversation.push(speaker);
+
+    return spoken.map(part => ({
+      speaker: part.dialogue ? speaker : NARRATOR,
+      text: part.text.trim(),
+      source: 'detected' as const,
+    }));
+  }
+
+  private findSpeaker(narration: string): string | null {
+    for (const regex of [ATTRIBUTION_AFTER_REGEX, ATTRIBUTION_BEFORE_REGEX]) {
+      const match = narration.match(regex);
+      const name = match?.[1] ?? match?.[2];
+      if (name && !NOT_NAMES.has(name.toLowerCase())) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  // Segments never span paragraphs, so the editor can find each one's text to restore its tag
+  private mergeAdjacent(segments: SpeakerSegment[]): SpeakerSegment[] {
+    const merged: SpeakerSegment[] = [];
+    for (const segment of segments) {
+      const last = merged[merged.length - 1];
+      if (last && last.speaker === segment.speaker && last.source === segment.source) {
+        last.text = `${last.text} ${segment.text}`;
+      } else {
+        merged.push({ ...segment });
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Whether any segment needs a voice other than the narrator's
+   */
+  isMultiVoice(segments: SpeakerSegment[] | null | undefined): segments is SpeakerSegment[] {
+    return !!segments && segments.some(segment => segment.speaker !== NARRATOR);
+  }
+
+  private words(text: string): WordSpan[] {
+    return [...text.matchAll(WORD_REGEX)].map(match => ({
+      word: match[0].normalize('NFC').toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+  }
+
+  /**
+   * Locate segments in the text being narrated, word by word
+   * The ranges cover the whole text; words the segments don't mention (or that the
+   * narration text dropped) stay with the surrounding voice
+   */
+  alignSegments(text: string, segments: SpeakerSegment[]): SpeakerRange[] {
+    const segmentWords = segments.flatMap(segment => this.words(segment.text).map(word => ({ ...word, speaker: segment.speaker })));
+    const textWords = this.words(text);
+    const ranges: SpeakerRange[] = [];
+    let pointer = 0;
+    let speaker = segments[0]?.speaker ?? NARRATOR;
+
+    for (const [index, word] of textWords.entries()) {
+      const limit = Math.min(segmentWords.length, pointer + MAX_SKIPPED_WORDS);
+      for (let candidate = pointer; candidate < limit; candidate++) {
+        // Skipping ahead needs the next word to agree too, so a common word can't derail the alignment
+        const nextAgrees = candidate === pointer
+          || index + 1 >= textWords.length
+          || segmentWords[candidate + 1]?.word === textWords[index + 1].word;
+        if (segmentWords[candidate].word === word.word && nextAgrees) {
+          speaker = segmentWords[candidate].speaker;
+          pointer = candidate + 1;
+          break;
+        }
+      }
+
+      if (ranges.length === 0) {
+        ranges.push({ speaker, start: 0, end: text.length });
+      } else if (ranges[ranges.length - 1].speaker !== speaker) {
+        // Opening punctuation ("¿", "—", «) belongs with the word it introduces
+        const previousEnd = textWords[index - 1].end;
+        const gap = text.slice(previousEnd, word.start);
+        const boundary = previousEnd + Math.max(gap.search(/\S*$/), 0);
+        ranges[ranges.length - 1].end = boundary;
+        ranges.push({ speaker, start: boundary, end: text.length });
+      }
+    }
+
+    return ranges.length > 0 ? ranges : [{ speaker: NARRATOR, start: 0, end: text.length }];
+  }
+}
+
+export const speakerSegmentService = new SpeakerSegmentService();
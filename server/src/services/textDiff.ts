@@ -0,0 +1,131 @@
+// A run of text that both versions share, or that only the old / new version has
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface TextDiff {
+  parts: DiffPart[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+type Op<T> = { type: DiffPart['type']; item: T };
+
+// Above this many table cells a block is reported as replaced instead of diffed word by word
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence diff of two sequences
+ * Common leading and trailing items are skipped first, which leaves little to compare
+ * when a revision only touches a few places
+ */
+function diffSequences<T>(before: T[], after: T[]): Op<T>[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: Op<T>[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    middle.push(...a.map(item => ({ type: 'delete' as const, item })), ...b.map(item => ({ type: 'insert' as const, item })));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..], stored row by row
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        middle.push({ type: 'equal', item: a[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        middle.push({ type: 'delete', item: a[i++] });
+      } else {
+        middle.push({ type: 'insert', item: b[j++] });
+      }
+    }
+    while (i < a.length) middle.push({ type: 'delete', item: a[i++] });
+    while (j < b.length) middle.push({ type: 'insert', item: b[j++] });
+  }
+
+  return [
+    ...before.slice(0, prefix).map(item => ({ type: 'equal' as const, item })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(item => ({ type: 'equal' as const, item })),
+  ];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Word-level diff of two texts made of paragraphs separated by blank lines
+ * Paragraphs are compared first, then the words of the paragraphs that changed
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const split = (text: string) => text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph.length > 0);
+  const paragraphOps = diffSequences(split(before), split(after));
+
+  const parts: DiffPart[] = [];
+  let separatorPending = false;
+  const separator = () => {
+    if (separatorPending) pushPart(parts, 'equal', '\n\n');
+    separatorPending = true;
+  };
+
+  for (let index = 0; index < paragraphOps.length;) {
+    if (paragraphOps[index].type === 'equal') {
+      separator();
+      pushPart(parts, 'equal', paragraphOps[index].item);
+      index++;
+      continue;
+    }
+
+    // A block of removed and added paragraphs: compare their words, keeping whitespace as tokens
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < paragraphOps.length && paragraphOps[index].type !== 'equal') {
+      (paragraphOps[index].type === 'delete' ? removed : added).push(paragraphOps[index].item);
+      index++;
+    }
+    separator();
+    const tokens = (paragraphs: string[]) => paragraphs.join('\n\n').split(/(\s+)/).filter(token => token.length > 0);
+    for (const op of diffSequences(tokens(removed), tokens(added))) {
+      pushPart(parts, op.type, op.item);
+    }
+  }
+
+  return {
+    parts,
+    wordsAdded: parts.filter(part => part.type === 'insert').reduce((sum, part) => sum + countWords(part.text), 0),
+    wordsRemoved: parts.filter(part => part.type === 'delete').reduce((sum, part) => sum + countWords(part.text), 0),
+  };
+}
@@ -0,0 +1,310 @@
+import { createHash } from 'crypto';
+import { db } from '../db/index';
+import { chapters, chapterTimingVersions, users, TimingQualityReport } from '../db/schema';
+import { desc, eq, sql } from 'drizzle-orm';
+import { AudioGenerationResult, WordTiming } from './elevenLabsService';
+import { narrationAudioService } from './narrationAudio';
+import { forcedAlignmentService } from './forcedAlignment';
+import { timingQualityService } from './timingQuality';
+
+// Word timings as stored in chapters.elevenLabsTimingData, with whatever else their source kept next to them
+type StoredTimingData = AudioGenerationResult['timingData'] & Record<string, unknown>;
+
+type TimingVersionSource = typeof chapterTimingVersions.$inferInsert['source'];
+
+export interface TimingVersionSummary {
+  id: number;
+  version: number;
+  source: TimingVersionSource;
+  note: string | null;
+  createdAt: Date;
+  createdBy: string | null; // Email of the admin who saved it
+  wordCount: number;
+  matchesAudio: boolean; // Whether the timings belong to the chapter's current narration
+}
+
+export interface ChapterTimings {
+  chapter: { id: string; bookId: string; title: string; indexInBook: number; audioUrl: string | null };
+  timingData: StoredTimingData | null;
+  baseline: string | null; // Hash of the timings, sent back on save to catch changes made meanwhile
+  quality: TimingQualityReport | null;
+  versions: TimingVersionSummary[];
+}
+
+// New times for a run of words, proposed by aligning part of the audio again
+export interface SpanAlignment {
+  fromWord: number;
+  toWord: number;
+  start: number;
+  end: number;
+  words: WordTiming[];
+  matchedWords: number;
+  exactMatches: number;
+}
+
+export class TimingEditError extends Error {
+  constructor(message: string, public code: string, public status: number) {
+    super(message);
+    this.name = 'TimingEditError';
+    Object.setPrototypeOf(this, TimingEditError.prototype);
+  }
+}
+
+// One recogniser window, which aligns in seconds while the editor's request waits; longer stretches are aligned again as a whole chapter
+const MAX_SPAN_SECONDS = 30;
+const TIME_TOLERANCE = 0.05; // Rounding slack when checking times against the audio length
+
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+// A word with new times, marked as estimated only when the new times are
+function retime(word: WordTiming, start: number, end: number, isEstimated: boolean = false): WordTiming {
+  const timed: WordTiming = { ...word, startTime: start, endTime: end, start, end };
+  delete timed.isEstimated;
+  return isEstimated ? { ...timed, isEstimated } : timed;
+}
+
+/**
+ * Backs the admin timing editor: corrected word timings are saved as numbered versions,
+ * so any earlier set of timings, including the generated one an edit started from, can be restored
+ */
+export class TimingEditorService {
+  // The narration last re-aligned, as an editor re-aligns many spans of the same chapter in a row
+  private recentNarration: { audioUrl: string; audio: Buffer } | null = null;
+
+  /**
+   * Hash of timings that is the same before and after storing them, as jsonb doesn't keep key order
+   */
+  private hash(timingData: unknown): string {
+    const canonical = JSON.stringify(timingData, (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : value
+    );
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  private async getChapter(chapterId: string) {
+    const chapter = await db.select().from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+    if (chapter.length === 0) {
+      throw new TimingEditError('Chapter not found', 'CHAPTER_NOT_FOUND', 404);
+    }
+    return chapter[0];
+  }
+
+  private timingsOf(chapter: { elevenLabsTimingData: unknown }): StoredTimingData {
+    const timingData = chapter.elevenLabsTimingData as StoredTimingData | null;
+    if (!timingData || !Array.isArray(timingData.words) || timingData.words.length === 0) {
+      throw new TimingEditError('Chapter has no word timings to edit', 'NO_TIMINGS', 400);
+    }
+    return timingData;
+  }
+
+  /**
+   * The chapter's word timings with its version history, newest first
+   */
+  async getTimings(chapterId: string): Promise<ChapterTimings> {
+    const chapter = await this.getChapter(chapterId);
+
+    const versions = await db
+      .select({
+        id: chapterTimingVersions.id,
+        version: chapterTimingVersions.version,
+        source: chapterTimingVersions.source,
+        audioUrl: chapterTimingVersions.audioUrl,
+        note: chapterTimingVersions.note,
+        createdAt: chapterTimingVersions.createdAt,
+        createdBy: users.email,
+        wordCount: sql<number>`coalesce(jsonb_array_length(${chapterTimingVersions.timingData}->'words'), 0)`,
+      })
+      .from(chapterTimingVersions)
+      .leftJoin(users, eq(chapterTimingVersions.createdByAdminId, users.id))
+      .where(eq(chapterTimingVersions.chapterId, chapterId))
+      .orderBy(desc(chapterTimingVersions.version));
+
+    const timingData = (chapter.elevenLabsTimingData as StoredTimingData | null) ?? null;
+    return {
+      chapter: { id: chapter.id, bookId: chapter.bookId, title: chapter.title, indexInBook: chapter.indexInBook, audioUrl: chapter.audioUrl },
+      timingData,
+      baseline: timingData ? this.hash(timingData) : null,
+      quality: chapter.timingQuality,
+      versions: versions.map(({ audioUrl, ...version }) => ({
+        ...version,
+        wordCount: Number(version.wordCount),
+        matchesAudio: audioUrl === chapter.audioUrl,
+      })),
+    };
+  }
+
+  /**
+   * Store timings as the chapter's current ones and as its next version
+   * Timings that were never saved as a version (new TTS audio or alignment) are kept as a generated version first
+   */
+  private async commit(
+    chapterId: string,
+    baseline: string,
+    build: (current: StoredTimingData, audioUrl: string | null) => StoredTimingData,
+    source: TimingVersionSource,
+    adminId: number,
+    note: string | null
+  ): Promise<{ version: number; baseline: string; timingData: StoredTimingData; quality: TimingQualityReport | null }> {
+    const saved = await db.transaction(async (tx) => {
+      const chapter = await tx.select().from(chapters).where(eq(chapters.id, chapterId)).for('update');
+      if (chapter.length === 0) {
+        throw new TimingEditError('Chapter not found', 'CHAPTER_NOT_FOUND', 404);
+      }
+      const current = this.timingsOf(chapter[0]);
+      if (this.hash(current) !== baseline) {
+        throw new TimingEditError('The word timings changed after the editor loaded them; reload to see the new timings', 'TIMINGS_CHANGED', 409);
+      }
+      const timingData = build(current, chapter[0].audioUrl);
+
+      const latest = await tx
+        .select({ version: chapterTimingVersions.version, timingData: chapterTimingVersions.timingData })
+        .from(chapterTimingVersions)
+        .where(eq(chapterTimingVersions.chapterId, chapterId))
+        .orderBy(desc(chapterTimingVersions.version))
+        .limit(1);
+
+      let version = latest.length > 0 ? latest[0].version : 0;
+      if (latest.length === 0 || this.hash(latest[0].timingData) !== baseline) {
+        version++;
+        await tx.insert(chapterTimingVersions).values({
+          chapterId,
+          version,
+          source: 'generated',
+          audioUrl: chapter[0].audioUrl,
+          timingData: current,
+        });
+      }
+
+      version++;
+      await tx.insert(chapterTimingVersions).values({
+        chapterId,
+        version,
+        source,
+        audioUrl: chapter[0].audioUrl,
+        timingData,
+        note,
+        createdByAdminId: adminId,
+      });
+      await tx.update(chapters).set({ elevenLabsTimingData: timingData }).where(eq(chapters.id, chapterId));
+
+      return { version, baseline: this.hash(timingData), timingData };
+    });
+
+    return { ...saved, quality: await timingQualityService.checkChapter(chapterId) };
+  }
+
+  /**
+   * Save edited times for every word of the chapter, in order
+   * Only times change; the words, their text offsets and speakers stay as generated.
+   * Words whose times were moved are no longer marked as estimated
+   */
+  async saveTimings(
+    chapterId: string,
+    times: { start: number; end: number }[],
+    baseline: string,
+    adminId: number,
+    note: string | null
+  ) {
+    return this.commit(chapterId, baseline, (current) => {
+      if (times.length !== current.words.length) {
+        throw new TimingEditError(`Expected times for ${current.words.length} words, got ${times.length}`, 'TIMINGS_MISMATCH', 400);
+      }
+
+      const limit = current.totalDuration > 0 ? current.totalDuration + TIME_TOLERANCE : Infinity;
+      let previousStart = 0;
+      const words = current.words.map((word, index): WordTiming => {
+        const start = roundTime(times[index].start);
+        const end = roundTime(times[index].end);
+        if (start < 0 || end < start || end > limit) {
+          throw new TimingEditError(`Word ${index + 1} ("${word.text}") has invalid times`, 'INVALID_TIMINGS', 400);
+        }
+        if (start < previousStart) {
+          throw new TimingEditError(`Word ${index + 1} ("${word.text}") starts before the word it follows`, 'INVALID_TIMINGS', 400);
+        }
+        previousStart = start;
+
+        if (start === roundTime(word.start) && end === roundTime(word.end)) {
+          return word;
+        }
+        return retime(word, start, end);
+      });
+
+      return { ...current, words };
+    }, 'editor', adminId, note);
+  }
+
+  /**
+   * Make an earlier version the chapter's current timings again, recorded as a new version
+   */
+  async restoreVersion(chapterId: string, versionId: number, baseline: string, adminId: number) {
+    const version = await db.select().from(chapterTimingVersions).where(eq(chapterTimingVersions.id, versionId)).limit(1);
+    if (version.length === 0 || version[0].chapterId !== chapterId) {
+      throw new TimingEditError('Timing version not found', 'VERSION_NOT_FOUND', 404);
+    }
+
+    return this.commit(chapterId, baseline, (_current, audioUrl) => {
+      if (version[0].audioUrl !== audioUrl) {
+        throw new TimingEditError('These timings belong to narration the chapter no longer uses', 'VERSION_AUDIO_MISMATCH', 409);
+      }
+      return version[0].timingData as StoredTimingData;
+    }, 'restore', adminId, `Restored version ${version[0].version}`);
+  }
+
+  /**
+   * Align a run of words again against the stretch of narration they should fall in
+   * By default that stretch lies between the neighbouring words, whose times are taken as right.
+   * Nothing is saved: the editor shows the proposed times and saves them with the rest of its edits
+   */
+  async realignSpan(chapterId: string, fromWord: number, toWord: number, range: { start?: number; end?: number } = {}): Promise<SpanAlignment> {
+    const chapter = await this.getChapter(chapterId);
+    if (!chapter.audioUrl) {
+      throw new TimingEditError('Chapter has no narration to align', 'NO_NARRATION', 400);
+    }
+    const { words, totalDuration } = this.timingsOf(chapter);
+
+    if (!Number.isInteger(fromWord) || !Number.isInteger(toWord) || fromWord < 0 || toWord < fromWord || toWord >= words.length) {
+      throw new TimingEditError('Select a run of words of this chapter', 'INVALID_SPAN', 400);
+    }
+
+    const audioEnd = totalDuration > 0 ? totalDuration : words[words.length - 1].end;
+    const start = roundTime(range.start ?? (fromWord > 0 ? words[fromWord - 1].end : 0));
+    const end = roundTime(range.end ?? (toWord < words.length - 1 ? words[toWord + 1].start : audioEnd));
+    if (!(start >= 0) || !(end > start) || end > audioEnd + TIME_TOLERANCE) {
+      throw new TimingEditError('The stretch of audio to align is empty or outside the narration', 'INVALID_SPAN', 400);
+    }
+    if (end - start > MAX_SPAN_SECONDS) {
+      throw new TimingEditError(`Select at most ${MAX_SPAN_SECONDS} seconds of audio, or align the whole chapter again`, 'SPAN_TOO_LONG', 400);
+    }
+
+    // Pauses have no sound to find; they stay at the end of the word before them
+    const span = words.slice(fromWord, toWord + 1);
+    const spoken = span.filter(word => !word.isPause);
+    if (this.recentNarration?.audioUrl !== chapter.audioUrl) {
+      this.recentNarration = { audioUrl: chapter.audioUrl, audio: await narrationAudioService.read(chapter.audioUrl) };
+    }
+    const audio = this.recentNarration.audio;
+    const aligned = await forcedAlignmentService.alignSpan(
+      audio,
+      spoken.map(word => ({ text: word.text, start: word.charStart, end: word.charEnd })),
+      start,
+      end
+    );
+
+    let next = 0;
+    let cursor = start;
+    const proposed = span.map((word): WordTiming => {
+      if (word.isPause) {
+        return retime(word, cursor, cursor);
+      }
+      const timing = aligned.words[next++];
+      cursor = roundTime(timing.end);
+      return retime(word, roundTime(timing.start), cursor, timing.isEstimated);
+    });
+
+    return { fromWord, toWord, start, end, words: proposed, matchedWords: aligned.matchedWords, exactMatches: aligned.exactMatches };
+  }
+}
+
+export const timingEditorService = new TimingEditorService();
@@ -0,0 +1,193 @@
+import { db } from '../db/index';
+import { books, chapters, TimingAccuracy, TimingIssue, TimingIssueType, TimingQualityReport } from '../db/schema';
+import { and, asc, eq, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { WordTiming } from './elevenLabsService';
+import { narrationAudioService } from './narrationAudio';
+
+const ZERO_LENGTH_SECONDS = 0.001;
+const OVERLAP_TOLERANCE = 0.01; // Rounding in provider timings makes neighbours touch by a few milliseconds
+const LONG_GAP_SECONDS = 5; // Longer than a pause between paragraphs
+const DURATION_TOLERANCE = 0.05;
+const MAX_STORED_ISSUES = 200;
+// Same thresholds WhisperTimingService applies to its match rate
+const PERFECT_SCORE = 90;
+const GOOD_SCORE = 70;
+
+// A chapter whose timings need a look, for the admin dashboard
+export interface TimingProblemChapter {
+  chapterId: string;
+  bookId: string;
+  bookTitle: string;
+  indexInBook: number;
+  title: string;
+  quality: TimingQualityReport;
+}
+
+export interface TimingQualityOverview {
+  summary: Record<TimingAccuracy, number> & { unchecked: number };
+  problems: TimingProblemChapter[];
+}
+
+function emptyCounts(): Record<TimingIssueType, number> {
+  return { zero_length: 0, overlap: 0, non_monotonic: 0, long_gap: 0, past_duration: 0, estimated: 0 };
+}
+
+/**
+ * Check word timings for problems that make highlighting drift or jump
+ * Pauses are skipped. Each word counts once towards the score however many issues it has,
+ * and a word whose only issue is an estimated time counts half
+ */
+export function validateTimings(words: WordTiming[], audioDuration: number | null): Omit<TimingQualityReport, 'audioUrl' | 'audioDuration' | 'checkedAt'> {
+  const counts = emptyCounts();
+  const issues: TimingIssue[] = [];
+  let wordCount = 0;
+  let problemWords = 0;
+  let penalty = 0;
+  let previous: WordTiming | null = null;
+
+  words.forEach((word, wordIndex) => {
+    if (word.isPause) return;
+    wordCount++;
+
+    const { start, end } = word;
+    const found: TimingIssueType[] = [];
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end < start || (previous && start < previous.start)) {
+      found.push('non_monotonic');
+    } else if (end - start < ZERO_LENGTH_SECONDS) {
+      found.push('zero_length');
+    }
+    if (previous && start >= previous.start && start < previous.end - OVERLAP_TOLERANCE) found.push('overlap');
+    if (previous && start - previous.end > LONG_GAP_SECONDS) found.push('long_gap');
+    if (audioDuration !== null && end > audioDuration + DURATION_TOLERANCE) found.push('past_duration');
+    if (word.isEstimated) found.push('estimated');
+
+    for (const type of found) {
+      counts[type]++;
+      if (issues.length < MAX_STORED_ISSUES) {
+        issues.push({ type, wordIndex, text: word.text, start, end });
+      }
+    }
+    if (found.some(type => type !== 'estimated')) {
+      problemWords++;
+      penalty += 1;
+    } else if (found.length > 0) {
+      penalty += 0.5;
+    }
+    previous = word;
+  });
+
+  const score = wordCount > 0 ? Math.round(1000 * (1 - penalty / wordCount)) / 10 : 100;
+  const accuracy: TimingAccuracy = score >= PERFECT_SCORE ? 'perfect' : score >= GOOD_SCORE ? 'good' : 'fallback';
+
+  return { score, accuracy, wordCount, problemWords, counts, issues };
+}
+
+/**
+ * Keeps a quality report next to every chapter's word timings
+ * Called wherever timings are written; chapters checked before this existed are caught up from the dashboard
+ */
+export class TimingQualityService {
+  /**
+   * Check a chapter's current timings and store the report
+   * The narration is measured once per audio file; a failed check is logged and leaves the previous report
+   */
+  async checkChapter(chapterId: string): Promise<TimingQualityReport | null> {
+    try {
+      const chapter = await db
+        .select({ audioUrl: chapters.audioUrl, elevenLabsTimingData: chapters.elevenLabsTimingData, timingQuality: chapters.timingQuality })
+        .from(chapters)
+        .where(eq(chapters.id, chapterId))
+        .limit(1);
+      if (chapter.length === 0) return null;
+
+      const timingData = chapter[0].elevenLabsTimingData as { words?: WordTiming[]; totalDuration?: number } | null;
+      if (!timingData || !Array.isArray(timingData.words) || timingData.words.length === 0) {
+        await db.update(chapters).set({ timingQuality: null, timingQualityScore: null }).where(eq(chapters.id, chapterId));
+        return null;
+      }
+
+      const { audioUrl, timingQuality: previous } = chapter[0];
+      const audioDuration = previous && previous.audioUrl === audioUrl
+        ? previous.audioDuration
+        : audioUrl ? await narrationAudioService.measureDuration(audioUrl) : null;
+
+      const report: TimingQualityReport = {
+        ...validateTimings(timingData.words, audioDuration ?? (timingData.totalDuration || null)),
+        audioUrl,
+        audioDuration,
+        checkedAt: new Date().toISOString(),
+      };
+      await db.update(chapters).set({ timingQuality: report, timingQualityScore: report.score }).where(eq(chapters.id, chapterId));
+
+      if (report.accuracy !== 'perfect' || report.problemWords > 0) {
+        console.log(`⏱️ Timing quality of chapter ${chapterId}: ${report.accuracy} (${report.score}), ${report.problemWords} problem words`);
+      }
+      return report;
+    } catch (error) {
+      console.error(`Failed to check timing quality of chapter ${chapterId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check every chapter that has timings but no report, one at a time
+   */
+  async checkUnchecked(): Promise<number> {
+    const unchecked = await db
+      .select({ id: chapters.id })
+      .from(chapters)
+      .where(and(isNotNull(chapters.elevenLabsTimingData), isNull(chapters.timingQuality)));
+
+    let checked = 0;
+    for (const chapter of unchecked) {
+      if (await this.checkChapter(chapter.id)) checked++;
+    }
+    return checked;
+  }
+
+  /**
+   * Chapters per accuracy, and the chapters with problems, worst first
+   */
+  async getOverview(limit: number = 50): Promise<TimingQualityOverview> {
+    const accuracy = sql<string>`${chapters.timingQuality}->>'accuracy'`;
+    const byAccuracy = await db
+      .select({ accuracy, count: sql<number>`cast(count(*) as int)` })
+      .from(chapters)
+      .where(isNotNull(chapters.elevenLabsTimingData))
+      .groupBy(accuracy);
+
+    const summary: TimingQualityOverview['summary'] = { perfect: 0, good: 0, fallback: 0, unchecked: 0 };
+    for (const row of byAccuracy) {
+      if (row.accuracy === 'perfect' || row.accuracy === 'good' || row.accuracy === 'fallback') {
+        summary[row.accuracy] = Number(row.count);
+      } else {
+        summary.unchecked += Number(row.count);
+      }
+    }
+
+    const problems = await db
+      .select({
+        chapterId: chapters.id,
+        bookId: chapters.bookId,
+        bookTitle: books.title,
+        indexInBook: chapters.indexInBook,
+        title: chapters.title,
+        quality: chapters.timingQuality,
+      })
+      .from(chapters)
+      .innerJoin(books, eq(chapters.bookId, books.id))
+      .where(or(
+        lt(chapters.timingQualityScore, PERFECT_SCORE),
+        sql`(${chapters.timingQuality}->>'problemWords')::int > 0`
+      ))
+      .orderBy(asc(chapters.timingQualityScore), books.title, chapters.indexInBook)
+      .limit(limit);
+
+    return {
+      summary,
+      problems: problems.filter((row): row is TimingProblemChapter => row.quality !== null),
+    };
+  }
+}
+
+export const timingQualityService = new TimingQualityService();
@@ -0,0 +1,203 @@
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import { db } from '../db';
+import { ttsConfigs, bookCast, TtsConfigSnapshot } from '../db/schema';
+import { speakerSegmentService, NARRATOR } from './speakerSegments';
+
+export type TtsConfig = typeof ttsConfigs.$inferSelect;
+export type CastMember = typeof bookCast.$inferSelect;
+export type EffectiveTtsConfig = Omit<TtsConfigSnapshot, 'generatedAt'>;
+
+export interface TtsConfigInput {
+  voiceProvider: string;
+  voiceId: string;
+  voiceSettings: Record<string, unknown> | null;
+}
+
+// Providers the narration pipeline can synthesise with - see services/ttsProvider.ts
+export const TTS_PROVIDERS = ['elevenlabs', 'google', 'local'] as const;
+
+// Voice used for each provider when a config names the provider but no voice
+export const DEFAULT_VOICES: Record<(typeof TTS_PROVIDERS)[number], string> = {
+  elevenlabs: 'VR6AewLTigWG4xSOukaG', // Spanish female voice
+  google: 'es-ES-Neural2-A',
+  local: process.env.LOCAL_TTS_VOICE || 'es', // espeak-ng voice, or a piper model name
+};
+
+const DEFAULT_CONFIG: EffectiveTtsConfig = {
+  configId: null,
+  scope: 'default',
+  voiceProvider: 'elevenlabs',
+  voiceId: DEFAULT_VOICES.elevenlabs,
+  voiceSettings: null,
+};
+
+/**
+ * Reads and writes book/chapter voice configs from tts_configs
+ * A chapter config overrides its book's config, which overrides the default voice
+ */
+export class TtsConfigService {
+  /**
+   * Validate an admin-supplied config, returning an error message or the cleaned input
+   */
+  parseInput(body: any): { error: string } | { input: TtsConfigInput } {
+    const voiceProvider = typeof body?.voiceProvider === 'string' ? body.voiceProvider.trim().toLowerCase() : '';
+    if (!TTS_PROVIDERS.includes(voiceProvider as (typeof TTS_PROVIDERS)[number])) {
+      return { error: `voiceProvider must be one of: ${TTS_PROVIDERS.join(', ')}` };
+    }
+
+    const voiceId = typeof body.voiceId === 'string' && body.voiceId.trim()
+      ? body.voiceId.trim()
+      : DEFAULT_VOICES[voiceProvider as (typeof TTS_PROVIDERS)[number]];
+
+    const { voiceSettings } = body;
+    if (voiceSettings !== undefined && voiceSettings !== null && (typeof voiceSettings !== 'object' || Array.isArray(voiceSettings))) {
+      return { error: 'voiceSettings must be an object' };
+    }
+
+    // Settings are passed straight to the provider, so only plain values are allowed
+    for (const [key, value] of Object.entries(voiceSettings ?? {})) {
+      if (!['number', 'boolean', 'string'].includes(typeof value)) {
+        return { error: `voiceSettings.${key} must be a number, boolean or string` };
+      }
+    }
+
+    return { input: { voiceProvider, voiceId, voiceSettings: voiceSettings ?? null } };
+  }
+
+  async listForBook(bookId: string): Promise<TtsConfig[]> {
+    return db
+      .select()
+      .from(ttsConfigs)
+      .where(eq(ttsConfigs.bookId, bookId))
+      .orderBy(asc(ttsConfigs.scope), asc(ttsConfigs.chapterId));
+  }
+
+  async getById(id: number): Promise<TtsConfig | undefined> {
+    const rows = await db.select().from(ttsConfigs).where(eq(ttsConfigs.id, id)).limit(1);
+    return rows[0];
+  }
+
+  /**
+   * Create or replace the config for a book (chapterId null) or one of its chapters
+   */
+  async upsert(bookId: string, chapterId: string | null, input: TtsConfigInput): Promise<TtsConfig> {
+    const scopeCondition = chapterId
+      ? and(eq(ttsConfigs.scope, 'chapter'), eq(ttsConfigs.chapterId, chapterId))
+      : and(eq(ttsConfigs.scope, 'book'), isNull(ttsConfigs.chapterId));
+
+    const existing = await db
+      .select()
+      .from(ttsConfigs)
+      .where(and(eq(ttsConfigs.bookId, bookId), scopeCondition))
+      .limit(1);
+
+    if (existing.length > 0) {
+      const updated = await db
+        .update(ttsConfigs)
+        .set({ ...input, updatedAt: new Date() })
+        .where(eq(ttsConfigs.id, existing[0].id))
+        .returning();
+      return updated[0];
+    }
+
+    const inserted = await db
+      .insert(ttsConfigs)
+      .values({ bookId, chapterId, scope: chapterId ? 'chapter' : 'book', ...input })
+      .returning();
+    return inserted[0];
+  }
+
+  async update(id: number, input: TtsConfigInput): Promise<TtsConfig | undefined> {
+    const updated = await db
+      .update(ttsConfigs)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(ttsConfigs.id, id))
+      .returning();
+    return updated[0];
+  }
+
+  async delete(id: number): Promise<TtsConfig | undefined> {
+    const deleted = await db.delete(ttsConfigs).where(eq(ttsConfigs.id, id)).returning();
+    return deleted[0];
+  }
+
+  /**
+   * The config that applies to a chapter: chapter → book → default voice
+   */
+  async resolveEffectiveConfig(bookId: string, chapterId?: string | null): Promise<EffectiveTtsConfig> {
+    const configs = await db.select().from(ttsConfigs).where(eq(ttsConfigs.bookId, bookId));
+
+    const match = configs.find(config => config.scope === 'chapter' && chapterId && config.chapterId === chapterId)
+      ?? configs.find(config => config.scope === 'book');
+
+    if (!match) {
+      return { ...DEFAULT_CONFIG };
+    }
+
+    return {
+      configId: match.id,
+      scope: match.scope,
+      voiceProvider: match.voiceProvider,
+      voiceId: match.voiceId,
+      voiceSettings: (match.voiceSettings as Record<string, unknown> | null) ?? null,
+    };
+  }
+
+  async listCast(bookId: string): Promise<CastMember[]> {
+    return db.select().from(bookCast).where(eq(bookCast.bookId, bookId)).orderBy(asc(bookCast.displayName));
+  }
+
+  /**
+   * Give a character a voice; the speaker name is matched case-insensitively against chapter segments
+   */
+  async upsertCastMember(bookId: string, speaker: string, input: TtsConfigInput): Promise<CastMember> {
+    const saved = await db
+      .insert(bookCast)
+      .values({ bookId, speaker: speakerSegmentService.normalizeSpeaker(speaker), displayName: speaker.trim(), ...input })
+      .onConflictDoUpdate({
+        target: [bookCast.bookId, bookCast.speaker],
+        set: { displayName: speaker.trim(), ...input, updatedAt: new Date() },
+      })
+      .returning();
+    return saved[0];
+  }
+
+  async deleteCastMember(id: number): Promise<CastMember | undefined> {
+    const deleted = await db.delete(bookCast).where(eq(bookCast.id, id)).returning();
+    return deleted[0];
+  }
+
+  /**
+   * The voice for each speaker in a chapter
+   * The narrator, and any character without a cast entry, uses the chapter's effective config
+   */
+  async resolveSpeakerConfigs(bookId: string, chapterId: string | null, speakers: string[]): Promise<Record<string, EffectiveTtsConfig>> {
+    const narrator = await this.resolveEffectiveConfig(bookId, chapterId);
+    const cast = await this.listCast(bookId);
+    const voices: Record<string, EffectiveTtsConfig> = { [NARRATOR]: narrator };
+
+    for (const speaker of speakers) {
+      const member = cast.find(entry => entry.speaker === speakerSegmentService.normalizeSpeaker(speaker));
+      voices[speaker] = member
+        ? {
+          configId: member.id,
+          scope: 'cast',
+          voiceProvider: member.voiceProvider,
+          voiceId: member.voiceId,
+          voiceSettings: (member.voiceSettings as Record<string, unknown> | null) ?? null,
+        }
+        : narrator;
+    }
+
+    return voices;
+  }
+
+  /**
+   * Freeze the config used for a generation so it can be stored on the chapter
+   */
+  snapshot(config: EffectiveTtsConfig): TtsConfigSnapshot {
+    return { ...config, generatedAt: new Date().toISOString() };
+  }
+}
+
+export const ttsConfigService = new TtsConfigService();
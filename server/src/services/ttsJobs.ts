@@ -0,0 +1,308 @@
+import { db } from '../db/index';
+import { chapters, processingJobs } from '../db/schema';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import JobProcessor from './jobProcessor';
+import { jobWorker, JobContext, JobHandler, ProcessingJob } from './jobWorker';
+import { jobEventService } from './jobEvents';
+import { chapterNarrationService } from './chapterNarration';
+import { CompletedNarrationPart } from './ttsProvider';
+import { timingQualityService } from './timingQuality';
+import { isRecordedNarration } from './narrationUpload';
+
+// metadata of a tts_generation job
+interface TtsJobMetadata {
+  chapterId: string;
+  reason: string; // What queued the job: chapter_created, chapter_updated, regenerate...
+  parts?: CompletedNarrationPart[]; // Parts finished by earlier attempts, reused when the job runs again
+  lastMessage?: string;
+  lastUpdated?: string;
+}
+
+export interface TtsJobStatus {
+  jobId: number;
+  chapterId: string | null;
+  status: ProcessingJob['status'];
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date | null;
+  message: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Generates chapter narration in the background as tts_generation processing jobs
+ * The job worker retries failed attempts with backoff; each finished part of the
+ * narration is recorded on the job so a retry only synthesises what is still missing
+ */
+export class TtsJobService implements JobHandler {
+  private jobProcessor = new JobProcessor();
+
+  /**
+   * Queue narration for a chapter and start processing
+   * A job that hasn't started yet is reused, since jobs read the chapter text when they run
+   */
+  async enqueueChapter(chapterId: string, reason: string): Promise<number> {
+    const chapter = await db.select({ id: chapters.id, bookId: chapters.bookId }).from(chapters).where(eq(chapters.id, chapterId)).limit(1);
+    if (chapter.length === 0) {
+      throw new Error(`Chapter not found: ${chapterId}`);
+    }
+
+    const chapterJobs = await db
+      .select()
+      .from(processingJobs)
+      .where(and(eq(processingJobs.chapterId, chapterId), eq(processingJobs.jobType, 'tts_generation')))
+      .orderBy(desc(processingJobs.createdAt));
+
+    let jobId = chapterJobs.find(job => job.status === 'pending')?.id;
+
+    if (!jobId) {
+      // Parts left by a job that gave up are picked up by its replacement
+      const lastFailed = chapterJobs.find(job => job.status === 'failed');
+      const parts = (lastFailed?.metadata as TtsJobMetadata | null)?.parts ?? [];
+      if (lastFailed && parts.length > 0) {
+        await this.saveMetadata(lastFailed.id, { parts: [] });
+      }
+
+      const metadata: TtsJobMetadata = { chapterId, reason, parts };
+      const newJob = await db.insert(processingJobs).values({
+        bookId: chapter[0].bookId,
+        chapterId,
+        jobType: 'tts_generation',
+        status: 'pending',
+        progress: 0,
+        metadata,
+      }).returning();
+      jobId = newJob[0].id;
+      console.log(`Created TTS job ${jobId} for chapter ${chapterId} (${reason})`);
+      await jobEventService.publish(newJob[0]);
+    }
+
+    await db.update(chapters)
+      .set({ audioStatus: 'queued', audioError: null })
+      .where(eq(chapters.id, chapterId));
+
+    jobWorker.wake();
+    return jobId;
+  }
+
+  /**
+   * Queue narration for every chapter of a book
+   * Chapters narrated by an uploaded recording are skipped, so TTS never replaces them
+   */
+  async enqueueBook(bookId: string, reason: string): Promise<{ queued: { chapterId: string; jobId: number }[]; skipped: string[] }> {
+    const bookChapters = await db
+      .select({ id: chapters.id, audioUrl: chapters.audioUrl })
+      .from(chapters)
+      .where(eq(chapters.bookId, bookId))
+      .orderBy(chapters.indexInBook);
+
+    const queued: { chapterId: string; jobId: number }[] = [];
+    const skipped: string[] = [];
+    for (const chapter of bookChapters) {
+      if (isRecordedNarration(chapter.audioUrl)) {
+        skipped.push(chapter.id);
+        continue;
+      }
+      queued.push({ chapterId: chapter.id, jobId: await this.enqueueChapter(chapter.id, reason) });
+    }
+    return { queued, skipped };
+  }
+
+  /**
+   * Cancel narration queued or running for a chapter, e.g. when a recording replaces it
+   */
+  async cancelChapter(chapterId: string): Promise<number[]> {
+    const activeJobs = await db
+      .select({ id: processingJobs.id })
+      .from(processingJobs)
+      .where(and(
+        eq(processingJobs.chapterId, chapterId),
+        eq(processingJobs.jobType, 'tts_generation'),
+        inArray(processingJobs.status, ['pending', 'running'])
+      ));
+
+    for (const job of activeJobs) {
+      await jobWorker.cancel(job.id);
+    }
+    return activeJobs.map(job => job.id);
+  }
+
+  /**
+   * Run a failed job again from where it stopped, with a fresh set of attempts
+   */
+  async retryJob(jobId: number): Promise<ProcessingJob> {
+    const job = await this.getJob(jobId);
+    if (!job || job.jobType !== 'tts_generation') {
+      throw new Error(`TTS job not found: ${jobId}`);
+    }
+    if (job.status !== 'failed') {
+      throw new Error(`Only failed jobs can be retried (job ${jobId} is ${job.status})`);
+    }
+
+    const updated = await db.update(processingJobs)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        runAfter: null,
+        errorMessage: null,
+        cancelRequestedAt: null,
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(processingJobs.id, jobId))
+      .returning();
+
+    if (job.chapterId) {
+      await db.update(chapters)
+        .set({ audioStatus: 'queued', audioError: null })
+        .where(eq(chapters.id, job.chapterId));
+    }
+
+    await jobEventService.publish(updated[0]);
+    jobWorker.wake();
+    return updated[0];
+  }
+
+  /**
+   * Latest TTS job of each chapter in a book
+   */
+  async getBookJobs(bookId: string): Promise<TtsJobStatus[]> {
+    const jobs = await db
+      .select()
+      .from(processingJobs)
+      .where(and(eq(processingJobs.bookId, bookId), eq(processingJobs.jobType, 'tts_generation')))
+      .orderBy(desc(processingJobs.createdAt));
+
+    const latest = new Map<string, ProcessingJob>();
+    for (const job of jobs) {
+      if (job.chapterId && !latest.has(job.chapterId)) {
+        latest.set(job.chapterId, job);
+      }
+    }
+
+    return [...latest.values()].map(job => ({
+      jobId: job.id,
+      chapterId: job.chapterId,
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      runAfter: job.runAfter,
+      message: (job.metadata as TtsJobMetadata | null)?.lastMessage ?? null,
+      errorMessage: job.errorMessage,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    }));
+  }
+
+  /**
+   * Narrate the job's chapter, resuming from the parts earlier attempts finished
+   */
+  async run(job: ProcessingJob, context: JobContext): Promise<void> {
+    const metadata = (job.metadata as TtsJobMetadata | null) ?? { chapterId: job.chapterId!, reason: 'unknown' };
+
+    const chapter = job.chapterId
+      ? await db.select().from(chapters).where(eq(chapters.id, job.chapterId)).limit(1)
+      : [];
+    if (chapter.length === 0) {
+      throw new Error(`Chapter not found: ${job.chapterId}`);
+    }
+
+    await db.update(chapters).set({ audioStatus: 'generating' }).where(eq(chapters.id, chapter[0].id));
+    await this.jobProcessor.updateJobProgress(context, 5, 'running', `Starting narration (attempt ${job.attempts}/${job.maxAttempts})...`);
+
+    const content = chapterNarrationService.contentFromJsonUrl(chapter[0].jsonUrl);
+    if (!content || !content.text.trim()) {
+      throw new Error('Chapter has no text to narrate');
+    }
+
+    const audioResult = await chapterNarrationService.narrate(chapter[0].bookId, chapter[0].id, content.text, content.segments, {
+      completed: metadata.parts,
+      onPartComplete: async (parts, done, total) => {
+        await this.saveMetadata(job.id, { parts });
+        await this.jobProcessor.updateJobProgress(context, 5 + Math.round((done / total) * 85), 'running', `Narrated part ${done} of ${total}`);
+        if (done < total) {
+          await context.throwIfCancelled();
+        }
+      },
+    });
+
+    await context.throwIfCancelled();
+    await this.jobProcessor.updateJobProgress(context, 95, 'running', 'Saving audio...');
+    // Narration replaced while the job ran (e.g. an uploaded recording) is kept
+    const startedFrom = chapter[0].audioUrl;
+    const updated = await db.update(chapters)
+      .set({
+        audioUrl: audioResult.audioUrl,
+        elevenLabsTimingData: audioResult.timingData,
+        audioTtsConfig: audioResult.ttsConfig,
+        audioStatus: 'ready',
+        audioError: audioResult.fallbackWarning ?? null, // Narration read with the offline voice stays flagged
+      })
+      .where(and(
+        eq(chapters.id, chapter[0].id),
+        startedFrom ? eq(chapters.audioUrl, startedFrom) : isNull(chapters.audioUrl)
+      ))
+      .returning({ id: chapters.id });
+    if (updated.length === 0) {
+      await this.saveMetadata(job.id, { parts: [] });
+      await this.jobProcessor.updateJobProgress(context, 100, 'completed', 'Narration changed while generating; audio discarded', { discarded: true });
+      return;
+    }
+    await timingQualityService.checkChapter(chapter[0].id);
+
+    // The part files were removed once merged
+    await this.saveMetadata(job.id, { parts: [] });
+    await this.jobProcessor.updateJobProgress(context, 100, 'completed', 'Narration completed', {
+      audioUrl: audioResult.audioUrl,
+      duration: audioResult.timingData.totalDuration,
+      words: audioResult.timingData.words.length,
+      ttsConfig: audioResult.ttsConfig,
+    });
+
+    console.log(`✅ TTS job ${job.id} completed for chapter ${chapter[0].id}`);
+  }
+
+  async onRetry(job: ProcessingJob, errorMessage: string, runAfter: Date): Promise<void> {
+    if (!job.chapterId) return;
+
+    const retryIn = Math.max(Math.round((runAfter.getTime() - Date.now()) / 1000), 0);
+    await db.update(chapters)
+      .set({ audioStatus: 'queued', audioError: `Attempt ${job.attempts}/${job.maxAttempts} failed: ${errorMessage}. Retrying in ${retryIn}s` })
+      .where(eq(chapters.id, job.chapterId));
+  }
+
+  async onFailed(job: ProcessingJob, errorMessage: string, cancelled: boolean): Promise<void> {
+    if (!job.chapterId) return;
+
+    if (cancelled) {
+      // The chapter keeps whatever audio it had before
+      const chapter = await db.select({ audioUrl: chapters.audioUrl }).from(chapters).where(eq(chapters.id, job.chapterId)).limit(1);
+      await db.update(chapters)
+        .set({ audioStatus: chapter[0]?.audioUrl ? 'ready' : 'none', audioError: null })
+        .where(eq(chapters.id, job.chapterId));
+      return;
+    }
+
+    await db.update(chapters)
+      .set({ audioStatus: 'failed', audioError: errorMessage })
+      .where(eq(chapters.id, job.chapterId));
+  }
+
+  private async getJob(jobId: number): Promise<ProcessingJob | null> {
+    const job = await db.select().from(processingJobs).where(eq(processingJobs.id, jobId)).limit(1);
+    return job[0] ?? null;
+  }
+
+  private async saveMetadata(jobId: number, changes: Partial<TtsJobMetadata>): Promise<void> {
+    const job = await this.getJob(jobId);
+    await db.update(processingJobs)
+      .set({ metadata: { ...((job?.metadata as TtsJobMetadata | null) ?? {}), ...changes }, updatedAt: new Date() })
+      .where(eq(processingJobs.id, jobId));
+  }
+}
+
+export const ttsJobService = new TtsJobService();
@@ -0,0 +1,638 @@
+import { spawnSync } from 'child_process';
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, writeFileSync, rmSync, unlinkSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { v1beta1, protos } from '@google-cloud/text-to-speech';
+import { ElevenLabsService, AudioGenerationResult, ElevenLabsTimingData, WordTiming, mergeChunkedResults } from './elevenLabsService';
+import { getMp3Duration } from './mp3Slicer';
+import { runCommand } from './commandRunner';
+import { EffectiveTtsConfig, DEFAULT_VOICES } from './ttsConfigService';
+import { SpeakerRange, NARRATOR } from './speakerSegments';
+
+export type TtsSynthesisResult = AudioGenerationResult;
+
+// A character voice that was used in a multi-voice narration
+export interface CastVoiceUsed {
+  speaker: string;
+  voiceProvider: string;
+  voiceId: string;
+}
+
+// A stretch of the narration text read with one voice in a single request
+export interface NarrationPart {
+  speaker: string;
+  start: number;
+  end: number;
+  config: EffectiveTtsConfig;
+}
+
+// A synthesised part, kept so an interrupted narration can resume without paying for it again
+export interface CompletedNarrationPart {
+  key: string; // Hash of the part's position, text and voice; a part is only reused while all of them match
+  audioUrl: string;
+  words: WordTiming[];
+  charAlignment?: ElevenLabsTimingData;
+  textStartIndex: number;
+  textEndIndex: number;
+  speaker: string;
+  ttsConfig: EffectiveTtsConfig;
+}
+
+export interface PartSynthesisOptions {
+  completed?: CompletedNarrationPart[]; // Parts finished by an earlier attempt
+  onPartComplete?: (completed: CompletedNarrationPart[], done: number, total: number) => Promise<void>;
+}
+
+export interface TtsSynthesisOptions {
+  voiceId: string;
+  voiceSettings?: Record<string, unknown> | null;
+}
+
+/**
+ * A text-to-speech engine that returns narration plus word timings
+ * Offline providers must work without network access
+ */
+export interface TtsProvider {
+  readonly name: string;
+  readonly offline: boolean;
+  isAvailable(): boolean; // Credentials or binaries are present
+  synthesize(text: string, outputId: string, options: TtsSynthesisOptions): Promise<TtsSynthesisResult>;
+}
+
+export interface TextSpan {
+  text: string;
+  start: number; // Character offset in the full text
+  end: number;
+}
+
+const MAX_PART_CHARS = 2000; // Same chunk size ElevenLabsService uses for long texts
+const EMPTY_CHAR_ALIGNMENT = { chars: [], charStartTimesMs: [], charsDurationsMs: [] };
+
+// Words as the reader tokenises them, with offsets into the original text
+export function splitWords(text: string, offset: number = 0): TextSpan[] {
+  const words: TextSpan[] = [];
+  const wordRegex = /[\p{L}\p{N}]+(?:['\-][\p{L}\p{N}]+)*/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordRegex.exec(text)) !== null) {
+    words.push({ text: match[0], start: offset + match.index, end: offset + match.index + match[0].length });
+  }
+
+  return words;
+}
+
+// Sentences with their offsets, so timings can be mapped back onto the chapter text
+function splitSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  const sentenceRegex = /[^.!?…\n]+[.!?…]*["'»”)]*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = sentenceRegex.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (splitWords(trimmed).length > 0) {
+      const start = match.index + leading;
+      sentences.push({ text: trimmed, start, end: start + trimmed.length });
+    }
+  }
+
+  return sentences;
+}
+
+export function toWordTiming(word: TextSpan, start: number, end: number, isEstimated: boolean = false): WordTiming {
+  return {
+    text: word.text,
+    startTime: start,
+    endTime: end,
+    start,
+    end,
+    charStart: word.start,
+    charEnd: word.end,
+    ...(isEstimated ? { isEstimated } : {}),
+  };
+}
+
+function sanitizeFilename(input: string): string {
+  return input
+    .replace(/[\/\\]/g, '_')
+    .replace(/\.\./g, '_')
+    .replace(/[<>:"|?*]/g, '_')
+    .replace(/\s+/g, '_')
+    .replace(/^\.+/, '')
+    .replace(/\.+$/, '')
+    .substring(0, 50);
+}
+
+// Same naming scheme as ElevenLabsService so every provider's audio lives side by side
+function saveNarration(audio: Buffer, outputId: string): string {
+  const audioDir = join(process.cwd(), 'public', 'audio');
+  mkdirSync(audioDir, { recursive: true });
+
+  const filename = `chapter_${sanitizeFilename(outputId)}_${Date.now()}.mp3`;
+  writeFileSync(join(audioDir, filename), audio);
+  return `audio/${filename}`;
+}
+
+function narrationPath(audioUrl: string): string {
+  return join(process.cwd(), 'public', audioUrl);
+}
+
+function numberSetting(settings: Record<string, unknown> | null | undefined, key: string, fallback: number): number {
+  const value = settings?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * ElevenLabs narration, timed with Whisper (see ElevenLabsService)
+ */
+export class ElevenLabsTtsProvider implements TtsProvider {
+  readonly name = 'elevenlabs';
+  readonly offline = false;
+
+  isAvailable(): boolean {
+    return !!process.env.ELEVENLABS_API_KEY;
+  }
+
+  async synthesize(text: string, outputId: string, options: TtsSynthesisOptions): Promise<TtsSynthesisResult> {
+    const elevenLabs = new ElevenLabsService();
+    elevenLabs.setVoiceId(options.voiceId);
+    elevenLabs.setVoiceSettings(options.voiceSettings ?? null);
+    return elevenLabs.generateAudioWithTiming(text, outputId);
+  }
+}
+
+/**
+ * Google Cloud narration with per-word SSML marks
+ * The v1beta1 API reports when each mark is reached, which gives word start times
+ */
+export class GoogleTtsProvider implements TtsProvider {
+  readonly name = 'google';
+  readonly offline = false;
+  private readonly MAX_SSML_BYTES = 4500; // API limit is 5000 bytes per request
+  private client: v1beta1.TextToSpeechClient | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.GOOGLE_CLOUD_API_KEY;
+  }
+
+  private getClient(): v1beta1.TextToSpeechClient {
+    if (!this.client) {
+      this.client = new v1beta1.TextToSpeechClient({ apiKey: process.env.GOOGLE_CLOUD_API_KEY });
+    }
+    return this.client;
+  }
+
+  private escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Group sentences into SSML requests, marking the start of every word
+   */
+  private buildSsmlChunks(text: string): { ssml: string; words: TextSpan[] }[] {
+    const chunks: { ssml: string; words: TextSpan[] }[] = [];
+    let body = '';
+    let words: TextSpan[] = [];
+
+    // Mark names are indexes into the chunk's own word list
+    const sentenceSsml = (sentence: TextSpan, sentenceWords: TextSpan[], firstMark: number) => {
+      let ssml = '';
+      let cursor = sentence.start;
+      sentenceWords.forEach((word, index) => {
+        ssml += `${this.escapeXml(text.slice(cursor, word.start))}<mark name="${firstMark + index}"/>${this.escapeXml(word.text)}`;
+        cursor = word.end;
+      });
+      return `${ssml}${this.escapeXml(text.slice(cursor, sentence.end))} `;
+    };
+
+    for (const sentence of splitSentences(text)) {
+      const sentenceWords = splitWords(sentence.text, sentence.start);
+      let ssml = sentenceSsml(sentence, sentenceWords, words.length);
+
+      if (body && Buffer.byteLength(`<speak>${body}${ssml}</speak>`) > this.MAX_SSML_BYTES) {
+        chunks.push({ ssml: `<speak>${body}</speak>`, words });
+        body = '';
+        words = [];
+        ssml = sentenceSsml(sentence, sentenceWords, 0);
+      }
+
+      body += ssml;
+      words = words.concat(sentenceWords);
+    }
+
+    if (body) {
+      chunks.push({ ssml: `<speak>${body}</speak>`, words });
+    }
+
+    return chunks;
+  }
+
+  async synthesize(text: string, outputId: string, options: TtsSynthesisOptions): Promise<TtsSynthesisResult> {
+    const chunks = this.buildSsmlChunks(text);
+    const audioParts: Buffer[] = [];
+    const words: WordTiming[] = [];
+    let timeOffset = 0;
+
+    console.log(`Generating Google TTS for ${outputId} in ${chunks.length} chunks with voice ${options.voiceId}`);
+
+    for (const [index, chunk] of chunks.entries()) {
+      const [response] = await this.getClient().synthesizeSpeech({
+        input: { ssml: chunk.ssml },
+        voice: {
+          languageCode: options.voiceId.split('-').slice(0, 2).join('-'), // e.g. es-ES from es-ES-Neural2-A
+          name: options.voiceId,
+        },
+        audioConfig: {
+          audioEncoding: 'MP3',
+          speakingRate: numberSetting(options.voiceSettings, 'speakingRate', 0.9), // Slightly slower for learning
+          pitch: numberSetting(options.voiceSettings, 'pitch', 0),
+          volumeGainDb: numberSetting(options.voiceSettings, 'volumeGainDb', 0),
+        },
+        enableTimePointing: [protos.google.cloud.texttospeech.v1beta1.SynthesizeSpeechRequest.TimepointType.SSML_MARK],
+      });
+
+      if (!response.audioContent) {
+        throw new Error(`No audio content received for chunk ${index + 1}`);
+      }
+
+      const audio = Buffer.from(response.audioContent as Uint8Array);
+      const duration = getMp3Duration(audio);
+      const markTimes = new Map((response.timepoints ?? []).map(point => [Number(point.markName), point.timeSeconds ?? 0]));
+
+      chunk.words.forEach((word, wordIndex) => {
+        const start = markTimes.get(wordIndex);
+        if (start === undefined) return;
+        // A word runs until the next word starts; the last one until the chunk ends
+        const next = markTimes.get(wordIndex + 1);
+        words.push(toWordTiming(word, timeOffset + start, timeOffset + (next ?? duration)));
+      });
+
+      audioParts.push(audio);
+      timeOffset += duration;
+    }
+
+    return {
+      audioUrl: saveNarration(Buffer.concat(audioParts), outputId),
+      timingData: { words, totalDuration: timeOffset, charAlignment: EMPTY_CHAR_ALIGNMENT },
+    };
+  }
+}
+
+/**
+ * Offline narration with a local espeak-ng or piper binary, encoded to MP3 with ffmpeg
+ * Each sentence is synthesised separately, so sentence boundaries are exact and
+ * word times within a sentence are interpolated by word length
+ */
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = 'local';
+  readonly offline = true;
+  private readonly ENGINE = process.env.LOCAL_TTS_ENGINE === 'piper' ? 'piper' : 'espeak-ng';
+  private readonly BINARY = process.env.LOCAL_TTS_BINARY || this.ENGINE;
+  private readonly FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly PIPER_MODEL_DIR = process.env.PIPER_MODEL_DIR || join(process.cwd(), 'models', 'piper');
+  private readonly SENTENCE_PAUSE_SECONDS = 0.6; // Breathing room for learners between sentences
+  private available: boolean | null = null;
+
+  isAvailable(): boolean {
+    if (this.available === null) {
+      // spawnSync only reports an error when the binary can't be started at all
+      this.available = [this.BINARY, this.FFMPEG].every(binary => !spawnSync(binary, ['--version'], { stdio: 'ignore' }).error);
+    }
+    return this.available;
+  }
+
+  private async synthesizeSentence(text: string, wavPath: string, options: TtsSynthesisOptions): Promise<void> {
+    if (this.ENGINE === 'piper') {
+      await runCommand(this.BINARY, [
+        '--model', join(this.PIPER_MODEL_DIR, `${sanitizeFilename(options.voiceId)}.onnx`),
+        '--output_file', wavPath,
+        '--length_scale', String(numberSetting(options.voiceSettings, 'lengthScale', 1.2)),
+      ], text);
+      return;
+    }
+
+    await runCommand(this.BINARY, [
+      '-v', options.voiceId,
+      '-s', String(numberSetting(options.voiceSettings, 'speed', 130)), // Words per minute
+      '-p', String(numberSetting(options.voiceSettings, 'pitch', 50)),
+      '-w', wavPath,
+      '--stdin',
+    ], text);
+  }
+
+  /**
+   * Split a PCM WAV file into its format header and sample data
+   */
+  private readWav(buffer: Buffer): { format: Buffer; data: Buffer; byteRate: number; blockAlign: number } {
+    if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+      throw new Error('Local TTS engine did not produce a WAV file');
+    }
+
+    let format: Buffer | null = null;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString('ascii', offset, offset + 4);
+      // Streaming engines may leave the size unset, so never read past the end of the file
+      const size = Math.min(buffer.readUInt32LE(offset + 4), buffer.length - offset - 8);
+
+      if (id === 'fmt ') {
+        format = buffer.subarray(offset + 8, offset + 8 + size);
+      } else if (id === 'data' && format) {
+        return {
+          format,
+          data: buffer.subarray(offset + 8, offset + 8 + size),
+          byteRate: format.readUInt32LE(8),
+          blockAlign: format.readUInt16LE(12),
+        };
+      }
+
+      offset += 8 + size + (size % 2);
+    }
+
+    throw new Error('WAV file has no audio data');
+  }
+
+  private buildWav(format: Buffer, data: Buffer): Buffer {
+    const header = Buffer.alloc(20);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(4 + 8 + format.length + 8 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(format.length, 16);
+
+    const dataHeader = Buffer.alloc(8);
+    dataHeader.write('data', 0, 'ascii');
+    dataHeader.writeUInt32LE(data.length, 4);
+
+    return Buffer.concat([header, format, dataHeader, data]);
+  }
+
+  async synthesize(text: string, outputId: string, options: TtsSynthesisOptions): Promise<TtsSynthesisResult> {
+    const sentences = splitSentences(text);
+    const workDir = mkdtempSync(join(tmpdir(), 'local-tts-'));
+
+    console.log(`Generating offline ${this.ENGINE} narration for ${outputId}: ${sentences.length} sentences, voice ${options.voiceId}`);
+
+    try {
+      const pcmParts: Buffer[] = [];
+      const words: WordTiming[] = [];
+      let format: Buffer | null = null;
+      let timeOffset = 0;
+
+      for (const [index, sentence] of sentences.entries()) {
+        const wavPath = join(workDir, `${index}.wav`);
+        await this.synthesizeSentence(sentence.text, wavPath, options);
+        const wav = this.readWav(readFileSync(wavPath));
+        format = format ?? wav.format;
+
+        const duration = wav.data.length / wav.byteRate;
+        const sentenceWords = splitWords(sentence.text, sentence.start);
+        const totalLength = sentenceWords.reduce((sum, word) => sum + word.text.length, 0);
+
+        // Spread the sentence's duration over its words in proportion to their length
+        let cursor = timeOffset;
+        for (const word of sentenceWords) {
+          const wordDuration = duration * (word.text.length / totalLength);
+          words.push(toWordTiming(word, cursor, cursor + wordDuration, true));
+          cursor += wordDuration;
+        }
+
+        pcmParts.push(wav.data);
+        timeOffset += duration;
+
+        if (index < sentences.length - 1) {
+          const pauseBytes = Math.round(this.SENTENCE_PAUSE_SECONDS * wav.byteRate / wav.blockAlign) * wav.blockAlign;
+          pcmParts.push(Buffer.alloc(pauseBytes));
+          timeOffset += pauseBytes / wav.byteRate;
+        }
+      }
+
+      if (!format) {
+        throw new Error('No speakable text to narrate');
+      }
+
+      const wavPath = join(workDir, 'narration.wav');
+      const mp3Path = join(workDir, 'narration.mp3');
+      writeFileSync(wavPath, this.buildWav(format, Buffer.concat(pcmParts)));
+      await runCommand(this.FFMPEG, ['-y', '-loglevel', 'error', '-i', wavPath, '-codec:a', 'libmp3lame', '-qscale:a', '4', mp3Path]);
+
+      return {
+        audioUrl: saveNarration(readFileSync(mp3Path), outputId),
+        timingData: { words, totalDuration: timeOffset, charAlignment: EMPTY_CHAR_ALIGNMENT },
+      };
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Picks the provider named by a voice config
+ * When an online provider isn't configured, narration falls back to the offline provider
+ * so chapters never end up silently without audio; the result then carries a warning for the admin.
+ * Errors of a configured provider are thrown so the job retries with the voice that was asked for
+ */
+export class TtsService {
+  constructor(private providers: TtsProvider[], private offlineFallback: boolean = true) {}
+
+  getProvider(name: string): TtsProvider | undefined {
+    return this.providers.find(provider => provider.name === name);
+  }
+
+  async synthesize(text: string, outputId: string, config: EffectiveTtsConfig): Promise<TtsSynthesisResult & { ttsConfig: EffectiveTtsConfig; fallbackWarning?: string }> {
+    const provider = this.getProvider(config.voiceProvider);
+    if (!provider) {
+      throw new Error(`Unknown voice provider: ${config.voiceProvider}`);
+    }
+
+    if (provider.isAvailable()) {
+      const result = await provider.synthesize(text, outputId, { voiceId: config.voiceId, voiceSettings: config.voiceSettings });
+      return { ...result, ttsConfig: config };
+    }
+
+    const fallback = this.providers.find(candidate => candidate.offline && candidate !== provider);
+    if (!this.offlineFallback || provider.offline || !fallback?.isAvailable()) {
+      throw new Error(`Voice provider "${provider.name}" is not configured`);
+    }
+
+    console.warn(`⚠️ Falling back to offline "${fallback.name}" narration for ${outputId}`);
+    const fallbackConfig: EffectiveTtsConfig = {
+      ...config,
+      voiceProvider: fallback.name,
+      voiceId: DEFAULT_VOICES.local,
+      voiceSettings: null,
+    };
+    const result = await fallback.synthesize(text, outputId, { voiceId: fallbackConfig.voiceId });
+    return { ...result, ttsConfig: fallbackConfig, fallbackWarning: this.fallbackWarning([provider.name]) };
+  }
+
+  /**
+   * Warning shown on a chapter narrated with the offline voice instead of the providers it asked for
+   */
+  private fallbackWarning(providers: string[]): string {
+    return `Narrated with the offline voice because ${providers.map(name => `"${name}"`).join(', ')} is not configured`;
+  }
+
+  /**
+   * Group speaker ranges into the parts sent to the provider
+   * Neighbouring ranges that share a voice are read together to keep requests down, and
+   * long parts are split at sentence ends so a failure only costs one part to redo
+   */
+  planParts(
+    text: string,
+    ranges: SpeakerRange[],
+    voices: Record<string, EffectiveTtsConfig>,
+    maxChars: number = MAX_PART_CHARS
+  ): NarrationPart[] {
+    const voiceKey = (config: EffectiveTtsConfig) => JSON.stringify([config.voiceProvider, config.voiceId, config.voiceSettings]);
+    const narrator = voices[NARRATOR];
+
+    const merged: NarrationPart[] = [];
+    for (const range of ranges) {
+      const config = voices[range.speaker] ?? narrator;
+      const last = merged[merged.length - 1];
+      if (last && voiceKey(last.config) === voiceKey(config)) {
+        last.end = range.end;
+      } else {
+        merged.push({ ...range, config });
+      }
+    }
+
+    const parts: NarrationPart[] = [];
+    for (const part of merged) {
+      let start = part.start;
+      for (const sentence of splitSentences(text.slice(part.start, part.end))) {
+        const sentenceEnd = part.start + sentence.end;
+        if (sentenceEnd - start > maxChars && part.start + sentence.start > start) {
+          parts.push({ ...part, start, end: part.start + sentence.start });
+          start = part.start + sentence.start;
+        }
+      }
+      parts.push({ ...part, start });
+    }
+
+    return parts;
+  }
+
+  /**
+   * Synthesise planned parts one by one and stitch them into one MP3
+   * Parts in options.completed whose text and voice still match are reused as they are.
+   * When options.onPartComplete is given the caller keeps track of finished parts, so
+   * their files stay on disk after a failure for the next attempt to pick up
+   */
+  async synthesizeParts(
+    text: string,
+    outputId: string,
+    parts: NarrationPart[],
+    options: PartSynthesisOptions = {}
+  ): Promise<TtsSynthesisResult & { ttsConfig: EffectiveTtsConfig; cast: CastVoiceUsed[]; fallbackWarning?: string }> {
+    const narrator = parts.find(part => part.speaker === NARRATOR)?.config ?? parts[0]?.config;
+
+    if (parts.length <= 1) {
+      const result = await this.synthesize(text, outputId, narrator);
+      return { ...result, cast: [] };
+    }
+
+    console.log(`Generating narration for ${outputId} in ${parts.length} parts`);
+
+    const previous = new Map((options.completed ?? []).map(part => [part.key, part]));
+    const completed: CompletedNarrationPart[] = [];
+    const cast = new Map<string, CastVoiceUsed>();
+    const fellBack = new Set<string>(); // Providers of parts read with the offline voice instead
+    let narratorUsed: EffectiveTtsConfig = narrator;
+    let succeeded = false;
+
+    try {
+      for (const [index, part] of parts.entries()) {
+        const raw = text.slice(part.start, part.end);
+        const leading = raw.length - raw.trimStart().length;
+        const partText = raw.trim();
+        const key = createHash('sha1')
+          .update(JSON.stringify([index, part.start, partText, part.speaker, part.config.voiceProvider, part.config.voiceId, part.config.voiceSettings]))
+          .digest('hex');
+
+        let done = previous.get(key);
+        if (done && !existsSync(narrationPath(done.audioUrl))) {
+          done = undefined;
+        }
+
+        if (!done && partText) {
+          const result = await this.synthesize(partText, `${outputId}_part_${index}`, part.config);
+          done = {
+            key,
+            audioUrl: result.audioUrl,
+            words: result.timingData.words,
+            charAlignment: result.timingData.charAlignment,
+            textStartIndex: part.start + leading,
+            textEndIndex: part.start + leading + partText.length,
+            speaker: part.speaker,
+            ttsConfig: result.ttsConfig,
+          };
+        } else if (done) {
+          console.log(`Reusing narration part ${index + 1}/${parts.length} for ${outputId}`);
+        }
+
+        if (done) {
+          completed.push(done);
+          if (done.ttsConfig.voiceProvider !== part.config.voiceProvider) {
+            fellBack.add(part.config.voiceProvider);
+          }
+          // Record what each part was actually read with, which differs after an offline fallback
+          if (part.speaker === NARRATOR || part.config === narrator) {
+            narratorUsed = done.ttsConfig;
+          } else {
+            cast.set(part.speaker, { speaker: part.speaker, voiceProvider: done.ttsConfig.voiceProvider, voiceId: done.ttsConfig.voiceId });
+          }
+        }
+
+        await options.onPartComplete?.(completed, index + 1, parts.length);
+      }
+
+      const merged = mergeChunkedResults(completed.map(part => ({
+        audioBuffer: readFileSync(narrationPath(part.audioUrl)),
+        words: part.words,
+        charAlignment: part.charAlignment,
+        textStartIndex: part.textStartIndex,
+        textEndIndex: part.textEndIndex,
+        // Single-voice narration split into parts has no speakers to tag words with
+        ...(cast.size > 0 ? { speaker: part.speaker } : {}),
+      })));
+      const result = {
+        audioUrl: saveNarration(merged.audio, outputId),
+        timingData: merged.timingData,
+        ttsConfig: narratorUsed,
+        cast: [...cast.values()],
+        ...(fellBack.size > 0 ? { fallbackWarning: this.fallbackWarning([...fellBack]) } : {}),
+      };
+      succeeded = true;
+      return result;
+    } finally {
+      if (succeeded) {
+        // Parts of an earlier attempt that no longer matched the text or voice are dropped too
+        this.removeParts([...completed, ...(options.completed ?? []).filter(part => !completed.includes(part))]);
+      } else if (!options.onPartComplete) {
+        this.removeParts(completed);
+      }
+    }
+  }
+
+  /**
+   * Delete the audio files of synthesised parts
+   */
+  removeParts(parts: CompletedNarrationPart[]): void {
+    for (const part of parts) {
+      if (!existsSync(narrationPath(part.audioUrl))) continue;
+      try {
+        unlinkSync(narrationPath(part.audioUrl));
+      } catch (error) {
+        console.warn(`Could not remove narration part ${part.audioUrl}:`, error);
+      }
+    }
+  }
+}
+
+export const ttsService = new TtsService(
+  [new ElevenLabsTtsProvider(), new GoogleTtsProvider(), new LocalTtsProvider()],
+  process.env.TTS_OFFLINE_FALLBACK !== 'false'
+);
@@ -0,0 +1,176 @@
+export type VocabularyListFormat = 'csv' | 'tsv' | 'anki';
+
+export interface VocabularyRow {
+  line: number; // 1-based line in the uploaded file
+  spanishWord: string;
+  englishTranslation: string;
+  sentence?: string;
+  error?: string;
+}
+
+// Header names we recognise for each column (lowercased)
+const SPANISH_HEADERS = ['spanish', 'español', 'espanol', 'word', 'front', 'term'];
+const ENGLISH_HEADERS = ['english', 'inglés', 'ingles', 'translation', 'back', 'definition', 'meaning'];
+const SENTENCE_HEADERS = ['sentence', 'example', 'context', 'frase'];
+
+/**
+ * Parses vocabulary lists (CSV, TSV or Anki "Notes in Plain Text" exports)
+ * into Spanish/English rows for bulk import into the word bank
+ */
+export class VocabularyListParser {
+  /**
+   * Guess the format from the content when the client didn't say
+   */
+  detectFormat(content: string): VocabularyListFormat {
+    if (/^#(separator|html|columns|notetype|deck):/m.test(content)) {
+      return 'anki';
+    }
+    const firstLine = content.split(/\r?\n/).find(line => line.trim()) ?? '';
+    return firstLine.includes('\t') ? 'tsv' : 'csv';
+  }
+
+  parse(content: string, format: VocabularyListFormat = this.detectFormat(content)): VocabularyRow[] {
+    const text = content.replace(/^﻿/, ''); // Strip BOM from spreadsheet exports
+    let delimiter = format === 'csv' ? ',' : '\t';
+    let isHtml = false;
+
+    // Anki text exports start with "#key:value" header lines
+    if (format === 'anki') {
+      for (const line of text.split(/\r?\n/)) {
+        const header = line.match(/^#(\w+):(.*)$/);
+        if (!header) continue;
+        if (header[1] === 'separator') {
+          delimiter = this.ankiSeparator(header[2].trim());
+        } else if (header[1] === 'html') {
+          isHtml = header[2].trim() === 'true';
+        }
+      }
+    }
+
+    const records = this.parseDelimited(text, delimiter)
+      .filter(record => !(format === 'anki' && record.fields[0]?.startsWith('#')))
+      .filter(record => record.fields.some(field => field.trim()));
+
+    if (records.length === 0) {
+      return [];
+    }
+
+    // Use a header row when one is present, otherwise Spanish, English, Sentence by position
+    let columns = { spanish: 0, english: 1, sentence: 2 };
+    const header = records[0].fields.map(field => field.trim().toLowerCase());
+    const spanishColumn = header.findIndex(name => SPANISH_HEADERS.includes(name));
+    const englishColumn = header.findIndex(name => ENGLISH_HEADERS.includes(name));
+    if (spanishColumn >= 0 && englishColumn >= 0) {
+      columns = { spanish: spanishColumn, english: englishColumn, sentence: header.findIndex(name => SENTENCE_HEADERS.includes(name)) };
+      records.shift();
+    }
+
+    const clean = (value: string | undefined) => {
+      let result = value ?? '';
+      if (format === 'anki' || isHtml) {
+        result = this.stripAnkiMarkup(result);
+      }
+      return result.replace(/\s+/g, ' ').trim();
+    };
+
+    return records.map(record => {
+      const spanishWord = clean(record.fields[columns.spanish]).toLowerCase();
+      const englishTranslation = clean(record.fields[columns.english]);
+      const sentence = columns.sentence >= 0 ? clean(record.fields[columns.sentence]) : '';
+
+      const row: VocabularyRow = { line: record.line, spanishWord, englishTranslation };
+      if (sentence) {
+        row.sentence = sentence;
+      }
+
+      if (!spanishWord || !englishTranslation) {
+        row.error = 'Both a Spanish word and an English translation are required';
+      } else if (!/[a-záéíóúñü]/.test(spanishWord)) {
+        row.error = 'Spanish word contains no letters';
+      } else if (spanishWord.split(' ').length > 5) {
+        row.error = 'Entries longer than five words are not supported';
+      }
+
+      return row;
+    });
+  }
+
+  /**
+   * RFC 4180-style parser: quoted fields may contain delimiters, doubled quotes and newlines
+   */
+  private parseDelimited(text: string, delimiter: string): { line: number; fields: string[] }[] {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || fields.length > 0) {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+    }
+
+    return records;
+  }
+
+  private ankiSeparator(name: string): string {
+    switch (name.toLowerCase()) {
+      case 'tab': return '\t';
+      case 'comma': return ',';
+      case 'semicolon': return ';';
+      case 'pipe': return '|';
+      case 'space': return ' ';
+      case 'colon': return ':';
+      default: return name.charAt(0) || '\t';
+    }
+  }
+
+  // Anki fields can carry HTML, [sound:...] tags and cloze markup
+  private stripAnkiMarkup(value: string): string {
+    return value
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/\{\{c\d+::(.*?)(::.*?)?\}\}/g, '$1')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+export const vocabularyListParser = new VocabularyListParser();
@@ -1,6 +1,8 @@
 import OpenAI from 'openai';
 import fs from 'fs';
 import path from 'path';
+import { globalSequenceAlignment, wordsMatch, calculateWordSimilarity } from './wordAlignment';
+import type { TimingAccuracy } from '../db/schema';
 // Define WordTiming interface to match the ElevenLabs service format
 interface WordTiming {
   word: string;
@@ -8,6 +10,7 @@ interface WordTiming {
   end: number;   // seconds
   textStart: number; // character position in original text
   textEnd: number;   // character position in original text
+  isEstimated?: boolean; // Interpolated because Whisper didn't hear the word
 }
 
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
@@ -165,7 +168,7 @@ export class WhisperTimingService {
       // Look ahead a few words to find match (handles transcription differences)
       for (let j = whisperIndex; j < Math.min(whisperIndex + 3, whisperWords.length); j++) {
         const whisperWord = whisperWords[j];
-        if (this.wordsMatch(originalWord.text, whisperWord.word)) {
+        if (wordsMatch(originalWord.text, whisperWord.word)) {
           matchedWhisperWord = whisperWord;
           whisperIndex = j + 1;
           break;
@@ -204,7 +207,8 @@ export class WhisperTimingService {
           start: estimatedStart,
           end: estimatedEnd,
           textStart: originalWord.startIndex,
-          textEnd: originalWord.endIndex
+          textEnd: originalWord.endIndex,
+          isEstimated: true
         });
       }
     }
@@ -235,19 +239,6 @@ export class WhisperTimingService {
     return words;
   }
 
-  /**
-   * Check if two words match (handles case, punctuation, accents)
-   */
-  private wordsMatch(word1: string, word2: string): boolean {
-    const normalize = (word: string) => 
-      word.toLowerCase()
-          .normalize('NFD')
-          .replace(/[\u0300-\u036f]/g, '') // Remove accents
-          .replace(/[^\w]/g, ''); // Remove punctuation
-
-    return normalize(word1) === normalize(word2);
-  }
-
   /**
    * Generate perfect timing using AI analysis with proper TTS text alignment
    * This is the main method that replaces imprecise ElevenLabs timing
@@ -260,7 +251,7 @@ export class WhisperTimingService {
   ): Promise<{
     words: WordTiming[];
     totalDuration: number;
-    accuracy: 'perfect' | 'good' | 'fallback';
+    accuracy: TimingAccuracy;
   }> {
     try {
       // Step 1: Analyze audio with Whisper AI using TTS input text
@@ -284,7 +275,7 @@ export class WhisperTimingService {
       const totalWords = wordTimings.length;
       const matchRate = totalWords > 0 ? matchedWords / totalWords : 0;
 
-      let accuracy: 'perfect' | 'good' | 'fallback';
+      let accuracy: TimingAccuracy;
       if (matchRate >= 0.9) accuracy = 'perfect';
       else if (matchRate >= 0.7) accuracy = 'good';
       else accuracy = 'fallback';
@@ -316,140 +307,6 @@ export class WhisperTimingService {
       .trim();
   }
 
-  /**
-   * Scoring function for word alignment with case/accent-insensitive matching
-   * Returns 0 for perfect match, positive costs for mismatches
-   */
-  private alignmentScore(word1: string, word2: string): number {
-    if (this.wordsMatch(word1, word2)) {
-      return 0; // Perfect match
-    }
-    
-    // Calculate similarity-based substitution cost
-    const similarity = this.calculateWordSimilarity(word1, word2);
-    if (similarity > 0.7) {
-      return 1; // Similar words (partial match)
-    } else if (similarity > 0.4) {
-      return 2; // Somewhat similar
-    } else {
-      return 3; // Very different
-    }
-  }
-
-  /**
-   * Calculate word similarity using normalized edit distance
-   */
-  private calculateWordSimilarity(word1: string, word2: string): number {
-    const normalize = (word: string) => 
-      word.toLowerCase()
-          .normalize('NFD')
-          .replace(/[\u0300-\u036f]/g, '') // Remove accents
-          .replace(/[^\w]/g, ''); // Remove punctuation
-
-    const norm1 = normalize(word1);
-    const norm2 = normalize(word2);
-    
-    if (norm1 === norm2) return 1.0;
-    
-    const maxLen = Math.max(norm1.length, norm2.length);
-    if (maxLen === 0) return 1.0;
-    
-    const editDistance = this.levenshteinDistance(norm1, norm2);
-    return 1.0 - (editDistance / maxLen);
-  }
-
-  /**
-   * Calculate Levenshtein distance between two strings
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-    
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,     // deletion
-          matrix[j - 1][i] + 1,     // insertion  
-          matrix[j - 1][i - 1] + substitutionCost // substitution
-        );
-      }
-    }
-    
-    return matrix[str2.length][str1.length];
-  }
-
-  /**
-   * Needleman-Wunsch global sequence alignment algorithm
-   * Aligns two sequences of words with optimal global alignment
-   */
-  private globalSequenceAlignment(sequence1: string[], sequence2: string[]): {
-    alignment1: number[]; // Maps seq1 indices to seq2 indices (-1 = gap)
-    alignment2: number[]; // Maps seq2 indices to seq1 indices (-1 = gap)
-    score: number;
-  } {
-    const MATCH_SCORE = 0;
-    const GAP_PENALTY = 1; // ARCHITECT'S FIX 3: Reduced from 2 to 1 to encourage gaps
-    
-    const m = sequence1.length;
-    const n = sequence2.length;
-    
-    // Initialize scoring matrix
-    const scoreMatrix = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-    
-    // Initialize first row and column with gap penalties
-    for (let i = 0; i <= m; i++) scoreMatrix[i][0] = i * GAP_PENALTY;
-    for (let j = 0; j <= n; j++) scoreMatrix[0][j] = j * GAP_PENALTY;
-    
-    // Fill scoring matrix using dynamic programming
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        const alignScore = this.alignmentScore(sequence1[i-1], sequence2[j-1]);
-        const matchScore = scoreMatrix[i-1][j-1] + Math.max(alignScore, GAP_PENALTY); // ARCHITECT'S FIX 3: substitution≥gap
-        const deleteScore = scoreMatrix[i-1][j] + GAP_PENALTY;
-        const insertScore = scoreMatrix[i][j-1] + GAP_PENALTY;
-        
-        scoreMatrix[i][j] = Math.min(matchScore, deleteScore, insertScore);
-      }
-    }
-    
-    // Backtrack to find optimal alignment
-    const alignment1: number[] = new Array(m).fill(-1);
-    const alignment2: number[] = new Array(n).fill(-1);
-    
-    let i = m, j = n;
-    while (i > 0 && j > 0) {
-      const currentScore = scoreMatrix[i][j];
-      const alignScore = this.alignmentScore(sequence1[i-1], sequence2[j-1]);
-      const matchScore = scoreMatrix[i-1][j-1] + Math.max(alignScore, GAP_PENALTY); // ARCHITECT'S FIX 3: substitution≥gap
-      const deleteScore = scoreMatrix[i-1][j] + GAP_PENALTY;
-      const insertScore = scoreMatrix[i][j-1] + GAP_PENALTY;
-      
-      if (currentScore === matchScore) {
-        // Match/substitution
-        alignment1[i-1] = j-1;
-        alignment2[j-1] = i-1;
-        i--; j--;
-      } else if (currentScore === deleteScore) {
-        // Deletion from sequence1 (gap in sequence2)
-        i--;
-      } else {
-        // Insertion to sequence1 (gap in sequence1)
-        j--;
-      }
-    }
-    
-    console.log(`🧬 Global alignment complete: Score=${scoreMatrix[m][n]}, Seq1=${m}→Seq2=${n}`);
-    
-    return {
-      alignment1,
-      alignment2, 
-      score: scoreMatrix[m][n]
-    };
-  }
-
   /**
    * Interpolate timing from neighboring words when alignment fails
    */
@@ -472,7 +329,8 @@ export class WhisperTimingService {
       start: baseStart,
       end: baseStart + estimatedDuration,
       textStart: word.startIndex,
-      textEnd: word.endIndex
+      textEnd: word.endIndex,
+      isEstimated: true
     };
   }
 
@@ -495,12 +353,12 @@ export class WhisperTimingService {
       const ttsWord = ttsWords[i].text;
       
       // Perfect match
-      if (this.wordsMatch(displayWord, ttsWord)) {
+      if (wordsMatch(displayWord, ttsWord)) {
         return i;
       }
       
       // Similarity-based match
-      const similarity = this.calculateWordSimilarity(displayWord, ttsWord);
+      const similarity = calculateWordSimilarity(displayWord, ttsWord);
       if (similarity > bestSimilarity) {
         bestSimilarity = similarity;
         bestIndex = i;
@@ -528,10 +386,11 @@ export class WhisperTimingService {
     console.log(`🎙️ Whisper timed tokens: ${whisperWords.length}`);
 
     // Step 2: Global alignment between clean TTS words and Whisper timed tokens (FIXED)
-    const ttsToWhisperAlignment = this.globalSequenceAlignment(
+    const ttsToWhisperAlignment = globalSequenceAlignment(
       ttsWords.map(w => w.text),
       whisperWords.map(w => w.word) // CRITICAL FIX: Use timed tokens, not transcript
     );
+    console.log(`🧬 Global alignment complete: Score=${ttsToWhisperAlignment.score}, Seq1=${ttsWords.length}→Seq2=${whisperWords.length}`);
 
     // ARCHITECT'S FIX 2: Strengthen Display↔TTS mapping with bounded lookahead
     const alignedTimings: WordTiming[] = [];
@@ -548,7 +407,7 @@ export class WhisperTimingService {
         ttsIndex = matchedTtsIndex;
       } else {
         // Skip ahead if no reasonable match found within window
-        while (ttsIndex < ttsWords.length && !this.wordsMatch(displayWord.text, ttsWords[ttsIndex].text)) {
+        while (ttsIndex < ttsWords.length && !wordsMatch(displayWord.text, ttsWords[ttsIndex].text)) {
           ttsIndex++;
         }
       }
@@ -618,7 +477,8 @@ export class WhisperTimingService {
         start: scaledStart,
         end: scaledEnd,
         textStart: timing.textStart,
-        textEnd: timing.textEnd
+        textEnd: timing.textEnd,
+        ...(timing.isEstimated ? { isEstimated: true } : {})
       });
       
       lastEnd = scaledEnd;
@@ -0,0 +1,143 @@
+/**
+ * Word matching and sequence alignment shared by the timing services
+ * Used to line up the words a recogniser heard with the words of the known text
+ */
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .replace(/[^\w]/g, ''); // Remove punctuation
+}
+
+/**
+ * Check if two words match (handles case, punctuation, accents)
+ */
+export function wordsMatch(word1: string, word2: string): boolean {
+  return normalizeWord(word1) === normalizeWord(word2);
+}
+
+/**
+ * Calculate Levenshtein distance between two strings
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const substitutionCost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,     // deletion
+        matrix[j - 1][i] + 1,     // insertion
+        matrix[j - 1][i - 1] + substitutionCost // substitution
+      );
+    }
+  }
+
+  return matrix[str2.length][str1.length];
+}
+
+/**
+ * Calculate word similarity using normalized edit distance
+ */
+export function calculateWordSimilarity(word1: string, word2: string): number {
+  const norm1 = normalizeWord(word1);
+  const norm2 = normalizeWord(word2);
+
+  if (norm1 === norm2) return 1.0;
+
+  const maxLen = Math.max(norm1.length, norm2.length);
+  if (maxLen === 0) return 1.0;
+
+  const editDistance = levenshteinDistance(norm1, norm2);
+  return 1.0 - (editDistance / maxLen);
+}
+
+/**
+ * Scoring function for word alignment with case/accent-insensitive matching
+ * Returns 0 for perfect match, positive costs for mismatches
+ */
+export function alignmentScore(word1: string, word2: string): number {
+  if (wordsMatch(word1, word2)) {
+    return 0; // Perfect match
+  }
+
+  // Calculate similarity-based substitution cost
+  const similarity = calculateWordSimilarity(word1, word2);
+  if (similarity > 0.7) {
+    return 1; // Similar words (partial match)
+  } else if (similarity > 0.4) {
+    return 2; // Somewhat similar
+  } else {
+    return 3; // Very different
+  }
+}
+
+/**
+ * Needleman-Wunsch global sequence alignment algorithm
+ * Aligns two sequences of words with optimal global alignment
+ * Memory grows with the product of the lengths, so align long texts a window at a time
+ */
+export function globalSequenceAlignment(sequence1: string[], sequence2: string[]): {
+  alignment1: number[]; // Maps seq1 indices to seq2 indices (-1 = gap)
+  alignment2: number[]; // Maps seq2 indices to seq1 indices (-1 = gap)
+  score: number;
+} {
+  const GAP_PENALTY = 1; // Substitutions never cost less than a gap, so unrelated words stay unaligned
+
+  const m = sequence1.length;
+  const n = sequence2.length;
+
+  // Initialize scoring matrix
+  const scoreMatrix = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  // Initialize first row and column with gap penalties
+  for (let i = 0; i <= m; i++) scoreMatrix[i][0] = i * GAP_PENALTY;
+  for (let j = 0; j <= n; j++) scoreMatrix[0][j] = j * GAP_PENALTY;
+
+  // Fill scoring matrix using dynamic programming
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      const alignScore = alignmentScore(sequence1[i-1], sequence2[j-1]);
+      const matchScore = scoreMatrix[i-1][j-1] + Math.max(alignScore, GAP_PENALTY);
+      const deleteScore = scoreMatrix[i-1][j] + GAP_PENALTY;
+      const insertScore = scoreMatrix[i][j-1] + GAP_PENALTY;
+
+      scoreMatrix[i][j] = Math.min(matchScore, deleteScore, insertScore);
+    }
+  }
+
+  // Backtrack to find optimal alignment
+  const alignment1: number[] = new Array(m).fill(-1);
+  const alignment2: number[] = new Array(n).fill(-1);
+
+  let i = m, j = n;
+  while (i > 0 && j > 0) {
+    const currentScore = scoreMatrix[i][j];
+    const alignScore = alignmentScore(sequence1[i-1], sequence2[j-1]);
+    const matchScore = scoreMatrix[i-1][j-1] + Math.max(alignScore, GAP_PENALTY);
+    const deleteScore = scoreMatrix[i-1][j] + GAP_PENALTY;
+
+    if (currentScore === matchScore) {
+      // Match/substitution
+      alignment1[i-1] = j-1;
+      alignment2[j-1] = i-1;
+      i--; j--;
+    } else if (currentScore === deleteScore) {
+      // Deletion from sequence1 (gap in sequence2)
+      i--;
+    } else {
+      // Insertion to sequence1 (gap in sequence1)
+      j--;
+    }
+  }
+
+  return {
+    alignment1,
+    alignment2,
+    score: scoreMatrix[m][n]
+  };
+}
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Mp3Frame, readMp3Frames, sliceMp3 } from './mp3Slicer';
+import { narrationAudioService } from './narrationAudio';
+import { normalizeSpanishWord } from './spanishLemma';
+
+// Word timing as stored in chapters.elevenLabsTimingData.words (seconds)
+interface TimedWord {
+  text: string;
+  startTime?: number;
+  endTime?: number;
+  start?: number;
+  end?: number;
+  isPause?: boolean;
+}
+
+interface ChapterAudioSource {
+  id: string;
+  audioUrl: string | null;
+  elevenLabsTimingData: unknown;
+}
+
+export interface WordTimeRange {
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+// Lazily loaded chapter narration, see WordClipService.openNarration
+export interface ChapterNarration {
+  load(): Promise<{ buffer: Buffer; frames: Mp3Frame[] }>;
+}
+
+export interface WordClip {
+  filePath: string;
+  audioUrl: string; // Relative to the /audio static route, like chapters.audioUrl
+}
+
+/**
+ * Cuts single-word pronunciation clips out of chapter narration
+ * using the per-word timings stored with each chapter
+ */
+export class WordClipService {
+  private readonly PADDING_SECONDS = 0.15; // Keep a little air around the word
+  private readonly CLIP_DIR = 'clips'; // Under public/audio
+
+  /**
+   * Find when a word (or short phrase) is spoken in a chapter
+   * When the source sentence is known, the occurrence surrounded by most of its words wins
+   */
+  findWordTiming(timingData: unknown, form: string, sentence?: string): WordTimeRange | null {
+    const words = this.getTimedWords(timingData);
+    const target = form.split(/\s+/).map(normalizeSpanishWord).filter(Boolean);
+    if (target.length === 0 || words.length === 0) {
+      return null;
+    }
+
+    const normalized = words.map(w => normalizeSpanishWord(w.text));
+    const candidates = normalized
+      .map((_, index) => (target.every((text, offset) => normalized[index + offset] === text) ? index : -1))
+      .filter(index => index >= 0);
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    let best = candidates[0];
+    if (sentence && candidates.length > 1) {
+      const sentenceWords = new Set(sentence.split(/\s+/).map(normalizeSpanishWord).filter(Boolean));
+      let bestScore = -1;
+
+      for (const index of candidates) {
+        const window = normalized.slice(Math.max(0, index - 6), index + target.length + 6);
+        const score = window.filter(text => sentenceWords.has(text)).length;
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+        }
+      }
+    }
+
+    const first = words[best];
+    const last = words[best + target.length - 1];
+    const start = first.startTime ?? first.start;
+    const end = last.endTime ?? last.end;
+    if (start === undefined || end === undefined || end <= start) {
+      return null;
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Narration of a chapter for cutting clips, read and parsed at most once however many clips are cut from it
+   * Share one between calls when cutting many clips from the same chapter
+   */
+  openNarration(chapter: ChapterAudioSource): ChapterNarration {
+    let loaded: Promise<{ buffer: Buffer; frames: Mp3Frame[] }> | null = null;
+    return {
+      load: () => {
+        if (!chapter.audioUrl) {
+          return Promise.reject(new Error(`Chapter ${chapter.id} has no narration`));
+        }
+        loaded ??= narrationAudioService.read(chapter.audioUrl).then(buffer => ({ buffer, frames: readMp3Frames(buffer) }));
+        return loaded;
+      },
+    };
+  }
+
+  /**
+   * Get the cached MP3 clip of a word, cutting it from the chapter narration on first use
+   * Clips are named by a hash of the narration URL and time range, so regenerated
+   * chapter audio produces new clips instead of serving stale ones
+   * Returns null when the chapter has no audio or no timing for the word
+   */
+  async getClip(chapter: ChapterAudioSource, form: string, sentence?: string, narration?: ChapterNarration): Promise<WordClip | null> {
+    const timing = this.findWordTiming(chapter.elevenLabsTimingData, form, sentence);
+    return timing ? this.getRangeClip(chapter, timing, narration) : null;
+  }
+
+  /**
+   * Get the cached MP3 clip of an arbitrary time range (e.g. a whole sentence) of the chapter narration
+   */
+  async getRangeClip(chapter: ChapterAudioSource, range: WordTimeRange, narration: ChapterNarration = this.openNarration(chapter)): Promise<WordClip | null> {
+    if (!chapter.audioUrl || range.end <= range.start) {
+      return null;
+    }
+
+    const start = Math.max(0, range.start - this.PADDING_SECONDS);
+    const end = range.end + this.PADDING_SECONDS;
+    const key = crypto
+      .createHash('sha1')
+      .update(`${chapter.audioUrl}:${start.toFixed(3)}:${end.toFixed(3)}`)
+      .digest('hex')
+      .slice(0, 16);
+
+    const chapterDir = chapter.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const relativePath = `${this.CLIP_DIR}/${chapterDir}/${key}.mp3`;
+    const filePath = path.join(process.cwd(), 'public', 'audio', relativePath);
+
+    if (!fs.existsSync(filePath)) {
+      const { buffer, frames } = await narration.load();
+      const clip = sliceMp3(buffer, start, end, frames);
+      if (clip.length === 0) {
+        return null;
+      }
+
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, clip);
+      console.log(`✂️ Cut audio clip ${start.toFixed(2)}s-${end.toFixed(2)}s from chapter ${chapter.id}`);
+    }
+
+    return { filePath, audioUrl: `audio/${relativePath}` };
+  }
+
+  /**
+   * Read the MP3 clip of a word from its chapter's narration
+   */
+  async extractClip(chapter: ChapterAudioSource, form: string, sentence?: string, narration?: ChapterNarration): Promise<Buffer | null> {
+    const clip = await this.getClip(chapter, form, sentence, narration);
+    return clip ? fs.promises.readFile(clip.filePath) : null;
+  }
+
+  private getTimedWords(timingData: unknown): TimedWord[] {
+    const words = (timingData as { words?: TimedWord[] } | null)?.words;
+    return Array.isArray(words) ? words.filter(w => w && typeof w.text === 'string' && !w.isPause) : [];
+  }
+}
+
+export const wordClipService = new WordClipService();
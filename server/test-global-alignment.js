@@ -1,4 +1,5 @@
 const { WhisperTimingService } = require('./dist/services/whisperTimingService');
+const { wordsMatch } = require('./dist/services/wordAlignment');
 
 // Test global sequence alignment
 async function testGlobalAlignment() {
@@ -32,11 +33,8 @@ async function testGlobalAlignment() {
   ];
   
   for (const [word1, word2] of testPairs) {
-    const wordsMatch = service.wordsMatch || service['wordsMatch'];
-    if (wordsMatch) {
-      const match = wordsMatch.call(service, word1, word2);
-      console.log(`"${word1}" vs "${word2}": ${match ? '✅ Match' : '❌ No match'}`);
-    }
+    const match = wordsMatch(word1, word2);
+    console.log(`"${word1}" vs "${word2}": ${match ? '✅ Match' : '❌ No match'}`);
   }
   
   console.log('\n3. Testing Alignment Algorithm:');